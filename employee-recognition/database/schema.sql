@@ -4,13 +4,24 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 -- Create enum types
 CREATE TYPE user_role AS ENUM ('EMPLOYEE', 'MANAGER', 'HR', 'ADMIN');
 CREATE TYPE visibility AS ENUM ('PUBLIC', 'PRIVATE', 'ANONYMOUS');
+CREATE TYPE recognition_status AS ENUM ('ACTIVE', 'HIDDEN', 'DELETED', 'SCHEDULED', 'CANCELLED', 'HELD', 'REJECTED');
+CREATE TYPE points_account AS ENUM ('GIVING', 'EARNED');
+CREATE TYPE points_entry_type AS ENUM ('ALLOWANCE_GRANT', 'RECOGNITION_SENT', 'RECOGNITION_RECEIVED', 'RECOGNITION_REFUND', 'REDEMPTION', 'REDEMPTION_REFUND', 'ADJUSTMENT');
+CREATE TYPE redemption_status AS ENUM ('REQUESTED', 'APPROVED', 'FULFILLED', 'REJECTED');
+CREATE TYPE moderation_match_type AS ENUM ('WORDS', 'REGEX');
+CREATE TYPE moderation_action AS ENUM ('REJECT', 'HOLD', 'MASK');
+CREATE TYPE report_status AS ENUM ('OPEN', 'DISMISSED', 'HIDDEN', 'REMOVED');
+CREATE TYPE login_attempt_kind AS ENUM ('PASSWORD', 'CODE', 'MAGIC_LINK', 'CODE_REQUEST');
 
 -- Teams table
 CREATE TABLE teams (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     name VARCHAR(255) NOT NULL,
     description TEXT,
-    created_at TIMESTAMP DEFAULT NOW()
+    parent_team_id UUID REFERENCES teams(id), -- NULL = top-level team
+    external_id VARCHAR(255), -- SCIM externalId from the HR system
+    created_at TIMESTAMP DEFAULT NOW(),
+    archived_at TIMESTAMP -- archived teams keep their recognitions but take no new members
 );
 
 -- Users table
@@ -20,27 +31,397 @@ CREATE TABLE users (
     name VARCHAR(255) NOT NULL,
     role user_role NOT NULL DEFAULT 'EMPLOYEE',
     team_id UUID REFERENCES teams(id),
-    created_at TIMESTAMP DEFAULT NOW()
+    password_hash TEXT, -- scrypt; NULL until the user sets a password
+    is_service_account BOOLEAN NOT NULL DEFAULT FALSE, -- integration principal; signs in only with API keys
+    external_id VARCHAR(255), -- SCIM externalId from the HR system
+    created_at TIMESTAMP DEFAULT NOW(),
+    deactivated_at TIMESTAMP, -- set by an admin; kept for historical recognitions, cannot sign in or be recognized
+    erased_at TIMESTAMP -- set on erasure, when name and email are replaced; the row stays for recognitions and points
+);
+
+-- Team managers see their team and its sub-teams; added here because users references teams
+ALTER TABLE teams ADD COLUMN manager_id UUID REFERENCES users(id);
+
+-- Team access beyond the teams a user manages (HR and admins see every team)
+CREATE TABLE team_access_grants (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id),
+    team_id UUID NOT NULL REFERENCES teams(id),
+    include_sub_teams BOOLEAN NOT NULL DEFAULT TRUE,
+    granted_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    expires_at TIMESTAMP, -- NULL = until revoked
+    UNIQUE (user_id, team_id)
 );
 
 -- Recognitions table
 CREATE TABLE recognitions (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     sender_id UUID REFERENCES users(id), -- NULL for anonymous
+    recipient_id UUID NOT NULL REFERENCES users(id), -- primary recipient; all recipients are in recognition_recipients
+    team_id UUID REFERENCES teams(id), -- set for whole-team recognitions
+    message TEXT NOT NULL,
+    visibility visibility NOT NULL,
+    keywords JSONB DEFAULT '[]',
+    points INTEGER NOT NULL DEFAULT 0 CHECK (points >= 0), -- points per recipient
+    status recognition_status NOT NULL DEFAULT 'ACTIVE', -- HIDDEN = hidden by a moderator; HELD = awaiting moderation review
+    scheduled_for TIMESTAMP, -- delivery time for SCHEDULED recognitions
+    deleted_at TIMESTAMP,
+    deleted_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(), -- delivery time; reset when a scheduled recognition is published
+    updated_at TIMESTAMP,
+    -- Full-text search document: message (weight A) plus extracted keywords (weight B)
+    search_vector TSVECTOR GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', message), 'A') ||
+        setweight(jsonb_to_tsvector('english', COALESCE(keywords, '[]'), '["string"]'), 'B')
+    ) STORED
+);
+
+-- Company values catalog (admin-managed)
+CREATE TABLE company_values (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) UNIQUE NOT NULL,
+    description TEXT,
+    emoji VARCHAR(32),
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP
+);
+
+-- Company values a recognition is tagged with
+CREATE TABLE recognition_values (
+    recognition_id UUID NOT NULL REFERENCES recognitions(id) ON DELETE CASCADE,
+    value_id UUID NOT NULL REFERENCES company_values(id),
+    PRIMARY KEY (recognition_id, value_id)
+);
+
+-- Recognition recipients (one row per recipient, including the primary recipient)
+CREATE TABLE recognition_recipients (
+    recognition_id UUID NOT NULL REFERENCES recognitions(id) ON DELETE CASCADE,
     recipient_id UUID NOT NULL REFERENCES users(id),
+    PRIMARY KEY (recognition_id, recipient_id)
+);
+
+-- Users @mentioned in a recognition message (resolved at write time)
+CREATE TABLE recognition_mentions (
+    recognition_id UUID NOT NULL REFERENCES recognitions(id),
+    user_id UUID NOT NULL REFERENCES users(id),
+    PRIMARY KEY (recognition_id, user_id)
+);
+
+-- Slack/Teams accounts linked to users (admin-managed)
+CREATE TABLE chat_identities (
+    provider VARCHAR(20) NOT NULL CHECK (provider IN ('SLACK', 'TEAMS')),
+    external_id VARCHAR(255) NOT NULL,
+    user_id UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (provider, external_id)
+);
+
+-- OpenID Connect accounts linked to users (created on first single sign-on)
+CREATE TABLE oidc_identities (
+    issuer VARCHAR(255) NOT NULL,
+    subject VARCHAR(255) NOT NULL,
+    user_id UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (issuer, subject)
+);
+
+-- Recognition revisions table (snapshot of the previous content on every edit)
+CREATE TABLE recognition_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    recognition_id UUID NOT NULL REFERENCES recognitions(id) ON DELETE CASCADE,
     message TEXT NOT NULL,
     visibility visibility NOT NULL,
     keywords JSONB DEFAULT '[]',
+    edited_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Emoji reactions (one row per user per emoji)
+CREATE TABLE recognition_reactions (
+    recognition_id UUID NOT NULL REFERENCES recognitions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id),
+    emoji VARCHAR(32) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (recognition_id, user_id, emoji)
+);
+
+-- Threaded comments (parent_id is NULL for top-level comments)
+CREATE TABLE recognition_comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    recognition_id UUID NOT NULL REFERENCES recognitions(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL REFERENCES users(id),
+    parent_id UUID REFERENCES recognition_comments(id),
+    body TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP,
+    deleted_at TIMESTAMP
+);
+
+-- Monthly giving allowance per role
+CREATE TABLE role_point_allowances (
+    role user_role PRIMARY KEY,
+    monthly_allowance INTEGER NOT NULL CHECK (monthly_allowance >= 0),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Rewards catalog (HR/ADMIN-managed). A reward can be redeemed while NOW() is
+-- inside its active window and it has stock left (NULL stock = unlimited).
+CREATE TABLE rewards (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    cost INTEGER NOT NULL CHECK (cost > 0),
+    stock INTEGER CHECK (stock >= 0),
+    active_from TIMESTAMP NOT NULL DEFAULT NOW(),
+    active_until TIMESTAMP,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CHECK (active_until IS NULL OR active_until > active_from)
+);
+
+-- Reward redemptions; cost is copied from the reward at request time
+CREATE TABLE reward_redemptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    reward_id UUID NOT NULL REFERENCES rewards(id),
+    user_id UUID NOT NULL REFERENCES users(id),
+    cost INTEGER NOT NULL CHECK (cost > 0),
+    status redemption_status NOT NULL DEFAULT 'REQUESTED',
+    reviewed_by UUID REFERENCES users(id),
+    reviewed_at TIMESTAMP,
+    note TEXT, -- rejection reason or fulfilment details
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Moderation rules (admin-managed). WORDS rules match whole words/phrases,
+-- REGEX rules are regular expressions; both are case-insensitive.
+CREATE TABLE moderation_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    match_type moderation_match_type NOT NULL,
+    terms JSONB NOT NULL DEFAULT '[]',
+    action moderation_action NOT NULL,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- One row per message that matched a moderation rule. Rejected messages never
+-- become recognitions, so the submitted text is kept here for HR.
+CREATE TABLE moderation_decisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    recognition_id UUID REFERENCES recognitions(id), -- NULL when rejected
+    user_id UUID REFERENCES users(id), -- NULL for anonymous recognitions
+    context VARCHAR(10) NOT NULL CHECK (context IN ('CREATE', 'UPDATE')),
+    action moderation_action NOT NULL, -- strictest action of the matching rules
+    message TEXT NOT NULL, -- as submitted, before masking
+    matches JSONB NOT NULL, -- [{ruleId, ruleName, action, matched}]
+    reviewed_by UUID REFERENCES users(id),
+    reviewed_at TIMESTAMP,
+    review_outcome VARCHAR(10) CHECK (review_outcome IN ('RELEASED', 'REJECTED')),
+    review_note TEXT,
     created_at TIMESTAMP DEFAULT NOW()
 );
 
+-- User reports of abusive or inappropriate recognitions. Reports on the same
+-- recognition are resolved together from the HR moderation queue.
+CREATE TABLE recognition_reports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    recognition_id UUID NOT NULL REFERENCES recognitions(id),
+    reporter_id UUID NOT NULL REFERENCES users(id),
+    reason TEXT NOT NULL,
+    status report_status NOT NULL DEFAULT 'OPEN',
+    resolved_by UUID REFERENCES users(id),
+    resolved_at TIMESTAMP,
+    note TEXT, -- moderator's note on the resolution
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(recognition_id, reporter_id)
+);
+
+-- Every moderator action taken on a recognition (report resolutions, held
+-- message reviews, and deletions/restores of other people's recognitions)
+CREATE TABLE moderation_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    recognition_id UUID NOT NULL REFERENCES recognitions(id),
+    moderator_id UUID NOT NULL REFERENCES users(id),
+    action VARCHAR(20) NOT NULL CHECK (action IN ('DISMISS', 'HIDE', 'REMOVE', 'RESTORE', 'RELEASE', 'REJECT')),
+    previous_status recognition_status NOT NULL,
+    new_status recognition_status NOT NULL,
+    note TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Real sender of each ANONYMOUS recognition, AES-256-GCM encrypted with the
+-- recognition ID as associated data. Only read by revealAnonymousSender.
+CREATE TABLE anonymous_sender_escrow (
+    recognition_id UUID PRIMARY KEY REFERENCES recognitions(id),
+    encrypted_sender_id BYTEA NOT NULL,
+    iv BYTEA NOT NULL,
+    auth_tag BYTEA NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- One row per recognition sent, for per-sender rate limits; rows are pruned
+-- after a week. There is no recognition ID. Anonymous sends store neither the
+-- sender nor the recipients: only HMAC pseudonyms (keyed from
+-- ANONYMOUS_ESCROW_KEY) of the sender and of each sender/recipient pair, and
+-- the end of the hour they were sent in instead of the exact time, so a row
+-- cannot be matched to an anonymous recognition or its sender.
+CREATE TABLE recognition_send_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sender_id UUID REFERENCES users(id),
+    recipient_ids UUID[],
+    sender_key TEXT,
+    recipient_keys TEXT[],
+    sent_at TIMESTAMP DEFAULT NOW(),
+    CHECK ((sender_id IS NULL) <> (sender_key IS NULL))
+);
+
+-- One-time login codes and magic links. Only SHA-256 hashes are stored; a row
+-- is consumed by its first successful use or burned after too many wrong codes.
+CREATE TABLE login_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id),
+    code_hash VARCHAR(64) NOT NULL,
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP NOT NULL,
+    consumed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Login attempts by submitted email (known or not) and IP, for throttling.
+-- succeeded is NULL for code requests. Pruned after a day.
+CREATE TABLE login_attempts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    email VARCHAR(255) NOT NULL,
+    ip_address VARCHAR(64),
+    kind login_attempt_kind NOT NULL,
+    succeeded BOOLEAN,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Sign-in sessions. Access tokens carry the session ID; the refresh token is
+-- stored as a hash and rotates on every use. Reusing the previous refresh token
+-- revokes the session.
+CREATE TABLE sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id),
+    refresh_token_hash VARCHAR(64) UNIQUE NOT NULL,
+    previous_refresh_token_hash VARCHAR(64),
+    ip_address VARCHAR(64),
+    user_agent VARCHAR(500),
+    created_at TIMESTAMP DEFAULT NOW(),
+    last_used_at TIMESTAMP DEFAULT NOW(),
+    expires_at TIMESTAMP NOT NULL, -- pushed back on every refresh
+    revoked_at TIMESTAMP,
+    revoked_reason VARCHAR(30) -- USER, ADMIN or REFRESH_TOKEN_REUSED
+);
+
+-- Scoped API keys of service accounts; only the SHA-256 hash of a key is stored
+CREATE TABLE api_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    service_account_id UUID NOT NULL REFERENCES users(id),
+    name VARCHAR(100) NOT NULL,
+    prefix VARCHAR(16) NOT NULL, -- shown in listings to tell keys apart
+    key_hash VARCHAR(64) UNIQUE NOT NULL,
+    scopes TEXT[] NOT NULL,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    last_used_at TIMESTAMP, -- updated at most once a minute
+    expires_at TIMESTAMP, -- NULL = no expiry; set to the end of the grace period on rotation
+    revoked_at TIMESTAMP
+);
+
+-- Single sign-on requests awaiting the identity provider redirect; each state works once
+CREATE TABLE oidc_login_requests (
+    state_hash VARCHAR(64) PRIMARY KEY,
+    code_verifier VARCHAR(128) NOT NULL, -- PKCE
+    nonce VARCHAR(128) NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Append-only record of sensitive actions (e.g. revealing an anonymous sender)
+CREATE TABLE audit_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    actor_id UUID REFERENCES users(id),
+    action VARCHAR(50) NOT NULL,
+    entity_type VARCHAR(50) NOT NULL,
+    entity_id UUID,
+    details JSONB DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Append-only points ledger. GIVING entries are scoped to the monthly period in
+-- period_start; EARNED entries accumulate across periods.
+CREATE TABLE points_ledger (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id),
+    account points_account NOT NULL,
+    entry_type points_entry_type NOT NULL,
+    amount INTEGER NOT NULL,
+    period_start DATE NOT NULL,
+    recognition_id UUID REFERENCES recognitions(id),
+    redemption_id UUID REFERENCES reward_redemptions(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE FUNCTION prevent_points_ledger_changes() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'points_ledger is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER points_ledger_append_only
+    BEFORE UPDATE OR DELETE ON points_ledger
+    FOR EACH ROW EXECUTE FUNCTION prevent_points_ledger_changes();
+
 -- Indexes for performance
 CREATE INDEX idx_recognitions_recipient ON recognitions(recipient_id);
 CREATE INDEX idx_recognitions_sender ON recognitions(sender_id);
 CREATE INDEX idx_recognitions_created_at ON recognitions(created_at);
 CREATE INDEX idx_recognitions_visibility ON recognitions(visibility);
+CREATE INDEX idx_recognitions_status ON recognitions(status);
+CREATE INDEX idx_recognitions_search ON recognitions USING GIN(search_vector);
+CREATE INDEX idx_recognitions_scheduled ON recognitions(scheduled_for) WHERE status = 'SCHEDULED';
+CREATE INDEX idx_recognition_recipients_recipient ON recognition_recipients(recipient_id);
+CREATE INDEX idx_recognition_mentions_user ON recognition_mentions(user_id);
+CREATE INDEX idx_chat_identities_user ON chat_identities(user_id);
+CREATE INDEX idx_oidc_identities_user ON oidc_identities(user_id);
+CREATE INDEX idx_recognition_values_value ON recognition_values(value_id);
+CREATE INDEX idx_recognition_revisions_recognition ON recognition_revisions(recognition_id, created_at);
+CREATE INDEX idx_recognition_reactions_recognition ON recognition_reactions(recognition_id);
+CREATE INDEX idx_recognition_comments_recognition ON recognition_comments(recognition_id, created_at);
+CREATE INDEX idx_recognition_comments_parent ON recognition_comments(parent_id);
+CREATE INDEX idx_points_ledger_user ON points_ledger(user_id, account, period_start);
+CREATE UNIQUE INDEX idx_points_ledger_allowance_grant ON points_ledger(user_id, period_start) WHERE entry_type = 'ALLOWANCE_GRANT';
+CREATE INDEX idx_reward_redemptions_user ON reward_redemptions(user_id, created_at);
+CREATE INDEX idx_reward_redemptions_status ON reward_redemptions(status, created_at);
+CREATE INDEX idx_moderation_decisions_recognition ON moderation_decisions(recognition_id);
+CREATE INDEX idx_moderation_decisions_created_at ON moderation_decisions(created_at);
+CREATE INDEX idx_recognition_reports_status ON recognition_reports(status, created_at);
+CREATE INDEX idx_moderation_log_recognition ON moderation_log(recognition_id, created_at);
+CREATE INDEX idx_recognition_send_log_sender ON recognition_send_log(sender_id, sent_at);
+CREATE INDEX idx_recognition_send_log_sender_key ON recognition_send_log(sender_key, sent_at);
+CREATE INDEX idx_login_codes_user ON login_codes(user_id, created_at);
+CREATE INDEX idx_login_attempts_email ON login_attempts(email, created_at);
+CREATE INDEX idx_login_attempts_ip ON login_attempts(ip_address, created_at);
+CREATE INDEX idx_sessions_user ON sessions(user_id, last_used_at);
+CREATE INDEX idx_sessions_previous_refresh_token ON sessions(previous_refresh_token_hash);
+CREATE INDEX idx_api_keys_service_account ON api_keys(service_account_id, created_at);
+CREATE INDEX idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at);
 CREATE INDEX idx_users_team ON users(team_id);
 CREATE INDEX idx_users_role ON users(role);
+CREATE INDEX idx_users_external_id ON users(external_id);
+CREATE INDEX idx_teams_external_id ON teams(external_id);
+CREATE INDEX idx_teams_manager ON teams(manager_id);
+CREATE INDEX idx_teams_parent ON teams(parent_team_id);
+CREATE UNIQUE INDEX idx_teams_active_name ON teams(LOWER(name)) WHERE archived_at IS NULL;
 
 -- Sample data for testing
 INSERT INTO teams (id, name, description) VALUES 
@@ -48,16 +429,45 @@ INSERT INTO teams (id, name, description) VALUES
     ('550e8400-e29b-41d4-a716-446655440002', 'Marketing', 'Marketing and growth team'),
     ('550e8400-e29b-41d4-a716-446655440003', 'HR', 'Human resources team');
 
+INSERT INTO teams (id, name, description, parent_team_id) VALUES 
+    ('550e8400-e29b-41d4-a716-446655440004', 'Platform', 'Shared infrastructure and tooling', '550e8400-e29b-41d4-a716-446655440001');
+
 INSERT INTO users (id, email, name, role, team_id) VALUES 
     ('650e8400-e29b-41d4-a716-446655440001', 'john@company.com', 'John Doe', 'MANAGER', '550e8400-e29b-41d4-a716-446655440001'),
     ('650e8400-e29b-41d4-a716-446655440002', 'jane@company.com', 'Jane Smith', 'EMPLOYEE', '550e8400-e29b-41d4-a716-446655440001'),
     ('650e8400-e29b-41d4-a716-446655440003', 'bob@company.com', 'Bob Wilson', 'HR', '550e8400-e29b-41d4-a716-446655440003'),
     ('650e8400-e29b-41d4-a716-446655440004', 'alice@company.com', 'Alice Brown', 'EMPLOYEE', '550e8400-e29b-41d4-a716-446655440002');
 
+UPDATE teams SET manager_id = '650e8400-e29b-41d4-a716-446655440001'
+WHERE id = '550e8400-e29b-41d4-a716-446655440001';
+
+INSERT INTO role_point_allowances (role, monthly_allowance) VALUES 
+    ('EMPLOYEE', 100),
+    ('MANAGER', 250),
+    ('HR', 250),
+    ('ADMIN', 100);
+
+INSERT INTO company_values (id, name, description, emoji) VALUES 
+    ('750e8400-e29b-41d4-a716-446655440001', 'Customer Obsession', 'Start with the customer and work backwards', '🎯'),
+    ('750e8400-e29b-41d4-a716-446655440002', 'Ownership', 'Act on behalf of the whole company', '🛠️'),
+    ('750e8400-e29b-41d4-a716-446655440003', 'Teamwork', 'Win together and help others succeed', '🤝');
+
+INSERT INTO rewards (id, title, description, cost, stock) VALUES 
+    ('850e8400-e29b-41d4-a716-446655440001', 'Coffee voucher', 'A coffee on the company', 50, NULL),
+    ('850e8400-e29b-41d4-a716-446655440002', 'Extra day off', 'One additional day of paid leave', 1000, 10),
+    ('850e8400-e29b-41d4-a716-446655440003', 'Company hoodie', 'Limited edition hoodie', 300, 25);
+
+-- Replaces the old hard-coded blocked words, now matched as whole words only
+INSERT INTO moderation_rules (name, match_type, terms, action) VALUES 
+    ('Blocked words', 'WORDS', '["spam", "hate", "offensive", "inappropriate"]', 'REJECT');
+
 INSERT INTO recognitions (sender_id, recipient_id, message, visibility, keywords) VALUES 
     ('650e8400-e29b-41d4-a716-446655440001', '650e8400-e29b-41d4-a716-446655440002', 'Excellent work on the project delivery!', 'PUBLIC', '["excellent", "work", "project", "delivery"]'),
     ('650e8400-e29b-41d4-a716-446655440002', '650e8400-e29b-41d4-a716-446655440004', 'Great collaboration on the marketing campaign', 'PUBLIC', '["great", "collaboration", "marketing", "campaign"]'),
     (NULL, '650e8400-e29b-41d4-a716-446655440001', 'Outstanding leadership during the crisis', 'ANONYMOUS', '["outstanding", "leadership", "crisis"]');
 
+INSERT INTO recognition_recipients (recognition_id, recipient_id)
+SELECT id, recipient_id FROM recognitions;
+
 -- Verify installation
 SELECT 'Database setup complete!' as status;
\ No newline at end of file
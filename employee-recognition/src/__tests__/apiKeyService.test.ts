@@ -0,0 +1,157 @@
+import { ApiKeyService } from '../services/ApiKeyService';
+import { hashApiKey } from '../utils/apiKeys';
+
+const mockDb = {
+  query: jest.fn(),
+  connect: jest.fn(),
+};
+
+const mockAuditService = {
+  record: jest.fn(),
+};
+
+const apiKeyRow = {
+  id: 'key-1',
+  service_account_id: 'svc-1',
+  name: 'HRIS sync',
+  prefix: 'abcd1234',
+  scopes: ['recognitions:write'],
+  expires_at: null,
+  created_at: new Date()
+};
+
+describe('ApiKeyService', () => {
+  let apiKeyService: ApiKeyService;
+
+  beforeEach(() => {
+    apiKeyService = new ApiKeyService(mockDb as any, mockAuditService as any);
+    mockDb.connect.mockResolvedValue({ query: mockDb.query, release: jest.fn() });
+  });
+
+  describe('authenticate', () => {
+    it('should resolve a key to its service account and scopes', async () => {
+      mockDb.query.mockResolvedValueOnce({
+        rows: [{ api_key_id: 'key-1', scopes: ['analytics:read'], id: 'svc-1', email: 'x@service-accounts.invalid', name: 'Dashboards', role: 'HR' }]
+      });
+      mockDb.query.mockResolvedValueOnce({ rows: [] });
+
+      const principal = await apiKeyService.authenticate('rk_abcd1234_secret');
+
+      expect(principal).toMatchObject({ id: 'svc-1', role: 'HR', apiKeyId: 'key-1', scopes: ['analytics:read'] });
+      expect(mockDb.query.mock.calls[0][1]).toEqual([hashApiKey('rk_abcd1234_secret')]);
+      // last_used_at is only written when it is stale
+      expect(mockDb.query.mock.calls[1][0]).toContain('last_used_at < NOW() - make_interval(secs => $2)');
+    });
+
+    it('should reject unknown, revoked and expired keys', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      await expect(apiKeyService.authenticate('rk_abcd1234_wrong')).rejects.toThrow('Invalid or revoked API key');
+      expect(mockDb.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('service accounts', () => {
+    it('should create a service account that cannot sign in as a person', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ id: 'svc-1', name: 'HRIS sync', role: 'EMPLOYEE', created_at: new Date() }] });
+
+      const account = await apiKeyService.createServiceAccount('admin-1', 'ADMIN', { name: ' HRIS sync ' });
+
+      expect(account).toMatchObject({ id: 'svc-1', name: 'HRIS sync' });
+      const insert = mockDb.query.mock.calls.find(([query]) => query.includes('INSERT INTO users'));
+      expect(insert![0]).toContain('is_service_account');
+      expect(insert![1][0]).toMatch(/@service-accounts\.invalid$/);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'CREATE_SERVICE_ACCOUNT', entityId: 'svc-1' }),
+        expect.anything()
+      );
+    });
+
+    it('should not create admin service accounts', async () => {
+      await expect(
+        apiKeyService.createServiceAccount('admin-1', 'ADMIN', { name: 'Root', role: 'ADMIN' })
+      ).rejects.toThrow('Service accounts can have the role EMPLOYEE, MANAGER, HR');
+    });
+
+    it('should require the admin role', async () => {
+      await expect(apiKeyService.createServiceAccount('hr-1', 'HR', { name: 'Bot' })).rejects.toThrow(
+        'Insufficient permissions - Admin role required'
+      );
+      await expect(apiKeyService.getServiceAccounts('MANAGER')).rejects.toThrow(
+        'Insufficient permissions - Admin role required'
+      );
+    });
+  });
+
+  describe('createApiKey', () => {
+    it('should return the key once and store only its hash', async () => {
+      mockDb.query
+        .mockResolvedValueOnce({ rows: [{ id: 'svc-1' }] })
+        .mockResolvedValue({ rows: [apiKeyRow] });
+
+      const result = await apiKeyService.createApiKey('admin-1', 'ADMIN', {
+        serviceAccountId: 'svc-1',
+        name: 'HRIS sync',
+        scopes: ['recognitions:write', 'recognitions:write']
+      });
+
+      expect(result.key).toMatch(/^rk_[0-9a-f]{8}_/);
+      const insert = mockDb.query.mock.calls.find(([query]) => query.includes('INSERT INTO api_keys'));
+      expect(insert![1][3]).toBe(hashApiKey(result.key));
+      expect(insert![1][4]).toEqual(['recognitions:write']);
+      expect(JSON.stringify(result.apiKey)).not.toContain(result.key);
+    });
+
+    it('should reject unknown scopes', async () => {
+      await expect(
+        apiKeyService.createApiKey('admin-1', 'ADMIN', { serviceAccountId: 'svc-1', name: 'Key', scopes: ['everything'] })
+      ).rejects.toThrow('Unknown scope: everything');
+    });
+
+    it('should only create keys for service accounts', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      await expect(
+        apiKeyService.createApiKey('admin-1', 'ADMIN', { serviceAccountId: 'user-1', name: 'Key', scopes: ['users:read'] })
+      ).rejects.toThrow('Service account not found');
+    });
+  });
+
+  describe('rotateApiKey', () => {
+    it('should issue a replacement and keep the old key for the grace period', async () => {
+      mockDb.query.mockResolvedValue({ rows: [apiKeyRow] });
+
+      const result = await apiKeyService.rotateApiKey('admin-1', 'ADMIN', 'key-1', 2);
+
+      const insert = mockDb.query.mock.calls.find(([query]) => query.includes('INSERT INTO api_keys'));
+      expect(insert![1]).toEqual(['svc-1', 'HRIS sync', expect.any(String), hashApiKey(result.key), ['recognitions:write'], null, 'admin-1']);
+      expect(mockDb.query).toHaveBeenCalledWith(expect.stringContaining('NOW() + make_interval(hours => $2)'), ['key-1', 2]);
+    });
+
+    it('should revoke the old key at once without a grace period', async () => {
+      mockDb.query.mockResolvedValue({ rows: [apiKeyRow] });
+
+      await apiKeyService.rotateApiKey('admin-1', 'ADMIN', 'key-1', 0);
+
+      expect(mockDb.query).toHaveBeenCalledWith('UPDATE api_keys SET revoked_at = NOW() WHERE id = $1', ['key-1']);
+    });
+
+    it('should not rotate revoked keys', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      await expect(apiKeyService.rotateApiKey('admin-1', 'ADMIN', 'key-1')).rejects.toThrow('API key not found');
+    });
+  });
+
+  describe('revokeApiKey', () => {
+    it('should revoke a key and audit it', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ id: 'key-1' }] });
+
+      await expect(apiKeyService.revokeApiKey('admin-1', 'ADMIN', 'key-1')).resolves.toBe(true);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'REVOKE_API_KEY', entityId: 'key-1' }),
+        expect.anything()
+      );
+    });
+  });
+});
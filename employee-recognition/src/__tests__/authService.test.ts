@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import { AuthService } from '../services/AuthService';
+import { RateLimitError } from '../utils/errorHandler';
+import { hashPassword } from '../utils/passwords';
+
+const mockDb = {
+  query: jest.fn(),
+};
+
+const mockMailer = {
+  send: jest.fn(),
+};
+
+const mockSessionService = {
+  createSession: jest.fn(),
+};
+
+const userRow = {
+  id: 'user-1',
+  email: 'Jane@company.com',
+  name: 'Jane',
+  role: 'EMPLOYEE',
+  password_hash: null,
+  created_at: new Date()
+};
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+describe('AuthService', () => {
+  let authService: AuthService;
+  let failures: any[];
+  let codeRequests: any[];
+
+  beforeEach(() => {
+    authService = new AuthService(mockDb as any, mockMailer, mockSessionService as any);
+    mockSessionService.createSession.mockImplementation((user: any) => Promise.resolve({ token: 'token', user: { id: user.id } }));
+    failures = [];
+    codeRequests = [];
+    mockDb.query.mockImplementation((query: string) => {
+      if (query.includes('FROM login_attempts')) {
+        return Promise.resolve({ rows: query.includes(`kind = 'CODE_REQUEST'`) ? codeRequests : failures });
+      }
+      if (query.includes('FROM users')) {
+        return Promise.resolve({ rows: [userRow] });
+      }
+      return Promise.resolve({ rows: [] });
+    });
+  });
+
+  const attemptsRecorded = () =>
+    mockDb.query.mock.calls.filter(([query]) => query.includes('INSERT INTO login_attempts')).map(([, params]) => params);
+
+  describe('login', () => {
+    it('should reject users without a password with the generic error', async () => {
+      await expect(authService.login('jane@company.com', 'a guess of a password')).rejects.toThrow(
+        'Invalid email or password'
+      );
+      expect(attemptsRecorded()).toEqual([['jane@company.com', null, 'PASSWORD', false]]);
+    });
+
+    it('should throttle an email after repeated failures', async () => {
+      failures = Array.from({ length: 5 }, (_, i) => ({ age_seconds: String(60 * (i + 1)), same_email: true, same_ip: false }));
+
+      const error = await authService.login('jane@company.com', 'whatever', { ipAddress: '10.0.0.1' }).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.retryAfter).toBe(15 * 60 - 300);
+      expect(attemptsRecorded()).toEqual([]);
+    });
+
+    it('should throttle an IP across emails', async () => {
+      failures = Array.from({ length: 20 }, () => ({ age_seconds: '30', same_email: false, same_ip: true }));
+
+      await expect(authService.login('someone@company.com', 'whatever', { ipAddress: '10.0.0.1' })).rejects.toThrow(
+        'Too many failed login attempts'
+      );
+    });
+  });
+
+  describe('login codes', () => {
+    it('should email a code and magic link and store only their hashes', async () => {
+      await expect(authService.requestLoginCode(' JANE@company.com ', { ipAddress: '10.0.0.1' })).resolves.toBe(true);
+
+      const message = mockMailer.send.mock.calls[0][0];
+      const code = message.text.match(/code is (\d{6})/)[1];
+      const token = message.text.match(/token=([\w-]+)/)[1];
+      const insert = mockDb.query.mock.calls.find(([query]) => query.includes('INSERT INTO login_codes'));
+
+      expect(message.to).toBe('Jane@company.com');
+      expect(insert![1]).toEqual(['user-1', sha256(code), sha256(token), 15]);
+      expect(attemptsRecorded()).toEqual([['jane@company.com', '10.0.0.1', 'CODE_REQUEST', null]]);
+    });
+
+    it('should answer the same for unknown emails without sending anything', async () => {
+      mockDb.query.mockImplementation(() => Promise.resolve({ rows: [] }));
+
+      await expect(authService.requestLoginCode('nobody@company.com')).resolves.toBe(true);
+      expect(mockMailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should silently drop requests over the limit', async () => {
+      codeRequests = Array.from({ length: 3 }, () => ({ age_seconds: '10', same_email: true, same_ip: true }));
+
+      await expect(authService.requestLoginCode('jane@company.com')).resolves.toBe(true);
+      expect(mockMailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should log in with a valid code and consume it', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('FROM login_codes')) {
+          return Promise.resolve({ rows: [{ id: 'code-1', code_hash: sha256('123456') }] });
+        }
+        if (query.includes('SET consumed_at = NOW() WHERE id = $1')) {
+          return Promise.resolve({ rows: [{ id: 'code-1' }] });
+        }
+        if (query.includes('FROM users')) {
+          return Promise.resolve({ rows: [userRow] });
+        }
+        return Promise.resolve({ rows: [] });
+      });
+
+      const result = await authService.loginWithCode('jane@company.com', ' 123456 ', { ipAddress: '10.0.0.1', userAgent: 'Firefox' });
+
+      expect(result.user.id).toBe('user-1');
+      expect(mockSessionService.createSession).toHaveBeenCalledWith(userRow, { ipAddress: '10.0.0.1', userAgent: 'Firefox' });
+      expect(attemptsRecorded()).toEqual([['jane@company.com', '10.0.0.1', 'CODE', true]]);
+    });
+
+    it('should count wrong codes against the code', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('FROM login_codes')) {
+          return Promise.resolve({ rows: [{ id: 'code-1', code_hash: sha256('123456') }] });
+        }
+        return Promise.resolve({ rows: query.includes('FROM users') ? [userRow] : [] });
+      });
+
+      await expect(authService.loginWithCode('jane@company.com', '654321')).rejects.toThrow('Invalid or expired login code');
+      expect(mockDb.query).toHaveBeenCalledWith(expect.stringContaining('attempts = attempts + 1'), ['code-1', 5]);
+    });
+
+    it('should log in once with a magic link', async () => {
+      mockDb.query.mockImplementation((query: string, params: any[]) => {
+        if (query.includes('UPDATE login_codes lc')) {
+          return Promise.resolve({ rows: params[0] === sha256('link-token') ? [userRow] : [] });
+        }
+        return Promise.resolve({ rows: [] });
+      });
+
+      await expect(authService.loginWithMagicLink('link-token')).resolves.toMatchObject({ user: { id: 'user-1' } });
+      await expect(authService.loginWithMagicLink('other-token')).rejects.toThrow('Invalid or expired login link');
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should store a salted hash of a new password', async () => {
+      await authService.changePassword('user-1', undefined, 'a long enough password');
+
+      const update = mockDb.query.mock.calls.find(([query]) => query.includes('SET password_hash'));
+      expect(update![1][1]).toMatch(/^scrypt\$/);
+      expect(update![1][1]).not.toContain('a long enough password');
+    });
+
+    it('should require the current password once one is set', async () => {
+      const withPassword = { ...userRow, password_hash: await hashPassword('the current password') };
+      mockDb.query.mockResolvedValue({ rows: [withPassword] });
+
+      await expect(authService.changePassword('user-1', 'not the password', 'a long enough password')).rejects.toThrow(
+        'Current password is incorrect'
+      );
+    });
+
+    it('should enforce the password policy', async () => {
+      await expect(authService.changePassword('user-1', undefined, 'short')).rejects.toThrow(
+        'Password must be at least 12 characters'
+      );
+    });
+  });
+});
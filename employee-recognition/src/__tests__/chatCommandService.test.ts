@@ -0,0 +1,95 @@
+import { ChatCommandService } from '../services/ChatCommandService';
+
+const mockDb = {
+  query: jest.fn(),
+};
+
+const mockRecognitionService = {
+  createRecognition: jest.fn(),
+};
+
+describe('ChatCommandService', () => {
+  let chatCommandService: ChatCommandService;
+
+  beforeEach(() => {
+    chatCommandService = new ChatCommandService(mockDb as any, mockRecognitionService as any);
+  });
+
+  describe('linkIdentity', () => {
+    it('should only let admins link chat accounts', async () => {
+      await expect(
+        chatCommandService.linkIdentity('HR', 'user-1', 'SLACK', 'U123')
+      ).rejects.toThrow('Insufficient permissions - Admin role required');
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+
+    it('should upsert the identity', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      await expect(chatCommandService.linkIdentity('ADMIN', 'user-1', 'SLACK', ' U123 ')).resolves.toBe(true);
+      expect(mockDb.query).toHaveBeenCalledWith(
+        expect.stringContaining('ON CONFLICT (provider, external_id)'),
+        ['SLACK', 'U123', 'user-1']
+      );
+    });
+  });
+
+  describe('handleRecognitionCommand', () => {
+    const linkedRows = [
+      { external_id: 'U1', id: 'user-1', email: 'sender@company.com' },
+      { external_id: 'U2', id: 'user-2', email: 'jane@company.com' },
+      { external_id: 'U3', id: 'user-3', email: 'bob@company.com' }
+    ];
+
+    it('should recognize the first mention and rewrite the rest as @mentions', async () => {
+      mockDb.query.mockResolvedValue({ rows: linkedRows });
+      mockRecognitionService.createRecognition.mockResolvedValue({ id: 'rec-1' });
+
+      const result = await chatCommandService.handleRecognitionCommand({
+        provider: 'SLACK',
+        senderExternalId: 'U1',
+        text: 'kudos <@U2> for pairing with <@U3|bob>',
+        mentions: [
+          { externalId: 'U2', text: '<@U2>' },
+          { externalId: 'U3', text: '<@U3|bob>' }
+        ]
+      });
+
+      expect(result).toEqual({ ok: true, message: 'Recognition sent!', recognitionId: 'rec-1' });
+      expect(mockRecognitionService.createRecognition).toHaveBeenCalledWith('user-1', {
+        recipientId: 'user-2',
+        message: '@jane@company.com for pairing with @bob@company.com',
+        visibility: 'PUBLIC'
+      });
+    });
+
+    it('should refuse unlinked senders', async () => {
+      mockDb.query.mockResolvedValue({ rows: linkedRows.slice(1) });
+
+      const result = await chatCommandService.handleRecognitionCommand({
+        provider: 'SLACK',
+        senderExternalId: 'U1',
+        text: 'kudos <@U2>',
+        mentions: [{ externalId: 'U2', text: '<@U2>' }]
+      });
+
+      expect(result.ok).toBe(false);
+      expect(result.message).toContain('not linked');
+      expect(mockRecognitionService.createRecognition).not.toHaveBeenCalled();
+    });
+
+    it('should report recognition errors back to chat', async () => {
+      mockDb.query.mockResolvedValue({ rows: linkedRows });
+      mockRecognitionService.createRecognition.mockRejectedValue(new Error('Cannot recognize yourself'));
+
+      const result = await chatCommandService.handleRecognitionCommand({
+        provider: 'TEAMS',
+        senderExternalId: 'U1',
+        text: 'kudos <at>Jane</at>',
+        mentions: [{ externalId: 'U2', text: '<at>Jane</at>' }]
+      });
+
+      expect(result).toEqual({ ok: false, message: 'Cannot recognize yourself' });
+    });
+  });
+});
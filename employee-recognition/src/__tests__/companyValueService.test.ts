@@ -0,0 +1,81 @@
+import { CompanyValueService } from '../services/CompanyValueService';
+
+const mockDb = {
+  query: jest.fn(),
+};
+
+const valueRow = {
+  id: 'value-1',
+  name: 'Ownership',
+  description: 'Act on behalf of the whole company',
+  emoji: '🛠️',
+  active: true,
+  created_at: new Date()
+};
+
+describe('CompanyValueService', () => {
+  let companyValueService: CompanyValueService;
+
+  beforeEach(() => {
+    companyValueService = new CompanyValueService(mockDb as any);
+  });
+
+  describe('getValues', () => {
+    it('should list only active values by default', async () => {
+      mockDb.query.mockResolvedValue({ rows: [valueRow] });
+
+      const values = await companyValueService.getValues();
+
+      expect(values[0].name).toBe('Ownership');
+      expect(mockDb.query.mock.calls[0][0]).toContain('WHERE active = TRUE');
+    });
+
+    it('should only show inactive values to admins', async () => {
+      await expect(companyValueService.getValues(true, 'HR')).rejects.toThrow('Admin role required');
+    });
+  });
+
+  describe('createValue', () => {
+    it('should create a value as admin', async () => {
+      mockDb.query.mockResolvedValue({ rows: [valueRow] });
+
+      const value = await companyValueService.createValue('ADMIN', { name: '  Ownership ' });
+
+      expect(value.id).toBe('value-1');
+      expect(mockDb.query.mock.calls[0][1]).toEqual(['Ownership', null, null, true]);
+    });
+
+    it('should reject non-admins', async () => {
+      await expect(
+        companyValueService.createValue('MANAGER', { name: 'Ownership' })
+      ).rejects.toThrow('Admin role required');
+    });
+
+    it('should report duplicate names', async () => {
+      mockDb.query.mockRejectedValue(Object.assign(new Error('duplicate key'), { code: '23505' }));
+
+      await expect(
+        companyValueService.createValue('ADMIN', { name: 'Ownership' })
+      ).rejects.toThrow('A company value with this name already exists');
+    });
+  });
+
+  describe('updateValue', () => {
+    it('should retire a value', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ ...valueRow, active: false }] });
+
+      const value = await companyValueService.updateValue('ADMIN', { id: 'value-1', active: false });
+
+      expect(value.active).toBe(false);
+      expect(mockDb.query.mock.calls[0][1]).toEqual(['value-1', false]);
+    });
+
+    it('should fail for unknown values', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      await expect(
+        companyValueService.updateValue('ADMIN', { id: 'missing', name: 'Teamwork' })
+      ).rejects.toThrow('Company value not found');
+    });
+  });
+});
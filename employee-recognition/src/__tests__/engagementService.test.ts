@@ -0,0 +1,144 @@
+import { EngagementService } from '../services/EngagementService';
+
+const mockDb = {
+  query: jest.fn(),
+};
+
+const mockPubsub = {
+  publish: jest.fn(),
+};
+
+const mockRecognitionService = {
+  getRecognitionById: jest.fn(),
+};
+
+const commentRow = {
+  id: 'comment-1',
+  recognition_id: 'recognition-123',
+  parent_id: null,
+  author_id: 'author-123',
+  author_name: 'Author User',
+  author_email: 'author@company.com',
+  body: 'Well deserved!',
+  created_at: new Date()
+};
+
+describe('EngagementService', () => {
+  let engagementService: EngagementService;
+
+  beforeEach(() => {
+    engagementService = new EngagementService(
+      mockDb as any,
+      mockPubsub as any,
+      mockRecognitionService as any
+    );
+    mockRecognitionService.getRecognitionById.mockResolvedValue({ id: 'recognition-123' });
+    mockPubsub.publish.mockResolvedValue(undefined);
+  });
+
+  describe('reactions', () => {
+    it('should add a reaction and publish the new counts', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('INSERT INTO recognition_reactions')) {
+          return Promise.resolve({ rows: [{ emoji: '🎉' }] });
+        }
+        return Promise.resolve({ rows: [{ emoji: '🎉', count: '2', user_ids: ['user-1', 'user-123'] }] });
+      });
+
+      await engagementService.addReaction('user-123', 'recognition-123', ' 🎉 ');
+
+      expect(mockDb.query.mock.calls[0][1]).toEqual(['recognition-123', 'user-123', '🎉']);
+      expect(mockPubsub.publish).toHaveBeenCalledWith('RECOGNITION_UPDATED', {
+        recognitionUpdated: expect.objectContaining({
+          recognitionId: 'recognition-123',
+          type: 'REACTION_ADDED',
+          reactions: [{ emoji: '🎉', count: 2, userIds: ['user-1', 'user-123'] }]
+        })
+      });
+    });
+
+    it('should not publish when the user had already reacted', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      await engagementService.addReaction('user-123', 'recognition-123', '🎉');
+
+      expect(mockPubsub.publish).not.toHaveBeenCalled();
+    });
+
+    it('should apply the recognition visibility rules', async () => {
+      mockRecognitionService.getRecognitionById.mockRejectedValue(
+        new Error('Recognition not found or access denied')
+      );
+
+      await expect(
+        engagementService.addReaction('outsider', 'recognition-123', '🎉')
+      ).rejects.toThrow('Recognition not found or access denied');
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid emoji', async () => {
+      await expect(
+        engagementService.addReaction('user-123', 'recognition-123', 'not an emoji')
+      ).rejects.toThrow('Invalid emoji');
+    });
+  });
+
+  describe('comments', () => {
+    it('should add a comment and publish it', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('INSERT INTO recognition_comments')) {
+          return Promise.resolve({ rows: [{ id: 'comment-1' }] });
+        }
+        return Promise.resolve({ rows: [commentRow] });
+      });
+
+      const comment = await engagementService.addComment('author-123', {
+        recognitionId: 'recognition-123',
+        body: 'Well deserved!'
+      });
+
+      expect(comment.body).toBe('Well deserved!');
+      expect(comment.author.name).toBe('Author User');
+      expect(mockPubsub.publish).toHaveBeenCalledWith('RECOGNITION_UPDATED', {
+        recognitionUpdated: expect.objectContaining({ type: 'COMMENT_ADDED', comment })
+      });
+    });
+
+    it('should reject replies to a comment on another recognition', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ recognition_id: 'other-recognition' }] });
+
+      await expect(
+        engagementService.addComment('author-123', {
+          recognitionId: 'recognition-123',
+          body: 'Agreed',
+          parentId: 'comment-9'
+        })
+      ).rejects.toThrow('Parent comment not found');
+    });
+
+    it('should only let the author edit a comment', async () => {
+      mockDb.query.mockResolvedValue({ rows: [commentRow] });
+
+      await expect(
+        engagementService.updateComment('someone-else', 'comment-1', 'Edited')
+      ).rejects.toThrow('You can only edit your own comments');
+    });
+
+    it('should let HR delete any comment', async () => {
+      mockDb.query.mockResolvedValue({ rows: [commentRow] });
+
+      await expect(engagementService.deleteComment('hr-user', 'HR', 'comment-1')).resolves.toBe(true);
+      expect(mockDb.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE recognition_comments SET deleted_at = NOW()'), ['comment-1']);
+    });
+
+    it('should delete replies together with the comment', async () => {
+      mockDb.query.mockResolvedValue({ rows: [commentRow] });
+
+      await engagementService.deleteComment('author-123', 'EMPLOYEE', 'comment-1');
+
+      const [query] = mockDb.query.mock.calls.find(([sql]) => sql.includes('SET deleted_at = NOW()'))!;
+      expect(query).toContain('JOIN thread t ON c.parent_id = t.id');
+      expect(query).toContain('WHERE id IN (SELECT id FROM thread)');
+    });
+  });
+});
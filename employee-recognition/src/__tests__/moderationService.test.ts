@@ -0,0 +1,125 @@
+import { ModerationService } from '../services/ModerationService';
+
+const mockDb = {
+  query: jest.fn(),
+};
+
+const ruleRow = (overrides: any = {}) => ({
+  id: 'rule-1',
+  name: 'Blocked words',
+  match_type: 'WORDS',
+  terms: ['spam', 'hate'],
+  action: 'REJECT',
+  enabled: true,
+  created_at: new Date(),
+  ...overrides
+});
+
+describe('ModerationService', () => {
+  let moderationService: ModerationService;
+
+  beforeEach(() => {
+    moderationService = new ModerationService(mockDb as any);
+  });
+
+  describe('evaluate', () => {
+    it('should only match whole words', async () => {
+      mockDb.query.mockResolvedValue({ rows: [ruleRow()] });
+
+      const result = await moderationService.evaluate('Whatever happens, the spammer-filter project shipped');
+
+      expect(result.action).toBeNull();
+      expect(result.matches).toEqual([]);
+    });
+
+    it('should report the matching rule and text', async () => {
+      mockDb.query.mockResolvedValue({ rows: [ruleRow()] });
+
+      const result = await moderationService.evaluate('This is SPAM');
+
+      expect(result.action).toBe('REJECT');
+      expect(result.matches).toEqual([
+        { ruleId: 'rule-1', ruleName: 'Blocked words', action: 'REJECT', matched: ['SPAM'] }
+      ]);
+    });
+
+    it('should mask matches and apply the strictest action', async () => {
+      mockDb.query.mockResolvedValue({
+        rows: [
+          ruleRow({ id: 'rule-2', name: 'Phone numbers', match_type: 'REGEX', terms: ['\\d{3}-\\d{4}'], action: 'MASK' }),
+          ruleRow({ id: 'rule-3', name: 'Needs review', terms: ['lawsuit'], action: 'HOLD' })
+        ]
+      });
+
+      const result = await moderationService.evaluate('Call 555-1234 about the lawsuit');
+
+      expect(result.action).toBe('HOLD');
+      expect(result.message).toBe('Call ******** about the lawsuit');
+      expect(result.matches.map(match => match.ruleName)).toEqual(['Phone numbers', 'Needs review']);
+    });
+
+    it('should ignore zero-length matches', async () => {
+      mockDb.query.mockResolvedValue({
+        rows: [ruleRow({ match_type: 'REGEX', terms: ['\\b', '(?=a)'], action: 'REJECT' })]
+      });
+
+      const result = await moderationService.evaluate('Thanks for the great demo');
+
+      expect(result.action).toBeNull();
+      expect(result.matches).toEqual([]);
+      expect(result.message).toBe('Thanks for the great demo');
+    });
+  });
+
+  describe('rules', () => {
+    it('should only let admins create rules', async () => {
+      await expect(
+        moderationService.createRule('hr-1', 'HR', { name: 'Rule', matchType: 'WORDS', terms: ['x'], action: 'MASK' })
+      ).rejects.toThrow('Insufficient permissions - Admin role required');
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid regular expressions', async () => {
+      await expect(
+        moderationService.createRule('admin-1', 'ADMIN', { name: 'Broken', matchType: 'REGEX', terms: ['(abc'], action: 'REJECT' })
+      ).rejects.toThrow('Invalid regular expression: (abc');
+    });
+
+    it('should reject regular expressions that match every message', async () => {
+      await expect(
+        moderationService.createRule('admin-1', 'ADMIN', { name: 'Everything', matchType: 'REGEX', terms: ['a*'], action: 'HOLD' })
+      ).rejects.toThrow('must not match empty text');
+    });
+
+    it('should reject zero-width regular expressions', async () => {
+      for (const term of ['\\b', '(?=a)', '^(?=.)']) {
+        await expect(
+          moderationService.createRule('admin-1', 'ADMIN', { name: 'Zero width', matchType: 'REGEX', terms: [term], action: 'HOLD' })
+        ).rejects.toThrow(`Regular expression must not match empty text: ${term}`);
+      }
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+
+    it('should store trimmed, de-duplicated terms', async () => {
+      mockDb.query.mockResolvedValue({ rows: [ruleRow()] });
+
+      await moderationService.createRule('admin-1', 'ADMIN', {
+        name: ' Blocked words ',
+        matchType: 'WORDS',
+        terms: [' spam', 'spam', 'hate', ''],
+        action: 'REJECT'
+      });
+
+      expect(mockDb.query.mock.calls[0][1]).toEqual([
+        'Blocked words', 'WORDS', JSON.stringify(['spam', 'hate']), 'REJECT', true, 'admin-1'
+      ]);
+    });
+
+    it('should let HR view rules but not decisions of other roles', async () => {
+      mockDb.query.mockResolvedValue({ rows: [ruleRow()] });
+
+      await expect(moderationService.getRules('HR')).resolves.toHaveLength(1);
+      await expect(moderationService.getDecisions('MANAGER')).rejects.toThrow('HR role or higher required');
+    });
+  });
+});
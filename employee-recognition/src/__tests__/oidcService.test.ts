@@ -0,0 +1,253 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { OidcService } from '../services/OidcService';
+import { SessionService } from '../services/SessionService';
+import { OidcConfig } from '../utils/oidc';
+
+const mockDb = {
+  query: jest.fn(),
+  connect: jest.fn(),
+};
+
+/**
+ * Minimal identity provider: discovery, JWKS, an authorize endpoint that signs
+ * everyone in, and a token endpoint that checks the PKCE verifier.
+ */
+class MockIdentityProvider {
+  issuer = '';
+  claims: Record<string, any> = {};
+  tokenRequests: URLSearchParams[] = [];
+  tokenAuthorizations: Array<string | undefined> = [];
+  private server = http.createServer((req, res) => this.handle(req, res));
+  private keys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  private codes = new Map<string, { challenge: string; nonce: string; clientId: string }>();
+
+  async start() {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    this.issuer = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop() {
+    return new Promise(resolve => this.server.close(resolve));
+  }
+
+  // Follows the authorization URL as a browser would; returns the redirect query
+  async authorize(authorizationUrl: string): Promise<URLSearchParams> {
+    const response = await fetch(authorizationUrl, { redirect: 'manual' });
+    return new URL(response.headers.get('location')!).searchParams;
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url!, this.issuer);
+    const json = (status: number, body: any) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return json(200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`
+      });
+    }
+    if (url.pathname === '/jwks') {
+      return json(200, { keys: [{ ...this.keys.publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig', alg: 'RS256' }] });
+    }
+    if (url.pathname === '/authorize') {
+      const code = crypto.randomBytes(16).toString('hex');
+      this.codes.set(code, {
+        challenge: url.searchParams.get('code_challenge')!,
+        nonce: url.searchParams.get('nonce')!,
+        clientId: url.searchParams.get('client_id')!
+      });
+      const redirect = new URL(url.searchParams.get('redirect_uri')!);
+      redirect.search = new URLSearchParams({ code, state: url.searchParams.get('state')! }).toString();
+      res.writeHead(302, { Location: redirect.toString() });
+      return res.end();
+    }
+    if (url.pathname === '/token' && req.method === 'POST') {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const params = new URLSearchParams(body);
+        this.tokenRequests.push(params);
+        this.tokenAuthorizations.push(req.headers.authorization);
+        const grant = this.codes.get(params.get('code')!);
+        this.codes.delete(params.get('code')!);
+        const challenge = crypto.createHash('sha256').update(params.get('code_verifier') || '').digest('base64url');
+        if (!grant || grant.challenge !== challenge) {
+          return json(400, { error: 'invalid_grant' });
+        }
+        const idToken = jwt.sign(
+          { nonce: grant.nonce, ...this.claims },
+          this.keys.privateKey,
+          { algorithm: 'RS256', keyid: 'key-1', issuer: this.issuer, audience: grant.clientId, expiresIn: '5m' }
+        );
+        json(200, { access_token: 'access', token_type: 'Bearer', id_token: idToken });
+      });
+      return;
+    }
+    json(404, { error: 'not_found' });
+  }
+}
+
+describe('OidcService', () => {
+  const idp = new MockIdentityProvider();
+  let oidcService: OidcService;
+  let config: OidcConfig;
+  let loginRequests: Map<string, any>;
+  let users: any[];
+  let identities: any[];
+
+  beforeAll(() => idp.start());
+  afterAll(() => idp.stop());
+
+  beforeEach(() => {
+    config = {
+      issuer: idp.issuer,
+      clientId: 'recognition-api',
+      clientSecret: null,
+      redirectUri: 'http://localhost:4000/auth/oidc/callback',
+      scopes: 'openid email profile',
+      roleClaim: 'groups',
+      roleMap: { 'recognition-hr': 'HR', 'recognition-admins': 'ADMIN' },
+      teamClaim: 'department'
+    };
+    oidcService = new OidcService(mockDb as any, new SessionService(mockDb as any), config);
+    idp.claims = { sub: 'idp-user-1', email: 'Grace@Company.com', email_verified: true, name: 'Grace Hopper' };
+    idp.tokenRequests = [];
+    idp.tokenAuthorizations = [];
+    loginRequests = new Map();
+    users = [];
+    identities = [];
+
+    mockDb.connect.mockResolvedValue({ query: mockDb.query, release: jest.fn() });
+    mockDb.query.mockImplementation((query: string, params: any[] = []) => {
+      if (query.includes('INSERT INTO sessions')) {
+        return Promise.resolve({ rows: [{ id: 'session-1' }] });
+      } else if (query.includes('INSERT INTO oidc_login_requests')) {
+        loginRequests.set(params[0], { code_verifier: params[1], nonce: params[2] });
+      } else if (query.includes('DELETE FROM oidc_login_requests')) {
+        const request = loginRequests.get(params[0]);
+        loginRequests.delete(params[0]);
+        return Promise.resolve({ rows: request ? [request] : [] });
+      } else if (query.includes('FROM oidc_identities')) {
+        const identity = identities.find(i => i.issuer === params[0] && i.subject === params[1]);
+        return Promise.resolve({ rows: users.filter(u => u.id === identity?.user_id) });
+      } else if (query.includes('INSERT INTO oidc_identities')) {
+        identities.push({ issuer: params[0], subject: params[1], user_id: params[2] });
+      } else if (query.includes('FROM users WHERE LOWER(email)')) {
+        return Promise.resolve({ rows: users.filter(u => u.email.toLowerCase() === params[0]) });
+      } else if (query.includes('INSERT INTO users')) {
+        const user = { id: `user-${users.length + 1}`, email: params[0], name: params[1], role: 'EMPLOYEE', team_id: null, created_at: new Date() };
+        users.push(user);
+        return Promise.resolve({ rows: [user] });
+      } else if (query.includes('FROM teams')) {
+        return Promise.resolve({ rows: params[0] === 'Engineering' ? [{ id: 'team-1' }] : [] });
+      } else if (query.includes('UPDATE users')) {
+        const user = users.find(u => u.id === params[0]);
+        user.role = params[1] || user.role;
+        user.team_id = params[2] || user.team_id;
+        return Promise.resolve({ rows: [user] });
+      }
+      return Promise.resolve({ rows: [] });
+    });
+  });
+
+  const signIn = async () => {
+    const redirect = await idp.authorize(await oidcService.beginLogin());
+    return oidcService.completeLogin(redirect.get('code')!, redirect.get('state')!);
+  };
+
+  it('should send the browser to the provider with PKCE, state and nonce', async () => {
+    const url = new URL(await oidcService.beginLogin());
+
+    expect(`${url.origin}${url.pathname}`).toBe(`${idp.issuer}/authorize`);
+    expect(url.searchParams.get('response_type')).toBe('code');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('redirect_uri')).toBe(config.redirectUri);
+    // Only a hash of the state is stored
+    const [stateHash] = loginRequests.keys();
+    expect(stateHash).toBe(crypto.createHash('sha256').update(url.searchParams.get('state')!).digest('hex'));
+  });
+
+  it('should provision a user on first sign-in and issue the API token', async () => {
+    idp.claims = { ...idp.claims, groups: ['everyone', 'recognition-hr'], department: 'Engineering' };
+
+    const result = await signIn();
+
+    expect(users).toHaveLength(1);
+    expect(users[0]).toMatchObject({ email: 'grace@company.com', name: 'Grace Hopper', role: 'HR', team_id: 'team-1' });
+    expect(identities).toEqual([{ issuer: idp.issuer, subject: 'idp-user-1', user_id: 'user-1' }]);
+    expect(jwt.verify(result.token, process.env.JWT_SECRET!)).toMatchObject({ id: 'user-1', role: 'HR', sid: 'session-1' });
+    expect(idp.tokenRequests[0].get('client_id')).toBe('recognition-api');
+  });
+
+  it('should link an existing account by email and follow role changes', async () => {
+    users.push({ id: 'existing', email: 'grace@company.com', name: 'Grace', role: 'ADMIN', team_id: null });
+    idp.claims = { ...idp.claims, groups: [] };
+
+    const result = await signIn();
+
+    expect(result.user).toMatchObject({ id: 'existing', role: 'EMPLOYEE' });
+    expect(users).toHaveLength(1);
+  });
+
+  it('should keep the role when the token has no role claim', async () => {
+    users.push({ id: 'existing', email: 'grace@company.com', name: 'Grace', role: 'MANAGER', team_id: null });
+
+    await expect(signIn()).resolves.toMatchObject({ user: { role: 'MANAGER' } });
+  });
+
+  it('should find returning users by subject even if their email changed', async () => {
+    await signIn();
+    idp.claims = { ...idp.claims, email: 'grace.hopper@company.com' };
+
+    await expect(signIn()).resolves.toMatchObject({ user: { id: 'user-1' } });
+    expect(users).toHaveLength(1);
+  });
+
+  it('should refuse to link by an unverified email', async () => {
+    idp.claims = { ...idp.claims, email_verified: false };
+
+    await expect(signIn()).rejects.toThrow('Your email address is not verified with the identity provider');
+    expect(users).toHaveLength(0);
+  });
+
+  it('should accept each state only once', async () => {
+    const redirect = await idp.authorize(await oidcService.beginLogin());
+    await oidcService.completeLogin(redirect.get('code')!, redirect.get('state')!);
+
+    await expect(oidcService.completeLogin(redirect.get('code')!, redirect.get('state')!)).rejects.toThrow(
+      'Sign-in failed or expired'
+    );
+  });
+
+  it('should reject ID tokens for another client', async () => {
+    const redirect = await idp.authorize((await oidcService.beginLogin()).replace('recognition-api', 'other-app'));
+
+    await expect(oidcService.completeLogin(redirect.get('code')!, redirect.get('state')!)).rejects.toThrow(
+      'Invalid ID token'
+    );
+  });
+
+  it('should send the client secret when one is configured', async () => {
+    config.clientSecret = 's3cret';
+
+    await signIn();
+
+    expect(idp.tokenAuthorizations[0]).toBe(`Basic ${Buffer.from('recognition-api:s3cret').toString('base64')}`);
+    expect(idp.tokenRequests[0].get('client_secret')).toBeNull();
+  });
+
+  it('should report when single sign-on is not configured', async () => {
+    const disabled = new OidcService(mockDb as any, {} as any, null);
+
+    expect(disabled.isEnabled()).toBe(false);
+    await expect(disabled.beginLogin()).rejects.toThrow('Single sign-on is not configured');
+  });
+});
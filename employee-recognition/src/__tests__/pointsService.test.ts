@@ -0,0 +1,111 @@
+import { PointsService } from '../services/PointsService';
+
+const mockDb = {
+  query: jest.fn(),
+};
+
+describe('PointsService', () => {
+  let pointsService: PointsService;
+
+  beforeEach(() => {
+    pointsService = new PointsService(mockDb as any);
+  });
+
+  describe('getBalance', () => {
+    it('should grant a missing allowance before reading balances', async () => {
+      const periodStart = new Date('2026-10-01');
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('SUM(amount)')) {
+          return Promise.resolve({
+            rows: [{ earned: '35', giving_remaining: '60', giving_allowance: '100', period_start: periodStart }]
+          });
+        }
+        return Promise.resolve({ rows: [] });
+      });
+
+      const balance = await pointsService.getBalance('user-123');
+
+      expect(mockDb.query.mock.calls[0][0]).toContain("'ALLOWANCE_GRANT'");
+      expect(balance).toEqual({ earned: 35, givingAllowance: 100, givingRemaining: 60, periodStart });
+    });
+
+    it('should not lazily grant allowances to deactivated users or service accounts', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ earned: '0', giving_remaining: '0', giving_allowance: '0', period_start: new Date() }] });
+
+      await pointsService.getBalance('service-1');
+
+      expect(mockDb.query.mock.calls[0][0]).toContain('WHERE u.deactivated_at IS NULL AND NOT u.is_service_account AND u.id = $1');
+      expect(mockDb.query.mock.calls[0][1]).toEqual(['service-1']);
+    });
+  });
+
+  describe('getLedger', () => {
+    it('should filter by account and cap the page size', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      await pointsService.getLedger('user-123', 'EARNED', 1000);
+
+      expect(mockDb.query.mock.calls[0][0]).toContain('AND account = $2');
+      expect(mockDb.query.mock.calls[0][1]).toEqual(['user-123', 'EARNED', 200]);
+    });
+  });
+
+  describe('setAllowance', () => {
+    it('should require the admin role', async () => {
+      await expect(pointsService.setAllowance('HR', 'EMPLOYEE', 200)).rejects.toThrow(
+        'Insufficient permissions - Admin role required'
+      );
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject negative allowances', async () => {
+      await expect(pointsService.setAllowance('ADMIN', 'EMPLOYEE', -5)).rejects.toThrow(
+        'Monthly allowance must be a non-negative integer'
+      );
+    });
+
+    it('should upsert the allowance for a role', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ role: 'MANAGER', monthly_allowance: 300 }] });
+
+      const allowance = await pointsService.setAllowance('ADMIN', 'MANAGER', 300);
+
+      expect(allowance).toEqual({ role: 'MANAGER', monthlyAllowance: 300 });
+    });
+  });
+
+  describe('grantMonthlyAllowances', () => {
+    it('should only grant allowances to active people', async () => {
+      mockDb.query.mockResolvedValue({ rowCount: 12, rows: [] });
+
+      const granted = await pointsService.grantMonthlyAllowances();
+
+      expect(granted).toBe(12);
+      expect(mockDb.query.mock.calls[0][0]).toContain('WHERE u.deactivated_at IS NULL AND NOT u.is_service_account');
+    });
+  });
+
+  describe('transferRecognitionPoints', () => {
+    it('should debit the total and credit each recipient', async () => {
+      const client = {
+        query: jest.fn().mockImplementation((query: string) => {
+          if (query.includes('as remaining')) {
+            return Promise.resolve({ rows: [{ remaining: '100' }] });
+          }
+          return Promise.resolve({ rows: [] });
+        })
+      };
+
+      await pointsService.transferRecognitionPoints(client, 'sender-123', 'recognition-123', 15, ['r-1', 'r-2']);
+
+      expect(client.query).toHaveBeenCalledWith('SELECT pg_advisory_xact_lock(hashtext($1))', ['points:sender-123']);
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining("'RECOGNITION_SENT'"),
+        ['sender-123', -30, 'recognition-123']
+      );
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining("'RECOGNITION_RECEIVED'"),
+        [['r-1', 'r-2'], 15, 'recognition-123']
+      );
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { PolicyService, assertRole, hasRole } from '../services/PolicyService';
+
+const mockDb = {
+  query: jest.fn(),
+  connect: jest.fn(),
+};
+
+const mockAuditService = {
+  record: jest.fn(),
+};
+
+const grantRow = {
+  id: 'grant-1',
+  user_id: 'user-1',
+  team_id: 'team-1',
+  include_sub_teams: true,
+  granted_by: 'hr-1',
+  created_at: new Date(),
+  expires_at: null
+};
+
+describe('hasRole', () => {
+  it('should let higher roles do everything lower roles may', () => {
+    expect(hasRole('MANAGER', 'EMPLOYEE')).toBe(true);
+    expect(hasRole('EMPLOYEE', 'MANAGER')).toBe(false);
+    expect(hasRole('HR', 'MANAGER')).toBe(true);
+    expect(hasRole('MANAGER', 'HR')).toBe(false);
+    expect(hasRole('ADMIN', 'HR')).toBe(true);
+  });
+
+  it('should never match unknown roles', () => {
+    expect(hasRole('INVALID', 'EMPLOYEE')).toBe(false);
+    expect(hasRole('ADMIN', 'INVALID')).toBe(false);
+    expect(hasRole(undefined, 'EMPLOYEE')).toBe(false);
+  });
+});
+
+describe('assertRole', () => {
+  it('should throw an error naming the required role', () => {
+    expect(() => assertRole('ADMIN', 'HR')).not.toThrow();
+    expect(() => assertRole('MANAGER', 'HR')).toThrow('Insufficient permissions - HR role or higher required');
+    expect(() => assertRole('HR', 'ADMIN')).toThrow('Insufficient permissions - Admin role required');
+    expect(() => assertRole(null, 'MANAGER')).toThrow('Insufficient permissions - Manager role or higher required');
+  });
+});
+
+describe('PolicyService', () => {
+  let policyService: PolicyService;
+
+  beforeEach(() => {
+    policyService = new PolicyService(mockDb as any, mockAuditService as any);
+    mockDb.connect.mockResolvedValue({ query: mockDb.query, release: jest.fn() });
+  });
+
+  describe('team visibility', () => {
+    it('should let HR and admins see every team without a lookup', async () => {
+      await expect(policyService.getVisibleTeamIds('hr-1', 'HR')).resolves.toBeNull();
+      await expect(policyService.canViewTeam('admin-1', 'ADMIN', 'team-1')).resolves.toBe(true);
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+
+    it('should walk managed and granted teams down to their sub-teams', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ id: 'team-1' }, { id: 'team-1a' }] });
+
+      await expect(policyService.getVisibleTeamIds('manager-1', 'MANAGER')).resolves.toEqual(['team-1', 'team-1a']);
+
+      const [query, params] = mockDb.query.mock.calls[0];
+      expect(query).toContain('WHERE manager_id = $1');
+      expect(query).toContain('JOIN scope s ON t.parent_team_id = s.id');
+      expect(query).toContain('NOT include_sub_teams');
+      expect(params).toEqual(['manager-1']);
+    });
+
+    it('should refuse teams outside the user\'s scope', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ id: 'team-1' }] });
+
+      await expect(policyService.canViewTeam('manager-1', 'MANAGER', 'team-1')).resolves.toBe(true);
+      await expect(policyService.assertCanViewTeam('manager-1', 'MANAGER', 'team-2')).rejects.toThrow(
+        'Insufficient permissions - you do not have access to this team'
+      );
+    });
+  });
+
+  describe('grants', () => {
+    it('should only let HR and admins manage grants', async () => {
+      await expect(
+        policyService.grantTeamAccess('manager-1', 'MANAGER', { userId: 'user-1', teamId: 'team-1' })
+      ).rejects.toThrow('Insufficient permissions - HR role or higher required');
+      await expect(policyService.getTeamAccessGrants('MANAGER')).rejects.toThrow('Insufficient permissions');
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+
+    it('should create or replace a grant and audit it', async () => {
+      mockDb.query
+        .mockResolvedValueOnce({ rows: [{ id: 'user-1' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'team-1' }] })
+        .mockResolvedValue({ rows: [grantRow] });
+
+      const grant = await policyService.grantTeamAccess('hr-1', 'HR', { userId: 'user-1', teamId: 'team-1' });
+
+      expect(grant).toMatchObject({ id: 'grant-1', userId: 'user-1', teamId: 'team-1', includeSubTeams: true });
+      const [insert, params] = mockDb.query.mock.calls.find(([query]) => query.includes('INSERT INTO team_access_grants'))!;
+      expect(insert).toContain('ON CONFLICT (user_id, team_id) DO UPDATE');
+      expect(params).toEqual(['user-1', 'team-1', true, 'hr-1', null]);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: 'hr-1', action: 'GRANT_TEAM_ACCESS', entityType: 'TEAM', entityId: 'team-1' }),
+        expect.anything()
+      );
+    });
+
+    it('should reject unknown teams and past expiry dates', async () => {
+      mockDb.query
+        .mockResolvedValueOnce({ rows: [{ id: 'user-1' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(
+        policyService.grantTeamAccess('hr-1', 'HR', { userId: 'user-1', teamId: 'team-9' })
+      ).rejects.toThrow('Team not found');
+      await expect(
+        policyService.grantTeamAccess('hr-1', 'HR', { userId: 'user-1', teamId: 'team-1', expiresAt: '2020-01-01' })
+      ).rejects.toThrow('Expiry must be in the future');
+    });
+
+    it('should audit revoked grants', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ user_id: 'user-1', team_id: 'team-1' }] });
+
+      await expect(policyService.revokeTeamAccess('admin-1', 'ADMIN', 'grant-1')).resolves.toBe(true);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'REVOKE_TEAM_ACCESS', entityId: 'team-1', details: { grantId: 'grant-1', userId: 'user-1' } }),
+        expect.anything()
+      );
+    });
+  });
+});
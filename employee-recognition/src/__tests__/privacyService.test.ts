@@ -0,0 +1,209 @@
+import { PrivacyService } from '../services/PrivacyService';
+
+const mockDb = {
+  query: jest.fn(),
+  connect: jest.fn(),
+};
+
+const mockAuditService = {
+  record: jest.fn(),
+};
+
+const ana = {
+  id: 'user-1',
+  email: 'ana@company.com',
+  name: 'Ana Silva',
+  role: 'EMPLOYEE',
+  team_id: 'team-1',
+  team_name: 'Engineering',
+  password_hash: 'scrypt$hash',
+  is_service_account: false,
+  created_at: new Date('2024-01-01'),
+  deactivated_at: null,
+  erased_at: null
+};
+
+describe('PrivacyService', () => {
+  let privacyService: PrivacyService;
+
+  beforeEach(() => {
+    privacyService = new PrivacyService(mockDb as any, mockAuditService as any);
+    mockDb.connect.mockResolvedValue({ query: mockDb.query, release: jest.fn() });
+  });
+
+  describe('exportUserData', () => {
+    it('should only let admins export other users', async () => {
+      await expect(privacyService.exportUserData('user-2', 'HR', 'user-1')).rejects.toThrow(
+        'Insufficient permissions - Admin role required'
+      );
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+
+    it('should bundle the profile, recognitions, reactions and notification history', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('FROM users u')) return Promise.resolve({ rows: [ana] });
+        if (query.includes('WHERE r.sender_id = $1')) {
+          return Promise.resolve({
+            rows: [{ id: 'rec-1', message: 'Thanks @bo', visibility: 'PUBLIC', status: 'ACTIVE', points: 5, created_at: new Date('2024-02-01'), recipient_names: ['Bo Lee'] }]
+          });
+        }
+        if (query.includes('rr.recipient_id = $1')) {
+          return Promise.resolve({
+            rows: [{ id: 'rec-2', message: 'Great demo', visibility: 'ANONYMOUS', status: 'ACTIVE', points: 0, created_at: new Date('2024-03-01'), sender_name: null }]
+          });
+        }
+        if (query.includes('FROM recognition_mentions')) return Promise.resolve({ rows: [{ id: 'rec-3', created_at: new Date('2024-02-15') }] });
+        if (query.includes('FROM recognition_reactions')) {
+          return Promise.resolve({ rows: [{ recognition_id: 'rec-3', emoji: '🎉', created_at: new Date('2024-02-16') }] });
+        }
+        return Promise.resolve({ rows: [] });
+      });
+
+      const bundle = await privacyService.exportUserData('user-1', 'EMPLOYEE', 'user-1');
+
+      expect(bundle.profile).toMatchObject({
+        id: 'user-1',
+        email: 'ana@company.com',
+        team: { id: 'team-1', name: 'Engineering' },
+        hasPassword: true
+      });
+      expect(bundle.profile).not.toHaveProperty('password_hash');
+      expect(bundle.recognitionsSent).toEqual([expect.objectContaining({ id: 'rec-1', recipients: ['Bo Lee'] })]);
+      expect(bundle.recognitionsReceived).toEqual([expect.objectContaining({ id: 'rec-2', sender: null })]);
+      expect(bundle.reactions).toEqual([{ recognitionId: 'rec-3', emoji: '🎉', createdAt: new Date('2024-02-16') }]);
+      expect(bundle.notifications.map(notification => [notification.type, notification.recognitionId])).toEqual([
+        ['MENTIONED', 'rec-3'],
+        ['RECOGNITION_RECEIVED', 'rec-2']
+      ]);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: 'user-1', action: 'EXPORT_USER_DATA', entityId: 'user-1' })
+      );
+    });
+
+    it('should leave undelivered recognitions out of received ones', async () => {
+      mockDb.query.mockImplementation((query: string) =>
+        Promise.resolve({ rows: query.includes('FROM users u') ? [ana] : [] })
+      );
+
+      await privacyService.exportUserData('admin-1', 'ADMIN', 'user-1');
+
+      const received = mockDb.query.mock.calls.find(([query]) => query.includes('rr.recipient_id = $1'))!;
+      expect(received[1]).toEqual(['user-1', ['SCHEDULED', 'CANCELLED', 'HELD', 'REJECTED']]);
+    });
+
+    it('should throw when the user does not exist', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      await expect(privacyService.exportUserData('admin-1', 'ADMIN', 'missing')).rejects.toThrow('User not found');
+      expect(mockAuditService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('eraseUser', () => {
+    const mockErasure = (user: any, localPartShared = false) => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.startsWith('SELECT * FROM users')) return Promise.resolve({ rows: user ? [user] : [] });
+        if (query.includes('SELECT EXISTS')) return Promise.resolve({ rows: [{ shared: localPartShared }] });
+        if (query.includes('FROM recognition_comments')) return Promise.resolve({ rows: [{ id: 'comment-1', value: 'Welcome @ana!' }] });
+        if (query.includes('message::text AS value FROM moderation_decisions')) {
+          return Promise.resolve({ rows: [{ id: 'decision-1', value: 'Thanks @Ana@company.com, you rock' }] });
+        }
+        if (query.includes('matches::text AS value FROM moderation_decisions')) {
+          return Promise.resolve({ rows: [{ id: 'decision-1', value: '[{"matched": "ana@company.com"}]' }] });
+        }
+        if (query.includes('details::text AS value FROM audit_log')) {
+          return Promise.resolve({ rows: [{ id: 'entry-1', value: '{"justification": "Reported by ANA@company.com"}' }] });
+        }
+        if (query.includes('JOIN recognition_mentions')) {
+          return Promise.resolve({
+            rows: [
+              { id: 'rec-1', message: 'Kudos @ana and @bo!' },
+              { id: 'rec-2', message: 'Thanks @Ana@company.com.' }
+            ]
+          });
+        }
+        if (query.includes('FROM recognition_revisions')) return Promise.resolve({ rows: [{ id: 'rev-1', message: 'Kudos @ana' }] });
+        if (query.startsWith('DELETE FROM sessions')) return Promise.resolve({ rows: [{ id: 'session-1' }, { id: 'session-2' }] });
+        if (query.includes('UPDATE users')) {
+          return Promise.resolve({ rows: [{ ...ana, email: 'erased-user-1@erased.invalid', name: 'Erased user', erased_at: new Date() }] });
+        }
+        return Promise.resolve({ rows: [] });
+      });
+    };
+
+    it('should only let admins erase other users', async () => {
+      await expect(privacyService.eraseUser('hr-1', 'HR', 'user-1')).rejects.toThrow('Insufficient permissions - Admin role required');
+      await expect(privacyService.eraseUser('admin-1', 'ADMIN', 'admin-1')).rejects.toThrow('You cannot erase your own account');
+      expect(mockDb.connect).not.toHaveBeenCalled();
+    });
+
+    it('should reject missing and already erased users', async () => {
+      mockErasure(null);
+      await expect(privacyService.eraseUser('admin-1', 'ADMIN', 'missing')).rejects.toThrow('User not found');
+
+      mockErasure({ ...ana, erased_at: new Date() });
+      await expect(privacyService.eraseUser('admin-1', 'ADMIN', 'user-1')).rejects.toThrow('User is already erased');
+    });
+
+    it('should pseudonymize the user, rewrite mentions and delete sign-in data', async () => {
+      mockErasure(ana);
+
+      const erased = await privacyService.eraseUser('admin-1', 'ADMIN', 'user-1');
+
+      expect(erased).toMatchObject({ id: 'user-1', name: 'Erased user', email: 'erased-user-1@erased.invalid', teamId: 'team-1' });
+      expect(erased.erasedAt).toBeInstanceOf(Date);
+
+      const calls = mockDb.query.mock.calls;
+      const messages = calls
+        .filter(([query]) => /^UPDATE recognition(s|_revisions) /.test(query))
+        .map(([, params]) => params);
+      expect(messages).toEqual([
+        ['rec-1', 'Kudos [erased user] and @bo!'],
+        ['rec-2', 'Thanks [erased user].'],
+        ['rev-1', 'Kudos [erased user]']
+      ]);
+
+      const deleted = calls.filter(([query]) => query.startsWith('DELETE FROM')).map(([query]) => query.split(' ')[2]);
+      expect(deleted).toEqual(['sessions', 'login_codes', 'login_attempts', 'oidc_identities', 'chat_identities', 'team_access_grants']);
+      expect(calls.some(([query]) => query.includes("UPDATE audit_log SET details = '{}'"))).toBe(true);
+
+      const userUpdate = calls.find(([query]) => query.includes('UPDATE users'))!;
+      expect(userUpdate[0]).not.toContain('team_id');
+      expect(userUpdate[0]).not.toContain('role');
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: 'admin-1',
+          action: 'ERASE_USER',
+          entityId: 'user-1',
+          details: { rewrittenRecognitionCount: 2, rewrittenRecordCount: 4, sessionCount: 2 }
+        }),
+        expect.anything()
+      );
+    });
+
+    it('should rewrite mentions and the email in comments, moderation decisions and audit entries', async () => {
+      mockErasure(ana);
+
+      await privacyService.eraseUser('admin-1', 'ADMIN', 'user-1');
+
+      const rewrites = mockDb.query.mock.calls
+        .filter(([query]) => /^UPDATE (recognition_comments|moderation_decisions|audit_log) SET \w+ = \$2/.test(query))
+        .map(([query, params]) => [query.split(' ')[1], ...params]);
+      expect(rewrites).toEqual([
+        ['recognition_comments', 'comment-1', 'Welcome [erased user]!'],
+        ['moderation_decisions', 'decision-1', 'Thanks [erased user], you rock'],
+        ['moderation_decisions', 'decision-1', '[{"matched": "[erased user]"}]'],
+        ['audit_log', 'entry-1', '{"justification": "Reported by [erased user]"}']
+      ]);
+    });
+
+    it('should leave a local-part mention alone in free text when another user shares it', async () => {
+      mockErasure(ana, true);
+
+      await privacyService.eraseUser('admin-1', 'ADMIN', 'user-1');
+
+      const comment = mockDb.query.mock.calls.find(([query]) => query.startsWith('UPDATE recognition_comments'));
+      expect(comment).toBeUndefined();
+    });
+  });
+});
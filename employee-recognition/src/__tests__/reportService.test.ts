@@ -0,0 +1,163 @@
+import { ReportService } from '../services/ReportService';
+import { ModerationService } from '../services/ModerationService';
+
+const mockDb = {
+  query: jest.fn(),
+  connect: jest.fn(),
+};
+
+const mockRecognitionService = {
+  getRecognitionById: jest.fn(),
+  getRecognitionForReview: jest.fn(),
+  isSender: jest.fn(),
+};
+
+const reportRow = {
+  id: 'report-1',
+  recognition_id: 'recognition-1',
+  reporter_id: 'user-2',
+  reason: 'Sarcastic and hurtful',
+  status: 'OPEN',
+  created_at: new Date()
+};
+
+describe('ReportService', () => {
+  let reportService: ReportService;
+
+  beforeEach(() => {
+    reportService = new ReportService(
+      mockDb as any,
+      mockRecognitionService as any,
+      new ModerationService(mockDb as any)
+    );
+    mockDb.connect.mockResolvedValue({ query: mockDb.query, release: jest.fn() });
+  });
+
+  describe('reportRecognition', () => {
+    it('should report a recognition the user can see', async () => {
+      mockRecognitionService.getRecognitionById.mockResolvedValue({ id: 'recognition-1', sender: { id: 'user-1' } });
+      mockDb.query.mockResolvedValue({ rows: [reportRow] });
+
+      const report = await reportService.reportRecognition('user-2', 'recognition-1', ' Sarcastic and hurtful ');
+
+      expect(report.status).toBe('OPEN');
+      expect(mockRecognitionService.getRecognitionById).toHaveBeenCalledWith('recognition-1', 'user-2');
+      expect(mockDb.query.mock.calls[0][1]).toEqual(['recognition-1', 'user-2', 'Sarcastic and hurtful']);
+    });
+
+    it('should not let users report their own recognition', async () => {
+      mockRecognitionService.getRecognitionById.mockResolvedValue({ id: 'recognition-1', sender: { id: 'user-2' } });
+
+      await expect(reportService.reportRecognition('user-2', 'recognition-1', 'Oops')).rejects.toThrow(
+        'You cannot report your own recognition'
+      );
+    });
+
+    it('should reject duplicate reports', async () => {
+      mockRecognitionService.getRecognitionById.mockResolvedValue({ id: 'recognition-1', sender: null });
+      mockDb.query.mockRejectedValue(Object.assign(new Error('duplicate key'), { code: '23505' }));
+
+      await expect(reportService.reportRecognition('user-2', 'recognition-1', 'Again')).rejects.toThrow(
+        'You have already reported this recognition'
+      );
+    });
+  });
+
+  describe('moderation queue', () => {
+    it('should only let HR see the queue', async () => {
+      await expect(reportService.getModerationQueue('MANAGER')).rejects.toThrow(
+        'Insufficient permissions - HR role or higher required'
+      );
+    });
+
+    it('should group open reports by recognition', async () => {
+      mockDb.query.mockResolvedValue({
+        rows: [{ recognition_id: 'recognition-1', status: 'OPEN', report_count: '3', first_reported_at: new Date(), last_reported_at: new Date() }]
+      });
+
+      const queue = await reportService.getModerationQueue('HR');
+
+      expect(queue[0]).toMatchObject({ recognitionId: 'recognition-1', status: 'OPEN', reportCount: 3 });
+      expect(mockDb.query.mock.calls[0][1]).toEqual(['OPEN', 50]);
+    });
+  });
+
+  describe('resolving reports', () => {
+    const mockCase = (recognitionStatus: string, reportStatus: string, visibility = 'PUBLIC') => {
+      mockRecognitionService.isSender.mockImplementation((client: any, recognition: any, userId: string) =>
+        Promise.resolve(recognition.sender_id === userId)
+      );
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('FOR UPDATE')) {
+          return Promise.resolve({
+            rows: [{ id: 'recognition-1', sender_id: visibility === 'ANONYMOUS' ? null : 'user-1', visibility, status: recognitionStatus }]
+          });
+        }
+        if (query.includes('SELECT DISTINCT status')) {
+          return Promise.resolve({ rows: [{ status: reportStatus }] });
+        }
+        return Promise.resolve({ rows: [] });
+      });
+    };
+
+    it('should hide the recognition and record the action', async () => {
+      mockCase('ACTIVE', 'OPEN');
+
+      await reportService.hideRecognition('hr-1', 'HR', 'recognition-1', 'Pending investigation');
+
+      expect(mockDb.query).toHaveBeenCalledWith(expect.stringContaining("SET status = 'HIDDEN'"), ['recognition-1']);
+      expect(mockDb.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE recognition_reports'),
+        ['recognition-1', 'HIDDEN', 'hr-1', 'Pending investigation', 'OPEN']
+      );
+      expect(mockDb.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO moderation_log'),
+        ['recognition-1', 'hr-1', 'HIDE', 'ACTIVE', 'HIDDEN', 'Pending investigation']
+      );
+      expect(mockDb.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should unhide a hidden recognition when its reports are dismissed', async () => {
+      mockCase('HIDDEN', 'HIDDEN');
+
+      await reportService.dismissReports('hr-1', 'HR', 'recognition-1');
+
+      expect(mockDb.query).toHaveBeenCalledWith(expect.stringContaining("SET status = 'ACTIVE'"), ['recognition-1']);
+      expect(mockDb.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO moderation_log'),
+        ['recognition-1', 'hr-1', 'DISMISS', 'HIDDEN', 'ACTIVE', null]
+      );
+    });
+
+    it('should not hide a recognition twice', async () => {
+      mockCase('HIDDEN', 'HIDDEN');
+
+      await expect(reportService.hideRecognition('hr-1', 'HR', 'recognition-1')).rejects.toThrow(
+        'Cannot move HIDDEN reports to HIDDEN'
+      );
+      expect(mockDb.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should not let moderators act on their own recognition', async () => {
+      mockCase('ACTIVE', 'OPEN');
+
+      await expect(reportService.removeRecognition('user-1', 'ADMIN', 'recognition-1')).rejects.toThrow(
+        'You cannot moderate your own recognition'
+      );
+    });
+
+    it('should not let anonymous senders act on their own recognition', async () => {
+      mockCase('ACTIVE', 'OPEN', 'ANONYMOUS');
+      mockRecognitionService.isSender.mockResolvedValue(true);
+
+      await expect(reportService.hideRecognition('user-1', 'HR', 'recognition-1')).rejects.toThrow(
+        'You cannot moderate your own recognition'
+      );
+      expect(mockRecognitionService.isSender).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ id: 'recognition-1', visibility: 'ANONYMOUS' }),
+        'user-1'
+      );
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { RewardService } from '../services/RewardService';
+import { PointsService } from '../services/PointsService';
+
+const mockDb = {
+  query: jest.fn(),
+  connect: jest.fn(),
+};
+
+const rewardRow = {
+  id: 'reward-1',
+  title: 'Coffee voucher',
+  description: null,
+  cost: 50,
+  stock: 3,
+  available: true,
+  active_from: new Date(),
+  active_until: null,
+  created_at: new Date()
+};
+
+const redemptionRow = {
+  id: 'redemption-1',
+  reward_id: 'reward-1',
+  user_id: 'user-123',
+  cost: 50,
+  status: 'REQUESTED',
+  created_at: new Date()
+};
+
+describe('RewardService', () => {
+  let rewardService: RewardService;
+
+  beforeEach(() => {
+    rewardService = new RewardService(
+      mockDb as any,
+      new PointsService(mockDb as any)
+    );
+    mockDb.connect.mockResolvedValue({ query: mockDb.query, release: jest.fn() });
+  });
+
+  describe('catalog', () => {
+    it('should only let HR and admins create rewards', async () => {
+      await expect(
+        rewardService.createReward('manager-1', 'MANAGER', { title: 'Hoodie', cost: 300 })
+      ).rejects.toThrow('Insufficient permissions - HR role required');
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject a non-positive cost', async () => {
+      await expect(
+        rewardService.createReward('hr-1', 'HR', { title: 'Hoodie', cost: 0 })
+      ).rejects.toThrow('Reward cost must be a positive whole number');
+    });
+
+    it('should hide rewards outside their active window by default', async () => {
+      mockDb.query.mockResolvedValue({ rows: [rewardRow] });
+
+      const rewards = await rewardService.getRewards('EMPLOYEE');
+
+      expect(mockDb.query.mock.calls[0][0]).toContain('WHERE (active_from <= NOW()');
+      expect(rewards[0].available).toBe(true);
+    });
+  });
+
+  describe('redeemReward', () => {
+    it('should debit earned points and reserve stock in one transaction', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('FOR UPDATE')) return Promise.resolve({ rows: [rewardRow] });
+        if (query.includes('INSERT INTO reward_redemptions')) return Promise.resolve({ rows: [redemptionRow] });
+        if (query.includes('as earned')) return Promise.resolve({ rows: [{ earned: '80' }] });
+        return Promise.resolve({ rows: [] });
+      });
+
+      const redemption = await rewardService.redeemReward('user-123', 'reward-1');
+
+      expect(redemption.status).toBe('REQUESTED');
+      expect(mockDb.query).toHaveBeenCalledWith(
+        expect.stringContaining("'REDEMPTION'"),
+        ['user-123', -50, 'redemption-1']
+      );
+      expect(mockDb.query).toHaveBeenCalledWith(expect.stringContaining('stock = stock + $2'), ['reward-1', -1]);
+      expect(mockDb.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should roll back when the user cannot afford the reward', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('FOR UPDATE')) return Promise.resolve({ rows: [rewardRow] });
+        if (query.includes('INSERT INTO reward_redemptions')) return Promise.resolve({ rows: [redemptionRow] });
+        if (query.includes('as earned')) return Promise.resolve({ rows: [{ earned: '20' }] });
+        return Promise.resolve({ rows: [] });
+      });
+
+      await expect(rewardService.redeemReward('user-123', 'reward-1')).rejects.toThrow(
+        'Insufficient points - 20 available, 50 required'
+      );
+      expect(mockDb.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should reject out-of-stock rewards', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('FOR UPDATE')) return Promise.resolve({ rows: [{ ...rewardRow, stock: 0 }] });
+        return Promise.resolve({ rows: [] });
+      });
+
+      await expect(rewardService.redeemReward('user-123', 'reward-1')).rejects.toThrow('Reward is out of stock');
+    });
+  });
+
+  describe('redemption workflow', () => {
+    it('should not approve a redemption that is not REQUESTED', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('SELECT user_id, status')) {
+          return Promise.resolve({ rows: [{ user_id: 'user-123', status: 'FULFILLED' }] });
+        }
+        return Promise.resolve({ rows: [] });
+      });
+
+      await expect(rewardService.approveRedemption('hr-1', 'HR', 'redemption-1')).rejects.toThrow(
+        'Cannot move a FULFILLED redemption to APPROVED'
+      );
+    });
+
+    it('should not let reviewers act on their own redemption', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ user_id: 'hr-1', status: 'REQUESTED' }] });
+
+      await expect(rewardService.approveRedemption('hr-1', 'HR', 'redemption-1')).rejects.toThrow(
+        'You cannot review your own redemption'
+      );
+    });
+
+    it('should refund points and restock when rejecting', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('SELECT user_id, status')) {
+          return Promise.resolve({ rows: [{ user_id: 'user-123', status: 'APPROVED' }] });
+        }
+        if (query.includes('UPDATE reward_redemptions')) {
+          return Promise.resolve({ rows: [{ ...redemptionRow, status: 'REJECTED', note: 'Discontinued' }] });
+        }
+        return Promise.resolve({ rows: [] });
+      });
+
+      const redemption = await rewardService.rejectRedemption('hr-1', 'HR', 'redemption-1', ' Discontinued ');
+
+      expect(redemption.status).toBe('REJECTED');
+      expect(mockDb.query).toHaveBeenCalledWith(
+        expect.stringContaining("'REDEMPTION_REFUND'"),
+        ['user-123', 50, 'redemption-1']
+      );
+      expect(mockDb.query).toHaveBeenCalledWith(expect.stringContaining('stock = stock + $2'), ['reward-1', 1]);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { ScimService } from '../services/ScimService';
+import { SCIM_SCHEMAS } from '../utils/scim';
+
+const mockDb = {
+  query: jest.fn(),
+  connect: jest.fn(),
+};
+
+const mockAuditService = {
+  record: jest.fn(),
+};
+
+const USER_ID = '650e8400-e29b-41d4-a716-446655440010';
+const OTHER_USER_ID = '650e8400-e29b-41d4-a716-446655440011';
+const TEAM_ID = '550e8400-e29b-41d4-a716-446655440010';
+
+const userRow = {
+  id: USER_ID,
+  email: 'ana@company.com',
+  name: 'Ana Silva',
+  external_id: 'hr-42',
+  team_id: TEAM_ID,
+  team_name: 'Engineering',
+  created_at: new Date(),
+  deactivated_at: null
+};
+
+const teamRow = {
+  id: TEAM_ID,
+  name: 'Engineering',
+  external_id: null,
+  created_at: new Date(),
+  archived_at: null
+};
+
+const patch = (...Operations: any[]) => ({ schemas: [SCIM_SCHEMAS.PATCH_OP], Operations });
+
+describe('ScimService', () => {
+  let scimService: ScimService;
+
+  beforeEach(() => {
+    scimService = new ScimService(mockDb as any, mockAuditService as any);
+    mockDb.connect.mockResolvedValue({ query: mockDb.query, release: jest.fn() });
+  });
+
+  describe('users', () => {
+    it('should filter users by userName and return a ListResponse', async () => {
+      mockDb.query.mockImplementation((query: string) =>
+        Promise.resolve({ rows: query.includes('COUNT(*)') ? [{ count: '1' }] : [userRow] })
+      );
+
+      const list = await scimService.listUsers('userName eq "Ana@Company.com"', { startIndex: 1, count: 10 });
+
+      expect(list).toMatchObject({ schemas: [SCIM_SCHEMAS.LIST_RESPONSE], totalResults: 1, itemsPerPage: 1 });
+      expect(list.Resources[0]).toMatchObject({
+        id: USER_ID,
+        externalId: 'hr-42',
+        userName: 'ana@company.com',
+        active: true,
+        groups: [{ value: TEAM_ID, display: 'Engineering' }]
+      });
+      const [query, params] = mockDb.query.mock.calls[1];
+      expect(query).toContain('LOWER(u.email) = LOWER($1)');
+      expect(query).toContain('NOT u.is_service_account');
+      expect(params).toEqual(['Ana@Company.com', 10, 0]);
+    });
+
+    it('should provision a user as an employee and audit it', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('INSERT INTO users')) return Promise.resolve({ rows: [{ id: USER_ID }] });
+        if (query.includes('FROM users u')) return Promise.resolve({ rows: [{ ...userRow, team_id: null }] });
+        return Promise.resolve({ rows: [] });
+      });
+
+      const user = await scimService.createUser('svc-1', {
+        schemas: [SCIM_SCHEMAS.USER],
+        userName: 'Ana@Company.com',
+        name: { givenName: 'Ana', familyName: 'Silva' },
+        externalId: 'hr-42'
+      });
+
+      expect(user).toMatchObject({ id: USER_ID, groups: [] });
+      const insert = mockDb.query.mock.calls.find(([query]) => query.includes('INSERT INTO users'))!;
+      expect(insert[0]).not.toContain('role');
+      expect(insert[1]).toEqual(['ana@company.com', 'Ana Silva', 'hr-42', true]);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: 'svc-1', action: 'CREATE_USER', entityId: USER_ID }),
+        expect.anything()
+      );
+    });
+
+    it('should reject a userName that is already taken with a 409', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ id: OTHER_USER_ID }] });
+
+      await expect(scimService.createUser('svc-1', { userName: 'ana@company.com', displayName: 'Ana' })).rejects.toMatchObject({
+        status: 409,
+        scimType: 'uniqueness'
+      });
+    });
+
+    it('should deactivate and sign out a user patched to active false', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('UPDATE sessions')) return Promise.resolve({ rows: [{ id: 'session-1' }] });
+        if (query.includes('FROM users u')) return Promise.resolve({ rows: [userRow] });
+        return Promise.resolve({ rows: [] });
+      });
+
+      await scimService.patchUser('svc-1', USER_ID, patch({ op: 'Replace', path: 'active', value: 'False' }));
+
+      const queries = mockDb.query.mock.calls.map(([query]) => query);
+      expect(queries).toContain('UPDATE users SET deactivated_at = NOW() WHERE id = $1');
+      expect(queries.some(query => query.includes("revoked_reason = 'USER_DEACTIVATED'"))).toBe(true);
+      expect(mockAuditService.record).toHaveBeenCalledTimes(1);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'DEACTIVATE_USER', details: { sessionCount: 1 } }),
+        expect.anything()
+      );
+    });
+
+    it('should update the name and ignore attributes the app does not store', async () => {
+      mockDb.query.mockImplementation((query: string) =>
+        Promise.resolve({ rows: query.includes('FROM users u') ? [userRow] : [] })
+      );
+
+      await scimService.patchUser('svc-1', USER_ID, patch(
+        { op: 'replace', value: { displayName: 'Ana Souza', title: 'Engineer' } },
+        { op: 'add', path: 'phoneNumbers', value: [{ value: '555' }] }
+      ));
+
+      const update = mockDb.query.mock.calls.find(([query]) => query.startsWith('UPDATE users SET name'))!;
+      expect(update[1]).toEqual([USER_ID, 'Ana Souza']);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'UPDATE_USER', details: { name: { from: 'Ana Silva', to: 'Ana Souza' } } }),
+        expect.anything()
+      );
+    });
+
+    it('should deactivate rather than delete users', async () => {
+      mockDb.query.mockImplementation((query: string) =>
+        Promise.resolve({ rows: query.includes('FROM users u') ? [userRow] : [] })
+      );
+
+      await scimService.deleteUser('svc-1', USER_ID);
+
+      const queries = mockDb.query.mock.calls.map(([query]) => query);
+      expect(queries.some(query => query.includes('DELETE'))).toBe(false);
+      expect(queries).toContain('UPDATE users SET deactivated_at = NOW() WHERE id = $1');
+    });
+
+    it('should report unknown users as not found', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      await expect(scimService.getUser('not-a-uuid')).rejects.toMatchObject({ status: 404 });
+      await expect(scimService.getUser(OTHER_USER_ID)).rejects.toMatchObject({ status: 404, message: 'User not found' });
+      expect(mockDb.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('groups', () => {
+    it('should move added members into the team and audit each move', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('FROM teams')) return Promise.resolve({ rows: [teamRow] });
+        if (query.includes('WHERE team_id = ANY($1)')) return Promise.resolve({ rows: [] });
+        if (query.includes('SELECT id, team_id FROM users')) return Promise.resolve({ rows: [{ id: USER_ID, team_id: null }] });
+        return Promise.resolve({ rows: [] });
+      });
+
+      await scimService.patchGroup('svc-1', TEAM_ID, patch({ op: 'add', path: 'members', value: [{ value: USER_ID }] }));
+
+      const move = mockDb.query.mock.calls.find(([query]) => query.startsWith('UPDATE users SET team_id = $1'))!;
+      expect(move[1]).toEqual([TEAM_ID, [USER_ID]]);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'UPDATE_USER', entityId: USER_ID, details: { team_id: { from: null, to: TEAM_ID } } }),
+        expect.anything()
+      );
+    });
+
+    it('should remove members named by a member filter', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('FROM teams')) return Promise.resolve({ rows: [teamRow] });
+        if (query.includes('WHERE team_id = ANY($1)')) {
+          return Promise.resolve({ rows: [{ id: USER_ID, name: 'Ana', team_id: TEAM_ID }, { id: OTHER_USER_ID, name: 'Bo', team_id: TEAM_ID }] });
+        }
+        if (query.includes('SET team_id = NULL')) return Promise.resolve({ rows: [{ id: USER_ID }] });
+        return Promise.resolve({ rows: [] });
+      });
+
+      await scimService.patchGroup('svc-1', TEAM_ID, patch({ op: 'remove', path: `members[value eq "${USER_ID}"]` }));
+
+      const removal = mockDb.query.mock.calls.find(([query]) => query.includes('SET team_id = NULL'))!;
+      expect(removal[1]).toEqual([[USER_ID], TEAM_ID]);
+      expect(mockDb.query.mock.calls.some(([query]) => query.startsWith('UPDATE users SET team_id = $1'))).toBe(false);
+    });
+
+    it('should reject unknown members', async () => {
+      mockDb.query.mockImplementation((query: string) =>
+        Promise.resolve({ rows: query.includes('FROM teams') ? [teamRow] : [] })
+      );
+
+      await expect(
+        scimService.patchGroup('svc-1', TEAM_ID, patch({ op: 'add', path: 'members', value: [{ value: USER_ID }] }))
+      ).rejects.toMatchObject({ status: 400, scimType: 'invalidValue' });
+    });
+
+    it('should archive the team and clear its members when a group is deleted', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('COUNT(*)')) return Promise.resolve({ rows: [{ count: '0' }] });
+        if (query.includes('FROM teams')) return Promise.resolve({ rows: [teamRow] });
+        if (query.includes('WHERE team_id = ANY($1)')) return Promise.resolve({ rows: [{ id: USER_ID, name: 'Ana', team_id: TEAM_ID }] });
+        if (query.includes('SET team_id = NULL')) return Promise.resolve({ rows: [{ id: USER_ID }] });
+        return Promise.resolve({ rows: [] });
+      });
+
+      await scimService.deleteGroup('svc-1', TEAM_ID);
+
+      const queries = mockDb.query.mock.calls.map(([query]) => query);
+      expect(queries).toContain('UPDATE teams SET archived_at = NOW() WHERE id = $1');
+      expect(queries.some(query => query.includes('DELETE'))).toBe(false);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'ARCHIVE_TEAM', entityId: TEAM_ID }),
+        expect.anything()
+      );
+    });
+
+    it('should refuse to delete a group whose team has active sub-teams', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('COUNT(*)')) return Promise.resolve({ rows: [{ count: '2' }] });
+        return Promise.resolve({ rows: [teamRow] });
+      });
+
+      await expect(scimService.deleteGroup('svc-1', TEAM_ID)).rejects.toMatchObject({
+        status: 409,
+        message: 'Move or archive the sub-teams of this team first'
+      });
+    });
+  });
+});
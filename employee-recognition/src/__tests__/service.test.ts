@@ -1,11 +1,16 @@
 import jwt from 'jsonwebtoken';
 import { RecognitionService } from '../services/RecognitionService';
 import { UserService } from '../services/UserService';
+import { AuthService } from '../services/AuthService';
 import { AnalyticsService } from '../services/AnalyticsService';
+import { RateLimitError } from '../utils/errorHandler';
+import { pseudonymize } from '../utils/escrow';
+import { hashPassword } from '../utils/passwords';
 
 // Mock database and pubsub
 const mockDb = {
   query: jest.fn(),
+  connect: jest.fn(),
 };
 
 const mockPubsub = {
@@ -181,48 +186,160 @@ describe('Service Layer Tests', () => {
     });
   });
   
-  describe('UserService', () => {
-    let userService: UserService;
+  describe('AuthService', () => {
+    let authService: AuthService;
     
     beforeEach(() => {
-      userService = new UserService(mockDb as any);
+      authService = new AuthService(mockDb as any, { send: jest.fn() });
     });
     
     describe('login', () => {
-      it('should return token and user for valid email', async () => {
+      it('should return token and user for valid credentials', async () => {
         const mockUser = {
           id: 'user-123',
           email: 'test@company.com',
           name: 'Test User',
           role: 'EMPLOYEE',
+          password_hash: await hashPassword('correct horse battery'),
           created_at: new Date()
         };
         
-        mockDb.query.mockResolvedValue({ rows: [mockUser] });
+        mockDb.query.mockImplementation((query: string) => {
+          if (query.includes('INSERT INTO sessions')) return Promise.resolve({ rows: [{ id: 'session-1' }] });
+          return Promise.resolve({ rows: query.includes('FROM users') ? [mockUser] : [] });
+        });
         
-        const result = await userService.login('test@company.com');
+        const result = await authService.login('Test@Company.com', 'correct horse battery');
         
         expect(result.token).toBeTruthy();
+        expect(result.refreshToken).toBeTruthy();
         expect(result.user.email).toBe(mockUser.email);
         expect(result.user.role).toBe(mockUser.role);
       });
       
-      it('should throw error for non-existent user', async () => {
+      it('should not reveal whether the user exists', async () => {
         mockDb.query.mockResolvedValue({ rows: [] });
         
-        await expect(userService.login('nonexistent@company.com'))
-          .rejects.toThrow('User not found');
+        await expect(authService.login('nonexistent@company.com', 'any password at all'))
+          .rejects.toThrow('Invalid email or password');
       });
     });
+  });
+  
+  describe('UserService', () => {
+    let userService: UserService;
+    const mockAuditService = { record: jest.fn() };
     
-    describe('role checking', () => {
-      it('should correctly identify role permissions', () => {
-        expect(userService.hasRole('MANAGER', 'EMPLOYEE')).toBe(true);
-        expect(userService.hasRole('EMPLOYEE', 'MANAGER')).toBe(false);
-        expect(userService.canAccessTeamAnalytics('MANAGER')).toBe(true);
-        expect(userService.canAccessTeamAnalytics('EMPLOYEE')).toBe(false);
-        expect(userService.canAccessOrganizationAnalytics('HR')).toBe(true);
-        expect(userService.canAccessOrganizationAnalytics('MANAGER')).toBe(false);
+    beforeEach(() => {
+      userService = new UserService(mockDb as any, mockAuditService as any);
+      mockDb.connect.mockResolvedValue({ query: mockDb.query, release: jest.fn() });
+    });
+    
+    describe('user management', () => {
+      it('should only let admins manage users', async () => {
+        await expect(
+          userService.createUser('hr-1', 'HR', { email: 'new@company.com', name: 'New Hire' })
+        ).rejects.toThrow('Insufficient permissions - Admin role required');
+        await expect(userService.deactivateUser('hr-1', 'HR', 'user-123')).rejects.toThrow('Admin role required');
+        expect(mockDb.query).not.toHaveBeenCalled();
+      });
+      
+      it('should create users with a normalized email and audit it', async () => {
+        mockDb.query.mockImplementation((query: string) => {
+          if (query.includes('INSERT INTO users')) {
+            return Promise.resolve({ rows: [{ id: 'user-9', email: 'new@company.com', name: 'New Hire', role: 'EMPLOYEE', team_id: null }] });
+          }
+          return Promise.resolve({ rows: [] });
+        });
+        
+        const user = await userService.createUser('admin-1', 'ADMIN', { email: ' New@Company.com ', name: 'New Hire' });
+        
+        expect(user).toMatchObject({ id: 'user-9', role: 'EMPLOYEE' });
+        const insert = mockDb.query.mock.calls.find(([query]) => query.includes('INSERT INTO users'))!;
+        expect(insert[1]).toEqual(['new@company.com', 'New Hire', 'EMPLOYEE', null]);
+        expect(mockAuditService.record).toHaveBeenCalledWith(
+          expect.objectContaining({ actorId: 'admin-1', action: 'CREATE_USER', entityId: 'user-9' }),
+          expect.anything()
+        );
+      });
+      
+      it('should reject duplicate emails', async () => {
+        mockDb.query.mockResolvedValue({ rows: [{ id: 'user-123' }] });
+        
+        await expect(
+          userService.createUser('admin-1', 'ADMIN', { email: 'jane@company.com', name: 'Jane' })
+        ).rejects.toThrow('A user with this email already exists');
+      });
+      
+      it('should only update the fields that are given and record the changes', async () => {
+        mockDb.query.mockImplementation((query: string) => {
+          if (query.includes('FROM teams')) {
+            return Promise.resolve({ rows: [{ id: 'team-2' }] });
+          }
+          if (query.includes('FOR UPDATE')) {
+            return Promise.resolve({ rows: [{ id: 'user-123', role: 'EMPLOYEE', team_id: 'team-1' }] });
+          }
+          if (query.includes('UPDATE users')) {
+            return Promise.resolve({ rows: [{ id: 'user-123', role: 'MANAGER', team_id: 'team-2' }] });
+          }
+          return Promise.resolve({ rows: [] });
+        });
+        
+        await userService.updateUser('admin-1', 'ADMIN', { id: 'user-123', role: 'MANAGER', teamId: 'team-2' });
+        
+        const update = mockDb.query.mock.calls.find(([query]) => query.includes('UPDATE users'))!;
+        expect(update[0]).toContain('SET role = $2, team_id = $3');
+        expect(update[1]).toEqual(['user-123', 'MANAGER', 'team-2']);
+        expect(mockAuditService.record).toHaveBeenCalledWith(
+          expect.objectContaining({
+            action: 'UPDATE_USER',
+            details: { role: { from: 'EMPLOYEE', to: 'MANAGER' }, team_id: { from: 'team-1', to: 'team-2' } }
+          }),
+          expect.anything()
+        );
+      });
+      
+      it('should not let admins demote or deactivate themselves', async () => {
+        await expect(
+          userService.updateUser('admin-1', 'ADMIN', { id: 'admin-1', role: 'HR' })
+        ).rejects.toThrow('You cannot change your own role');
+        await expect(userService.deactivateUser('admin-1', 'ADMIN', 'admin-1')).rejects.toThrow(
+          'You cannot deactivate your own account'
+        );
+      });
+      
+      it('should sign deactivated users out everywhere', async () => {
+        mockDb.query.mockImplementation((query: string) => {
+          if (query.includes('FOR UPDATE')) {
+            return Promise.resolve({ rows: [{ id: 'user-123', deactivated_at: null }] });
+          }
+          if (query.includes('UPDATE sessions')) {
+            return Promise.resolve({ rows: [{ id: 'session-1' }] });
+          }
+          if (query.includes('UPDATE users')) {
+            return Promise.resolve({ rows: [{ id: 'user-123', deactivated_at: new Date() }] });
+          }
+          return Promise.resolve({ rows: [] });
+        });
+        
+        const user = await userService.deactivateUser('admin-1', 'ADMIN', 'user-123');
+        
+        expect(user.deactivatedAt).toBeInstanceOf(Date);
+        expect(mockDb.query.mock.calls.some(([query]) => query.includes(`revoked_reason = 'USER_DEACTIVATED'`))).toBe(true);
+        expect(mockAuditService.record).toHaveBeenCalledWith(
+          expect.objectContaining({ action: 'DEACTIVATE_USER', entityId: 'user-123', details: { sessionCount: 1 } }),
+          expect.anything()
+        );
+      });
+      
+      it('should leave deactivated users out of the directory by default', async () => {
+        mockDb.query.mockResolvedValue({ rows: [] });
+        
+        await userService.getUsers({ first: 10 });
+        await userService.getUsers({ first: 10 }, true);
+        
+        expect(mockDb.query.mock.calls[0][0]).toContain('deactivated_at IS NULL');
+        expect(mockDb.query.mock.calls[1][0]).not.toContain('deactivated_at IS NULL');
       });
     });
   });
@@ -232,6 +349,8 @@ describe('Service Layer Tests', () => {
     
     beforeEach(() => {
       recognitionService = new RecognitionService(mockDb as any, mockPubsub as any);
+      // Transactions run on a client that shares the pool's query mock
+      mockDb.connect.mockResolvedValue({ query: mockDb.query, release: jest.fn() });
     });
     
     describe('createRecognition', () => {
@@ -283,6 +402,60 @@ describe('Service Layer Tests', () => {
         expect(mockPubsub.publish).toHaveBeenCalledWith('RECOGNITION_RECEIVED', expect.any(Object));
       });
       
+      it('should store @mentions and notify mentioned users who are not recipients', async () => {
+        const defaultImplementation = mockDb.query.getMockImplementation()!;
+        mockDb.query.mockImplementation((query: string, values: any[]) => {
+          if (query.includes('split_part')) {
+            return Promise.resolve({
+              rows: [
+                { id: 'jane-1', name: 'Jane', email: 'jane@company.com', email_key: 'jane@company.com', handle: 'jane' },
+                { id: 'recipient-123', name: 'Recipient User', email: 'recipient@company.com', email_key: 'recipient@company.com', handle: 'recipient' }
+              ]
+            });
+          }
+          return defaultImplementation(query, values);
+        });
+
+        const result = await recognitionService.createRecognition('sender-123', {
+          ...validInput,
+          message: 'Great work @recipient, with help from @jane and @nobody'
+        });
+
+        const insert = mockDb.query.mock.calls.find(([query]) => query.includes('INSERT INTO recognitions'));
+        expect(insert![1][11]).toEqual(['recipient-123', 'jane-1']);
+        expect(result.mentions.map((mention: any) => mention.id)).toEqual(['recipient-123', 'jane-1']);
+
+        const mentioned = mockPubsub.publish.mock.calls.filter(([event]) => event === 'RECOGNITION_MENTIONED');
+        expect(mentioned).toHaveLength(1);
+        expect(mentioned[0][1].recognitionMentioned.mentionedUser.id).toBe('jane-1');
+      });
+
+      it('should not notify mentions on private recognitions', async () => {
+        const defaultImplementation = mockDb.query.getMockImplementation()!;
+        mockDb.query.mockImplementation((query: string, values: any[]) => {
+          if (query.includes('split_part')) {
+            return Promise.resolve({
+              rows: [{ id: 'jane-1', name: 'Jane', email: 'jane@company.com', email_key: 'jane@company.com', handle: 'jane' }]
+            });
+          }
+          if (query.includes('INSERT INTO recognitions')) {
+            return defaultImplementation(query, values).then((result: any) => ({
+              rows: [{ ...result.rows[0], visibility: 'PRIVATE' }]
+            }));
+          }
+          return defaultImplementation(query, values);
+        });
+
+        await recognitionService.createRecognition('sender-123', {
+          ...validInput,
+          visibility: 'PRIVATE',
+          message: 'Thanks, and thanks @jane too'
+        });
+
+        expect(mockPubsub.publish).toHaveBeenCalledWith('RECOGNITION_RECEIVED', expect.any(Object));
+        expect(mockPubsub.publish).not.toHaveBeenCalledWith('RECOGNITION_MENTIONED', expect.any(Object));
+      });
+
       it('should throw error for empty message', async () => {
         const invalidInput = { ...validInput, message: '' };
         
@@ -327,6 +500,854 @@ describe('Service Layer Tests', () => {
         const result = await recognitionService.createRecognition('sender-123', anonymousInput);
         expect(result.sender).toBeNull();
       });
+      
+      it('should notify every recipient of a multi-recipient recognition', async () => {
+        mockDb.query.mockImplementation((query: string, values: any[]) => {
+          if (query.includes('INSERT INTO recognitions')) {
+            expect(values[1]).toBe('recipient-1');
+            expect(values[6]).toEqual(['recipient-1', 'recipient-2']);
+            return Promise.resolve({
+              rows: [{
+                id: 'recognition-123',
+                sender_id: 'sender-123',
+                recipient_id: 'recipient-1',
+                message: validInput.message,
+                visibility: 'PUBLIC',
+                keywords: ['great', 'work', 'project'],
+                created_at: new Date()
+              }]
+            });
+          }
+          return Promise.resolve({
+            rows: [
+              { id: 'recipient-2', name: 'Second Recipient', email: 'second@company.com' },
+              { id: 'recipient-1', name: 'First Recipient', email: 'first@company.com' }
+            ]
+          });
+        });
+        
+        const result = await recognitionService.createRecognition('sender-123', {
+          message: validInput.message,
+          visibility: 'PUBLIC',
+          recipientIds: ['recipient-1', 'recipient-2', 'recipient-1']
+        });
+        
+        expect(result.recipient.id).toBe('recipient-1');
+        expect(result.recipients.map(r => r.id)).toEqual(['recipient-1', 'recipient-2']);
+        const received = mockPubsub.publish.mock.calls.filter(([event]) => event === 'RECOGNITION_RECEIVED');
+        expect(received.map(([, payload]) => payload.recognitionReceived.recipient.id)).toEqual(['recipient-1', 'recipient-2']);
+        expect(mockPubsub.publish).toHaveBeenCalledWith('RECOGNITION_CREATED', expect.any(Object));
+      });
+      
+      it('should recognize every team member except the sender', async () => {
+        mockDb.query.mockImplementation((query: string, values: any[]) => {
+          if (query.includes('FROM teams')) {
+            return Promise.resolve({ rows: [{ id: 'team-123' }] });
+          }
+          if (query.includes('WHERE team_id = $1')) {
+            expect(values).toEqual(['team-123', 'sender-123']);
+            return Promise.resolve({
+              rows: [
+                { id: 'member-1', name: 'Member One', email: 'one@company.com' },
+                { id: 'member-2', name: 'Member Two', email: 'two@company.com' }
+              ]
+            });
+          }
+          if (query.includes('INSERT INTO recognitions')) {
+            expect(values[5]).toBe('team-123');
+            expect(values[6]).toEqual(['member-1', 'member-2']);
+            return Promise.resolve({ rows: [{ id: 'recognition-123', keywords: [], team_id: 'team-123' }] });
+          }
+          return Promise.resolve({ rows: [] });
+        });
+        
+        const result = await recognitionService.createRecognition('sender-123', {
+          message: 'Amazing launch, everyone',
+          visibility: 'PUBLIC',
+          teamId: 'team-123'
+        });
+        
+        expect(result.teamId).toBe('team-123');
+        expect(result.recipients).toHaveLength(2);
+      });
+      
+      it('should reject inactive or unknown company values', async () => {
+        mockDb.query.mockImplementation((query: string) => {
+          if (query.includes('FROM company_values')) {
+            return Promise.resolve({ rows: [{ id: 'value-1' }] });
+          }
+          return Promise.resolve({ rows: [{ id: 'recipient-123', name: 'Recipient User', email: 'recipient@company.com' }] });
+        });
+        
+        await expect(
+          recognitionService.createRecognition('sender-123', { ...validInput, valueIds: ['value-1', 'value-2'] })
+        ).rejects.toThrow('Company value not found or inactive');
+      });
+      
+      it('should require a company value when configured to', async () => {
+        process.env.RECOGNITION_VALUES_REQUIRED = 'true';
+        try {
+          await expect(
+            recognitionService.createRecognition('sender-123', validInput)
+          ).rejects.toThrow('At least one company value is required');
+        } finally {
+          delete process.env.RECOGNITION_VALUES_REQUIRED;
+        }
+      });
+      
+      it('should reject a recognition without recipients', async () => {
+        await expect(
+          recognitionService.createRecognition('sender-123', { message: validInput.message, visibility: 'PUBLIC' })
+        ).rejects.toThrow('Recipient ID or team ID is required');
+      });
+      
+      it('should debit the sender and credit each recipient when points are given', async () => {
+        mockDb.query.mockImplementation((query: string, values: any[]) => {
+          if (query.includes('INSERT INTO recognitions')) {
+            expect(values[8]).toBe(10);
+            return Promise.resolve({ rows: [{ id: 'recognition-123', keywords: [], points: 10 }] });
+          }
+          if (query.includes('as remaining')) {
+            return Promise.resolve({ rows: [{ remaining: '100' }] });
+          }
+          return Promise.resolve({ rows: [{ id: 'recipient-123', name: 'Recipient User', email: 'recipient@company.com' }] });
+        });
+        
+        const result = await recognitionService.createRecognition('sender-123', { ...validInput, points: 10 });
+        
+        expect(result.points).toBe(10);
+        expect(mockDb.query).toHaveBeenCalledWith('BEGIN');
+        expect(mockDb.query).toHaveBeenCalledWith(
+          expect.stringContaining("'RECOGNITION_SENT'"),
+          ['sender-123', -10, 'recognition-123']
+        );
+        expect(mockDb.query).toHaveBeenCalledWith('COMMIT');
+      });
+      
+      it('should roll back the recognition when the sender lacks points', async () => {
+        mockDb.query.mockImplementation((query: string) => {
+          if (query.includes('INSERT INTO recognitions')) {
+            return Promise.resolve({ rows: [{ id: 'recognition-123', keywords: [], points: 50 }] });
+          }
+          if (query.includes('as remaining')) {
+            return Promise.resolve({ rows: [{ remaining: '20' }] });
+          }
+          return Promise.resolve({ rows: [{ id: 'recipient-123', name: 'Recipient User', email: 'recipient@company.com' }] });
+        });
+        
+        await expect(
+          recognitionService.createRecognition('sender-123', { ...validInput, points: 50 })
+        ).rejects.toThrow('Insufficient points - 20 remaining this month, 50 required');
+        expect(mockDb.query).toHaveBeenCalledWith('ROLLBACK');
+        expect(mockPubsub.publish).not.toHaveBeenCalled();
+      });
+      
+      it('should not allow points on anonymous recognitions', async () => {
+        await expect(
+          recognitionService.createRecognition('sender-123', { ...validInput, visibility: 'ANONYMOUS', points: 10 })
+        ).rejects.toThrow('Points cannot be attached to anonymous recognitions');
+      });
+      
+      it('should reject self-recognition inside recipientIds', async () => {
+        await expect(
+          recognitionService.createRecognition('sender-123', {
+            ...validInput,
+            recipientIds: ['sender-123']
+          })
+        ).rejects.toThrow('Cannot recognize yourself');
+      });
+      
+      it('should not recognize deactivated users', async () => {
+        mockDb.query.mockResolvedValue({
+          rows: [{ id: 'recipient-123', name: 'Recipient User', email: 'recipient@company.com', deactivated_at: new Date() }]
+        });
+        
+        await expect(
+          recognitionService.createRecognition('sender-123', validInput)
+        ).rejects.toThrow('Recipient User has been deactivated and cannot receive recognitions');
+        expect(mockPubsub.publish).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('getRecognitions', () => {
+      it('should return a connection keyed on created_at and id', async () => {
+        mockDb.query.mockResolvedValue({
+          rows: [{ id: 'recognition-1', cursor_created_at: '2026-10-01 09:00:00.123456', keywords: [] }]
+        });
+        
+        const connection = await recognitionService.getRecognitions('user-123', { first: 1, visibility: 'PUBLIC' });
+        
+        const [query, params] = mockDb.query.mock.calls[0];
+        expect(query).toContain('r.visibility = $2');
+        expect(query).toContain('ORDER BY r.created_at DESC, r.id DESC');
+        expect(params).toEqual(['user-123', 'PUBLIC', 2]);
+        expect(connection.edges[0].node.id).toBe('recognition-1');
+        expect(connection.pageInfo.hasNextPage).toBe(false);
+      });
+    });
+    
+    describe('searchRecognitions', () => {
+      it('should apply the feed visibility rules and filters', async () => {
+        mockDb.query.mockResolvedValue({ rows: [] });
+        
+        await recognitionService.searchRecognitions('user-123', 'Q3 migration', {
+          senderId: 'sender-1',
+          valueId: 'value-1',
+          from: '2026-07-01T00:00:00Z'
+        });
+        
+        const [query, params] = mockDb.query.mock.calls[0];
+        expect(query).toContain("r.status = 'ACTIVE'");
+        expect(query).toContain("(r.visibility = 'PUBLIC' OR r.sender_id = $1 OR r.id IN (SELECT recognition_id FROM recognition_recipients WHERE recipient_id = $1))");
+        expect(query).toContain("websearch_to_tsquery('english', $2)");
+        expect(query).toContain('r.sender_id = $4');
+        expect(query).toContain('WHERE value_id = $5');
+        expect(query).toContain('r.created_at >= $6');
+        expect(params.slice(0, 2)).toEqual(['user-123', 'Q3 migration']);
+        expect(params[params.length - 1]).toBe(20);
+      });
+      
+      it('should let HR find hidden recognitions', async () => {
+        mockDb.query.mockResolvedValue({ rows: [] });
+        
+        await recognitionService.searchRecognitions('hr-user', 'migration', {}, 'HR');
+        
+        expect(mockDb.query.mock.calls[0][0]).toContain("r.status IN ('ACTIVE', 'HIDDEN')");
+      });
+      
+      it('should escape snippets and highlight matches', async () => {
+        mockDb.query.mockResolvedValue({
+          rows: [{
+            id: 'recognition-1',
+            keywords: [],
+            rank: '0.6',
+            snippet: 'Led the <script> \u0002migration\u0003 in Q3'
+          }]
+        });
+        
+        const [hit] = await recognitionService.searchRecognitions('user-123', 'migration');
+        
+        expect(hit.rank).toBe(0.6);
+        expect(hit.snippet).toBe('Led the &lt;script&gt; <mark>migration</mark> in Q3');
+        expect(hit.recognition.id).toBe('recognition-1');
+      });
+      
+      it('should reject an empty query', async () => {
+        await expect(recognitionService.searchRecognitions('user-123', '   ')).rejects.toThrow(
+          'Search query is required'
+        );
+      });
+    });
+    
+    describe('scheduled recognitions', () => {
+      const inOneDay = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+      const scheduledInput = () => ({
+        recipientId: 'recipient-123',
+        message: 'Happy work anniversary!',
+        visibility: 'PUBLIC' as const,
+        scheduledFor: inOneDay()
+      });
+      
+      it('should store a scheduled recognition without notifying anyone', async () => {
+        mockDb.query.mockImplementation((query: string, values: any[]) => {
+          if (query.includes('INSERT INTO recognitions')) {
+            expect(values[9]).toBe('SCHEDULED');
+            expect(values[10]).toBeInstanceOf(Date);
+            return Promise.resolve({ rows: [{ id: 'recognition-123', keywords: [], points: 10, status: 'SCHEDULED' }] });
+          }
+          if (query.includes('as remaining')) {
+            return Promise.resolve({ rows: [{ remaining: '100' }] });
+          }
+          return Promise.resolve({ rows: [{ id: 'recipient-123', name: 'Recipient User', email: 'recipient@company.com' }] });
+        });
+        
+        const result = await recognitionService.createRecognition('sender-123', { ...scheduledInput(), points: 10 });
+        
+        expect(result.status).toBe('SCHEDULED');
+        expect(mockPubsub.publish).not.toHaveBeenCalled();
+        expect(mockDb.query).toHaveBeenCalledWith(expect.stringContaining("'RECOGNITION_SENT'"), expect.any(Array));
+        expect(mockDb.query).not.toHaveBeenCalledWith(expect.stringContaining("'RECOGNITION_RECEIVED'"), expect.any(Array));
+      });
+      
+      it('should reject a delivery time in the past', async () => {
+        await expect(
+          recognitionService.createRecognition('sender-123', { ...scheduledInput(), scheduledFor: '2020-01-01T09:00:00Z' })
+        ).rejects.toThrow('Scheduled time must be in the future');
+      });
+      
+      it('should not schedule anonymous recognitions', async () => {
+        await expect(
+          recognitionService.createRecognition('sender-123', { ...scheduledInput(), visibility: 'ANONYMOUS' })
+        ).rejects.toThrow('Anonymous recognitions cannot be scheduled');
+      });
+      
+      it('should publish due recognitions through the normal notification path', async () => {
+        mockPubsub.publish.mockResolvedValue(undefined);
+        mockDb.query.mockImplementation((query: string) => {
+          if (query.includes("SET status = 'ACTIVE', created_at = scheduled_for")) {
+            return Promise.resolve({
+              rows: [{ id: 'recognition-123', visibility: 'PUBLIC', keywords: [], points: 5, status: 'ACTIVE' }]
+            });
+          }
+          if (query.includes('FROM recognition_recipients rr')) {
+            return Promise.resolve({ rows: [{ id: 'recipient-123', name: 'Recipient User', email: 'recipient@company.com' }] });
+          }
+          return Promise.resolve({ rows: [] });
+        });
+        
+        const published = await recognitionService.publishDueRecognitions();
+        
+        expect(published).toBe(1);
+        expect(mockDb.query).toHaveBeenCalledWith(
+          expect.stringContaining("'RECOGNITION_RECEIVED'"),
+          [['recipient-123'], 5, 'recognition-123']
+        );
+        expect(mockPubsub.publish).toHaveBeenCalledWith('RECOGNITION_RECEIVED', expect.any(Object));
+        expect(mockPubsub.publish).toHaveBeenCalledWith('RECOGNITION_CREATED', expect.any(Object));
+      });
+      
+      it('should refund reserved points when the sender cancels', async () => {
+        mockDb.query.mockImplementation((query: string) => {
+          if (query.includes('FOR UPDATE')) {
+            return Promise.resolve({ rows: [{ id: 'recognition-123', sender_id: 'sender-123', status: 'SCHEDULED', points: 10 }] });
+          }
+          return Promise.resolve({ rows: [] });
+        });
+        
+        await expect(recognitionService.cancelScheduledRecognition('recognition-123', 'sender-123')).resolves.toBe(true);
+        expect(mockDb.query).toHaveBeenCalledWith(expect.stringContaining("'RECOGNITION_REFUND'"), ['recognition-123']);
+      });
+      
+      it('should only let the sender reschedule', async () => {
+        mockDb.query.mockResolvedValue({ rows: [{ id: 'recognition-123', sender_id: 'sender-123', status: 'SCHEDULED' }] });
+        
+        await expect(
+          recognitionService.rescheduleRecognition('recognition-123', 'someone-else', inOneDay())
+        ).rejects.toThrow('You can only manage your own scheduled recognitions');
+      });
+    });
+
+    describe('moderation', () => {
+      const recipientRow = { id: 'recipient-123', name: 'Recipient User', email: 'recipient@company.com' };
+      const mockRules = (action: string, terms: string[]) => {
+        mockDb.query.mockImplementation((query: string, values: any[]) => {
+          if (query.includes('FROM moderation_rules')) {
+            return Promise.resolve({
+              rows: [{ id: 'rule-1', name: 'Test rule', match_type: 'WORDS', terms, action, enabled: true }]
+            });
+          }
+          if (query.includes('INSERT INTO recognitions')) {
+            return Promise.resolve({
+              rows: [{ id: 'recognition-123', message: values[2], visibility: 'PUBLIC', keywords: [], points: values[8], status: values[9] }]
+            });
+          }
+          if (query.includes('as remaining')) {
+            return Promise.resolve({ rows: [{ remaining: '100' }] });
+          }
+          return Promise.resolve({ rows: [recipientRow] });
+        });
+      };
+
+      it('should record and refuse rejected messages', async () => {
+        mockRules('REJECT', ['hate']);
+
+        await expect(
+          recognitionService.createRecognition('sender-123', {
+            recipientId: 'recipient-123',
+            message: 'I hate to say it, but you nailed it',
+            visibility: 'ANONYMOUS'
+          })
+        ).rejects.toThrow('Message contains inappropriate content');
+
+        const decision = mockDb.query.mock.calls.find(([query]) => query.includes('INSERT INTO moderation_decisions'));
+        expect(decision![1].slice(0, 5)).toEqual([
+          null, null, 'CREATE', 'REJECT', 'I hate to say it, but you nailed it'
+        ]);
+        expect(mockDb.query).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO recognitions'), expect.any(Array));
+      });
+
+      it('should allow words that only contain a blocked word', async () => {
+        mockRules('REJECT', ['spam', 'hate']);
+
+        const result = await recognitionService.createRecognition('sender-123', {
+          recipientId: 'recipient-123',
+          message: 'Whatever it took, the spammer-filter project shipped',
+          visibility: 'PUBLIC'
+        });
+
+        expect(result.status).toBe('ACTIVE');
+      });
+
+      it('should hold a recognition for review without notifying or crediting anyone', async () => {
+        mockRules('HOLD', ['lawsuit']);
+
+        const result = await recognitionService.createRecognition('sender-123', {
+          recipientId: 'recipient-123',
+          message: 'Thanks for the help with the lawsuit paperwork',
+          visibility: 'PUBLIC',
+          points: 10
+        });
+
+        expect(result.status).toBe('HELD');
+        expect(mockPubsub.publish).not.toHaveBeenCalled();
+        expect(mockDb.query).toHaveBeenCalledWith(expect.stringContaining("'RECOGNITION_SENT'"), expect.any(Array));
+        expect(mockDb.query).not.toHaveBeenCalledWith(expect.stringContaining("'RECOGNITION_RECEIVED'"), expect.any(Array));
+        expect(mockDb.query).toHaveBeenCalledWith(
+          expect.stringContaining('INSERT INTO moderation_decisions'),
+          ['recognition-123', 'sender-123', 'CREATE', 'HOLD', 'Thanks for the help with the lawsuit paperwork', expect.any(String)]
+        );
+      });
+
+      it('should store masked messages', async () => {
+        mockRules('MASK', ['darn']);
+
+        const result = await recognitionService.createRecognition('sender-123', {
+          recipientId: 'recipient-123',
+          message: 'That darn bug is finally fixed',
+          visibility: 'PUBLIC'
+        });
+
+        expect(result.message).toBe('That **** bug is finally fixed');
+        expect(result.status).toBe('ACTIVE');
+      });
+
+      it('should deliver a held recognition when HR releases it', async () => {
+        mockPubsub.publish.mockResolvedValue(undefined);
+        mockDb.query.mockImplementation((query: string) => {
+          if (query.includes('FOR UPDATE')) {
+            return Promise.resolve({ rows: [{ id: 'recognition-123', sender_id: 'sender-123', status: 'HELD' }] });
+          }
+          if (query.includes('FROM moderation_decisions')) {
+            return Promise.resolve({ rows: [{ id: 'decision-1', context: 'CREATE', action: 'HOLD', matches: [] }] });
+          }
+          if (query.includes('UPDATE recognitions')) {
+            return Promise.resolve({
+              rows: [{ id: 'recognition-123', visibility: 'PUBLIC', keywords: [], points: 10, status: 'ACTIVE' }]
+            });
+          }
+          if (query.includes('FROM recognition_recipients rr')) {
+            return Promise.resolve({ rows: [recipientRow] });
+          }
+          return Promise.resolve({ rows: [{ id: 'recognition-123', recipient_id: 'recipient-123', status: 'ACTIVE' }] });
+        });
+
+        const result = await recognitionService.releaseHeldRecognition('recognition-123', 'hr-1', 'HR');
+
+        expect(result.status).toBe('ACTIVE');
+        expect(mockDb.query).toHaveBeenCalledWith(
+          expect.stringContaining("'RECOGNITION_RECEIVED'"),
+          [['recipient-123'], 10, 'recognition-123']
+        );
+        expect(mockDb.query).toHaveBeenCalledWith(
+          expect.stringContaining('UPDATE moderation_decisions'),
+          ['decision-1', 'hr-1', 'RELEASED', null]
+        );
+        expect(mockPubsub.publish).toHaveBeenCalledWith('RECOGNITION_RECEIVED', expect.any(Object));
+      });
+
+      it('should show hidden recognitions to HR only', async () => {
+        mockDb.query.mockResolvedValue({ rows: [] });
+
+        await expect(recognitionService.getRecognitionById('recognition-123', 'user-1')).rejects.toThrow(
+          'Recognition not found or access denied'
+        );
+        await expect(recognitionService.getRecognitionById('recognition-123', 'hr-1', 'HR')).rejects.toThrow(
+          'Recognition not found or access denied'
+        );
+
+        expect(mockDb.query.mock.calls[0][0]).toContain(`r.status = 'ACTIVE'`);
+        expect(mockDb.query.mock.calls[1][0]).toContain(`r.status IN ('ACTIVE', 'HIDDEN')`);
+      });
+
+      it('should stop live updates once a recognition is no longer visible', async () => {
+        mockDb.query.mockResolvedValueOnce({ rows: [{ '?column?': 1 }] }).mockResolvedValueOnce({ rows: [] });
+
+        expect(await recognitionService.canViewRecognition('recognition-123', 'user-1')).toBe(true);
+        expect(await recognitionService.canViewRecognition('recognition-123', 'user-1')).toBe(false);
+        expect(mockDb.query.mock.calls[0][0]).toContain(`r.status = 'ACTIVE'`);
+        expect(mockDb.query.mock.calls[0][1]).toEqual(['recognition-123', 'user-1']);
+      });
+
+      it('should record HR deleting someone else\'s recognition', async () => {
+        mockDb.query.mockResolvedValue({ rows: [{ id: 'recognition-123', sender_id: 'sender-123', status: 'HIDDEN' }] });
+
+        await recognitionService.deleteRecognition('recognition-123', 'hr-1', 'HR');
+
+        expect(mockDb.query).toHaveBeenCalledWith(
+          expect.stringContaining('INSERT INTO moderation_log'),
+          ['recognition-123', 'hr-1', 'REMOVE', 'HIDDEN', 'DELETED', null]
+        );
+      });
+
+      it('should not let senders review their own held recognition', async () => {
+        mockDb.query.mockResolvedValue({ rows: [{ id: 'recognition-123', sender_id: 'hr-1', status: 'HELD' }] });
+
+        await expect(
+          recognitionService.rejectHeldRecognition('recognition-123', 'hr-1', 'HR', 'Not appropriate')
+        ).rejects.toThrow('You cannot review your own recognition');
+      });
+
+      it('should only let HR review held recognitions', async () => {
+        await expect(recognitionService.getHeldRecognitions('MANAGER')).rejects.toThrow(
+          'Insufficient permissions - HR role or higher required'
+        );
+      });
+    });
+
+    describe('rate limits', () => {
+      const recipientRow = { id: 'recipient-123', name: 'Recipient User', email: 'recipient@company.com' };
+      const mockSends = (sends: any[]) => {
+        mockDb.query.mockImplementation((query: string, values: any[]) => {
+          if (query.includes('FROM recognition_send_log')) {
+            return Promise.resolve({ rows: sends });
+          }
+          if (query.includes('INSERT INTO recognitions')) {
+            return Promise.resolve({
+              rows: [{ id: 'recognition-123', sender_id: values[0], message: values[2], visibility: values[3], keywords: [], status: values[9] }]
+            });
+          }
+          return Promise.resolve({ rows: [recipientRow] });
+        });
+      };
+      const send = () => recognitionService.createRecognition('sender-123', {
+        recipientId: 'recipient-123',
+        message: 'Great work on the project!',
+        visibility: 'PUBLIC'
+      });
+
+      it('should log each send under a per-sender lock', async () => {
+        mockSends([]);
+
+        await send();
+
+        expect(mockDb.query).toHaveBeenCalledWith('SELECT pg_advisory_xact_lock(hashtext($1))', ['sender-123']);
+        expect(mockDb.query).toHaveBeenCalledWith(
+          expect.stringContaining('INSERT INTO recognition_send_log'),
+          ['sender-123', ['recipient-123']]
+        );
+      });
+
+      it('should refuse sends over the hourly limit with a retry-after', async () => {
+        mockSends(Array.from({ length: 20 }, (_, i) => ({ recipient_ids: [`user-${i}`], age_seconds: String(600 + i) })));
+
+        const error = await send().catch(caught => caught);
+
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error.message).toBe('You can send at most 20 recognitions per hour');
+        expect(error.extensions).toMatchObject({ code: 'RATE_LIMITED', retryAfter: 2981 });
+        expect(mockDb.query).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO recognitions'), expect.any(Array));
+        expect(mockDb.query).toHaveBeenCalledWith('ROLLBACK');
+      });
+
+      it('should limit recognitions to the same recipient per week', async () => {
+        mockSends(Array.from({ length: 5 }, (_, i) => ({ recipient_ids: ['recipient-123'], age_seconds: String(86400 * (i + 1)) })));
+
+        await expect(send()).rejects.toThrow('You can recognize the same person at most 5 times per week');
+      });
+
+      it('should log anonymous sends so they cannot be linked back to the sender', async () => {
+        mockSends([]);
+
+        await recognitionService.createRecognition('sender-123', {
+          recipientId: 'recipient-123',
+          message: 'Great work on the project!',
+          visibility: 'ANONYMOUS'
+        });
+
+        const [query, values] = mockDb.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO recognition_send_log'))!;
+        expect(query).not.toContain('sender_id');
+        expect(query).not.toContain('recipient_ids');
+        expect(query).toContain("date_trunc('hour', NOW()) + INTERVAL '1 hour'");
+        expect(JSON.stringify(values)).not.toMatch(/sender-123|recipient-123/);
+        expect(values).toEqual([pseudonymize('sender-123'), [pseudonymize('sender-123:recipient-123')]]);
+      });
+
+      it('should count anonymous sends towards the sender\'s limits', async () => {
+        mockSends(Array.from({ length: 5 }, (_, i) => ({
+          recipient_ids: null,
+          recipient_keys: [pseudonymize('sender-123:recipient-123')],
+          age_seconds: String(86400 * (i + 1))
+        })));
+
+        await expect(send()).rejects.toThrow('You can recognize the same person at most 5 times per week');
+        const lookup = mockDb.query.mock.calls.find(([sql]) => sql.includes('FROM recognition_send_log'))!;
+        expect(lookup[1]).toEqual(['sender-123', pseudonymize('sender-123'), 604800]);
+      });
+    });
+
+    describe('anonymous sender escrow', () => {
+      const recipientRow = { id: 'recipient-123', name: 'Recipient User', email: 'recipient@company.com' };
+      let escrowRow: any;
+
+      beforeEach(() => {
+        escrowRow = null;
+        mockDb.query.mockImplementation((query: string, values: any[]) => {
+          if (query.includes('INSERT INTO recognitions')) {
+            return Promise.resolve({
+              rows: [{ id: 'recognition-123', sender_id: values[0], message: values[2], visibility: values[3], keywords: [], status: values[9] }]
+            });
+          }
+          if (query.includes('INSERT INTO anonymous_sender_escrow')) {
+            escrowRow = { recognition_id: values[0], encrypted_sender_id: values[1], iv: values[2], auth_tag: values[3] };
+            return Promise.resolve({ rows: [] });
+          }
+          if (query.includes('FROM anonymous_sender_escrow')) {
+            return Promise.resolve({ rows: escrowRow ? [escrowRow] : [] });
+          }
+          if (query.includes('LEFT JOIN users s')) {
+            return Promise.resolve({ rows: [{ id: values[0], sender_id: null, visibility: 'ANONYMOUS', status: 'ACTIVE' }] });
+          }
+          if (query.includes('INSERT INTO audit_log')) {
+            return Promise.resolve({
+              rows: [{ id: 'audit-1', actor_id: values[0], action: values[1], entity_id: values[3], details: JSON.parse(values[4]), created_at: new Date() }]
+            });
+          }
+          return Promise.resolve({ rows: [recipientRow] });
+        });
+      });
+
+      const sendAnonymously = () => recognitionService.createRecognition('sender-123', {
+        recipientId: 'recipient-123',
+        message: 'Great work on the project!',
+        visibility: 'ANONYMOUS'
+      });
+
+      it('should escrow the encrypted sender without exposing it', async () => {
+        await sendAnonymously();
+
+        expect(escrowRow.recognition_id).toBe('recognition-123');
+        expect(escrowRow.encrypted_sender_id.toString('utf8')).not.toContain('sender-123');
+        expect(JSON.stringify(mockPubsub.publish.mock.calls)).not.toContain('sender-123');
+      });
+
+      it('should reveal the sender to HR, audit it and notify the recipient', async () => {
+        await sendAnonymously();
+        mockPubsub.publish.mockClear();
+
+        const reveal = await recognitionService.revealAnonymousSender(
+          'recognition-123', 'hr-1', 'HR', ' Repeated harassment complaints '
+        );
+
+        expect(reveal).toMatchObject({ recognitionId: 'recognition-123', senderId: 'sender-123', justification: 'Repeated harassment complaints' });
+        expect(mockDb.query).toHaveBeenCalledWith(
+          expect.stringContaining('INSERT INTO audit_log'),
+          ['hr-1', 'REVEAL_ANONYMOUS_SENDER', 'RECOGNITION', 'recognition-123', JSON.stringify({ justification: 'Repeated harassment complaints' })]
+        );
+        expect(mockPubsub.publish).toHaveBeenCalledWith('ANONYMOUS_SENDER_REVEALED', {
+          anonymousSenderRevealed: { recognitionId: 'recognition-123', recipientId: 'recipient-123', revealedAt: expect.any(Date) }
+        });
+        expect(JSON.stringify(mockPubsub.publish.mock.calls)).not.toContain('sender-123');
+      });
+
+      it('should not reveal an escrow copied onto another recognition', async () => {
+        await sendAnonymously();
+
+        await expect(
+          recognitionService.revealAnonymousSender('recognition-456', 'hr-1', 'HR', 'Investigation')
+        ).rejects.toThrow('Escrowed sender could not be decrypted');
+        expect(mockDb.query).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO audit_log'), expect.any(Array));
+      });
+
+      it('should not let anonymous senders review their own held recognition', async () => {
+        await sendAnonymously();
+        const escrowed = mockDb.query.getMockImplementation()!;
+        mockDb.query.mockImplementation((query: string, values: any[]) =>
+          query.includes('FOR UPDATE')
+            ? Promise.resolve({ rows: [{ id: 'recognition-123', sender_id: null, visibility: 'ANONYMOUS', status: 'HELD' }] })
+            : escrowed(query, values)
+        );
+
+        await expect(
+          recognitionService.releaseHeldRecognition('recognition-123', 'sender-123', 'HR')
+        ).rejects.toThrow('You cannot review your own recognition');
+        await expect(
+          recognitionService.rejectHeldRecognition('recognition-123', 'sender-123', 'HR', 'Not appropriate')
+        ).rejects.toThrow('You cannot review your own recognition');
+      });
+
+      it('should require HR, a justification, and an uninvolved reviewer', async () => {
+        await expect(
+          recognitionService.revealAnonymousSender('recognition-123', 'manager-1', 'MANAGER', 'Investigation')
+        ).rejects.toThrow('Insufficient permissions - HR role or higher required');
+        await expect(
+          recognitionService.revealAnonymousSender('recognition-123', 'hr-1', 'HR', '   ')
+        ).rejects.toThrow('A justification is required to reveal an anonymous sender');
+        await expect(
+          recognitionService.revealAnonymousSender('recognition-123', 'recipient-123', 'HR', 'Investigation')
+        ).rejects.toThrow('You cannot reveal the sender of a recognition you received');
+      });
+    });
+
+    describe('updateRecognition', () => {
+      const existing = {
+        id: 'recognition-123',
+        sender_id: 'sender-123',
+        recipient_id: 'recipient-123',
+        message: 'Great work on the project!',
+        visibility: 'PUBLIC',
+        keywords: ['great', 'work', 'project'],
+        status: 'ACTIVE',
+        created_at: new Date()
+      };
+      
+      beforeEach(() => {
+        mockDb.query.mockImplementation((query: string) => {
+          if (query.includes('UPDATE recognitions')) {
+            return Promise.resolve({ rows: [{ id: existing.id }] });
+          }
+          return Promise.resolve({ rows: [existing] });
+        });
+      });
+      
+      it('should snapshot the previous version in the same statement as the update', async () => {
+        await recognitionService.updateRecognition('sender-123', {
+          id: 'recognition-123',
+          message: 'Great work on the database migration'
+        });
+        
+        const updateCall = mockDb.query.mock.calls.find(([query]) => query.includes('UPDATE recognitions'));
+        expect(updateCall![0]).toContain('INSERT INTO recognition_revisions');
+        expect(updateCall![1]).toEqual([
+          'recognition-123',
+          'sender-123',
+          'Great work on the database migration',
+          JSON.stringify(['great', 'work', 'database', 'migration'])
+        ]);
+      });
+      
+      it('should reject updates from someone other than the sender', async () => {
+        await expect(
+          recognitionService.updateRecognition('other-user', { id: 'recognition-123', message: 'Edited' })
+        ).rejects.toThrow('You can only update your own recognitions');
+      });
+      
+      it('should not allow an existing recognition to become anonymous', async () => {
+        await expect(
+          recognitionService.updateRecognition('sender-123', { id: 'recognition-123', visibility: 'ANONYMOUS' })
+        ).rejects.toThrow('cannot be made anonymous');
+      });
+    });
+    
+    describe('deleteRecognition and restoreRecognition', () => {
+      const mockRecognition = (overrides: any = {}) => {
+        mockDb.query.mockImplementation((query: string) => {
+          if (query.startsWith('SELECT * FROM recognitions')) {
+            return Promise.resolve({
+              rows: [{
+                id: 'recognition-123',
+                sender_id: 'sender-123',
+                recipient_id: 'recipient-123',
+                status: 'ACTIVE',
+                ...overrides
+              }]
+            });
+          }
+          return Promise.resolve({ rows: [{ id: 'recognition-123', keywords: [], status: 'ACTIVE' }] });
+        });
+      };
+      
+      it('should mark the recognition as deleted instead of changing its visibility', async () => {
+        mockRecognition();
+        await expect(recognitionService.deleteRecognition('recognition-123', 'sender-123', 'EMPLOYEE')).resolves.toBe(true);
+        
+        const [query, values] = mockDb.query.mock.calls[1];
+        expect(query).toContain("status = 'DELETED'");
+        expect(query).not.toContain('visibility');
+        expect(values).toEqual(['recognition-123', 'sender-123']);
+      });
+      
+      it('should let HR delete any recognition', async () => {
+        mockRecognition();
+        await expect(recognitionService.deleteRecognition('recognition-123', 'hr-user', 'HR')).resolves.toBe(true);
+      });
+      
+      it('should not let employees delete other people\'s recognitions', async () => {
+        mockRecognition();
+        await expect(
+          recognitionService.deleteRecognition('recognition-123', 'other-user', 'EMPLOYEE')
+        ).rejects.toThrow('You can only delete your own recognitions');
+      });
+      
+      it('should let the sender restore their own deletion', async () => {
+        mockRecognition({ status: 'DELETED', deleted_by: 'sender-123' });
+        const result = await recognitionService.restoreRecognition('recognition-123', 'sender-123', 'EMPLOYEE');
+        expect(result.status).toBe('ACTIVE');
+      });
+      
+      it('should not let the sender restore a recognition removed by HR', async () => {
+        mockRecognition({ status: 'DELETED', deleted_by: 'hr-user' });
+        await expect(
+          recognitionService.restoreRecognition('recognition-123', 'sender-123', 'EMPLOYEE')
+        ).rejects.toThrow('You can only restore recognitions you deleted');
+      });
+      
+      it('should not let the sender delete and then restore a hidden recognition', async () => {
+        mockRecognition({ status: 'HIDDEN' });
+        await expect(
+          recognitionService.deleteRecognition('recognition-123', 'sender-123', 'HR')
+        ).rejects.toThrow('Hidden recognitions can only be removed by a moderator');
+        expect(mockDb.query).toHaveBeenCalledTimes(1);
+        
+        mockRecognition({ status: 'DELETED', deleted_by: 'hr-user' });
+        await expect(
+          recognitionService.restoreRecognition('recognition-123', 'sender-123', 'EMPLOYEE')
+        ).rejects.toThrow('You can only restore recognitions you deleted');
+      });
+      
+      it('should let HR delete a hidden recognition as a logged moderator action', async () => {
+        mockRecognition({ status: 'HIDDEN' });
+        await expect(recognitionService.deleteRecognition('recognition-123', 'hr-user', 'HR')).resolves.toBe(true);
+        expect(mockDb.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO moderation_log'), expect.arrayContaining(['REMOVE', 'HIDDEN']));
+      });
+      
+      it('should restrict the trash view to HR and admins', async () => {
+        await expect(recognitionService.getDeletedRecognitions('MANAGER')).rejects.toThrow('Insufficient permissions');
+      });
+    });
+    
+    describe('getRecognitionRevisions', () => {
+      beforeEach(() => {
+        mockDb.query.mockImplementation((query: string, values: any[]) => {
+          if (query.includes('FROM recognition_revisions')) {
+            return Promise.resolve({
+              rows: [{
+                id: 'revision-1',
+                message: 'Great work on the projct!',
+                visibility: 'PUBLIC',
+                keywords: ['great', 'work', 'projct'],
+                edited_by: 'sender-123',
+                editor_name: 'Sender User',
+                editor_email: 'sender@company.com',
+                created_at: new Date()
+              }]
+            });
+          }
+          return Promise.resolve({ rows: [{ sender_id: 'sender-123', is_recipient: values[1] === 'recipient-123' }] });
+        });
+      });
+      
+      it('should return revisions to the recipient', async () => {
+        const revisions = await recognitionService.getRecognitionRevisions('recognition-123', 'recipient-123', 'EMPLOYEE');
+        expect(revisions).toHaveLength(1);
+        expect(revisions![0].message).toBe('Great work on the projct!');
+        expect(revisions![0].editedBy?.name).toBe('Sender User');
+      });
+      
+      it('should return revisions to HR', async () => {
+        const revisions = await recognitionService.getRecognitionRevisions('recognition-123', 'hr-user', 'HR');
+        expect(revisions).toHaveLength(1);
+      });
+      
+      it('should hide revisions from other employees', async () => {
+        await expect(
+          recognitionService.getRecognitionRevisions('recognition-123', 'other-user', 'EMPLOYEE')
+        ).rejects.toThrow('permission');
+      });
+      
+      it('should return null to other employees when asked from a feed', async () => {
+        const revisions = await recognitionService.getRecognitionRevisions('recognition-123', 'other-user', 'EMPLOYEE', true);
+        expect(revisions).toBeNull();
+      });
     });
   });
   
@@ -340,6 +1361,9 @@ describe('Service Layer Tests', () => {
     describe('getTeamStats', () => {
       it('should return team statistics for authorized users', async () => {
         mockDb.query.mockImplementation((query: string) => {
+          if (query.includes('WITH RECURSIVE scope')) {
+            return Promise.resolve({ rows: [{ id: 'team-123' }] });
+          }
           if (query.includes('COUNT(*) as total')) {
             return Promise.resolve({
               rows: [{
@@ -360,7 +1384,7 @@ describe('Service Layer Tests', () => {
           });
         });
         
-        const result = await analyticsService.getTeamStats('team-123', 'MANAGER');
+        const result = await analyticsService.getTeamStats('team-123', 'manager-1', 'MANAGER');
         
         expect(result.totalCount).toBe(10);
         expect(result.publicCount).toBe(7);
@@ -369,11 +1393,93 @@ describe('Service Layer Tests', () => {
         expect(result.topKeywords).toContain('excellent');
       });
       
+      it('should count multi-recipient recognitions per team recipient', async () => {
+        mockDb.query.mockResolvedValue({ rows: [{ total: '0' }] });
+        
+        await analyticsService.getTeamStats('team-123', 'hr-1', 'HR');
+        
+        expect(mockDb.query.mock.calls[0][0]).toContain('JOIN recognition_recipients rr ON rr.recognition_id = r.id');
+        expect(mockDb.query.mock.calls[0][0]).toContain('JOIN users u ON rr.recipient_id = u.id');
+      });
+      
       it('should throw error for unauthorized users', async () => {
+        mockDb.query.mockResolvedValue({ rows: [] });
+        
         await expect(
-          analyticsService.getTeamStats('team-123', 'EMPLOYEE')
+          analyticsService.getTeamStats('team-123', 'user-123', 'EMPLOYEE')
         ).rejects.toThrow('Insufficient permissions');
       });
+      
+      it('should roll up every sub-team when asked', async () => {
+        mockDb.query.mockImplementation((query: string) => {
+          if (query.includes('WITH RECURSIVE tree')) {
+            return Promise.resolve({ rows: [{ id: 'team-123' }, { id: 'team-456' }] });
+          }
+          return Promise.resolve({ rows: [{ total: '4' }] });
+        });
+        
+        const result = await analyticsService.getTeamStats('team-123', 'hr-1', 'HR', true);
+        
+        expect(result).toMatchObject({ teamId: 'team-123', includeSubTeams: true, totalCount: 4 });
+        const stats = mockDb.query.mock.calls.find(([query]) => query.includes('COUNT(*) as total'))!;
+        expect(stats[0]).toContain('u.team_id = ANY($1)');
+        expect(stats[1]).toEqual([['team-123', 'team-456']]);
+      });
+      
+      it('should not roll up sub-teams the user cannot see', async () => {
+        mockDb.query.mockImplementation((query: string) => {
+          if (query.includes('WITH RECURSIVE tree')) {
+            return Promise.resolve({ rows: [{ id: 'team-123' }, { id: 'team-456' }] });
+          }
+          // A grant for team-123 alone, without its sub-teams
+          return Promise.resolve({ rows: [{ id: 'team-123' }] });
+        });
+        
+        await expect(
+          analyticsService.getTeamStats('team-123', 'user-123', 'EMPLOYEE', true)
+        ).rejects.toThrow('you do not have access to this team');
+      });
+      
+      it('should not let managers read teams they do not manage', async () => {
+        mockDb.query.mockResolvedValue({ rows: [{ id: 'team-456' }] });
+        
+        await expect(
+          analyticsService.getTeamStats('team-123', 'manager-1', 'MANAGER')
+        ).rejects.toThrow('you do not have access to this team');
+        expect(mockDb.query).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('getSuspiciousActivity', () => {
+      it('should return reciprocal pairs, rings and bursts for HR', async () => {
+        mockDb.query.mockImplementation((query: string) => {
+          if (query.includes('JOIN edges ca')) {
+            return Promise.resolve({ rows: [{ user_a: 'user-1', user_b: 'user-2', user_c: 'user-3', count: '7', points: '60' }] });
+          }
+          if (query.includes('JOIN edges b')) {
+            return Promise.resolve({ rows: [{ user_a: 'user-1', user_b: 'user-2', a_to_b: '4', b_to_a: '5', points: '90' }] });
+          }
+          return Promise.resolve({
+            rows: [{ sender_id: 'user-4', count: '12', started_at: new Date('2026-01-01T10:00:00Z'), ended_at: new Date('2026-01-01T10:45:00Z') }]
+          });
+        });
+
+        const result = await analyticsService.getSuspiciousActivity('HR', 14);
+
+        expect(result.reciprocalPairs).toEqual([{ userAId: 'user-1', userBId: 'user-2', aToBCount: 4, bToACount: 5, points: 90 }]);
+        expect(result.rings).toEqual([{ memberIds: ['user-1', 'user-2', 'user-3'], recognitionCount: 7, points: 60 }]);
+        expect(result.bursts[0]).toMatchObject({ senderId: 'user-4', count: 12 });
+        expect(mockDb.query.mock.calls.map(([, params]) => params)).toEqual([[14, 3, 50], [14, 2, 50], [14, 10, 50]]);
+        expect(mockDb.query.mock.calls[0][0]).toContain('r.sender_id IS NOT NULL');
+      });
+
+      it('should only allow HR and admins and a bounded period', async () => {
+        await expect(analyticsService.getSuspiciousActivity('MANAGER')).rejects.toThrow(
+          'Insufficient permissions - HR role or higher required'
+        );
+        await expect(analyticsService.getSuspiciousActivity('ADMIN', 365)).rejects.toThrow('Days must be between 1 and 90');
+        expect(mockDb.query).not.toHaveBeenCalled();
+      });
     });
   });
   
@@ -382,7 +1488,7 @@ describe('Service Layer Tests', () => {
       const userService = new UserService(mockDb as any);
       mockDb.query.mockRejectedValue(new Error('Database connection failed'));
       
-      await expect(userService.login('test@company.com'))
+      await expect(userService.getCurrentUser('user-123'))
         .rejects.toThrow('Database connection failed');
     });
     
@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { SessionService } from '../services/SessionService';
+
+const mockDb = {
+  query: jest.fn(),
+  connect: jest.fn(),
+};
+
+const mockAuditService = {
+  record: jest.fn(),
+};
+
+const userRow = {
+  id: 'user-1',
+  email: 'jane@company.com',
+  name: 'Jane',
+  role: 'EMPLOYEE',
+  created_at: new Date()
+};
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+describe('SessionService', () => {
+  let sessionService: SessionService;
+
+  beforeEach(() => {
+    sessionService = new SessionService(mockDb as any, mockAuditService as any);
+    mockDb.connect.mockResolvedValue({ query: mockDb.query, release: jest.fn() });
+  });
+
+  describe('createSession', () => {
+    it('should issue a short-lived access token bound to the session', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ id: 'session-1' }] });
+
+      const result = await sessionService.createSession(userRow, { ipAddress: '10.0.0.1', userAgent: 'Firefox' });
+
+      const payload = jwt.verify(result.token, process.env.JWT_SECRET!) as any;
+      expect(payload).toMatchObject({ id: 'user-1', role: 'EMPLOYEE', sid: 'session-1' });
+      expect(payload.exp - payload.iat).toBe(15 * 60);
+      // Only the hash of the refresh token is stored
+      expect(mockDb.query.mock.calls[0][1]).toEqual(['user-1', sha256(result.refreshToken), '10.0.0.1', 'Firefox', 30]);
+    });
+  });
+
+  describe('refreshSession', () => {
+    it('should rotate the refresh token and pick up role changes', async () => {
+      mockDb.query
+        .mockResolvedValueOnce({ rows: [{ id: 'session-1', user_id: 'user-1' }] })
+        .mockResolvedValueOnce({ rows: [{ ...userRow, role: 'MANAGER' }] });
+
+      const result = await sessionService.refreshSession('old-token');
+
+      const [rotate, params] = mockDb.query.mock.calls[0];
+      expect(rotate).toContain('WHERE refresh_token_hash = $1 AND revoked_at IS NULL');
+      expect(params[0]).toBe(sha256('old-token'));
+      expect(params[1]).toBe(sha256(result.refreshToken));
+      expect(result.refreshToken).not.toBe('old-token');
+      expect(jwt.decode(result.token)).toMatchObject({ role: 'MANAGER', sid: 'session-1' });
+    });
+
+    it('should revoke the session when a rotated refresh token is reused', async () => {
+      mockDb.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 'session-1' }] });
+
+      await expect(sessionService.refreshSession('stolen-token')).rejects.toThrow('Invalid or expired refresh token');
+
+      const [revoke, params] = mockDb.query.mock.calls[1];
+      expect(revoke).toContain(`revoked_reason = 'REFRESH_TOKEN_REUSED'`);
+      expect(revoke).toContain('WHERE previous_refresh_token_hash = $1');
+      expect(params).toEqual([sha256('stolen-token')]);
+    });
+  });
+
+  describe('verifyAccessToken', () => {
+    const sign = (payload: object) => jwt.sign(payload, process.env.JWT_SECRET!, { expiresIn: 60 });
+
+    it('should accept tokens of active sessions', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ id: 'session-1' }] });
+
+      await expect(sessionService.verifyAccessToken(sign({ id: 'user-1', sid: 'session-1' }))).resolves.toMatchObject({
+        id: 'user-1'
+      });
+      expect(mockDb.query.mock.calls[0][1]).toEqual(['session-1']);
+    });
+
+    it('should reject tokens of revoked sessions', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      await expect(sessionService.verifyAccessToken(sign({ id: 'user-1', sid: 'session-1' }))).rejects.toThrow(
+        'Session has been revoked'
+      );
+    });
+
+    it('should reject tokens without a session and forged tokens', async () => {
+      await expect(sessionService.verifyAccessToken(sign({ id: 'user-1' }))).rejects.toThrow('Invalid or expired token');
+      await expect(
+        sessionService.verifyAccessToken(jwt.sign({ id: 'user-1', sid: 'session-1' }, 'wrong-secret'))
+      ).rejects.toThrow('Invalid or expired token');
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revocation', () => {
+    it('should only revoke the user\'s own sessions', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      await expect(sessionService.revokeSession('user-1', 'session-2')).rejects.toThrow('Session not found');
+      expect(mockDb.query.mock.calls[0][1]).toEqual(['session-2', 'user-1']);
+    });
+
+    it('should let admins sign a user out everywhere and audit it', async () => {
+      mockDb.query.mockResolvedValue({ rows: [{ id: 'session-1' }, { id: 'session-2' }] });
+
+      await expect(sessionService.revokeAllSessionsForUser('user-1', 'admin-1', 'ADMIN')).resolves.toBe(2);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: 'admin-1', action: 'REVOKE_ALL_SESSIONS', entityId: 'user-1' }),
+        expect.anything()
+      );
+    });
+
+    it('should require the admin role to revoke another user\'s sessions', async () => {
+      await expect(sessionService.revokeAllSessionsForUser('user-1', 'hr-1', 'HR')).rejects.toThrow(
+        'Insufficient permissions - Admin role required'
+      );
+    });
+  });
+
+  describe('getSessions', () => {
+    it('should flag the current session', async () => {
+      mockDb.query.mockResolvedValue({
+        rows: [
+          { id: 'session-1', user_agent: 'Firefox', last_used_at: new Date() },
+          { id: 'session-2', user_agent: 'Safari', last_used_at: new Date() }
+        ]
+      });
+
+      const sessions = await sessionService.getSessions('user-1', 'session-2');
+
+      expect(sessions.map(session => session.current)).toEqual([false, true]);
+    });
+  });
+});
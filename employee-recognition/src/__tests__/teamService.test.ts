@@ -0,0 +1,153 @@
+import { TeamService } from '../services/TeamService';
+
+const mockDb = {
+  query: jest.fn(),
+  connect: jest.fn(),
+};
+
+const mockAuditService = {
+  record: jest.fn(),
+};
+
+const teamRow = {
+  id: 'team-2',
+  name: 'Platform',
+  description: null,
+  parent_team_id: 'team-1',
+  manager_id: 'user-1',
+  created_at: new Date(),
+  archived_at: null
+};
+
+describe('TeamService', () => {
+  let teamService: TeamService;
+
+  beforeEach(() => {
+    teamService = new TeamService(mockDb as any, mockAuditService as any);
+    mockDb.connect.mockResolvedValue({ query: mockDb.query, release: jest.fn() });
+  });
+
+  describe('createTeam', () => {
+    it('should only let admins create teams', async () => {
+      await expect(teamService.createTeam('hr-1', 'HR', { name: 'Platform' })).rejects.toThrow(
+        'Insufficient permissions - Admin role required'
+      );
+      expect(mockDb.query).not.toHaveBeenCalled();
+    });
+
+    it('should create a sub-team with a manager and audit it', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('LOWER(name)')) return Promise.resolve({ rows: [] });
+        if (query.includes('INSERT INTO teams')) return Promise.resolve({ rows: [teamRow] });
+        if (query.includes('FROM teams') || query.includes('FROM users')) return Promise.resolve({ rows: [{ id: 'x' }] });
+        return Promise.resolve({ rows: [] });
+      });
+
+      const team = await teamService.createTeam('admin-1', 'ADMIN', {
+        name: ' Platform ',
+        parentTeamId: 'team-1',
+        managerId: 'user-1'
+      });
+
+      expect(team).toMatchObject({ id: 'team-2', parentTeamId: 'team-1', managerId: 'user-1' });
+      const insert = mockDb.query.mock.calls.find(([query]) => query.includes('INSERT INTO teams'))!;
+      expect(insert[1]).toEqual(['Platform', null, 'team-1', 'user-1']);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: 'admin-1', action: 'CREATE_TEAM', entityType: 'TEAM', entityId: 'team-2' }),
+        expect.anything()
+      );
+    });
+
+    it('should reject names used by another active team and unknown managers', async () => {
+      mockDb.query.mockImplementation((query: string) =>
+        Promise.resolve({ rows: query.includes('LOWER(name)') ? [{ id: 'team-9' }] : [] })
+      );
+      await expect(teamService.createTeam('admin-1', 'ADMIN', { name: 'platform' })).rejects.toThrow(
+        'A team with this name already exists'
+      );
+
+      mockDb.query.mockResolvedValue({ rows: [] });
+      await expect(teamService.createTeam('admin-1', 'ADMIN', { name: 'Platform', managerId: 'gone-1' })).rejects.toThrow(
+        'Manager not found'
+      );
+    });
+  });
+
+  describe('updateTeam', () => {
+    it('should not move a team under one of its own sub-teams', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('FOR UPDATE')) return Promise.resolve({ rows: [{ ...teamRow, id: 'team-1', parent_team_id: null }] });
+        if (query.includes('WITH RECURSIVE tree')) return Promise.resolve({ rows: [{ id: 'team-1' }, { id: 'team-2' }] });
+        return Promise.resolve({ rows: [{ id: 'team-2' }] });
+      });
+
+      await expect(
+        teamService.updateTeam('admin-1', 'ADMIN', { id: 'team-1', parentTeamId: 'team-2' })
+      ).rejects.toThrow('A team cannot be moved under itself or one of its sub-teams');
+      expect(mockDb.query.mock.calls.some(([query]) => query.startsWith('UPDATE teams'))).toBe(false);
+    });
+
+    it('should clear the manager when managerId is null and record the change', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('FOR UPDATE')) return Promise.resolve({ rows: [teamRow] });
+        if (query.startsWith('UPDATE teams')) return Promise.resolve({ rows: [{ ...teamRow, manager_id: null }] });
+        return Promise.resolve({ rows: [] });
+      });
+
+      const team = await teamService.updateTeam('admin-1', 'ADMIN', { id: 'team-2', managerId: null });
+
+      expect(team.managerId).toBeNull();
+      const update = mockDb.query.mock.calls.find(([query]) => query.startsWith('UPDATE teams'))!;
+      expect(update[0]).toContain('SET manager_id = $2');
+      expect(update[1]).toEqual(['team-2', null]);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'UPDATE_TEAM', details: { manager_id: { from: 'user-1', to: null } } }),
+        expect.anything()
+      );
+    });
+  });
+
+  describe('archiveTeam', () => {
+    it('should refuse teams that still have members', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('FOR UPDATE')) return Promise.resolve({ rows: [teamRow] });
+        if (query.includes('FROM users')) return Promise.resolve({ rows: [{ count: '3' }] });
+        return Promise.resolve({ rows: [{ count: '0' }] });
+      });
+
+      await expect(teamService.archiveTeam('admin-1', 'ADMIN', 'team-2')).rejects.toThrow(
+        'Move the members of this team to another team first'
+      );
+      expect(mockAuditService.record).not.toHaveBeenCalled();
+    });
+
+    it('should archive empty teams and audit it', async () => {
+      mockDb.query.mockImplementation((query: string) => {
+        if (query.includes('FOR UPDATE')) return Promise.resolve({ rows: [teamRow] });
+        if (query.includes('COUNT(*)')) return Promise.resolve({ rows: [{ count: '0' }] });
+        return Promise.resolve({ rows: [{ ...teamRow, archived_at: new Date() }] });
+      });
+
+      const team = await teamService.archiveTeam('admin-1', 'ADMIN', 'team-2');
+
+      expect(team.archivedAt).toBeInstanceOf(Date);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'ARCHIVE_TEAM', entityId: 'team-2' }),
+        expect.anything()
+      );
+    });
+  });
+
+  describe('getTeams', () => {
+    it('should leave archived teams out unless asked', async () => {
+      mockDb.query.mockResolvedValue({ rows: [] });
+
+      await teamService.getTeams(null);
+      await teamService.getTeams(['team-1'], true);
+
+      expect(mockDb.query.mock.calls[0][0]).toContain('WHERE archived_at IS NULL');
+      expect(mockDb.query.mock.calls[1][0]).not.toContain('archived_at');
+      expect(mockDb.query.mock.calls[1][1]).toEqual([['team-1']]);
+    });
+  });
+});
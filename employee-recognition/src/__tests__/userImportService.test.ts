@@ -0,0 +1,170 @@
+import { UserImportService } from '../services/UserImportService';
+
+const mockDb = {
+  query: jest.fn(),
+  connect: jest.fn(),
+};
+
+const mockAuditService = {
+  record: jest.fn(),
+};
+
+const ENGINEERING_ID = '550e8400-e29b-41d4-a716-446655440001';
+const LEGACY_ID = '550e8400-e29b-41d4-a716-446655440009';
+
+const teams = [
+  { id: ENGINEERING_ID, name: 'Engineering', archived_at: null },
+  { id: LEGACY_ID, name: 'Legacy', archived_at: new Date() }
+];
+
+const ana = {
+  id: 'user-1',
+  email: 'ana@company.com',
+  name: 'Ana Silva',
+  role: 'EMPLOYEE',
+  team_id: ENGINEERING_ID,
+  is_service_account: false,
+  deactivated_at: null
+};
+
+// Answers the lookups with the given users and the teams above; writes return a new ID
+const mockLookups = (users: any[]) => {
+  mockDb.query.mockImplementation((query: string) => {
+    if (query.includes('FROM users WHERE LOWER(email) = ANY($1)')) return Promise.resolve({ rows: users });
+    if (query.includes('FROM teams')) return Promise.resolve({ rows: teams });
+    if (query.includes('RETURNING id')) return Promise.resolve({ rows: [{ id: 'new-1' }] });
+    return Promise.resolve({ rows: [] });
+  });
+};
+
+const writes = () => mockDb.query.mock.calls
+  .map(([query]) => query)
+  .filter(query => /^\s*(INSERT|UPDATE)/.test(query));
+
+describe('UserImportService', () => {
+  let importService: UserImportService;
+
+  beforeEach(() => {
+    importService = new UserImportService(mockDb as any, mockAuditService as any);
+    mockDb.connect.mockResolvedValue({ query: mockDb.query, release: jest.fn() });
+  });
+
+  describe('importUsers', () => {
+    it('should only let admins import', async () => {
+      await expect(importService.importUsers('hr-1', 'HR', 'email,name\nana@company.com,Ana')).rejects.toThrow(
+        'Insufficient permissions - Admin role required'
+      );
+      expect(mockDb.connect).not.toHaveBeenCalled();
+    });
+
+    it('should reject files with unknown or missing columns', async () => {
+      await expect(importService.importUsers('admin-1', 'ADMIN', 'email,title\nana@company.com,CEO')).rejects.toThrow(
+        'Unknown column: title. Columns are email, name, role, team, active'
+      );
+      await expect(importService.importUsers('admin-1', 'ADMIN', 'email,role\nana@company.com,HR')).rejects.toThrow(
+        'The CSV file needs email and name columns'
+      );
+      await expect(importService.importUsers('admin-1', 'ADMIN', 'email,name\n')).rejects.toThrow('The CSV file has no rows');
+    });
+
+    it('should report what a dry run would change without writing', async () => {
+      mockLookups([ana]);
+
+      const result = await importService.importUsers('admin-1', 'ADMIN', [
+        'Email,Name,Role,Team,Active',
+        'ana@company.com,Ana Silva,manager,engineering,',
+        'bo@company.com,Bo Lee,,Platform,true',
+        'cy@company.com,Cy,,platform,'
+      ].join('\n'));
+
+      expect(result).toMatchObject({ dryRun: true, applied: false, created: 2, updated: 1, errorCount: 0, newTeams: ['Platform'] });
+      expect(result.rows[0]).toEqual({ row: 2, email: 'ana@company.com', action: 'UPDATE', changes: ['role'], errors: [] });
+      expect(result.rows[1]).toMatchObject({ row: 3, action: 'CREATE' });
+      expect(writes()).toEqual([]);
+    });
+
+    it('should report every invalid row and apply nothing', async () => {
+      mockLookups([ana]);
+
+      const result = await importService.importUsers('admin-1', 'ADMIN', [
+        'email,name,role,team,active',
+        'not-an-email,Someone,,,',
+        'bo@company.com,Bo,OWNER,,',
+        'cy@company.com,,,,maybe',
+        `dee@company.com,Dee,,${LEGACY_ID},`,
+        'ana@company.com,Ana,,,',
+        'ANA@company.com,Ana,,,'
+      ].join('\n'), false);
+
+      expect(result).toMatchObject({ dryRun: false, applied: false, errorCount: 5 });
+      expect(result.rows.map(row => row.errors)).toEqual([
+        ['A valid email address is required'],
+        ['Role must be one of EMPLOYEE, MANAGER, HR, ADMIN'],
+        ['Name is required', 'Active must be true or false'],
+        ['Team is archived'],
+        [],
+        ['Duplicate email (also on row 6)']
+      ]);
+      expect(result.rows[2].action).toBeNull();
+      expect(writes()).toEqual([]);
+      expect(mockAuditService.record).not.toHaveBeenCalled();
+    });
+
+    it('should not let admins demote or deactivate themselves', async () => {
+      mockLookups([{ ...ana, id: 'admin-1', role: 'ADMIN' }]);
+
+      const result = await importService.importUsers('admin-1', 'ADMIN', 'email,name,role,active\nana@company.com,Ana,EMPLOYEE,false');
+
+      expect(result.rows[0].errors).toEqual(['You cannot change your own role', 'You cannot deactivate your own account']);
+    });
+
+    it('should create new teams, upsert users and audit the import', async () => {
+      mockLookups([ana]);
+
+      const result = await importService.importUsers('admin-1', 'ADMIN', [
+        'email,name,role,team,active',
+        'ana@company.com,Ana Silva,,Platform,false',
+        'bo@company.com,Bo Lee,,,'
+      ].join('\n'), false);
+
+      expect(result).toMatchObject({ applied: true, created: 1, updated: 1 });
+      const teamInsert = mockDb.query.mock.calls.find(([query]) => query.startsWith('INSERT INTO teams'))!;
+      expect(teamInsert[1]).toEqual(['Platform']);
+      const userUpdate = mockDb.query.mock.calls.find(([query]) => query.startsWith('UPDATE users SET team_id'))!;
+      expect(userUpdate[1]).toEqual(['user-1', 'new-1']);
+      const userInsert = mockDb.query.mock.calls.find(([query]) => query.includes('INSERT INTO users'))!;
+      expect(userInsert[1]).toEqual(['bo@company.com', 'Bo Lee', 'EMPLOYEE', null, false]);
+      expect(writes().some(query => query.includes("revoked_reason = 'USER_DEACTIVATED'"))).toBe(true);
+
+      const actions = mockAuditService.record.mock.calls.map(([entry]) => entry.action);
+      expect(actions).toEqual(['CREATE_TEAM', 'UPDATE_USER', 'DEACTIVATE_USER', 'CREATE_USER', 'IMPORT_USERS']);
+    });
+  });
+
+  describe('exportUsers', () => {
+    it('should export in the import format, naming archived teams by ID', async () => {
+      mockDb.query.mockResolvedValue({
+        rows: [
+          { email: 'ana@company.com', name: 'Silva, Ana', role: 'HR', deactivated_at: null, team_id: ENGINEERING_ID, team_name: 'Engineering', team_archived_at: null },
+          { email: 'bo@company.com', name: 'Bo', role: 'EMPLOYEE', deactivated_at: new Date(), team_id: LEGACY_ID, team_name: 'Legacy', team_archived_at: new Date() },
+          { email: 'cy@company.com', name: 'Cy', role: 'EMPLOYEE', deactivated_at: null, team_id: null, team_name: null, team_archived_at: null }
+        ]
+      });
+
+      const csv = await importService.exportUsers('ADMIN');
+
+      expect(csv).toBe([
+        'email,name,role,team,active',
+        'ana@company.com,"Silva, Ana",HR,Engineering,true',
+        `bo@company.com,Bo,EMPLOYEE,${LEGACY_ID},false`,
+        'cy@company.com,Cy,EMPLOYEE,,true',
+        ''
+      ].join('\r\n'));
+      expect(mockDb.query.mock.calls[0][0]).toContain('NOT u.is_service_account');
+    });
+
+    it('should only let admins export', async () => {
+      await expect(importService.exportUsers('HR')).rejects.toThrow('Insufficient permissions - Admin role required');
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { assertScope, generateApiKey, isApiKey, validateScopes, withApiKeyScopes } from '../../utils/apiKeys';
+
+describe('API Key Utils', () => {
+  it('should generate distinguishable keys', () => {
+    const { key, prefix } = generateApiKey();
+
+    expect(key.startsWith(`rk_${prefix}_`)).toBe(true);
+    expect(isApiKey(key)).toBe(true);
+    expect(isApiKey('eyJhbGciOiJIUzI1NiJ9.payload.signature')).toBe(false);
+  });
+
+  it('should validate scopes', () => {
+    expect(validateScopes(['recognitions:write', 'analytics:read']).isValid).toBe(true);
+    expect(validateScopes([]).errors).toContain('At least one scope is required');
+    expect(validateScopes(['admin']).errors[0]).toContain('Unknown scope: admin');
+  });
+
+  it('should only let API keys call operations their scopes allow', () => {
+    const principal = { scopes: ['recognitions:write'] };
+
+    expect(() => assertScope(principal, 'Mutation', 'createRecognition')).not.toThrow();
+    expect(() => assertScope(principal, 'Query', 'organizationStats')).toThrow(
+      'This API key does not have the analytics:read scope'
+    );
+    expect(() => assertScope(principal, 'Mutation', 'createApiKey')).toThrow('This operation is not available to API keys');
+    // Session users are not restricted by scopes
+    expect(() => assertScope({}, 'Mutation', 'createApiKey')).not.toThrow();
+    expect(() => assertScope(null, 'Query', 'me')).not.toThrow();
+  });
+
+  it('should wrap root resolvers and subscriptions', async () => {
+    const resolvers: any = withApiKeyScopes({
+      Query: { me: () => 'me' },
+      Subscription: { recognitionCreated: { subscribe: () => 'iterator' } },
+      User: { name: () => 'name' }
+    });
+    const apiKey = { user: { scopes: ['users:read'] } };
+
+    expect(resolvers.Query.me({}, {}, apiKey, {})).toBe('me');
+    expect(() => resolvers.Subscription.recognitionCreated.subscribe({}, {}, apiKey, {})).toThrow(
+      'This operation is not available to API keys'
+    );
+    expect(resolvers.Subscription.recognitionCreated.subscribe({}, {}, { user: { id: 'user-1' } }, {})).toBe('iterator');
+    expect(resolvers.User.name()).toBe('name');
+  });
+});
@@ -0,0 +1,35 @@
+import { parseCsv, readCsvCell, toCsv } from '../../utils/csv';
+
+describe('CSV Utils', () => {
+  it('should parse quoted cells with commas, quotes and line breaks', () => {
+    const rows = parseCsv('﻿email,name\r\n"ana@company.com","Silva, Ana ""Nana"""\n\nbo@company.com,"Bo\nLee"\n');
+
+    expect(rows).toEqual([
+      ['email', 'name'],
+      ['ana@company.com', 'Silva, Ana "Nana"'],
+      ['bo@company.com', 'Bo\nLee']
+    ]);
+  });
+
+  it('should keep empty cells and reject unclosed quotes', () => {
+    expect(parseCsv('a,,c\n,,')).toEqual([['a', '', 'c'], ['', '', '']]);
+    expect(() => parseCsv('a,"b\n')).toThrow('The CSV file has an unclosed quote');
+  });
+
+  it('should write cells that parse back to the same values', () => {
+    const rows = [['email', 'name'], ['ana@company.com', 'Silva, Ana "Nana"']];
+
+    const csv = toCsv(rows);
+
+    expect(csv).toBe('email,name\r\nana@company.com,"Silva, Ana ""Nana"""\r\n');
+    expect(parseCsv(csv)).toEqual(rows);
+  });
+
+  it('should neutralize formulas and restore them on import', () => {
+    const csv = toCsv([['=HYPERLINK("http://evil")', '-Team']]);
+
+    expect(csv).toBe('"\'=HYPERLINK(""http://evil"")",\'-Team\r\n');
+    expect(parseCsv(csv)[0].map(readCsvCell)).toEqual(['=HYPERLINK("http://evil")', '-Team']);
+    expect(readCsvCell(" 'quoted ")).toBe("'quoted");
+  });
+});
@@ -0,0 +1,38 @@
+import { withTransaction } from '../../utils/database';
+
+const mockClient = () => ({
+  query: jest.fn().mockResolvedValue({ rows: [] }),
+  release: jest.fn()
+});
+
+describe('Database Utils', () => {
+  describe('withTransaction', () => {
+    it('should commit and return the result when the work succeeds', async () => {
+      const client = mockClient();
+      const db = { connect: jest.fn().mockResolvedValue(client) };
+
+      const result = await withTransaction(db as any, async tx => {
+        await tx.query('SELECT 1');
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect(client.query.mock.calls.map(([sql]) => sql)).toEqual(['BEGIN', 'SELECT 1', 'COMMIT']);
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should roll back and rethrow when the work fails', async () => {
+      const client = mockClient();
+      const db = { connect: jest.fn().mockResolvedValue(client) };
+
+      await expect(
+        withTransaction(db as any, async () => {
+          throw new Error('Insufficient points');
+        })
+      ).rejects.toThrow('Insufficient points');
+
+      expect(client.query.mock.calls.map(([sql]) => sql)).toEqual(['BEGIN', 'ROLLBACK']);
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+});
@@ -4,7 +4,8 @@ import {
   createErrorResponse,
   isError,
   isAppError,
-  AppError
+  AppError,
+  RateLimitError
 } from '../../utils/errorHandler';
 
 describe('Error Handler Utils', () => {
@@ -110,5 +111,15 @@ describe('Error Handler Utils', () => {
       expect(isAppError({ code: 'test' })).toBe(false);
     });
   });
-});
 
+  describe('RateLimitError', () => {
+    it('should expose the error code and retry-after to GraphQL clients', () => {
+      const error = new RateLimitError('Slow down', 120);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('RateLimitError');
+      expect(error.retryAfter).toBe(120);
+      expect(error.extensions).toMatchObject({ code: 'RATE_LIMITED', retryAfter: 120 });
+    });
+  });
+});
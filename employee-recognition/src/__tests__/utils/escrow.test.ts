@@ -0,0 +1,47 @@
+import { getEscrowKey, openValue, pseudonymize, sealValue } from '../../utils/escrow';
+
+describe('Escrow Utils', () => {
+  it('should round-trip a value for the same associated data', () => {
+    const sealed = sealValue('sender-123', 'recognition-1');
+
+    expect(sealed.ciphertext.toString('utf8')).not.toContain('sender-123');
+    expect(openValue(sealed, 'recognition-1')).toBe('sender-123');
+  });
+
+  it('should use a fresh IV for every value', () => {
+    const first = sealValue('sender-123', 'recognition-1');
+    const second = sealValue('sender-123', 'recognition-1');
+
+    expect(first.iv.equals(second.iv)).toBe(false);
+    expect(first.ciphertext.equals(second.ciphertext)).toBe(false);
+  });
+
+  it('should refuse tampered values or mismatched associated data', () => {
+    const sealed = sealValue('sender-123', 'recognition-1');
+    const tampered = { ...sealed, ciphertext: Buffer.from(sealed.ciphertext).fill(0) };
+
+    expect(() => openValue(sealed, 'recognition-2')).toThrow();
+    expect(() => openValue(tampered, 'recognition-1')).toThrow();
+  });
+
+  it('should derive stable keyed pseudonyms', () => {
+    const pseudonym = pseudonymize('sender-123');
+
+    expect(pseudonymize('sender-123')).toBe(pseudonym);
+    expect(pseudonymize('sender-456')).not.toBe(pseudonym);
+    expect(pseudonymize('sender-123', Buffer.alloc(32, 1))).not.toBe(pseudonym);
+    expect(pseudonym).not.toContain('sender-123');
+  });
+
+  it('should require a 32-byte key', () => {
+    const original = process.env.ANONYMOUS_ESCROW_KEY;
+    try {
+      process.env.ANONYMOUS_ESCROW_KEY = Buffer.alloc(16).toString('base64');
+      expect(() => getEscrowKey()).toThrow('Anonymous sender escrow is not configured');
+      delete process.env.ANONYMOUS_ESCROW_KEY;
+      expect(() => sealValue('sender-123', 'recognition-1')).toThrow('Anonymous sender escrow is not configured');
+    } finally {
+      process.env.ANONYMOUS_ESCROW_KEY = original;
+    }
+  });
+});
@@ -0,0 +1,69 @@
+import { promises as fs } from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { FileMailer, SmtpMailer } from '../../utils/mailer';
+
+describe('Mailer Utils', () => {
+  it('should write messages to the outbox directory', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    try {
+      await new FileMailer(directory, 'app@company.com').send({
+        to: 'jane@company.com',
+        subject: 'Hello\r\nBcc: evil@example.com',
+        text: 'Line one\nLine two'
+      });
+
+      const [file] = await fs.readdir(directory);
+      const content = await fs.readFile(path.join(directory, file), 'utf8');
+      expect(content).toContain('To: jane@company.com\r\n');
+      expect(content).toContain('Subject: Hello Bcc: evil@example.com\r\n');
+      expect(content).toContain('\r\n\r\nLine one\r\nLine two');
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should deliver over SMTP', async () => {
+    const received: string[] = [];
+    const server = net.createServer(socket => {
+      let data = false;
+      socket.write('220 test ready\r\n');
+      socket.on('data', chunk => {
+        const text = chunk.toString('utf8');
+        received.push(text);
+        if (data) {
+          if (text.endsWith('\r\n.\r\n')) {
+            data = false;
+            socket.write('250 queued\r\n');
+          }
+        } else if (text.startsWith('EHLO')) {
+          socket.write('250-test\r\n250 OK\r\n');
+        } else if (text.startsWith('DATA')) {
+          data = true;
+          socket.write('354 go ahead\r\n');
+        } else if (text.startsWith('QUIT')) {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      const { port } = server.address() as net.AddressInfo;
+      await new SmtpMailer('127.0.0.1', port, 'app@company.com').send({
+        to: 'jane@company.com',
+        subject: 'Your sign-in code',
+        text: 'Code 123456\n.hidden line'
+      });
+
+      const transcript = received.join('');
+      expect(transcript).toContain('MAIL FROM:<app@company.com>\r\n');
+      expect(transcript).toContain('RCPT TO:<jane@company.com>\r\n');
+      expect(transcript).toContain('\r\n..hidden line\r\n.\r\n');
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  extractMentionHandles,
+  parseSlackMentions,
+  parseTeamsMentions,
+  replaceMentionHandles,
+  stripTeamsBotMention
+} from '../../utils/mentions';
+
+describe('Mention Utils', () => {
+  describe('extractMentionHandles', () => {
+    it('should extract local-part and full email handles', () => {
+      expect(extractMentionHandles('Thanks @Jane and @bob.smith@company.com!')).toEqual([
+        'jane',
+        'bob.smith@company.com'
+      ]);
+    });
+
+    it('should ignore plain email addresses and trailing punctuation', () => {
+      expect(extractMentionHandles('Mail jane@company.com, thanks @mike.')).toEqual(['mike']);
+    });
+
+    it('should de-duplicate handles', () => {
+      expect(extractMentionHandles('@jane @JANE @jane')).toEqual(['jane']);
+    });
+  });
+
+  describe('replaceMentionHandles', () => {
+    it('should replace only the given handles, keeping punctuation', () => {
+      expect(
+        replaceMentionHandles('Thanks @Ana, @ana@company.com. and @bo! ana@company.com', ['ana', 'ana@company.com'], '[erased user]')
+      ).toBe('Thanks [erased user], [erased user]. and @bo! ana@company.com');
+    });
+  });
+
+  describe('parseSlackMentions', () => {
+    it('should parse plain and labelled user mentions', () => {
+      expect(parseSlackMentions('kudos <@U123> and <@U456|jane>')).toEqual([
+        { externalId: 'U123', text: '<@U123>' },
+        { externalId: 'U456', text: '<@U456|jane>' }
+      ]);
+    });
+  });
+
+  describe('Teams mentions', () => {
+    const activity = {
+      text: '<at>KudosBot</at> kudos <at>Jane</at> for the demo',
+      recipient: { id: 'bot-1', name: 'KudosBot' },
+      entities: [
+        { type: 'mention', text: '<at>KudosBot</at>', mentioned: { id: 'bot-1', name: 'KudosBot' } },
+        { type: 'mention', text: '<at>Jane</at>', mentioned: { id: '29:jane', name: 'Jane' } },
+        { type: 'clientInfo' }
+      ]
+    };
+
+    it('should parse mention entities except the bot', () => {
+      expect(parseTeamsMentions(activity)).toEqual([{ externalId: '29:jane', text: '<at>Jane</at>' }]);
+    });
+
+    it('should strip the bot mention from the text', () => {
+      expect(stripTeamsBotMention(activity.text, activity)).toBe('kudos <at>Jane</at> for the demo');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { OidcConfig, createPkcePair, getClaim, getOidcConfig, getTeamClaim, mapRoleClaim } from '../../utils/oidc';
+import crypto from 'crypto';
+
+describe('OIDC Utils', () => {
+  const config = (overrides: Partial<OidcConfig> = {}): OidcConfig => ({
+    issuer: 'https://idp.example.com',
+    clientId: 'recognition-api',
+    clientSecret: null,
+    redirectUri: 'http://localhost:4000/auth/oidc/callback',
+    scopes: 'openid email profile',
+    roleClaim: 'roles',
+    roleMap: {},
+    teamClaim: 'team',
+    ...overrides
+  });
+
+  afterEach(() => {
+    delete process.env.OIDC_ISSUER;
+    delete process.env.OIDC_CLIENT_ID;
+    delete process.env.OIDC_ROLE_MAP;
+  });
+
+  it('should be disabled without an issuer and client', () => {
+    expect(getOidcConfig()).toBeNull();
+  });
+
+  it('should parse the role map and skip unknown roles', () => {
+    process.env.OIDC_ISSUER = 'https://idp.example.com/';
+    process.env.OIDC_CLIENT_ID = 'recognition-api';
+    process.env.OIDC_ROLE_MAP = 'cn=hr=hr, admins=ADMIN, interns=INTERN';
+
+    expect(getOidcConfig()).toMatchObject({
+      issuer: 'https://idp.example.com',
+      roleMap: { 'cn=hr': 'HR', admins: 'ADMIN' }
+    });
+  });
+
+  it('should derive the S256 challenge from the verifier', () => {
+    const { verifier, challenge } = createPkcePair();
+
+    expect(challenge).toBe(crypto.createHash('sha256').update(verifier).digest('base64url'));
+  });
+
+  it('should read namespaced and nested claims', () => {
+    const claims = { 'https://example.com/roles': ['HR'], realm_access: { roles: ['ADMIN'] } };
+
+    expect(getClaim(claims, 'https://example.com/roles')).toEqual(['HR']);
+    expect(getClaim(claims, 'realm_access.roles')).toEqual(['ADMIN']);
+    expect(getClaim(claims, 'missing.path')).toBeUndefined();
+  });
+
+  it('should map the highest role from the claim', () => {
+    const mapped = config({ roleMap: { managers: 'MANAGER', 'hr-team': 'HR' } });
+
+    expect(mapRoleClaim({ roles: ['managers', 'hr-team', 'staff'] }, mapped)).toBe('HR');
+    expect(mapRoleClaim({ roles: 'staff' }, mapped)).toBe('EMPLOYEE');
+    expect(mapRoleClaim({}, mapped)).toBeNull();
+    // Without a map, values are role names
+    expect(mapRoleClaim({ roles: ['manager'] }, config())).toBe('MANAGER');
+  });
+
+  it('should read the team claim', () => {
+    expect(getTeamClaim({ team: ' Engineering ' }, config())).toBe('Engineering');
+    expect(getTeamClaim({ team: ['Marketing', 'HR'] }, config())).toBe('Marketing');
+    expect(getTeamClaim({ team: '' }, config())).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  buildKeysetQuery,
+  decodeCursor,
+  encodeCursor,
+  KeysetOptions,
+  toConnection
+} from '../../utils/pagination';
+
+const feedOrder: KeysetOptions = {
+  columns: [
+    { expression: 'r.created_at', cast: 'timestamp' },
+    { expression: 'r.id', cast: 'uuid' }
+  ],
+  direction: 'DESC',
+  maxPageSize: 100
+};
+
+const rows = (...ids: string[]) => ids.map(id => ({ id, created_at: `2026-10-0${id} 09:00:00.123456` }));
+const cursorOf = (row: { id: string; created_at: string }) => [row.created_at, row.id];
+
+describe('Pagination Utils', () => {
+  describe('cursors', () => {
+    it('should round-trip sort key values', () => {
+      const cursor = encodeCursor(['2026-10-01 09:00:00.123456', 'abc']);
+      expect(decodeCursor(cursor, 2)).toEqual(['2026-10-01 09:00:00.123456', 'abc']);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() => decodeCursor('not-a-cursor', 2)).toThrow('Invalid cursor');
+      expect(() => decodeCursor(encodeCursor(['only-one']), 2)).toThrow('Invalid cursor');
+    });
+  });
+
+  describe('buildKeysetQuery', () => {
+    it('should default the page size and fetch one extra row', () => {
+      const query = buildKeysetQuery({}, feedOrder, []);
+      expect(query.limit).toBe(21);
+      expect(query.orderBy).toBe('r.created_at DESC, r.id DESC');
+      expect(query.conditions).toEqual([]);
+    });
+
+    it('should cap the page size', () => {
+      expect(buildKeysetQuery({ first: 100000 }, feedOrder, []).pageSize).toBe(100);
+    });
+
+    it('should continue after a cursor in the sort direction', () => {
+      const params: any[] = ['user-1'];
+      const query = buildKeysetQuery({ first: 10, after: encodeCursor(['2026-10-01', 'abc']) }, feedOrder, params);
+
+      expect(query.conditions).toEqual(['(r.created_at, r.id) < ($2::timestamp, $3::uuid)']);
+      expect(params).toEqual(['user-1', '2026-10-01', 'abc']);
+    });
+
+    it('should read backward pages in reverse order', () => {
+      const query = buildKeysetQuery({ last: 5, before: encodeCursor(['2026-10-01', 'abc']) }, feedOrder, []);
+
+      expect(query.conditions).toEqual(['(r.created_at, r.id) > ($1::timestamp, $2::uuid)']);
+      expect(query.orderBy).toBe('r.created_at ASC, r.id ASC');
+      expect(query.backward).toBe(true);
+    });
+
+    it('should reject first combined with last', () => {
+      expect(() => buildKeysetQuery({ first: 1, last: 1 }, feedOrder, [])).toThrow(
+        'Cannot paginate with both first and last'
+      );
+    });
+
+    it('should reject negative page sizes', () => {
+      expect(() => buildKeysetQuery({ first: -1 }, feedOrder, [])).toThrow(
+        'Page size must be a non-negative whole number'
+      );
+    });
+  });
+
+  describe('toConnection', () => {
+    it('should report a next page when an extra row was fetched', () => {
+      const query = buildKeysetQuery({ first: 2 }, feedOrder, []);
+      const connection = toConnection(rows('3', '2', '1'), query, cursorOf, row => row.id);
+
+      expect(connection.edges.map(edge => edge.node)).toEqual(['3', '2']);
+      expect(connection.pageInfo.hasNextPage).toBe(true);
+      expect(connection.pageInfo.hasPreviousPage).toBe(false);
+      expect(decodeCursor(connection.pageInfo.endCursor!, 2)).toEqual(['2026-10-02 09:00:00.123456', '2']);
+    });
+
+    it('should restore sort order for backward pages', () => {
+      const query = buildKeysetQuery({ last: 2, before: encodeCursor(['2026-10-01', '1']) }, feedOrder, []);
+      const connection = toConnection(rows('2', '3', '4'), query, cursorOf, row => row.id);
+
+      expect(connection.edges.map(edge => edge.node)).toEqual(['3', '2']);
+      expect(connection.pageInfo.hasPreviousPage).toBe(true);
+      expect(connection.pageInfo.hasNextPage).toBe(true);
+    });
+
+    it('should return null cursors for an empty page', () => {
+      const query = buildKeysetQuery({ first: 5 }, feedOrder, []);
+      const connection = toConnection([], query, cursorOf, row => row);
+
+      expect(connection.edges).toEqual([]);
+      expect(connection.pageInfo.startCursor).toBeNull();
+      expect(connection.pageInfo.endCursor).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { hashPassword, validatePassword, verifyPassword } from '../../utils/passwords';
+
+describe('Password Utils', () => {
+  it('should verify a password against its salted hash', async () => {
+    const first = await hashPassword('correct horse battery');
+    const second = await hashPassword('correct horse battery');
+
+    expect(first).not.toBe(second);
+    await expect(verifyPassword('correct horse battery', first)).resolves.toBe(true);
+    await expect(verifyPassword('wrong horse battery', first)).resolves.toBe(false);
+  });
+
+  it('should never match malformed hashes', async () => {
+    await expect(verifyPassword('anything', '')).resolves.toBe(false);
+    await expect(verifyPassword('anything', 'plaintext')).resolves.toBe(false);
+    await expect(verifyPassword('anything', 'scrypt$x$8$1$c2FsdA==$aGFzaA==')).resolves.toBe(false);
+  });
+
+  it('should enforce the password length policy', () => {
+    expect(validatePassword('').errors).toContain('Password is required');
+    expect(validatePassword('too short').errors).toContain('Password must be at least 12 characters');
+    expect(validatePassword('x'.repeat(257)).errors).toContain('Password cannot exceed 256 characters');
+    expect(validatePassword('long enough password').isValid).toBe(true);
+  });
+});
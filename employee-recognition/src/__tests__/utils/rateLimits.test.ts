@@ -0,0 +1,53 @@
+import { findRateLimitViolation, getRecognitionRateLimits, RecentSend } from '../../utils/rateLimits';
+
+const limits = { perHour: 3, perDay: 5, perRecipientPerWeek: 2 };
+const sendsAgo = (...ages: number[]): RecentSend[] => ages.map(ageSeconds => ({ ageSeconds, recipientIds: ['user-1'] }));
+
+describe('Rate Limit Utils', () => {
+  describe('findRateLimitViolation', () => {
+    it('should allow sends under every limit', () => {
+      expect(findRateLimitViolation(sendsAgo(100), ['user-2'], limits)).toBeNull();
+    });
+
+    it('should wait until the oldest blocking send leaves the hour', () => {
+      const violation = findRateLimitViolation(sendsAgo(100, 200, 3000), ['user-2'], limits);
+
+      expect(violation).toEqual({ message: 'You can send at most 3 recognitions per hour', retryAfter: 600 });
+    });
+
+    it('should free a slot only once enough sends expire after a limit is lowered', () => {
+      const violation = findRateLimitViolation(sendsAgo(100, 200, 300, 400), ['user-2'], limits);
+
+      expect(violation!.retryAfter).toBe(3300);
+    });
+
+    it('should report the longest wait when several limits are exceeded', () => {
+      const violation = findRateLimitViolation(sendsAgo(100, 200, 300, 5000, 80000), ['user-1'], limits);
+
+      expect(violation!.message).toBe('You can recognize the same person at most 2 times per week');
+      expect(violation!.retryAfter).toBe(7 * 86400 - 200);
+    });
+
+    it('should ignore disabled limits', () => {
+      const disabled = { perHour: 0, perDay: 0, perRecipientPerWeek: 0 };
+
+      expect(findRateLimitViolation(sendsAgo(1, 2, 3, 4, 5, 6), ['user-1'], disabled)).toBeNull();
+    });
+  });
+
+  describe('getRecognitionRateLimits', () => {
+    const originalEnv = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    it('should read limits from the environment and fall back on invalid values', () => {
+      process.env.RECOGNITION_LIMIT_PER_HOUR = '0';
+      process.env.RECOGNITION_LIMIT_PER_DAY = 'lots';
+      delete process.env.RECOGNITION_LIMIT_PER_RECIPIENT_PER_WEEK;
+
+      expect(getRecognitionRateLimits()).toEqual({ perHour: 0, perDay: 50, perRecipientPerWeek: 5 });
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  MAX_PAGE_SIZE,
+  SCIM_SCHEMAS,
+  ScimError,
+  parseFilter,
+  parseListParams,
+  parseMemberPath,
+  parsePatchOperations,
+  parseScimBoolean,
+  toErrorResponse
+} from '../../utils/scim';
+
+describe('SCIM Utils', () => {
+  it('should parse eq filters with case-insensitive attribute names', () => {
+    expect(parseFilter('userName eq "ana@company.com"', ['username'])).toEqual({
+      attribute: 'username',
+      value: 'ana@company.com'
+    });
+    expect(parseFilter('displayName EQ "R\\"n\\"D"', ['displayname'])).toEqual({ attribute: 'displayname', value: 'R"n"D' });
+    expect(parseFilter(undefined, ['username'])).toBeNull();
+  });
+
+  it('should reject other filters as invalidFilter', () => {
+    expect(() => parseFilter('userName sw "ana"', ['username'])).toThrow('Only filters of the form attribute eq "value" are supported');
+    expect(() => parseFilter('title eq "CEO"', ['username'])).toThrow('Filtering on title is not supported');
+
+    let error: unknown;
+    try {
+      parseFilter('userName eq ana', ['username']);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(ScimError);
+    expect(toErrorResponse(error as ScimError)).toEqual({
+      schemas: [SCIM_SCHEMAS.ERROR],
+      status: '400',
+      scimType: 'invalidFilter',
+      detail: 'Only filters of the form attribute eq "value" are supported'
+    });
+  });
+
+  it('should clamp startIndex and count', () => {
+    expect(parseListParams({})).toEqual({ startIndex: 1, count: 100 });
+    expect(parseListParams({ startIndex: '0', count: '-5' })).toEqual({ startIndex: 1, count: 0 });
+    expect(parseListParams({ startIndex: '11', count: '5000' })).toEqual({ startIndex: 11, count: MAX_PAGE_SIZE });
+  });
+
+  it('should parse PATCH operations case-insensitively', () => {
+    const operations = parsePatchOperations({
+      schemas: [SCIM_SCHEMAS.PATCH_OP],
+      Operations: [
+        { op: 'Replace', path: 'active', value: 'False' },
+        { op: 'add', value: { displayName: 'Ana' } }
+      ]
+    });
+
+    expect(operations).toEqual([
+      { op: 'replace', path: 'active', value: 'False' },
+      { op: 'add', path: null, value: { displayName: 'Ana' } }
+    ]);
+  });
+
+  it('should reject malformed PATCH requests', () => {
+    expect(() => parsePatchOperations({ Operations: [] })).toThrow('PATCH requests must use');
+    expect(() => parsePatchOperations({ schemas: [SCIM_SCHEMAS.PATCH_OP], Operations: [{ op: 'move' }] })).toThrow(
+      'Unknown PATCH operation: move'
+    );
+    expect(() => parsePatchOperations({ schemas: [SCIM_SCHEMAS.PATCH_OP], Operations: [{ op: 'remove' }] })).toThrow(
+      'Remove operations need a path'
+    );
+  });
+
+  it('should read member paths and SCIM booleans', () => {
+    expect(parseMemberPath('members[value eq "user-1"]')).toBe('user-1');
+    expect(parseMemberPath('members')).toBeNull();
+    expect(parseScimBoolean('True', 'active')).toBe(true);
+    expect(parseScimBoolean(false, 'active')).toBe(false);
+    expect(() => parseScimBoolean('yes', 'active')).toThrow('active must be a boolean');
+  });
+});
@@ -2,8 +2,11 @@ import {
   validateJwtToken,
   validateWebhookPayload,
   validateSlackEvent,
-  validateTeamsEvent
+  validateTeamsEvent,
+  verifySlackSignature,
+  verifyTeamsSignature
 } from '../../utils/validation';
+import crypto from 'crypto';
 
 describe('Validation Utils', () => {
   describe('validateJwtToken', () => {
@@ -147,5 +150,44 @@ describe('Validation Utils', () => {
       expect(result.errors).toHaveLength(0);
     });
   });
+
+  describe('verifySlackSignature', () => {
+    const secret = 'slack-secret';
+    const body = '{"type":"event_callback"}';
+    const timestamp = '1790000000';
+    const sign = (payload: string) =>
+      'v0=' + crypto.createHmac('sha256', secret).update(`v0:${timestamp}:${payload}`).digest('hex');
+
+    it('should accept a correctly signed request', () => {
+      const result = verifySlackSignature(body, timestamp, sign(body), secret, 1790000000 * 1000);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject a tampered body', () => {
+      const result = verifySlackSignature(body + ' ', timestamp, sign(body), secret, 1790000000 * 1000);
+      expect(result.errors).toContain('Invalid Slack signature');
+    });
+
+    it('should reject replayed requests', () => {
+      const result = verifySlackSignature(body, timestamp, sign(body), secret, (1790000000 + 600) * 1000);
+      expect(result.errors).toContain('Slack request timestamp is too old');
+    });
+  });
+
+  describe('verifyTeamsSignature', () => {
+    const secret = Buffer.from('teams-secret').toString('base64');
+    const body = '{"type":"message"}';
+    const sign = (payload: string) =>
+      'HMAC ' + crypto.createHmac('sha256', Buffer.from(secret, 'base64')).update(payload).digest('base64');
+
+    it('should accept a correctly signed request', () => {
+      expect(verifyTeamsSignature(body, sign(body), secret).isValid).toBe(true);
+    });
+
+    it('should reject a missing or wrong signature', () => {
+      expect(verifyTeamsSignature(body, undefined, secret).isValid).toBe(false);
+      expect(verifyTeamsSignature(body, sign('{}'), secret).errors).toContain('Invalid Teams signature');
+    });
+  });
 });
 
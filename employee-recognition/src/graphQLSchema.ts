@@ -1,4 +1,5 @@
 import { gql } from 'apollo-server-express';
+import { withFilter } from 'graphql-subscriptions';
 
 export const typeDefs = gql`
   scalar DateTime
@@ -16,6 +17,88 @@ export const typeDefs = gql`
     ANONYMOUS
   }
 
+  enum RecognitionStatus {
+    ACTIVE
+    HIDDEN
+    DELETED
+    SCHEDULED
+    CANCELLED
+    HELD
+    REJECTED
+  }
+
+  enum ModerationMatchType {
+    WORDS
+    REGEX
+  }
+
+  enum ModerationAction {
+    REJECT
+    HOLD
+    MASK
+  }
+
+  enum ModerationContext {
+    CREATE
+    UPDATE
+  }
+
+  enum ModerationReviewOutcome {
+    RELEASED
+    REJECTED
+  }
+
+  enum ReportStatus {
+    OPEN
+    DISMISSED
+    HIDDEN
+    REMOVED
+  }
+
+  enum ModerationLogAction {
+    DISMISS
+    HIDE
+    REMOVE
+    RESTORE
+    RELEASE
+    REJECT
+  }
+
+  enum PointsAccount {
+    GIVING
+    EARNED
+  }
+
+  enum PointsEntryType {
+    ALLOWANCE_GRANT
+    RECOGNITION_SENT
+    RECOGNITION_RECEIVED
+    RECOGNITION_REFUND
+    REDEMPTION
+    REDEMPTION_REFUND
+    ADJUSTMENT
+  }
+
+  enum RedemptionStatus {
+    REQUESTED
+    APPROVED
+    FULFILLED
+    REJECTED
+  }
+
+  enum ChatProvider {
+    SLACK
+    TEAMS
+  }
+
+  enum RecognitionUpdateType {
+    REACTION_ADDED
+    REACTION_REMOVED
+    COMMENT_ADDED
+    COMMENT_UPDATED
+    COMMENT_DELETED
+  }
+
   type User {
     id: ID!
     email: String!
@@ -23,14 +106,57 @@ export const typeDefs = gql`
     role: UserRole!
     team: Team
     createdAt: DateTime!
+    deactivatedAt: DateTime
+    erasedAt: DateTime
   }
 
   type Team {
     id: ID!
     name: String!
     description: String
+    manager: User
+    parent: Team
+    subTeams(includeArchived: Boolean = false): [Team!]!
     members: [User!]!
     createdAt: DateTime!
+    archivedAt: DateTime
+  }
+
+  enum ImportRowAction {
+    CREATE
+    UPDATE
+    UNCHANGED
+  }
+  
+  # One row of a CSV import; action is null when the row has errors
+  type UserImportRow {
+    row: Int!
+    email: String
+    action: ImportRowAction
+    changes: [String!]!
+    errors: [String!]!
+  }
+  
+  type UserImportResult {
+    dryRun: Boolean!
+    applied: Boolean!
+    created: Int!
+    updated: Int!
+    unchanged: Int!
+    errorCount: Int!
+    newTeams: [String!]!
+    rows: [UserImportRow!]!
+  }
+  
+  # Access to a team's analytics beyond the teams a user manages
+  type TeamAccessGrant {
+    id: ID!
+    user: User!
+    team: Team!
+    includeSubTeams: Boolean!
+    grantedBy: User
+    createdAt: DateTime!
+    expiresAt: DateTime
   }
 
   type Recognition {
@@ -39,59 +165,599 @@ export const typeDefs = gql`
     visibility: Visibility!
     sender: User
     recipient: User!
+    recipients: [User!]!
+    mentions: [User!]!
+    team: Team
+    values: [CompanyValue!]!
+    keywords: [String!]!
+    points: Int!
+    status: RecognitionStatus!
+    scheduledFor: DateTime
+    createdAt: DateTime!
+    updatedAt: DateTime
+    deletedAt: DateTime
+    deletedBy: User
+    revisions: [RecognitionRevision!]
+    reactions: [ReactionSummary!]!
+    comments: [Comment!]!
+  }
+
+  type ModerationRule {
+    id: ID!
+    name: String!
+    matchType: ModerationMatchType!
+    terms: [String!]!
+    action: ModerationAction!
+    enabled: Boolean!
+    createdAt: DateTime!
+    updatedAt: DateTime
+  }
+
+  type ModerationMatch {
+    ruleId: ID!
+    ruleName: String!
+    action: ModerationAction!
+    matched: [String!]!
+  }
+
+  type ModerationDecision {
+    id: ID!
+    recognition: Recognition
+    user: User
+    context: ModerationContext!
+    action: ModerationAction!
+    message: String!
+    matches: [ModerationMatch!]!
+    reviewedBy: User
+    reviewedAt: DateTime
+    reviewOutcome: ModerationReviewOutcome
+    reviewNote: String
+    createdAt: DateTime!
+  }
+
+  type RecognitionReport {
+    id: ID!
+    reporter: User!
+    reason: String!
+    status: ReportStatus!
+    resolvedBy: User
+    resolvedAt: DateTime
+    note: String
+    createdAt: DateTime!
+  }
+
+  type ModerationQueueItem {
+    recognition: Recognition!
+    status: ReportStatus!
+    reportCount: Int!
+    reports: [RecognitionReport!]!
+    firstReportedAt: DateTime!
+    lastReportedAt: DateTime!
+  }
+
+  type ModerationLogEntry {
+    id: ID!
+    moderator: User!
+    action: ModerationLogAction!
+    previousStatus: RecognitionStatus!
+    newStatus: RecognitionStatus!
+    note: String
+    createdAt: DateTime!
+  }
+
+  type AnonymousSenderReveal {
+    recognitionId: ID!
+    sender: User!
+    revealedBy: User!
+    justification: String!
+    revealedAt: DateTime!
+  }
+
+  # Sent to recipients; never says who the sender is
+  type AnonymousSenderRevealNotice {
+    recognitionId: ID!
+    revealedAt: DateTime!
+  }
+
+  type ServiceAccount {
+    id: ID!
+    name: String!
+    role: UserRole!
+    apiKeys: [ApiKey!]!
+    createdAt: DateTime!
+  }
+
+  type ApiKey {
+    id: ID!
+    name: String!
+    prefix: String!
+    scopes: [String!]!
+    createdBy: User
+    createdAt: DateTime!
+    lastUsedAt: DateTime
+    expiresAt: DateTime
+    revokedAt: DateTime
+  }
+
+  # The full key is only returned here, once
+  type CreatedApiKey {
+    apiKey: ApiKey!
+    key: String!
+  }
+
+  type ReactionSummary {
+    emoji: String!
+    count: Int!
+    reactedByMe: Boolean!
+  }
+
+  type Comment {
+    id: ID!
+    body: String!
+    author: User!
+    parentId: ID
+    replies: [Comment!]!
+    createdAt: DateTime!
+    updatedAt: DateTime
+  }
+
+  type RecognitionUpdate {
+    recognitionId: ID!
+    type: RecognitionUpdateType!
+    actor: User
+    comment: Comment
+    reactions: [ReactionSummary!]!
+  }
+
+  type RecognitionRevision {
+    id: ID!
+    message: String!
+    visibility: Visibility!
     keywords: [String!]!
+    editedBy: User
     createdAt: DateTime!
   }
 
+  type CompanyValue {
+    id: ID!
+    name: String!
+    description: String
+    emoji: String
+    active: Boolean!
+    createdAt: DateTime
+  }
+
+  type ValueCount {
+    value: CompanyValue!
+    count: Int!
+  }
+
   type TeamStats {
     teamId: ID!
+    includeSubTeams: Boolean!
     totalCount: Int!
     publicCount: Int!
     privateCount: Int!
     anonymousCount: Int!
     topKeywords: [String!]!
+    valueBreakdown: [ValueCount!]!
+  }
+
+  type OrganizationStats {
+    totalRecognitions: Int!
+    activeRecognizers: Int!
+    recognizedEmployees: Int!
+    publicRecognitions: Int!
+    topKeywords: [String!]!
+    valueBreakdown: [ValueCount!]!
+  }
+
+  type ReciprocalPair {
+    userA: User!
+    userB: User!
+    aToBCount: Int!
+    bToACount: Int!
+    points: Int!
+  }
+
+  type RecognitionRing {
+    members: [User!]!
+    recognitionCount: Int!
+    points: Int!
+  }
+
+  type RecognitionBurst {
+    sender: User!
+    count: Int!
+    startedAt: DateTime!
+    endedAt: DateTime!
+  }
+
+  type SuspiciousActivity {
+    since: DateTime!
+    reciprocalPairs: [ReciprocalPair!]!
+    rings: [RecognitionRing!]!
+    bursts: [RecognitionBurst!]!
+  }
+
+  type PointsBalance {
+    earned: Int!
+    givingAllowance: Int!
+    givingRemaining: Int!
+    periodStart: DateTime!
+  }
+
+  type PointsLedgerEntry {
+    id: ID!
+    account: PointsAccount!
+    entryType: PointsEntryType!
+    amount: Int!
+    periodStart: DateTime!
+    recognitionId: ID
+    redemptionId: ID
+    createdAt: DateTime!
+  }
+
+  type PointAllowance {
+    role: UserRole!
+    monthlyAllowance: Int!
+  }
+
+  type Reward {
+    id: ID!
+    title: String!
+    description: String
+    cost: Int!
+    stock: Int
+    activeFrom: DateTime!
+    activeUntil: DateTime
+    available: Boolean!
+    createdAt: DateTime!
+  }
+
+  type RewardRedemption {
+    id: ID!
+    reward: Reward!
+    user: User!
+    cost: Int!
+    status: RedemptionStatus!
+    note: String
+    reviewedBy: User
+    reviewedAt: DateTime
+    createdAt: DateTime!
+    updatedAt: DateTime
+  }
+
+  type RecognitionSearchResult {
+    recognition: Recognition!
+    rank: Float!
+    snippet: String!
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type RecognitionEdge {
+    node: Recognition!
+    cursor: String!
+  }
+
+  type RecognitionConnection {
+    edges: [RecognitionEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type UserEdge {
+    node: User!
+    cursor: String!
+  }
+
+  type UserConnection {
+    edges: [UserEdge!]!
+    pageInfo: PageInfo!
   }
 
   type AuthPayload {
     token: String!
+    refreshToken: String!
+    expiresAt: DateTime!
     user: User!
   }
 
+  type Session {
+    id: ID!
+    ipAddress: String
+    userAgent: String
+    createdAt: DateTime!
+    lastUsedAt: DateTime!
+    expiresAt: DateTime!
+    current: Boolean!
+  }
+
   input CreateRecognitionInput {
-    recipientId: ID!
+    recipientId: ID
+    recipientIds: [ID!]
+    teamId: ID
+    valueIds: [ID!]
+    points: Int
+    scheduledFor: DateTime
     message: String!
     visibility: Visibility!
   }
 
+  input CompanyValueInput {
+    name: String!
+    description: String
+    emoji: String
+    active: Boolean
+  }
+
+  input UpdateCompanyValueInput {
+    id: ID!
+    name: String
+    description: String
+    emoji: String
+    active: Boolean
+  }
+
+  input RewardInput {
+    title: String!
+    description: String
+    cost: Int!
+    stock: Int
+    activeFrom: DateTime
+    activeUntil: DateTime
+  }
+
+  input UpdateRewardInput {
+    id: ID!
+    title: String
+    description: String
+    cost: Int
+    stock: Int
+    activeFrom: DateTime
+    activeUntil: DateTime
+  }
+
+  input ModerationRuleInput {
+    name: String!
+    matchType: ModerationMatchType!
+    terms: [String!]!
+    action: ModerationAction!
+    enabled: Boolean
+  }
+
+  input UpdateModerationRuleInput {
+    id: ID!
+    name: String
+    matchType: ModerationMatchType
+    terms: [String!]
+    action: ModerationAction
+    enabled: Boolean
+  }
+
+  input ServiceAccountInput {
+    name: String!
+    role: UserRole
+  }
+
+  input ApiKeyInput {
+    serviceAccountId: ID!
+    name: String!
+    scopes: [String!]!
+    expiresAt: DateTime
+  }
+
+  input CreateUserInput {
+    email: String!
+    name: String!
+    role: UserRole = EMPLOYEE
+    teamId: ID
+  }
+
+  input UpdateUserInput {
+    id: ID!
+    name: String
+    role: UserRole
+    teamId: ID
+  }
+
+  input CreateTeamInput {
+    name: String!
+    description: String
+    parentTeamId: ID
+    managerId: ID
+  }
+
+  input UpdateTeamInput {
+    id: ID!
+    name: String
+    description: String
+    parentTeamId: ID
+    managerId: ID
+  }
+
+  input TeamAccessGrantInput {
+    userId: ID!
+    teamId: ID!
+    includeSubTeams: Boolean = true
+    expiresAt: DateTime
+  }
+
+  input RecognitionSearchFilters {
+    senderId: ID
+    recipientId: ID
+    teamId: ID
+    valueId: ID
+    from: DateTime
+    to: DateTime
+    limit: Int
+  }
+
+  input UpdateRecognitionInput {
+    id: ID!
+    message: String
+    visibility: Visibility
+  }
+
+  input AddCommentInput {
+    recognitionId: ID!
+    body: String!
+    parentId: ID
+  }
+
   type Query {
     # Authentication
     me: User
+    mySessions: [Session!]!
     
     # Users
     user(id: ID!): User
-    users(limit: Int = 20): [User!]!
+    users(first: Int, after: String, last: Int, before: String, includeDeactivated: Boolean = false): UserConnection!
+    exportUsers(includeDeactivated: Boolean = true): String!
+    
+    # Privacy (JSON bundle of a user's personal data)
+    exportMyData: String!
+    exportUserData(userId: ID!): String!
+    
+    # Teams
+    teams(includeArchived: Boolean = false): [Team!]!
+    team(id: ID!): Team
     
     # Recognitions
-    recognitions(limit: Int = 20, visibility: Visibility): [Recognition!]!
-    myRecognitions(type: String, limit: Int = 20): [Recognition!]!
+    recognitions(first: Int, after: String, last: Int, before: String, visibility: Visibility): RecognitionConnection!
+    myRecognitions(type: String, first: Int, after: String, last: Int, before: String): RecognitionConnection!
     recognition(id: ID!): Recognition
+    deletedRecognitions(limit: Int = 20): [Recognition!]!
+    myScheduledRecognitions: [Recognition!]!
+    searchRecognitions(query: String!, filters: RecognitionSearchFilters): [RecognitionSearchResult!]!
+    
+    # Company values
+    companyValues(includeInactive: Boolean = false): [CompanyValue!]!
+    
+    # Points
+    myPointsBalance: PointsBalance!
+    pointsLedger(account: PointsAccount, limit: Int = 50): [PointsLedgerEntry!]!
+    pointAllowances: [PointAllowance!]!
     
-    # Analytics (role-restricted)
-    teamStats(teamId: ID!): TeamStats
+    # Rewards
+    rewards(includeInactive: Boolean = false): [Reward!]!
+    myRedemptions: [RewardRedemption!]!
+    pendingRedemptions(status: RedemptionStatus): [RewardRedemption!]!
+    
+    # Moderation (HR/ADMIN only)
+    moderationRules: [ModerationRule!]!
+    moderationDecisions(recognitionId: ID, action: ModerationAction, limit: Int = 50): [ModerationDecision!]!
+    heldRecognitions: [Recognition!]!
+    moderationQueue(status: ReportStatus = OPEN, limit: Int = 50): [ModerationQueueItem!]!
+    moderationHistory(recognitionId: ID!): [ModerationLogEntry!]!
+    
+    # Analytics (team stats are limited to managed and granted teams; HR/ADMIN see all)
+    teamStats(teamId: ID!, includeSubTeams: Boolean = false): TeamStats
+    accessibleTeams: [Team!]!
+    organizationStats: OrganizationStats
+    suspiciousActivity(days: Int = 30): SuspiciousActivity!
+    
+    # Service accounts (admin only)
+    serviceAccounts: [ServiceAccount!]!
+    
+    # Team access grants (HR/ADMIN only)
+    teamAccessGrants(userId: ID): [TeamAccessGrant!]!
   }
 
   type Mutation {
     # Authentication
-    login(email: String!): AuthPayload!
+    login(email: String!, password: String!): AuthPayload!
+    requestLoginCode(email: String!): Boolean!
+    loginWithCode(email: String!, code: String!): AuthPayload!
+    loginWithMagicLink(token: String!): AuthPayload!
+    changePassword(currentPassword: String, newPassword: String!): Boolean!
+    refreshSession(refreshToken: String!): AuthPayload!
+    revokeSession(id: ID!): Boolean!
+    revokeAllSessionsForUser(userId: ID!): Int!
+    
+    # User management (admin only)
+    createUser(input: CreateUserInput!): User!
+    updateUser(input: UpdateUserInput!): User!
+    deactivateUser(id: ID!): User!
+    reactivateUser(id: ID!): User!
+    importUsers(csv: String!, dryRun: Boolean = true): UserImportResult!
+    eraseUser(id: ID!): User!
+    
+    # Teams (admin only)
+    createTeam(input: CreateTeamInput!): Team!
+    updateTeam(input: UpdateTeamInput!): Team!
+    archiveTeam(id: ID!): Team!
     
     # Recognitions
     createRecognition(input: CreateRecognitionInput!): Recognition!
+    updateRecognition(input: UpdateRecognitionInput!): Recognition!
+    deleteRecognition(id: ID!): Boolean!
+    restoreRecognition(id: ID!): Recognition!
+    rescheduleRecognition(id: ID!, scheduledFor: DateTime!): Recognition!
+    cancelScheduledRecognition(id: ID!): Boolean!
+    
+    # Reactions and comments
+    addReaction(recognitionId: ID!, emoji: String!): Recognition!
+    removeReaction(recognitionId: ID!, emoji: String!): Recognition!
+    addComment(input: AddCommentInput!): Comment!
+    updateComment(id: ID!, body: String!): Comment!
+    deleteComment(id: ID!): Boolean!
+    
+    # Company values (admin only)
+    createCompanyValue(input: CompanyValueInput!): CompanyValue!
+    updateCompanyValue(input: UpdateCompanyValueInput!): CompanyValue!
+    
+    # Points (admin only)
+    setPointAllowance(role: UserRole!, monthlyAllowance: Int!): PointAllowance!
+    
+    # Rewards
+    redeemReward(rewardId: ID!): RewardRedemption!
+    createReward(input: RewardInput!): Reward!
+    updateReward(input: UpdateRewardInput!): Reward!
+    approveRedemption(id: ID!): RewardRedemption!
+    fulfillRedemption(id: ID!, note: String): RewardRedemption!
+    rejectRedemption(id: ID!, reason: String!): RewardRedemption!
+    
+    # Chat integrations (admin only)
+    linkChatIdentity(userId: ID!, provider: ChatProvider!, externalId: String!): Boolean!
+    
+    # Moderation rules (admin only) and review of held recognitions (HR/ADMIN)
+    createModerationRule(input: ModerationRuleInput!): ModerationRule!
+    updateModerationRule(input: UpdateModerationRuleInput!): ModerationRule!
+    deleteModerationRule(id: ID!): Boolean!
+    releaseHeldRecognition(id: ID!): Recognition!
+    rejectHeldRecognition(id: ID!, reason: String!): Boolean!
+    
+    # Reports
+    reportRecognition(id: ID!, reason: String!): RecognitionReport!
+    dismissReports(recognitionId: ID!, note: String): Recognition!
+    hideRecognition(recognitionId: ID!, note: String): Recognition!
+    removeRecognition(recognitionId: ID!, note: String): Recognition!
+    revealAnonymousSender(recognitionId: ID!, justification: String!): AnonymousSenderReveal!
+    
+    # Service accounts and API keys (admin only)
+    createServiceAccount(input: ServiceAccountInput!): ServiceAccount!
+    createApiKey(input: ApiKeyInput!): CreatedApiKey!
+    rotateApiKey(id: ID!, gracePeriodHours: Int = 24): CreatedApiKey!
+    revokeApiKey(id: ID!): Boolean!
+    
+    # Team access grants (HR/ADMIN only)
+    grantTeamAccess(input: TeamAccessGrantInput!): TeamAccessGrant!
+    revokeTeamAccess(id: ID!): Boolean!
   }
 
   type Subscription {
     # Real-time notifications
     recognitionReceived(userId: ID!): Recognition!
     recognitionCreated: Recognition!
+    recognitionUpdated(recognitionId: ID!): RecognitionUpdate!
+    recognitionMentioned: Recognition!
+    anonymousSenderRevealed: AnonymousSenderRevealNotice!
   }
 `;
 
@@ -103,64 +769,467 @@ export const resolvers = {
       return services.userService.getCurrentUser(user.id);
     },
     
+    mySessions: async (_: any, __: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.sessionService.getSessions(user.id, user.sid);
+    },
+    
     // Users
     user: async (_: any, { id }: any, { user, services }: any) => {
       if (!user) throw new Error('Authentication required');
       return services.userService.getUserById(id);
     },
     
-    users: async (_: any, { limit }: any, { user, services }: any) => {
+    users: async (_: any, args: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      const { includeDeactivated, ...connectionArgs } = args;
+      return services.userService.getUsers(connectionArgs, includeDeactivated);
+    },
+    
+    // Teams
+    teams: async (_: any, { includeArchived }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.teamService.getTeams(null, includeArchived);
+    },
+    
+    team: async (_: any, { id }: any, { user, services }: any) => {
       if (!user) throw new Error('Authentication required');
-      return services.userService.getUsers(limit);
+      return services.teamService.getTeam(id);
+    },
+    
+    exportUsers: async (_: any, { includeDeactivated }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.userImportService.exportUsers(user.role, includeDeactivated);
+    },
+    
+    // Privacy
+    exportMyData: async (_: any, __: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return JSON.stringify(await services.privacyService.exportUserData(user.id, user.role, user.id));
+    },
+    
+    exportUserData: async (_: any, { userId }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return JSON.stringify(await services.privacyService.exportUserData(user.id, user.role, userId));
     },
     
     // Recognitions
     recognitions: async (_: any, args: any, { user, services }: any) => {
       if (!user) throw new Error('Authentication required');
-      return services.recognitionService.getRecognitions(user.id, args);
+      return services.recognitionService.getRecognitions(user.id, args, user.role);
     },
     
     myRecognitions: async (_: any, args: any, { user, services }: any) => {
       if (!user) throw new Error('Authentication required');
-      return services.recognitionService.getMyRecognitions(user.id, args.type, args.limit);
+      return services.recognitionService.getMyRecognitions(user.id, args.type, args);
     },
     
     recognition: async (_: any, { id }: any, { user, services }: any) => {
       if (!user) throw new Error('Authentication required');
-      return services.recognitionService.getRecognitionById(id, user.id);
+      return services.recognitionService.getRecognitionById(id, user.id, user.role);
     },
     
-    // Analytics
-    teamStats: async (_: any, { teamId }: any, { user, services }: any) => {
+    deletedRecognitions: async (_: any, { limit }: any, { user, services }: any) => {
       if (!user) throw new Error('Authentication required');
-      return services.analyticsService.getTeamStats(teamId, user.role);
-    }
-  },
-  
-  Mutation: {
-    // Authentication
-    login: async (_: any, { email }: any, { services }: any) => {
-      return services.userService.login(email);
+      return services.recognitionService.getDeletedRecognitions(user.role, limit);
     },
     
-    // Recognitions
-    createRecognition: async (_: any, { input }: any, { user, services }: any) => {
+    myScheduledRecognitions: async (_: any, __: any, { user, services }: any) => {
       if (!user) throw new Error('Authentication required');
-      return services.recognitionService.createRecognition(user.id, input);
-    }
-  },
-  
-  Subscription: {
-    recognitionReceived: {
-      subscribe: (_: any, { userId }: any, { pubsub }: any) => {
-        console.log(`User ${userId} subscribed to recognition notifications`);
-        return pubsub.asyncIterator(['RECOGNITION_RECEIVED']);
-      },
-      resolve: (payload: any, { userId }: any) => {
-        // Only send to the intended recipient
-        if (payload.recognitionReceived.recipient.id === userId) {
-          return payload.recognitionReceived;
-        }
+      return services.recognitionService.getScheduledRecognitions(user.id);
+    },
+    
+    searchRecognitions: async (_: any, { query, filters }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.recognitionService.searchRecognitions(user.id, query, filters || {}, user.role);
+    },
+    
+    // Company values
+    companyValues: async (_: any, { includeInactive }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.companyValueService.getValues(includeInactive, user.role);
+    },
+    
+    // Points
+    myPointsBalance: async (_: any, __: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.pointsService.getBalance(user.id);
+    },
+    
+    pointsLedger: async (_: any, { account, limit }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.pointsService.getLedger(user.id, account, limit);
+    },
+    
+    pointAllowances: async (_: any, __: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.pointsService.getAllowances();
+    },
+    
+    // Rewards
+    rewards: async (_: any, { includeInactive }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.rewardService.getRewards(user.role, includeInactive);
+    },
+    
+    myRedemptions: async (_: any, __: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.rewardService.getMyRedemptions(user.id);
+    },
+    
+    pendingRedemptions: async (_: any, { status }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.rewardService.getPendingRedemptions(user.role, status);
+    },
+    
+    // Moderation
+    moderationRules: async (_: any, __: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.moderationService.getRules(user.role);
+    },
+    
+    moderationDecisions: async (_: any, filters: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.moderationService.getDecisions(user.role, filters);
+    },
+    
+    heldRecognitions: async (_: any, __: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.recognitionService.getHeldRecognitions(user.role);
+    },
+    
+    moderationQueue: async (_: any, { status, limit }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.reportService.getModerationQueue(user.role, status, limit);
+    },
+    
+    moderationHistory: async (_: any, { recognitionId }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.moderationService.getModerationLog(user.role, recognitionId);
+    },
+    
+    // Analytics
+    teamStats: async (_: any, { teamId, includeSubTeams }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.analyticsService.getTeamStats(teamId, user.id, user.role, includeSubTeams);
+    },
+    
+    accessibleTeams: async (_: any, __: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      const teamIds = await services.policyService.getVisibleTeamIds(user.id, user.role);
+      return services.teamService.getTeams(teamIds);
+    },
+    
+    organizationStats: async (_: any, __: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.analyticsService.getOrganizationAnalytics(user.role);
+    },
+    
+    suspiciousActivity: async (_: any, { days }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.analyticsService.getSuspiciousActivity(user.role, days);
+    },
+    
+    serviceAccounts: async (_: any, __: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.apiKeyService.getServiceAccounts(user.role);
+    },
+    
+    teamAccessGrants: async (_: any, { userId }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.policyService.getTeamAccessGrants(user.role, userId);
+    }
+  },
+  
+  Mutation: {
+    // Authentication
+    login: async (_: any, { email, password }: any, { services, client }: any) => {
+      return services.authService.login(email, password, client);
+    },
+    
+    requestLoginCode: async (_: any, { email }: any, { services, client }: any) => {
+      return services.authService.requestLoginCode(email, client);
+    },
+    
+    loginWithCode: async (_: any, { email, code }: any, { services, client }: any) => {
+      return services.authService.loginWithCode(email, code, client);
+    },
+    
+    loginWithMagicLink: async (_: any, { token }: any, { services, client }: any) => {
+      return services.authService.loginWithMagicLink(token, client);
+    },
+    
+    changePassword: async (_: any, { currentPassword, newPassword }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.authService.changePassword(user.id, currentPassword, newPassword);
+    },
+    
+    refreshSession: async (_: any, { refreshToken }: any, { services, client }: any) => {
+      return services.sessionService.refreshSession(refreshToken, client);
+    },
+    
+    revokeSession: async (_: any, { id }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.sessionService.revokeSession(user.id, id);
+    },
+    
+    revokeAllSessionsForUser: async (_: any, { userId }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.sessionService.revokeAllSessionsForUser(userId, user.id, user.role);
+    },
+    
+    // User management
+    createUser: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.userService.createUser(user.id, user.role, input);
+    },
+    
+    updateUser: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.userService.updateUser(user.id, user.role, input);
+    },
+    
+    deactivateUser: async (_: any, { id }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.userService.deactivateUser(user.id, user.role, id);
+    },
+    
+    reactivateUser: async (_: any, { id }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.userService.reactivateUser(user.id, user.role, id);
+    },
+    
+    importUsers: async (_: any, { csv, dryRun }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.userImportService.importUsers(user.id, user.role, csv, dryRun);
+    },
+    
+    eraseUser: async (_: any, { id }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.privacyService.eraseUser(user.id, user.role, id);
+    },
+    
+    // Teams
+    createTeam: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.teamService.createTeam(user.id, user.role, input);
+    },
+    
+    updateTeam: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.teamService.updateTeam(user.id, user.role, input);
+    },
+    
+    archiveTeam: async (_: any, { id }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.teamService.archiveTeam(user.id, user.role, id);
+    },
+    
+    // Recognitions
+    createRecognition: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.recognitionService.createRecognition(user.id, input);
+    },
+    
+    updateRecognition: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.recognitionService.updateRecognition(user.id, input);
+    },
+    
+    deleteRecognition: async (_: any, { id }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.recognitionService.deleteRecognition(id, user.id, user.role);
+    },
+    
+    restoreRecognition: async (_: any, { id }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.recognitionService.restoreRecognition(id, user.id, user.role);
+    },
+    
+    rescheduleRecognition: async (_: any, { id, scheduledFor }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.recognitionService.rescheduleRecognition(id, user.id, scheduledFor);
+    },
+    
+    cancelScheduledRecognition: async (_: any, { id }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.recognitionService.cancelScheduledRecognition(id, user.id);
+    },
+    
+    // Reactions and comments
+    addReaction: async (_: any, { recognitionId, emoji }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.engagementService.addReaction(user.id, recognitionId, emoji);
+    },
+    
+    removeReaction: async (_: any, { recognitionId, emoji }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.engagementService.removeReaction(user.id, recognitionId, emoji);
+    },
+    
+    addComment: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.engagementService.addComment(user.id, input);
+    },
+    
+    updateComment: async (_: any, { id, body }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.engagementService.updateComment(user.id, id, body);
+    },
+    
+    deleteComment: async (_: any, { id }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.engagementService.deleteComment(user.id, user.role, id);
+    },
+    
+    // Company values
+    createCompanyValue: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.companyValueService.createValue(user.role, input);
+    },
+    
+    updateCompanyValue: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.companyValueService.updateValue(user.role, input);
+    },
+    
+    // Points
+    setPointAllowance: async (_: any, { role, monthlyAllowance }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.pointsService.setAllowance(user.role, role, monthlyAllowance);
+    },
+    
+    // Rewards
+    redeemReward: async (_: any, { rewardId }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.rewardService.redeemReward(user.id, rewardId);
+    },
+    
+    createReward: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.rewardService.createReward(user.id, user.role, input);
+    },
+    
+    updateReward: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.rewardService.updateReward(user.role, input);
+    },
+    
+    approveRedemption: async (_: any, { id }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.rewardService.approveRedemption(user.id, user.role, id);
+    },
+    
+    fulfillRedemption: async (_: any, { id, note }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.rewardService.fulfillRedemption(user.id, user.role, id, note);
+    },
+    
+    rejectRedemption: async (_: any, { id, reason }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.rewardService.rejectRedemption(user.id, user.role, id, reason);
+    },
+    
+    // Chat integrations
+    linkChatIdentity: async (_: any, { userId, provider, externalId }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.chatCommandService.linkIdentity(user.role, userId, provider, externalId);
+    },
+    
+    // Moderation
+    createModerationRule: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.moderationService.createRule(user.id, user.role, input);
+    },
+    
+    updateModerationRule: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.moderationService.updateRule(user.role, input);
+    },
+    
+    deleteModerationRule: async (_: any, { id }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.moderationService.deleteRule(user.role, id);
+    },
+    
+    releaseHeldRecognition: async (_: any, { id }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.recognitionService.releaseHeldRecognition(id, user.id, user.role);
+    },
+    
+    rejectHeldRecognition: async (_: any, { id, reason }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.recognitionService.rejectHeldRecognition(id, user.id, user.role, reason);
+    },
+    
+    // Reports
+    reportRecognition: async (_: any, { id, reason }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.reportService.reportRecognition(user.id, id, reason);
+    },
+    
+    dismissReports: async (_: any, { recognitionId, note }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.reportService.dismissReports(user.id, user.role, recognitionId, note);
+    },
+    
+    hideRecognition: async (_: any, { recognitionId, note }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.reportService.hideRecognition(user.id, user.role, recognitionId, note);
+    },
+    
+    removeRecognition: async (_: any, { recognitionId, note }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.reportService.removeRecognition(user.id, user.role, recognitionId, note);
+    },
+    
+    revealAnonymousSender: async (_: any, { recognitionId, justification }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.recognitionService.revealAnonymousSender(recognitionId, user.id, user.role, justification);
+    },
+    
+    createServiceAccount: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.apiKeyService.createServiceAccount(user.id, user.role, input);
+    },
+    
+    createApiKey: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.apiKeyService.createApiKey(user.id, user.role, input);
+    },
+    
+    rotateApiKey: async (_: any, { id, gracePeriodHours }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.apiKeyService.rotateApiKey(user.id, user.role, id, gracePeriodHours);
+    },
+    
+    revokeApiKey: async (_: any, { id }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.apiKeyService.revokeApiKey(user.id, user.role, id);
+    },
+    
+    grantTeamAccess: async (_: any, { input }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.policyService.grantTeamAccess(user.id, user.role, input);
+    },
+    
+    revokeTeamAccess: async (_: any, { id }: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.policyService.revokeTeamAccess(user.id, user.role, id);
+    }
+  },
+  
+  Subscription: {
+    recognitionReceived: {
+      subscribe: (_: any, { userId }: any, { pubsub }: any) => {
+        console.log(`User ${userId} subscribed to recognition notifications`);
+        return pubsub.asyncIterator(['RECOGNITION_RECEIVED']);
+      },
+      resolve: (payload: any, { userId }: any) => {
+        // Only send to the intended recipient
+        if (payload.recognitionReceived.recipient.id === userId) {
+          return payload.recognitionReceived;
+        }
         return null;
       }
     },
@@ -170,6 +1239,44 @@ export const resolvers = {
         console.log('Client subscribed to new recognitions');
         return pubsub.asyncIterator(['RECOGNITION_CREATED']);
       }
+    },
+    
+    recognitionUpdated: {
+      subscribe: async (root: any, args: any, context: any, info: any) => {
+        const { user, services, pubsub } = context;
+        if (!user) throw new Error('Authentication required');
+        // Same visibility rules as the recognition query
+        await services.recognitionService.getRecognitionById(args.recognitionId, user.id, user.role);
+        return withFilter(
+          () => pubsub.asyncIterator(['RECOGNITION_UPDATED']),
+          // Checked again for every update: the recognition may have become private, hidden or deleted since
+          async (payload: any, variables: any) =>
+            payload.recognitionUpdated.recognitionId === variables.recognitionId &&
+            services.recognitionService.canViewRecognition(variables.recognitionId, user.id, user.role)
+        )(root, args, context, info);
+      }
+    },
+    
+    recognitionMentioned: {
+      subscribe: (root: any, args: any, context: any, info: any) => {
+        const { user, pubsub } = context;
+        if (!user) throw new Error('Authentication required');
+        return withFilter(
+          () => pubsub.asyncIterator(['RECOGNITION_MENTIONED']),
+          (payload: any) => payload.recognitionMentioned.mentionedUser.id === user.id
+        )(root, args, context, info);
+      }
+    },
+    
+    anonymousSenderRevealed: {
+      subscribe: (root: any, args: any, context: any, info: any) => {
+        const { user, pubsub } = context;
+        if (!user) throw new Error('Authentication required');
+        return withFilter(
+          () => pubsub.asyncIterator(['ANONYMOUS_SENDER_REVEALED']),
+          (payload: any) => payload.anonymousSenderRevealed.recipientId === user.id
+        )(root, args, context, info);
+      }
     }
   },
   
@@ -177,11 +1284,185 @@ export const resolvers = {
   User: {
     team: async (parent: any, _: any, { services }: any) => {
       if (!parent.teamId) return null;
-      return services.userService.getUserTeam(parent.teamId);
+      return services.teamService.getTeam(parent.teamId);
+    }
+  },
+  
+  Recognition: {
+    recipients: async (parent: any, _: any, { services }: any) => {
+      if (parent.recipients) return parent.recipients;
+      return services.recognitionService.getRecognitionRecipients(parent.id);
+    },
+    
+    mentions: async (parent: any, _: any, { services }: any) => {
+      if (parent.mentions) return parent.mentions;
+      return services.recognitionService.getRecognitionMentions(parent.id);
+    },
+    
+    team: async (parent: any, _: any, { services }: any) => {
+      if (!parent.teamId) return null;
+      return services.teamService.getTeam(parent.teamId);
+    },
+    
+    values: async (parent: any, _: any, { services }: any) => {
+      return services.companyValueService.getRecognitionValues(parent.id);
+    },
+    
+    revisions: async (parent: any, _: any, { user, services }: any) => {
+      if (!user) throw new Error('Authentication required');
+      return services.recognitionService.getRecognitionRevisions(parent.id, user.id, user.role, true);
+    },
+    
+    reactions: async (parent: any, _: any, { services }: any) => {
+      return services.engagementService.getReactions(parent.id);
+    },
+    
+    comments: async (parent: any, _: any, { services }: any) => {
+      return services.engagementService.getComments(parent.id);
+    }
+  },
+  
+  ReactionSummary: {
+    reactedByMe: (parent: any, _: any, { user }: any) => {
+      return !!user && parent.userIds.includes(user.id);
+    }
+  },
+  
+  Comment: {
+    replies: async (parent: any, _: any, { services }: any) => {
+      return services.engagementService.getReplies(parent.id);
+    }
+  },
+  
+  RecognitionUpdate: {
+    actor: async (parent: any, _: any, { services }: any) => {
+      return services.userService.getUserById(parent.actorId);
+    }
+  },
+  
+  RewardRedemption: {
+    reward: async (parent: any, _: any, { services }: any) => {
+      return services.rewardService.getRewardById(parent.rewardId);
+    },
+    
+    user: async (parent: any, _: any, { services }: any) => {
+      return services.userService.getUserById(parent.userId);
+    },
+    
+    reviewedBy: async (parent: any, _: any, { services }: any) => {
+      if (!parent.reviewedById) return null;
+      return services.userService.getUserById(parent.reviewedById);
+    }
+  },
+  
+  ModerationDecision: {
+    recognition: async (parent: any, _: any, { user, services }: any) => {
+      if (!parent.recognitionId) return null;
+      return services.recognitionService.getRecognitionForReview(parent.recognitionId, user.role);
+    },
+    
+    user: async (parent: any, _: any, { services }: any) => {
+      if (!parent.userId) return null;
+      return services.userService.getUserById(parent.userId);
+    },
+    
+    reviewedBy: async (parent: any, _: any, { services }: any) => {
+      if (!parent.reviewedById) return null;
+      return services.userService.getUserById(parent.reviewedById);
+    }
+  },
+  
+  RecognitionReport: {
+    reporter: async (parent: any, _: any, { services }: any) => {
+      return services.userService.getUserById(parent.reporterId);
+    },
+    
+    resolvedBy: async (parent: any, _: any, { services }: any) => {
+      if (!parent.resolvedById) return null;
+      return services.userService.getUserById(parent.resolvedById);
+    }
+  },
+  
+  ModerationQueueItem: {
+    recognition: async (parent: any, _: any, { user, services }: any) => {
+      return services.recognitionService.getRecognitionForReview(parent.recognitionId, user.role);
+    },
+    
+    reports: async (parent: any, _: any, { user, services }: any) => {
+      return services.reportService.getReports(user.role, parent.recognitionId, parent.status);
+    }
+  },
+  
+  ModerationLogEntry: {
+    moderator: async (parent: any, _: any, { services }: any) => {
+      return services.userService.getUserById(parent.moderatorId);
+    }
+  },
+  
+  ReciprocalPair: {
+    userA: async (parent: any, _: any, { services }: any) => {
+      return services.userService.getUserById(parent.userAId);
+    },
+    userB: async (parent: any, _: any, { services }: any) => {
+      return services.userService.getUserById(parent.userBId);
+    }
+  },
+  
+  RecognitionRing: {
+    members: async (parent: any, _: any, { services }: any) => {
+      return Promise.all(parent.memberIds.map((id: string) => services.userService.getUserById(id)));
+    }
+  },
+  
+  RecognitionBurst: {
+    sender: async (parent: any, _: any, { services }: any) => {
+      return services.userService.getUserById(parent.senderId);
+    }
+  },
+  
+  AnonymousSenderReveal: {
+    sender: async (parent: any, _: any, { services }: any) => {
+      return services.userService.getUserById(parent.senderId);
+    },
+    revealedBy: async (parent: any, _: any, { services }: any) => {
+      return services.userService.getUserById(parent.revealedById);
+    }
+  },
+  
+  ServiceAccount: {
+    apiKeys: async (parent: any, _: any, { services }: any) => {
+      return services.apiKeyService.getApiKeys(parent.id);
+    }
+  },
+  
+  ApiKey: {
+    createdBy: async (parent: any, _: any, { services }: any) => {
+      return parent.createdById ? services.userService.getUserById(parent.createdById) : null;
+    }
+  },
+  
+  TeamAccessGrant: {
+    user: async (parent: any, _: any, { services }: any) => {
+      return services.userService.getUserById(parent.userId);
+    },
+    team: async (parent: any, _: any, { services }: any) => {
+      return services.teamService.getTeam(parent.teamId);
+    },
+    grantedBy: async (parent: any, _: any, { services }: any) => {
+      return parent.grantedById ? services.userService.getUserById(parent.grantedById) : null;
     }
   },
   
   Team: {
+    manager: async (parent: any, _: any, { services }: any) => {
+      return parent.managerId ? services.userService.getUserById(parent.managerId) : null;
+    },
+    parent: async (parent: any, _: any, { services }: any) => {
+      return services.teamService.getTeam(parent.parentTeamId);
+    },
+    subTeams: async (parent: any, { includeArchived }: any, { services }: any) => {
+      return services.teamService.getSubTeams(parent.id, includeArchived);
+    },
     members: async (parent: any, _: any, { services }: any) => {
       return services.userService.getTeamMembers(parent.id);
     }
@@ -0,0 +1,42 @@
+/**
+ * Background job scheduler for periodic server-side work
+ */
+
+import { getErrorMessage } from '../utils/errorHandler';
+
+export interface BackgroundJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+/**
+ * Runs each job once at startup and then on its interval. A job never overlaps
+ * with itself: a tick is skipped while the previous run is still in progress.
+ * @returns Function that stops all jobs
+ */
+export function startBackgroundJobs(jobs: BackgroundJob[]): () => void {
+  const timers = jobs.map(job => {
+    let running = false;
+
+    const tick = async () => {
+      if (running) {
+        console.warn(`Background job ${job.name} still running, skipping this tick`);
+        return;
+      }
+      running = true;
+      try {
+        await job.run();
+      } catch (error) {
+        console.error(`Background job ${job.name} failed:`, getErrorMessage(error));
+      } finally {
+        running = false;
+      }
+    };
+
+    void tick();
+    return setInterval(tick, job.intervalMs);
+  });
+
+  return () => timers.forEach(timer => clearInterval(timer));
+}
@@ -0,0 +1,54 @@
+import express from 'express';
+import { sendErrorResponse } from '../utils/responseHelpers';
+
+const router = express.Router();
+
+// Where the browser lands after single sign-on; the token or error is in the URL fragment
+const getPostLoginUrl = () =>
+  process.env.OIDC_POST_LOGIN_URL || `${process.env.APP_URL || 'http://localhost:3000'}/login`;
+
+// Start OpenID Connect sign-in
+router.get('/oidc/login', async (req, res) => {
+  const { oidcService } = req.app.locals.services;
+  if (!oidcService.isEnabled()) {
+    return res.status(404).json({ error: 'Single sign-on is not configured' });
+  }
+
+  try {
+    res.redirect(await oidcService.beginLogin());
+  } catch (error) {
+    console.error('OIDC login error:', error);
+    sendErrorResponse(res, error, 'Single sign-on is unavailable', 502);
+  }
+});
+
+// Identity provider redirect back after sign-in
+router.get('/oidc/callback', async (req, res) => {
+  const { oidcService } = req.app.locals.services;
+  if (!oidcService.isEnabled()) {
+    return res.status(404).json({ error: 'Single sign-on is not configured' });
+  }
+
+  // The fragment is not sent to servers, so the token stays out of access logs
+  const finish = (params: Record<string, string>) =>
+    res.redirect(`${getPostLoginUrl()}#${new URLSearchParams(params).toString()}`);
+
+  if (req.query.error) {
+    console.warn('OIDC sign-in rejected by identity provider:', req.query.error);
+    return finish({ error: 'Sign-in was cancelled or denied' });
+  }
+
+  try {
+    const { token, refreshToken } = await oidcService.completeLogin(
+      String(req.query.code || ''),
+      String(req.query.state || ''),
+      { ipAddress: req.ip || null, userAgent: req.get('user-agent') || null }
+    );
+    finish({ token, refresh_token: refreshToken });
+  } catch (error) {
+    console.error('OIDC callback error:', error);
+    finish({ error: 'Sign-in failed. Please try again' });
+  }
+});
+
+export default router;
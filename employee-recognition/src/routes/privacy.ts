@@ -0,0 +1,53 @@
+import express from 'express';
+import { isApiKey } from '../utils/apiKeys';
+import { sendErrorResponse } from '../utils/responseHelpers';
+
+const router = express.Router();
+
+// Expected errors of PrivacyService.exportUserData and their HTTP status
+const ERROR_STATUS: Record<string, number> = {
+  'Insufficient permissions - Admin role required': 403,
+  'User not found': 404
+};
+
+// Personal data is only exported to people who signed in; API keys are not accepted
+router.use(async (req, res, next) => {
+  const token = req.headers.authorization?.replace('Bearer ', '');
+
+  if (!token || isApiKey(token)) {
+    return res.status(401).json({ error: 'Sign in to download personal data' });
+  }
+
+  try {
+    (req as any).user = await req.app.locals.services.sessionService.verifyAccessToken(token);
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+  next();
+});
+
+// Sends the export bundle of a user as a JSON file download
+const sendExport = async (req: express.Request, res: express.Response, userId: string) => {
+  const user = (req as any).user;
+  try {
+    const bundle = await req.app.locals.services.privacyService.exportUserData(user.id, user.role, userId);
+    const date = bundle.exportedAt.slice(0, 10);
+    res.attachment(`personal-data-${userId}-${date}.json`);
+    res.type('application/json').send(JSON.stringify(bundle, null, 2));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (ERROR_STATUS[message]) {
+      return res.status(ERROR_STATUS[message]).json({ error: message });
+    }
+    console.error('Personal data export error:', error);
+    sendErrorResponse(res, error, 'Personal data export failed');
+  }
+};
+
+// My own data (same bundle as the exportMyData query)
+router.get('/export', (req, res) => sendExport(req, res, (req as any).user.id));
+
+// Any user's data, to answer an access request (ADMIN only)
+router.get('/export/:userId', (req, res) => sendExport(req, res, req.params.userId));
+
+export default router;
@@ -0,0 +1,172 @@
+import express from 'express';
+import { isApiKey } from '../utils/apiKeys';
+import {
+  MAX_PAGE_SIZE,
+  SCIM_CONTENT_TYPE,
+  SCIM_SCHEMAS,
+  ScimError,
+  parseListParams,
+  toErrorResponse
+} from '../utils/scim';
+
+const router = express.Router();
+
+// SCIM clients send application/scim+json, which the app-wide JSON parser skips
+router.use(express.json({ type: SCIM_CONTENT_TYPE }));
+
+// Sends a SCIM error; unexpected errors are logged and not shown to the client
+const sendScimError = (res: express.Response, error: unknown) => {
+  if (!(error instanceof ScimError)) {
+    console.error('SCIM error:', error);
+  }
+  const scimError = error instanceof ScimError ? error : new ScimError('Provisioning failed', 500);
+  res.status(scimError.status).type(SCIM_CONTENT_TYPE).json(toErrorResponse(scimError));
+};
+
+const send = (res: express.Response, body: any, status: number = 200) =>
+  res.status(status).type(SCIM_CONTENT_TYPE).json(body);
+
+// Base URL of this router, for meta.location
+const getBaseUrl = (req: express.Request) => `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+
+const withLocation = (req: express.Request, resource: any) => ({
+  ...resource,
+  meta: { ...resource.meta, location: `${getBaseUrl(req)}/${resource.meta.resourceType}s/${resource.id}` }
+});
+
+// Azure AD asks for groups without members when it only needs their IDs
+const includeMembers = (req: express.Request) =>
+  !String(req.query.excludedAttributes || '').toLowerCase().split(',').map(name => name.trim()).includes('members');
+
+// Wraps a handler so every error becomes a SCIM error response
+const handle = (work: (req: express.Request, res: express.Response, principal: any) => Promise<unknown>) =>
+  async (req: express.Request, res: express.Response) => {
+    try {
+      await work(req, res, (req as any).principal);
+    } catch (error) {
+      sendScimError(res, error);
+    }
+  };
+
+// Provisioning authentication: requires a service account API key with the users:provision scope
+router.use(async (req, res, next) => {
+  const token = req.headers.authorization?.replace('Bearer ', '');
+
+  if (!token || !isApiKey(token)) {
+    return sendScimError(res, new ScimError('An API key is required', 401));
+  }
+
+  let principal;
+  try {
+    principal = await req.app.locals.services.apiKeyService.authenticate(token);
+  } catch (error) {
+    return sendScimError(res, new ScimError('Invalid token', 401));
+  }
+
+  if (!principal.scopes.includes('users:provision')) {
+    return sendScimError(res, new ScimError('This API key does not have the users:provision scope', 403));
+  }
+  (req as any).principal = principal;
+  next();
+});
+
+// What this server supports, for identity providers that check before syncing
+router.get('/ServiceProviderConfig', (req, res) => {
+  send(res, {
+    schemas: [SCIM_SCHEMAS.SERVICE_PROVIDER_CONFIG],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: MAX_PAGE_SIZE },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [{
+      type: 'oauthbearertoken',
+      name: 'API key',
+      description: 'A service account API key with the users:provision scope, sent as a bearer token'
+    }]
+  });
+});
+
+router.get('/ResourceTypes', (req, res) => {
+  const resourceTypes = [
+    { id: 'User', name: 'User', endpoint: '/Users', schema: SCIM_SCHEMAS.USER },
+    { id: 'Group', name: 'Group', endpoint: '/Groups', schema: SCIM_SCHEMAS.GROUP }
+  ].map(resourceType => ({ schemas: [SCIM_SCHEMAS.RESOURCE_TYPE], ...resourceType }));
+
+  send(res, {
+    schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+    totalResults: resourceTypes.length,
+    startIndex: 1,
+    itemsPerPage: resourceTypes.length,
+    Resources: resourceTypes
+  });
+});
+
+// Users
+router.get('/Users', handle(async (req, res) => {
+  const list = await req.app.locals.services.scimService.listUsers(req.query.filter, parseListParams(req.query));
+  send(res, { ...list, Resources: list.Resources.map((user: any) => withLocation(req, user)) });
+}));
+
+router.post('/Users', handle(async (req, res, principal) => {
+  const user = await req.app.locals.services.scimService.createUser(principal.id, req.body);
+  send(res, withLocation(req, user), 201);
+}));
+
+router.get('/Users/:id', handle(async (req, res) => {
+  send(res, withLocation(req, await req.app.locals.services.scimService.getUser(req.params.id)));
+}));
+
+router.put('/Users/:id', handle(async (req, res, principal) => {
+  const user = await req.app.locals.services.scimService.replaceUser(principal.id, req.params.id, req.body);
+  send(res, withLocation(req, user));
+}));
+
+router.patch('/Users/:id', handle(async (req, res, principal) => {
+  const user = await req.app.locals.services.scimService.patchUser(principal.id, req.params.id, req.body);
+  send(res, withLocation(req, user));
+}));
+
+// Deprovisioning deactivates the user; their recognitions stay
+router.delete('/Users/:id', handle(async (req, res, principal) => {
+  await req.app.locals.services.scimService.deleteUser(principal.id, req.params.id);
+  res.status(204).end();
+}));
+
+// Groups (teams)
+router.get('/Groups', handle(async (req, res) => {
+  const list = await req.app.locals.services.scimService.listGroups(
+    req.query.filter,
+    parseListParams(req.query),
+    includeMembers(req)
+  );
+  send(res, { ...list, Resources: list.Resources.map((group: any) => withLocation(req, group)) });
+}));
+
+router.post('/Groups', handle(async (req, res, principal) => {
+  const group = await req.app.locals.services.scimService.createGroup(principal.id, req.body);
+  send(res, withLocation(req, group), 201);
+}));
+
+router.get('/Groups/:id', handle(async (req, res) => {
+  send(res, withLocation(req, await req.app.locals.services.scimService.getGroup(req.params.id, includeMembers(req))));
+}));
+
+router.put('/Groups/:id', handle(async (req, res, principal) => {
+  const group = await req.app.locals.services.scimService.replaceGroup(principal.id, req.params.id, req.body);
+  send(res, withLocation(req, group));
+}));
+
+router.patch('/Groups/:id', handle(async (req, res, principal) => {
+  const group = await req.app.locals.services.scimService.patchGroup(principal.id, req.params.id, req.body);
+  send(res, withLocation(req, group));
+}));
+
+// Archives the team; its recognitions stay
+router.delete('/Groups/:id', handle(async (req, res, principal) => {
+  await req.app.locals.services.scimService.deleteGroup(principal.id, req.params.id);
+  res.status(204).end();
+}));
+
+export default router;
@@ -1,15 +1,32 @@
 import express from 'express';
-import jwt from 'jsonwebtoken';
+import { isApiKey } from '../utils/apiKeys';
 import { getErrorMessage } from '../utils/errorHandler';
 import { sendErrorResponse, sendSlackResponse, sendTeamsResponse } from '../utils/responseHelpers';
-import { validateSlackEvent, validateTeamsEvent } from '../utils/validation';
+import { validateSlackEvent, validateTeamsEvent, verifySlackSignature, verifyTeamsSignature } from '../utils/validation';
+import { parseSlackMentions, parseTeamsMentions, stripTeamsBotMention } from '../utils/mentions';
 
 const router = express.Router();
 
+const NOT_CONFIGURED = 'Recognitions from chat are not enabled yet. Please use the recognition app.';
+
 // Slack integration webhook
 router.post('/slack', async (req, res) => {
   try {
     const { type, challenge, event } = req.body;
+    const signingSecret = process.env.SLACK_SIGNING_SECRET;
+    
+    // Every Slack request is signed; reject forgeries before acting on them
+    if (signingSecret) {
+      const verification = verifySlackSignature(
+        (req as any).rawBody || '',
+        req.headers['x-slack-request-timestamp'] as string | undefined,
+        req.headers['x-slack-signature'] as string | undefined,
+        signingSecret
+      );
+      if (!verification.isValid) {
+        return res.status(401).json({ error: verification.errors[0] });
+      }
+    }
     
     // Slack URL verification
     if (type === 'url_verification') {
@@ -17,8 +34,8 @@ router.post('/slack', async (req, res) => {
       return res.json({ challenge });
     }
     
-    // Handle Slack events
-    if (event && event.type === 'message') {
+    // Handle Slack events (ignoring our own bot messages)
+    if (event && event.type === 'message' && !event.bot_id) {
       console.log('📨 Slack message received:', {
         user: event.user,
         text: event.text?.substring(0, 100),
@@ -31,21 +48,23 @@ router.post('/slack', async (req, res) => {
       if (text.includes('recognize') || text.includes('kudos')) {
         console.log('👏 Recognition command detected in Slack');
         
-        // In a real implementation, this would:
-        // 1. Parse the message for @mentions and recognition text
-        // 2. Look up users in the database
-        // 3. Create recognition via GraphQL mutation
-        // 4. Send confirmation back to Slack channel
+        if (!signingSecret) {
+          console.warn('SLACK_SIGNING_SECRET is not set; ignoring Slack recognition command');
+          return sendSlackResponse(res, NOT_CONFIGURED, undefined, 'ephemeral');
+        }
         
-        return res.json({
-          response_type: 'in_channel',
-          text: 'Recognition received!',
-          attachments: [{
-            color: 'good',
-            text: 'Your recognition will be processed by the recognition system.',
-            footer: 'Employee Recognition Bot'
-          }]
+        const result = await req.app.locals.services.chatCommandService.handleRecognitionCommand({
+          provider: 'SLACK',
+          senderExternalId: event.user,
+          text: event.text,
+          mentions: parseSlackMentions(event.text)
         });
+        
+        return sendSlackResponse(res, result.ok ? 'Recognition received!' : 'Recognition not sent', [{
+          color: result.ok ? 'good' : 'danger',
+          text: result.message,
+          footer: 'Employee Recognition Bot'
+        }], result.ok ? 'in_channel' : 'ephemeral');
       }
       
       res.json({ status: 'received' });
@@ -63,6 +82,19 @@ router.post('/slack', async (req, res) => {
 router.post('/teams', async (req, res) => {
   try {
     const { type, text, from, conversation } = req.body;
+    const webhookSecret = process.env.TEAMS_WEBHOOK_SECRET;
+    
+    // Teams outgoing webhooks sign the body with the shared secret
+    if (webhookSecret) {
+      const verification = verifyTeamsSignature(
+        (req as any).rawBody || '',
+        req.headers.authorization,
+        webhookSecret
+      );
+      if (!verification.isValid) {
+        return res.status(401).json({ error: verification.errors[0] });
+      }
+    }
     
     console.log('📨 Teams webhook received:', {
       type,
@@ -78,6 +110,22 @@ router.post('/teams', async (req, res) => {
       if (messageText.includes('recognize') || messageText.includes('kudos')) {
         console.log('👏 Recognition command detected in Teams');
         
+        if (!webhookSecret) {
+          console.warn('TEAMS_WEBHOOK_SECRET is not set; ignoring Teams recognition command');
+          return sendTeamsResponse(res, NOT_CONFIGURED);
+        }
+        
+        const result = await req.app.locals.services.chatCommandService.handleRecognitionCommand({
+          provider: 'TEAMS',
+          senderExternalId: from?.id,
+          text: stripTeamsBotMention(text, req.body),
+          mentions: parseTeamsMentions(req.body)
+        });
+        
+        if (!result.ok) {
+          return sendTeamsResponse(res, `⚠️ ${result.message}`);
+        }
+        
         return res.json({
           type: 'message',
           text: '🎉 Recognition received! Your kudos has been recorded.',
@@ -183,20 +231,29 @@ router.get('/health', (req, res) => {
   });
 });
 
-// Webhook authentication middleware (for production)
-router.use('/secure/*', (req, res, next) => {
+// Webhook authentication middleware: requires a service account API key with the webhooks:write scope
+router.use('/secure/*', async (req, res, next) => {
   const token = req.headers.authorization?.replace('Bearer ', '');
   
   if (!token) {
     return res.status(401).json({ error: 'Authentication required' });
   }
+  if (!isApiKey(token)) {
+    return res.status(401).json({ error: 'An API key is required' });
+  }
   
+  let principal;
   try {
-    jwt.verify(token, process.env.JWT_SECRET!);
-    next();
+    principal = await req.app.locals.services.apiKeyService.authenticate(token);
   } catch (error) {
-    res.status(401).json({ error: 'Invalid token' });
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+  
+  if (!principal.scopes.includes('webhooks:write')) {
+    return res.status(403).json({ error: 'This API key does not have the webhooks:write scope' });
   }
+  (req as any).principal = principal;
+  next();
 });
 
 // Secure webhook endpoint (requires authentication)
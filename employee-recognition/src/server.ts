@@ -7,7 +7,6 @@ import { useServer } from 'graphql-ws/lib/use/ws';
 import { makeExecutableSchema } from '@graphql-tools/schema';
 import { PubSub } from 'graphql-subscriptions';
 import { Pool } from 'pg';
-import jwt from 'jsonwebtoken';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { getErrorMessage } from './utils/errorHandler';
@@ -16,7 +15,30 @@ import { typeDefs, resolvers } from './graphQLSchema';
 import { RecognitionService } from './services/RecognitionService';
 import { UserService } from './services/UserService';
 import { AnalyticsService } from './services/AnalyticsService';
+import { PolicyService } from './services/PolicyService';
+import { TeamService } from './services/TeamService';
+import { EngagementService } from './services/EngagementService';
+import { CompanyValueService } from './services/CompanyValueService';
+import { PointsService } from './services/PointsService';
+import { RewardService } from './services/RewardService';
+import { ChatCommandService } from './services/ChatCommandService';
+import { ModerationService } from './services/ModerationService';
+import { ReportService } from './services/ReportService';
+import { AuditService } from './services/AuditService';
+import { AuthService } from './services/AuthService';
+import { OidcService } from './services/OidcService';
+import { SessionService } from './services/SessionService';
+import { ApiKeyService } from './services/ApiKeyService';
+import { ScimService } from './services/ScimService';
+import { UserImportService } from './services/UserImportService';
+import { PrivacyService } from './services/PrivacyService';
+import { createMailer } from './utils/mailer';
+import { isApiKey, withApiKeyScopes } from './utils/apiKeys';
+import { startBackgroundJobs } from './jobs/backgroundJobs';
 import webhookRoutes from './routes/webhooks';
+import authRoutes from './routes/auth';
+import scimRoutes from './routes/scim';
+import privacyRoutes from './routes/privacy';
 
 dotenv.config();
 
@@ -29,18 +51,52 @@ const db = new Pool({
 const pubsub = new PubSub();
 
 // Initialize services
-const recognitionService = new RecognitionService(db, pubsub);
-const userService = new UserService(db);
-const analyticsService = new AnalyticsService(db);
+const pointsService = new PointsService(db);
+const moderationService = new ModerationService(db);
+const auditService = new AuditService(db);
+const recognitionService = new RecognitionService(db, pubsub, pointsService, moderationService, auditService);
+const userService = new UserService(db, auditService);
+const userImportService = new UserImportService(db, auditService);
+const privacyService = new PrivacyService(db, auditService);
+const sessionService = new SessionService(db, auditService);
+const authService = new AuthService(db, createMailer(), sessionService);
+const oidcService = new OidcService(db, sessionService);
+const apiKeyService = new ApiKeyService(db, auditService);
+const policyService = new PolicyService(db, auditService);
+const teamService = new TeamService(db, auditService);
+const scimService = new ScimService(db, auditService);
+const analyticsService = new AnalyticsService(db, policyService, teamService);
+const engagementService = new EngagementService(db, pubsub, recognitionService);
+const companyValueService = new CompanyValueService(db);
+const rewardService = new RewardService(db, pointsService);
+const chatCommandService = new ChatCommandService(db, recognitionService);
+const reportService = new ReportService(db, recognitionService, moderationService);
 
 const services = {
   recognitionService,
   userService,
-  analyticsService
+  userImportService,
+  privacyService,
+  teamService,
+  authService,
+  sessionService,
+  oidcService,
+  apiKeyService,
+  scimService,
+  policyService,
+  analyticsService,
+  engagementService,
+  companyValueService,
+  pointsService,
+  rewardService,
+  chatCommandService,
+  moderationService,
+  reportService,
+  auditService
 };
 
 // Authentication context
-const createContext = ({ req, connection }: any) => {
+const createContext = async ({ req, connection }: any) => {
   // WebSocket connections (subscriptions)
   if (connection) {
     return { 
@@ -57,23 +113,29 @@ const createContext = ({ req, connection }: any) => {
   
   if (token) {
     try {
-      user = jwt.verify(token, process.env.JWT_SECRET!) as any;
+      // Service accounts present API keys; users present session tokens, and
+      // the session is checked too so revoked sessions stop working immediately
+      user = isApiKey(token)
+        ? await apiKeyService.authenticate(token)
+        : await sessionService.verifyAccessToken(token);
     } catch (error) {
       console.warn('Invalid token:', getErrorMessage(error));
     }
   }
   
-  return { user, db, pubsub, services };
+  // Client IP (for login throttling, see TRUST_PROXY) and user agent, recorded with sessions
+  const client = { ipAddress: req?.ip || null, userAgent: req?.headers?.['user-agent'] || null };
+  return { user, db, pubsub, services, client };
 };
 
 // WebSocket authentication
-const onConnect = (connectionParams: any) => {
+const onConnect = async (connectionParams: any) => {
   const token = connectionParams?.authorization?.replace('Bearer ', '');
   let user = null;
   
   if (token) {
     try {
-      user = jwt.verify(token, process.env.JWT_SECRET!) as any;
+      user = await sessionService.verifyAccessToken(token);
     } catch (error) {
       console.warn('WebSocket auth failed:', getErrorMessage(error));
     }
@@ -87,8 +149,16 @@ async function startServer() {
   const httpServer = createServer(app);
   
   // Middleware
+  // Behind a load balancer, req.ip must come from X-Forwarded-For
+  app.set('trust proxy', process.env.TRUST_PROXY === 'true');
   app.use(cors());
-  app.use(express.json());
+  // Keep the raw body for webhook signature verification
+  app.use(express.json({
+    verify: (req: any, _res, buf) => {
+      req.rawBody = buf.toString('utf8');
+    }
+  }));
+  app.locals.services = services;
   
   // Health check endpoint
   app.get('/health', (req, res) => {
@@ -98,7 +168,20 @@ async function startServer() {
       services: {
         recognition: 'initialized',
         user: 'initialized',
-        analytics: 'initialized'
+        auth: 'initialized',
+        sessions: 'initialized',
+        apiKeys: 'initialized',
+        scim: 'initialized',
+        oidc: oidcService.isEnabled() ? 'initialized' : 'disabled',
+        analytics: 'initialized',
+        engagement: 'initialized',
+        companyValues: 'initialized',
+        points: 'initialized',
+        rewards: 'initialized',
+        chatCommands: 'initialized',
+        moderation: 'initialized',
+        reports: 'initialized',
+        audit: 'initialized'
       }
     });
   });
@@ -106,6 +189,15 @@ async function startServer() {
   // Webhook routes
   app.use('/webhooks', webhookRoutes);
   
+  // SCIM 2.0 provisioning (users and teams) from the HR system
+  app.use('/scim/v2', scimRoutes);
+  
+  // Single sign-on routes
+  app.use('/auth', authRoutes);
+  
+  // Personal data export downloads
+  app.use('/privacy', privacyRoutes);
+  
   // Test database connection
   try {
     const client = await db.connect();
@@ -122,7 +214,8 @@ async function startServer() {
   // Create GraphQL schema
   const schema = makeExecutableSchema({ 
     typeDefs, 
-    resolvers: resolvers as any 
+    // API keys may only call the operations their scopes allow
+    resolvers: withApiKeyScopes(resolvers) as any 
   });
   
   // WebSocket server for subscriptions
@@ -135,14 +228,16 @@ async function startServer() {
     { 
       schema,
       context: async (ctx) => {
+        // Derive the user from the verified token, never from client-supplied params.
+        // Runs for every operation, so a revoked session cannot start new subscriptions
+        const { user } = await onConnect(ctx.connectionParams);
         return { 
-          user: ctx.connectionParams?.user, 
+          user, 
           db, 
           pubsub, 
           services 
         };
-      },
-      onConnect
+      }
     }, 
     wsServer
   );
@@ -184,32 +279,54 @@ async function startServer() {
   });
 }
 
-// Batch processor for offline notifications (requirement compliance)
-const startBatchProcessor = () => {
-  setInterval(async () => {
-    try {
-      console.log('Running batch notification processor...');
-      
-      const result = await db.query(
-        'SELECT COUNT(*) as count FROM recognitions WHERE created_at > NOW() - INTERVAL \'10 minutes\''
-      );
-      
-      console.log(`Processed ${result.rows[0].count} recent recognitions`);
-      
-      // In a real implementation, this would:
-      // 1. Query for undelivered notifications
-      // 2. Send them via email/push notifications  
-      // 3. Mark them as delivered
-      
-    } catch (error) {
-      console.error('Batch processor error:', error);
+// Background processing (allowance resets, scheduled recognitions)
+let stopBackgroundJobs = () => {};
+
+const startBackgroundProcessing = () => {
+  stopBackgroundJobs = startBackgroundJobs([
+    {
+      name: 'monthly-point-allowances',
+      intervalMs: 60 * 60 * 1000, // Hourly; grants are idempotent per month
+      run: async () => {
+        const granted = await pointsService.grantMonthlyAllowances();
+        if (granted > 0) {
+          console.log(`Granted monthly point allowances to ${granted} users`);
+        }
+      }
+    },
+    {
+      name: 'scheduled-recognitions',
+      intervalMs: 60 * 1000, // Delivery is accurate to about a minute
+      run: async () => {
+        const published = await recognitionService.publishDueRecognitions();
+        if (published > 0) {
+          console.log(`Published ${published} scheduled recognitions`);
+        }
+      }
+    },
+    {
+      name: 'login-records',
+      intervalMs: 60 * 60 * 1000, // Hourly; throttling only looks back 15 minutes
+      run: async () => {
+        await authService.pruneLoginRecords();
+        await oidcService.pruneLoginRequests();
+        await sessionService.pruneSessions();
+      }
+    },
+    {
+      name: 'recognition-send-log',
+      intervalMs: 60 * 60 * 1000, // Hourly; only the last week is kept
+      run: async () => {
+        await recognitionService.pruneSendLog();
+      }
     }
-  }, 10 * 60 * 1000); // Every 10 minutes
+  ]);
 };
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully...');
+  stopBackgroundJobs();
   db.end();
   process.exit(0);
 });
@@ -217,7 +334,7 @@ process.on('SIGTERM', () => {
 // Start everything
 startServer()
   .then(() => {
-    startBatchProcessor();
+    startBackgroundProcessing();
     console.log('All systems operational!');
   })
   .catch((error) => {
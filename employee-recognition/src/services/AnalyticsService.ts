@@ -1,32 +1,105 @@
 import { Pool } from 'pg';
+import { PolicyService, assertRole } from './PolicyService';
+import { TeamService } from './TeamService';
 
 /**
- * Result shape for team statistics including counts and keywords
+ * Number of recognitions tagged with one company value
+ */
+export interface ValueCount {
+  value: {
+    id: string;
+    name: string;
+    description: string | null;
+    emoji: string | null;
+    active: boolean;
+  };
+  count: number;
+}
+
+/**
+ * Result shape for team statistics including counts, keywords and values
  */
 export interface TeamStatsResult {
   teamId: string;
+  includeSubTeams: boolean;
   totalCount: number;
   publicCount: number;
   privateCount: number;
   anonymousCount: number;
   topKeywords: string[];
+  valueBreakdown: ValueCount[];
+}
+
+/**
+ * Two users who keep recognizing each other
+ */
+export interface ReciprocalPair {
+  userAId: string;
+  userBId: string;
+  aToBCount: number;
+  bToACount: number;
+  points: number;
 }
 
+/**
+ * Three users recognizing each other in a cycle (A -> B -> C -> A)
+ */
+export interface RecognitionRing {
+  memberIds: string[];
+  recognitionCount: number;
+  points: number;
+}
+
+/**
+ * A sender's busiest one-hour window
+ */
+export interface RecognitionBurst {
+  senderId: string;
+  count: number;
+  startedAt: Date;
+  endedAt: Date;
+}
+
+export interface SuspiciousActivityResult {
+  since: Date;
+  reciprocalPairs: ReciprocalPair[];
+  rings: RecognitionRing[];
+  bursts: RecognitionBurst[];
+}
+
+// Thresholds for getSuspiciousActivity
+const MIN_RECIPROCAL_COUNT = 3; // Recognitions in each direction
+const MIN_RING_EDGE_COUNT = 2; // Recognitions along each edge of a ring
+const MIN_BURST_COUNT = 10; // Recognitions within one hour
+const MAX_SUSPICIOUS_RESULTS = 50;
+const MAX_SUSPICIOUS_DAYS = 90;
+
 /**
  * AnalyticsService handles reporting, trends, and keyword statistics
  */
 export class AnalyticsService {
-  constructor(private db: Pool) {}
+  /**
+   * @param db - PostgreSQL connection pool
+   * @param policyService - Decides which teams a user may see
+   * @param teamService - Resolves sub-teams for roll-ups
+   */
+  constructor(
+    private db: Pool,
+    private policyService: PolicyService = new PolicyService(db),
+    private teamService: TeamService = new TeamService(db)
+  ) {}
 
   /**
-   * Returns aggregated recognition statistics for a team
+   * Returns aggregated recognition statistics for a team. A recognition with
+   * several recipients counts once per recipient on the team.
    * @param teamId - the ID of the team
-   * @param userRole - role of the requesting user (e.g., MANAGER, HR, ADMIN)
+   * @param userId - ID of the requesting user
+   * @param userRole - role of the requesting user (HR and ADMIN see every team)
+   * @param includeSubTeams - roll up every team below this one (requires access to all of them)
    */
-  async getTeamStats(teamId: string, userRole: string): Promise<TeamStatsResult> {
-    if (!this.canAccessTeamAnalytics(userRole)) {
-      throw new Error('Insufficient permissions - Manager role or higher required');
-    }
+  async getTeamStats(teamId: string, userId: string, userRole: string, includeSubTeams: boolean = false): Promise<TeamStatsResult> {
+    const teamIds = includeSubTeams ? await this.teamService.getTeamTreeIds(teamId) : [teamId];
+    await this.policyService.assertCanViewTeams(userId, userRole, [teamId, ...teamIds]);
 
     const statsQuery = `
       SELECT 
@@ -35,21 +108,25 @@ export class AnalyticsService {
         COUNT(CASE WHEN visibility = 'PRIVATE' THEN 1 END) as private_count,
         COUNT(CASE WHEN visibility = 'ANONYMOUS' THEN 1 END) as anonymous_count
       FROM recognitions r
-      JOIN users u ON r.recipient_id = u.id
-      WHERE u.team_id = $1
+      JOIN recognition_recipients rr ON rr.recognition_id = r.id
+      JOIN users u ON rr.recipient_id = u.id
+      WHERE u.team_id = ANY($1) AND r.status = 'ACTIVE'
     `;
 
-    const statsResult = await this.db.query(statsQuery, [teamId]);
+    const statsResult = await this.db.query(statsQuery, [teamIds]);
     const stats = statsResult.rows[0];
-    const topKeywords = await this.getTeamTopKeywords(teamId);
+    const topKeywords = await this.getTeamTopKeywords(teamIds);
+    const valueBreakdown = await this.getValueBreakdown(teamIds);
 
     return {
       teamId,
+      includeSubTeams,
       totalCount: parseInt(stats.total || '0'),
       publicCount: parseInt(stats.public_count || '0'),
       privateCount: parseInt(stats.private_count || '0'),
       anonymousCount: parseInt(stats.anonymous_count || '0'),
-      topKeywords
+      topKeywords,
+      valueBreakdown
     };
   }
 
@@ -58,60 +135,69 @@ export class AnalyticsService {
    * @param userRole - current user's role (must be HR or ADMIN)
    */
   async getOrganizationAnalytics(userRole: string) {
-    if (!this.canAccessOrganizationAnalytics(userRole)) {
-      throw new Error('Insufficient permissions - HR role or higher required');
-    }
+    assertRole(userRole, 'HR');
 
     const query = `
       SELECT 
         COUNT(*) as total_recognitions,
         COUNT(DISTINCT sender_id) as active_recognizers,
-        COUNT(DISTINCT recipient_id) as recognized_employees,
+        (
+          SELECT COUNT(DISTINCT rr.recipient_id)
+          FROM recognition_recipients rr
+          JOIN recognitions active ON rr.recognition_id = active.id
+          WHERE active.status = 'ACTIVE'
+        ) as recognized_employees,
         COUNT(CASE WHEN visibility = 'PUBLIC' THEN 1 END) as public_recognitions
       FROM recognitions
+      WHERE status = 'ACTIVE'
     `;
 
     const result = await this.db.query(query);
     const stats = result.rows[0];
     const topKeywords = await this.getOrganizationTopKeywords();
+    const valueBreakdown = await this.getValueBreakdown();
 
     return {
       totalRecognitions: parseInt(stats.total_recognitions || '0'),
       activeRecognizers: parseInt(stats.active_recognizers || '0'),
       recognizedEmployees: parseInt(stats.recognized_employees || '0'),
       publicRecognitions: parseInt(stats.public_recognitions || '0'),
-      topKeywords
+      topKeywords,
+      valueBreakdown
     };
   }
 
   /**
    * Returns daily recognition trends for either an entire org or a specific team
+   * @param userId - ID of the requesting user
    * @param userRole - user's role
-   * @param teamId - optional team scope (if not provided, returns org-wide data)
+   * @param teamId - optional team scope (if not provided, returns org-wide data for HR and ADMIN)
    */
-  async getRecognitionTrends(userRole: string, teamId?: string) {
-    if (!this.canAccessTeamAnalytics(userRole)) {
-      throw new Error('Insufficient permissions');
+  async getRecognitionTrends(userId: string, userRole: string, teamId?: string) {
+    if (teamId) {
+      await this.policyService.assertCanViewTeam(userId, userRole, teamId);
+    } else {
+      assertRole(userRole, 'HR');
     }
 
     let query = `
       SELECT 
-        DATE(created_at) as date,
+        DATE(r.created_at) as date,
         COUNT(*) as count,
         COUNT(CASE WHEN visibility = 'PUBLIC' THEN 1 END) as public_count
       FROM recognitions r
     `;
 
     const params: string[] = [];
-    let whereClause = '';
+    let whereClause = " WHERE r.status = 'ACTIVE'";
 
     if (teamId) {
-      query += ' JOIN users u ON r.recipient_id = u.id';
-      whereClause = ' WHERE u.team_id = $1';
+      query += ' JOIN recognition_recipients rr ON rr.recognition_id = r.id JOIN users u ON rr.recipient_id = u.id';
+      whereClause += ' AND u.team_id = $1';
       params.push(teamId);
     }
 
-    query += `${whereClause} GROUP BY DATE(created_at) ORDER BY date DESC LIMIT 30`;
+    query += `${whereClause} GROUP BY DATE(r.created_at) ORDER BY date DESC LIMIT 30`;
 
     const result = await this.db.query(query, params);
 
@@ -124,18 +210,121 @@ export class AnalyticsService {
   }
 
   /**
-   * Returns the top N keywords for a given team
-   * @param teamId - team identifier
+   * Surfaces patterns that suggest leaderboard gaming among ACTIVE recognitions
+   * in the last `days` days: reciprocal pairs, closed rings of three, and bursts
+   * of recognitions from one sender. Anonymous recognitions have no sender and
+   * are not included.
+   * @param userRole - current user's role (must be HR or ADMIN)
+   * @param days - how far back to look (1-90, default: 30)
+   */
+  async getSuspiciousActivity(userRole: string, days: number = 30): Promise<SuspiciousActivityResult> {
+    assertRole(userRole, 'HR');
+    if (!Number.isInteger(days) || days < 1 || days > MAX_SUSPICIOUS_DAYS) {
+      throw new Error(`Days must be between 1 and ${MAX_SUSPICIOUS_DAYS}`);
+    }
+
+    // Sender -> recipient counts; a multi-recipient recognition is one edge per recipient
+    const edges = `
+      edges AS (
+        SELECT r.sender_id, rr.recipient_id, COUNT(*) as count, COALESCE(SUM(r.points), 0) as points
+        FROM recognitions r
+        JOIN recognition_recipients rr ON rr.recognition_id = r.id
+        WHERE r.status = 'ACTIVE' AND r.sender_id IS NOT NULL
+          AND r.created_at > NOW() - make_interval(days => $1)
+        GROUP BY r.sender_id, rr.recipient_id
+      )
+    `;
+
+    const pairsQuery = `
+      WITH ${edges}
+      SELECT a.sender_id as user_a, a.recipient_id as user_b,
+             a.count as a_to_b, b.count as b_to_a, a.points + b.points as points
+      FROM edges a
+      JOIN edges b ON b.sender_id = a.recipient_id AND b.recipient_id = a.sender_id
+      WHERE a.sender_id < a.recipient_id AND a.count >= $2 AND b.count >= $2
+      ORDER BY a.count + b.count DESC, points DESC
+      LIMIT $3
+    `;
+
+    // Each ring is listed once, starting from its smallest member ID
+    const ringsQuery = `
+      WITH ${edges}
+      SELECT ab.sender_id as user_a, bc.sender_id as user_b, ca.sender_id as user_c,
+             ab.count + bc.count + ca.count as count,
+             ab.points + bc.points + ca.points as points
+      FROM edges ab
+      JOIN edges bc ON bc.sender_id = ab.recipient_id
+      JOIN edges ca ON ca.sender_id = bc.recipient_id AND ca.recipient_id = ab.sender_id
+      WHERE ab.sender_id < bc.sender_id AND ab.sender_id < ca.sender_id
+        AND ab.count >= $2 AND bc.count >= $2 AND ca.count >= $2
+      ORDER BY count DESC, points DESC
+      LIMIT $3
+    `;
+
+    const burstsQuery = `
+      WITH windows AS (
+        SELECT sender_id, created_at as ended_at,
+               COUNT(*) OVER last_hour as count,
+               MIN(created_at) OVER last_hour as started_at
+        FROM recognitions
+        WHERE status = 'ACTIVE' AND sender_id IS NOT NULL
+          AND created_at > NOW() - make_interval(days => $1)
+        WINDOW last_hour AS (
+          PARTITION BY sender_id ORDER BY created_at
+          RANGE BETWEEN INTERVAL '1 hour' PRECEDING AND CURRENT ROW
+        )
+      ), peaks AS (
+        SELECT DISTINCT ON (sender_id) sender_id, count, started_at, ended_at
+        FROM windows
+        WHERE count >= $2
+        ORDER BY sender_id, count DESC, ended_at ASC
+      )
+      SELECT * FROM peaks
+      ORDER BY count DESC, started_at ASC
+      LIMIT $3
+    `;
+
+    const pairs = await this.db.query(pairsQuery, [days, MIN_RECIPROCAL_COUNT, MAX_SUSPICIOUS_RESULTS]);
+    const rings = await this.db.query(ringsQuery, [days, MIN_RING_EDGE_COUNT, MAX_SUSPICIOUS_RESULTS]);
+    const bursts = await this.db.query(burstsQuery, [days, MIN_BURST_COUNT, MAX_SUSPICIOUS_RESULTS]);
+
+    return {
+      since: new Date(Date.now() - days * 24 * 60 * 60 * 1000),
+      reciprocalPairs: pairs.rows.map(row => ({
+        userAId: row.user_a,
+        userBId: row.user_b,
+        aToBCount: parseInt(row.a_to_b),
+        bToACount: parseInt(row.b_to_a),
+        points: parseInt(row.points || '0')
+      })),
+      rings: rings.rows.map(row => ({
+        memberIds: [row.user_a, row.user_b, row.user_c],
+        recognitionCount: parseInt(row.count),
+        points: parseInt(row.points || '0')
+      })),
+      bursts: bursts.rows.map(row => ({
+        senderId: row.sender_id,
+        count: parseInt(row.count),
+        startedAt: row.started_at,
+        endedAt: row.ended_at
+      }))
+    };
+  }
+
+  /**
+   * Returns the top N keywords for a set of teams
+   * @param teamIds - team identifiers
    * @param limit - max keywords to return (default: 5)
    */
-  private async getTeamTopKeywords(teamId: string, limit: number = 5): Promise<string[]> {
+  private async getTeamTopKeywords(teamIds: string[], limit: number = 5): Promise<string[]> {
     const query = `
       SELECT keyword, COUNT(*) as count
       FROM (
         SELECT jsonb_array_elements_text(keywords) as keyword
         FROM recognitions r
-        JOIN users u ON r.recipient_id = u.id
-        WHERE u.team_id = $1 AND jsonb_array_length(keywords) > 0
+        JOIN recognition_recipients rr ON rr.recognition_id = r.id
+        JOIN users u ON rr.recipient_id = u.id
+        WHERE u.team_id = ANY($1) AND r.status = 'ACTIVE' AND jsonb_array_length(keywords) > 0
       ) keywords_expanded
       GROUP BY keyword
       ORDER BY count DESC
@@ -143,7 +332,7 @@ export class AnalyticsService {
     `;
 
     try {
-      const result = await this.db.query(query, [teamId, limit]);
+      const result = await this.db.query(query, [teamIds, limit]);
       return result.rows.map(row => row.keyword);
     } catch (error) {
       console.warn('Keyword extraction failed:', error);
@@ -161,7 +350,7 @@ export class AnalyticsService {
       FROM (
         SELECT jsonb_array_elements_text(keywords) as keyword
         FROM recognitions r
-        WHERE jsonb_array_length(keywords) > 0
+        WHERE r.status = 'ACTIVE' AND jsonb_array_length(keywords) > 0
       ) keywords_expanded
       GROUP BY keyword
       ORDER BY count DESC
@@ -178,19 +367,49 @@ export class AnalyticsService {
   }
 
   /**
-   * Checks if user role is permitted to view team-level analytics
+   * Returns how often each company value was recognized, most frequent first.
+   * Team-scoped counts follow getTeamStats (once per recipient on the team).
+   * @param teamIds - optional team scope (if not provided, counts org-wide recognitions)
    */
-  private canAccessTeamAnalytics(userRole: string): boolean {
-    const allowedRoles = ['MANAGER', 'HR', 'ADMIN'];
-    return allowedRoles.includes(userRole);
-  }
+  private async getValueBreakdown(teamIds?: string[]): Promise<ValueCount[]> {
+    let query = `
+      SELECT cv.id, cv.name, cv.description, cv.emoji, cv.active, COUNT(*) as count
+      FROM recognition_values rv
+      JOIN company_values cv ON rv.value_id = cv.id
+      JOIN recognitions r ON rv.recognition_id = r.id
+    `;
 
-  /**
-   * Checks if user role is permitted to view org-wide analytics
-   */
-  private canAccessOrganizationAnalytics(userRole: string): boolean {
-    const allowedRoles = ['HR', 'ADMIN'];
-    return allowedRoles.includes(userRole);
+    const params: string[][] = [];
+
+    if (teamIds) {
+      query += `
+        JOIN recognition_recipients rr ON rr.recognition_id = r.id
+        JOIN users u ON rr.recipient_id = u.id
+        WHERE r.status = 'ACTIVE' AND u.team_id = ANY($1)
+      `;
+      params.push(teamIds);
+    } else {
+      query += " WHERE r.status = 'ACTIVE'";
+    }
+
+    query += ' GROUP BY cv.id ORDER BY count DESC, cv.name ASC';
+
+    try {
+      const result = await this.db.query(query, params);
+      return result.rows.map(row => ({
+        value: {
+          id: row.id,
+          name: row.name,
+          description: row.description,
+          emoji: row.emoji,
+          active: row.active
+        },
+        count: parseInt(row.count)
+      }));
+    } catch (error) {
+      console.warn('Value breakdown failed:', error);
+      return [];
+    }
   }
 
   /**
@@ -200,21 +419,24 @@ export class AnalyticsService {
   async getRecognitionMetrics(teamId?: string) {
     let query = `
       SELECT 
-        COUNT(*) as total,
+        COUNT(DISTINCT r.id) as total,
         COUNT(DISTINCT sender_id) as unique_senders,
-        COUNT(DISTINCT recipient_id) as unique_recipients,
+        COUNT(DISTINCT rr.recipient_id) as unique_recipients,
         AVG(jsonb_array_length(keywords)) as avg_keywords
       FROM recognitions r
+      JOIN recognition_recipients rr ON rr.recognition_id = r.id
     `;
 
     const params: string[] = [];
 
     if (teamId) {
       query += `
-        JOIN users u ON r.recipient_id = u.id
-        WHERE u.team_id = $1
+        JOIN users u ON rr.recipient_id = u.id
+        WHERE r.status = 'ACTIVE' AND u.team_id = $1
       `;
       params.push(teamId);
+    } else {
+      query += " WHERE r.status = 'ACTIVE'";
     }
 
     const result = await this.db.query(query, params);
@@ -0,0 +1,336 @@
+import { Pool } from 'pg';
+import crypto from 'crypto';
+import { AuditService } from './AuditService';
+import { assertRole } from './PolicyService';
+import { withTransaction } from '../utils/database';
+import { generateApiKey, hashApiKey, validateScopes } from '../utils/apiKeys';
+
+export interface ServiceAccountInput {
+  name: string;
+  role?: string;
+}
+
+export interface ApiKeyInput {
+  serviceAccountId: string;
+  name: string;
+  scopes: string[];
+  expiresAt?: Date | string | null;
+}
+
+/**
+ * The principal a request acts as when it presents an API key
+ */
+export interface ApiKeyPrincipal {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  apiKeyId: string;
+  scopes: string[];
+}
+
+// Service accounts cannot be admins; admin work needs a person
+const SERVICE_ACCOUNT_ROLES = ['EMPLOYEE', 'MANAGER', 'HR'];
+const MAX_NAME_LENGTH = 100;
+// last_used_at is written at most this often per key
+const LAST_USED_RESOLUTION_SECONDS = 60;
+// How long the old key keeps working after a rotation, by default and at most
+const DEFAULT_ROTATION_GRACE_HOURS = 24;
+const MAX_ROTATION_GRACE_HOURS = 7 * 24;
+
+const INVALID_KEY = 'Invalid or revoked API key';
+
+/**
+ * Service class for service accounts (non-human principals for internal
+ * integrations) and their scoped API keys. Keys are stored as hashes and the
+ * full key is only returned when it is created or rotated.
+ */
+export class ApiKeyService {
+  /**
+   * @param db - PostgreSQL connection pool
+   * @param auditService - Records key and service account changes
+   */
+  constructor(private db: Pool, private auditService: AuditService = new AuditService(db)) {}
+
+  /**
+   * Resolves an API key to its service account and scopes.
+   * @param key - Full API key.
+   * @returns Principal for the request context.
+   */
+  async authenticate(key: string): Promise<ApiKeyPrincipal> {
+    const result = await this.db.query(
+      `SELECT k.id as api_key_id, k.scopes, u.id, u.email, u.name, u.role
+       FROM api_keys k
+       JOIN users u ON u.id = k.service_account_id
+       WHERE k.key_hash = $1 AND k.revoked_at IS NULL
+         AND (k.expires_at IS NULL OR k.expires_at > NOW())
+         AND u.deactivated_at IS NULL`,
+      [hashApiKey(key || '')]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      throw new Error(INVALID_KEY);
+    }
+
+    await this.db.query(
+      `UPDATE api_keys SET last_used_at = NOW()
+       WHERE id = $1 AND (last_used_at IS NULL OR last_used_at < NOW() - make_interval(secs => $2))`,
+      [row.api_key_id, LAST_USED_RESOLUTION_SECONDS]
+    );
+
+    return {
+      id: row.id,
+      email: row.email,
+      name: row.name,
+      role: row.role,
+      apiKeyId: row.api_key_id,
+      scopes: row.scopes
+    };
+  }
+
+  /**
+   * Lists service accounts (admin only).
+   * @param userRole - Role of the current user.
+   * @returns Array of service account objects.
+   */
+  async getServiceAccounts(userRole: string) {
+    assertRole(userRole, 'ADMIN');
+
+    const result = await this.db.query(
+      'SELECT * FROM users WHERE is_service_account = TRUE ORDER BY name ASC'
+    );
+    return result.rows.map(account => this.formatServiceAccount(account));
+  }
+
+  /**
+   * Creates a service account (admin only).
+   * @param adminId - ID of the admin.
+   * @param userRole - Role of the admin.
+   * @param input - Name and role of the account.
+   * @returns Created service account.
+   */
+  async createServiceAccount(adminId: string, userRole: string, input: ServiceAccountInput) {
+    assertRole(userRole, 'ADMIN');
+    const name = this.validateName(input.name, 'Service account name');
+    const role = input.role || 'EMPLOYEE';
+    if (!SERVICE_ACCOUNT_ROLES.includes(role)) {
+      throw new Error(`Service accounts can have the role ${SERVICE_ACCOUNT_ROLES.join(', ')}`);
+    }
+
+    return withTransaction(this.db, async client => {
+      // Service accounts never sign in; the placeholder email only satisfies users.email
+      const result = await client.query(
+        `INSERT INTO users (email, name, role, is_service_account)
+         VALUES ($1, $2, $3, TRUE)
+         RETURNING *`,
+        [`${crypto.randomUUID()}@service-accounts.invalid`, name, role]
+      );
+      const account = result.rows[0];
+      await this.auditService.record({
+        actorId: adminId,
+        action: 'CREATE_SERVICE_ACCOUNT',
+        entityType: 'USER',
+        entityId: account.id,
+        details: { name, role }
+      }, client);
+      return this.formatServiceAccount(account);
+    });
+  }
+
+  /**
+   * Lists the API keys of a service account, including revoked ones. Callers
+   * must already have checked for the admin role.
+   * @param serviceAccountId - ID of the service account.
+   * @returns Array of API key objects.
+   */
+  async getApiKeys(serviceAccountId: string) {
+    const result = await this.db.query(
+      'SELECT * FROM api_keys WHERE service_account_id = $1 ORDER BY created_at DESC',
+      [serviceAccountId]
+    );
+    return result.rows.map(apiKey => this.formatApiKey(apiKey));
+  }
+
+  /**
+   * Creates an API key for a service account (admin only).
+   * @param adminId - ID of the admin.
+   * @param userRole - Role of the admin.
+   * @param input - Service account, name, scopes and optional expiry.
+   * @returns The key record and the full key, which is not shown again.
+   */
+  async createApiKey(adminId: string, userRole: string, input: ApiKeyInput) {
+    assertRole(userRole, 'ADMIN');
+    const name = this.validateName(input.name, 'API key name');
+    const scopes = Array.from(new Set(input.scopes || []));
+    const validation = validateScopes(scopes);
+    if (!validation.isValid) {
+      throw new Error(validation.errors[0]);
+    }
+    const expiresAt = input.expiresAt ? new Date(input.expiresAt) : null;
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+      throw new Error('Expiry must be in the future');
+    }
+
+    const account = await this.db.query(
+      'SELECT id FROM users WHERE id = $1 AND is_service_account = TRUE',
+      [input.serviceAccountId]
+    );
+    if (account.rows.length === 0) {
+      throw new Error('Service account not found');
+    }
+
+    return withTransaction(this.db, async client => {
+      const { key, prefix } = generateApiKey();
+      const result = await client.query(
+        `INSERT INTO api_keys (service_account_id, name, prefix, key_hash, scopes, expires_at, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [input.serviceAccountId, name, prefix, hashApiKey(key), scopes, expiresAt, adminId]
+      );
+      const apiKey = result.rows[0];
+      await this.auditService.record({
+        actorId: adminId,
+        action: 'CREATE_API_KEY',
+        entityType: 'API_KEY',
+        entityId: apiKey.id,
+        details: { serviceAccountId: input.serviceAccountId, name, scopes }
+      }, client);
+      return { apiKey: this.formatApiKey(apiKey), key };
+    });
+  }
+
+  /**
+   * Replaces an API key with a new one with the same name and scopes (admin
+   * only). The old key keeps working for the grace period so integrations can
+   * switch over; a grace period of 0 revokes it immediately.
+   * @param adminId - ID of the admin.
+   * @param userRole - Role of the admin.
+   * @param keyId - ID of the key to rotate.
+   * @param gracePeriodHours - Hours the old key stays valid.
+   * @returns The new key record and the full key, which is not shown again.
+   */
+  async rotateApiKey(adminId: string, userRole: string, keyId: string, gracePeriodHours: number = DEFAULT_ROTATION_GRACE_HOURS) {
+    assertRole(userRole, 'ADMIN');
+    if (!Number.isInteger(gracePeriodHours) || gracePeriodHours < 0 || gracePeriodHours > MAX_ROTATION_GRACE_HOURS) {
+      throw new Error(`Grace period must be between 0 and ${MAX_ROTATION_GRACE_HOURS} hours`);
+    }
+
+    return withTransaction(this.db, async client => {
+      const existing = await client.query(
+        `SELECT * FROM api_keys
+         WHERE id = $1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())
+         FOR UPDATE`,
+        [keyId]
+      );
+      const oldKey = existing.rows[0];
+      if (!oldKey) {
+        throw new Error('API key not found');
+      }
+
+      const { key, prefix } = generateApiKey();
+      const created = await client.query(
+        `INSERT INTO api_keys (service_account_id, name, prefix, key_hash, scopes, expires_at, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [oldKey.service_account_id, oldKey.name, prefix, hashApiKey(key), oldKey.scopes, oldKey.expires_at, adminId]
+      );
+
+      if (gracePeriodHours === 0) {
+        await client.query('UPDATE api_keys SET revoked_at = NOW() WHERE id = $1', [keyId]);
+      } else {
+        await client.query(
+          `UPDATE api_keys
+           SET expires_at = LEAST(COALESCE(expires_at, 'infinity'), NOW() + make_interval(hours => $2))
+           WHERE id = $1`,
+          [keyId, gracePeriodHours]
+        );
+      }
+
+      const apiKey = created.rows[0];
+      await this.auditService.record({
+        actorId: adminId,
+        action: 'ROTATE_API_KEY',
+        entityType: 'API_KEY',
+        entityId: apiKey.id,
+        details: { replacedKeyId: keyId, gracePeriodHours }
+      }, client);
+      return { apiKey: this.formatApiKey(apiKey), key };
+    });
+  }
+
+  /**
+   * Revokes an API key immediately (admin only).
+   * @param adminId - ID of the admin.
+   * @param userRole - Role of the admin.
+   * @param keyId - ID of the key.
+   * @returns True on success.
+   */
+  async revokeApiKey(adminId: string, userRole: string, keyId: string): Promise<boolean> {
+    assertRole(userRole, 'ADMIN');
+
+    return withTransaction(this.db, async client => {
+      const result = await client.query(
+        'UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL RETURNING id',
+        [keyId]
+      );
+      if (result.rows.length === 0) {
+        throw new Error('API key not found');
+      }
+      await this.auditService.record({
+        actorId: adminId,
+        action: 'REVOKE_API_KEY',
+        entityType: 'API_KEY',
+        entityId: keyId
+      }, client);
+      return true;
+    });
+  }
+
+  /**
+   * Trims and checks a display name.
+   */
+  private validateName(value: string, label: string): string {
+    const name = (value || '').trim();
+    if (!name) {
+      throw new Error(`${label} is required`);
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new Error(`${label} cannot exceed ${MAX_NAME_LENGTH} characters`);
+    }
+    return name;
+  }
+
+  /**
+   * Converts raw users row into formatted service account object.
+   * @param account - Raw users DB row.
+   * @returns Formatted service account.
+   */
+  private formatServiceAccount(account: any) {
+    return {
+      id: account.id,
+      name: account.name,
+      role: account.role,
+      createdAt: account.created_at
+    };
+  }
+
+  /**
+   * Converts raw DB row into formatted API key object (never the key itself).
+   * @param apiKey - Raw api_keys DB row.
+   * @returns Formatted API key.
+   */
+  private formatApiKey(apiKey: any) {
+    return {
+      id: apiKey.id,
+      serviceAccountId: apiKey.service_account_id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      createdById: apiKey.created_by,
+      createdAt: apiKey.created_at,
+      lastUsedAt: apiKey.last_used_at,
+      expiresAt: apiKey.expires_at,
+      revokedAt: apiKey.revoked_at
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import { Pool } from 'pg';
+import { Queryable } from '../utils/database';
+
+/**
+ * A sensitive action to record in the audit log
+ */
+export interface AuditEntry {
+  actorId: string | null;
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  details?: Record<string, any>;
+}
+
+/**
+ * Service class for the append-only audit log of sensitive actions.
+ */
+export class AuditService {
+  /**
+   * @param db - PostgreSQL connection pool
+   */
+  constructor(private db: Pool) {}
+
+  /**
+   * Appends an entry to the audit log.
+   * @param entry - Action, actor and affected entity.
+   * @param client - Pool or transaction client, so the entry commits with the action.
+   * @returns Recorded entry.
+   */
+  async record(entry: AuditEntry, client: Queryable = this.db) {
+    const result = await client.query(
+      `INSERT INTO audit_log (actor_id, action, entity_type, entity_id, details)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [entry.actorId, entry.action, entry.entityType, entry.entityId || null, JSON.stringify(entry.details || {})]
+    );
+    return this.formatEntry(result.rows[0]);
+  }
+
+  /**
+   * Converts raw DB row into formatted audit entry.
+   * @param entry - Raw audit_log DB row.
+   * @returns Formatted audit entry.
+   */
+  private formatEntry(entry: any) {
+    return {
+      id: entry.id,
+      actorId: entry.actor_id,
+      action: entry.action,
+      entityType: entry.entity_type,
+      entityId: entry.entity_id,
+      details: entry.details || {},
+      createdAt: entry.created_at
+    };
+  }
+}
@@ -0,0 +1,370 @@
+import { Pool } from 'pg';
+import crypto from 'crypto';
+import { ClientInfo, LoginResponse, SessionService } from './SessionService';
+import { Mailer, createMailer } from '../utils/mailer';
+import { hashPassword, validatePassword, verifyPassword } from '../utils/passwords';
+import { getRetryAfter } from '../utils/rateLimits';
+import { RateLimitError, getErrorMessage } from '../utils/errorHandler';
+
+export type LoginAttemptKind = 'PASSWORD' | 'CODE' | 'MAGIC_LINK' | 'CODE_REQUEST';
+
+// Failed logins are throttled per submitted email and per IP over a sliding window
+const THROTTLE_WINDOW_SECONDS = 15 * 60;
+const MAX_FAILURES_PER_EMAIL = 5;
+const MAX_FAILURES_PER_IP = 20;
+const MAX_CODE_REQUESTS_PER_EMAIL = 3;
+const MAX_CODE_REQUESTS_PER_IP = 20;
+// Wrong codes before a login code is burned
+const MAX_CODE_ATTEMPTS = 5;
+const CODE_TTL_MINUTES = 15;
+const CODE_DIGITS = 6;
+
+// Deliberately the same whether or not the email exists
+const INVALID_CREDENTIALS = 'Invalid email or password';
+const INVALID_CODE = 'Invalid or expired login code';
+const INVALID_LINK = 'Invalid or expired login link';
+
+/**
+ * Service class for signing in: password login, and one-time codes / magic
+ * links sent by email. Responses never reveal whether an email is registered.
+ */
+export class AuthService {
+  private dummyHash: Promise<string> | null = null;
+
+  /**
+   * @param db - PostgreSQL connection pool
+   * @param mailer - Delivers login codes and magic links
+   * @param sessionService - Starts a session after sign-in
+   */
+  constructor(
+    private db: Pool,
+    private mailer: Mailer = createMailer(),
+    private sessionService: SessionService = new SessionService(db)
+  ) {}
+
+  /**
+   * Logs in with email and password.
+   * @param email - Email address of the user.
+   * @param password - The user's password.
+   * @param client - Client IP (for throttling) and user agent.
+   * @returns Session tokens and user details.
+   * @throws RateLimitError after too many failed attempts.
+   */
+  async login(email: string, password: string, client: ClientInfo = {}): Promise<LoginResponse> {
+    const normalized = this.normalizeEmail(email);
+    const ipAddress = client.ipAddress || null;
+    await this.assertNotThrottled(normalized, ipAddress);
+
+    const user = await this.findUserByEmail(normalized);
+    // Users without a password are checked against a dummy hash, so the
+    // response time does not reveal which emails exist
+    const matches = await verifyPassword(password || '', user?.password_hash || await this.getDummyHash());
+    const succeeded = Boolean(user?.password_hash) && matches;
+
+    await this.recordAttempt(normalized, ipAddress, 'PASSWORD', succeeded);
+    if (!succeeded) {
+      throw new Error(INVALID_CREDENTIALS);
+    }
+    return this.sessionService.createSession(user, client);
+  }
+
+  /**
+   * Emails a one-time login code and magic link. Always returns true: nothing
+   * is sent for unknown emails, or when the email or IP has asked too often.
+   * @param email - Email address of the user.
+   * @param client - Client IP, for throttling.
+   * @returns True.
+   */
+  async requestLoginCode(email: string, client: ClientInfo = {}): Promise<boolean> {
+    const normalized = this.normalizeEmail(email);
+    const ipAddress = client.ipAddress || null;
+    if (!normalized) {
+      throw new Error('Email is required');
+    }
+
+    const ages = await this.getAttemptAges(normalized, ipAddress, true);
+    if (
+      getRetryAfter(ages.email, THROTTLE_WINDOW_SECONDS, MAX_CODE_REQUESTS_PER_EMAIL) !== null ||
+      getRetryAfter(ages.ip, THROTTLE_WINDOW_SECONDS, MAX_CODE_REQUESTS_PER_IP) !== null
+    ) {
+      return true;
+    }
+    await this.recordAttempt(normalized, ipAddress, 'CODE_REQUEST', null);
+
+    const user = await this.findUserByEmail(normalized);
+    if (!user) return true;
+
+    const code = crypto.randomInt(0, 10 ** CODE_DIGITS).toString().padStart(CODE_DIGITS, '0');
+    const token = crypto.randomBytes(32).toString('base64url');
+    // A new code supersedes any earlier one
+    await this.db.query(
+      `WITH superseded AS (
+         UPDATE login_codes SET consumed_at = NOW()
+         WHERE user_id = $1 AND consumed_at IS NULL
+       )
+       INSERT INTO login_codes (user_id, code_hash, token_hash, expires_at)
+       VALUES ($1, $2, $3, NOW() + make_interval(mins => $4))`,
+      [user.id, this.hashSecret(code), this.hashSecret(token), CODE_TTL_MINUTES]
+    );
+
+    const link = `${process.env.APP_URL || 'http://localhost:3000'}/login?token=${token}`;
+    try {
+      await this.mailer.send({
+        to: user.email,
+        subject: 'Your sign-in code',
+        text: [
+          `Your sign-in code is ${code}.`,
+          '',
+          'Or sign in with this link:',
+          link,
+          '',
+          `The code and link expire in ${CODE_TTL_MINUTES} minutes and work once.`,
+          'If you did not ask to sign in, you can ignore this email.'
+        ].join('\n')
+      });
+    } catch (error) {
+      console.error('Login email failed:', getErrorMessage(error));
+    }
+    return true;
+  }
+
+  /**
+   * Logs in with the one-time code from the login email.
+   * @param email - Email address of the user.
+   * @param code - The emailed code.
+   * @param client - Client IP (for throttling) and user agent.
+   * @returns Session tokens and user details.
+   * @throws RateLimitError after too many failed attempts.
+   */
+  async loginWithCode(email: string, code: string, client: ClientInfo = {}): Promise<LoginResponse> {
+    const normalized = this.normalizeEmail(email);
+    const ipAddress = client.ipAddress || null;
+    await this.assertNotThrottled(normalized, ipAddress);
+
+    const user = await this.findUserByEmail(normalized);
+    const loginCode = user ? await this.getActiveCode(user.id) : null;
+    const matches = Boolean(loginCode) && this.secretsMatch(loginCode.code_hash, (code || '').trim());
+
+    if (!matches) {
+      if (loginCode) {
+        await this.db.query(
+          `UPDATE login_codes
+           SET attempts = attempts + 1,
+               consumed_at = CASE WHEN attempts + 1 >= $2 THEN NOW() ELSE consumed_at END
+           WHERE id = $1`,
+          [loginCode.id, MAX_CODE_ATTEMPTS]
+        );
+      }
+      await this.recordAttempt(normalized, ipAddress, 'CODE', false);
+      throw new Error(INVALID_CODE);
+    }
+
+    // Consuming is conditional, so a code cannot be used twice in parallel
+    const consumed = await this.db.query(
+      'UPDATE login_codes SET consumed_at = NOW() WHERE id = $1 AND consumed_at IS NULL RETURNING id',
+      [loginCode.id]
+    );
+    const succeeded = consumed.rows.length > 0;
+    await this.recordAttempt(normalized, ipAddress, 'CODE', succeeded);
+    if (!succeeded) {
+      throw new Error(INVALID_CODE);
+    }
+    return this.sessionService.createSession(user, client);
+  }
+
+  /**
+   * Logs in with the token from a magic link.
+   * @param token - Token from the link.
+   * @param client - Client IP (recorded with the login) and user agent.
+   * @returns Session tokens and user details.
+   */
+  async loginWithMagicLink(token: string, client: ClientInfo = {}): Promise<LoginResponse> {
+    if (!token) {
+      throw new Error(INVALID_LINK);
+    }
+
+    const result = await this.db.query(
+      `UPDATE login_codes lc
+       SET consumed_at = NOW()
+       FROM users u
+       WHERE lc.user_id = u.id AND lc.token_hash = $1
+         AND lc.consumed_at IS NULL AND lc.expires_at > NOW()
+         AND u.deactivated_at IS NULL
+       RETURNING u.*`,
+      [this.hashSecret(token)]
+    );
+    const user = result.rows[0];
+    if (!user) {
+      throw new Error(INVALID_LINK);
+    }
+
+    await this.recordAttempt(this.normalizeEmail(user.email), client.ipAddress || null, 'MAGIC_LINK', true);
+    return this.sessionService.createSession(user, client);
+  }
+
+  /**
+   * Sets or changes the current user's password. The current password is
+   * required once one has been set.
+   * @param userId - ID of the user.
+   * @param currentPassword - Existing password, if any.
+   * @param newPassword - New password.
+   * @returns True on success.
+   */
+  async changePassword(userId: string, currentPassword: string | undefined, newPassword: string): Promise<boolean> {
+    const validation = validatePassword(newPassword);
+    if (!validation.isValid) {
+      throw new Error(validation.errors[0]);
+    }
+
+    const result = await this.db.query('SELECT * FROM users WHERE id = $1', [userId]);
+    const user = result.rows[0];
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.password_hash && !(await verifyPassword(currentPassword || '', user.password_hash))) {
+      throw new Error('Current password is incorrect');
+    }
+
+    await this.db.query(
+      'UPDATE users SET password_hash = $2 WHERE id = $1',
+      [userId, await hashPassword(newPassword)]
+    );
+    return true;
+  }
+
+  /**
+   * Deletes login attempts and codes that no longer matter for throttling or sign-in.
+   * @returns Number of rows deleted.
+   */
+  async pruneLoginRecords(): Promise<number> {
+    const attempts = await this.db.query(
+      `DELETE FROM login_attempts WHERE created_at < NOW() - INTERVAL '1 day'`
+    );
+    const codes = await this.db.query(
+      `DELETE FROM login_codes WHERE expires_at < NOW() - INTERVAL '1 day'`
+    );
+    return (attempts.rowCount || 0) + (codes.rowCount || 0);
+  }
+
+  /**
+   * Throws if the email or IP has too many recent failed logins.
+   * @param email - Normalized email.
+   * @param ipAddress - Client IP.
+   */
+  private async assertNotThrottled(email: string, ipAddress: string | null): Promise<void> {
+    const ages = await this.getAttemptAges(email, ipAddress, false);
+    const waits = [
+      getRetryAfter(ages.email, THROTTLE_WINDOW_SECONDS, MAX_FAILURES_PER_EMAIL),
+      getRetryAfter(ages.ip, THROTTLE_WINDOW_SECONDS, MAX_FAILURES_PER_IP)
+    ].filter((wait): wait is number => wait !== null);
+    if (waits.length > 0) {
+      throw new RateLimitError('Too many failed login attempts. Try again later', Math.max(...waits));
+    }
+  }
+
+  /**
+   * Ages (in seconds) of recent failed logins or code requests, by email and by IP.
+   * @param email - Normalized email.
+   * @param ipAddress - Client IP.
+   * @param codeRequests - Count code requests instead of failed logins.
+   */
+  private async getAttemptAges(email: string, ipAddress: string | null, codeRequests: boolean) {
+    const result = await this.db.query(
+      `SELECT EXTRACT(EPOCH FROM NOW() - created_at) as age_seconds,
+              email = $1 as same_email, ip_address = $2 as same_ip
+       FROM login_attempts
+       WHERE created_at > NOW() - make_interval(secs => $3)
+         AND (email = $1 OR ip_address = $2)
+         AND ${codeRequests ? `kind = 'CODE_REQUEST'` : `kind <> 'CODE_REQUEST' AND succeeded = FALSE`}`,
+      [email, ipAddress, THROTTLE_WINDOW_SECONDS]
+    );
+    return {
+      email: result.rows.filter(row => row.same_email).map(row => parseFloat(row.age_seconds)),
+      ip: result.rows.filter(row => row.same_ip).map(row => parseFloat(row.age_seconds))
+    };
+  }
+
+  /**
+   * Records a login attempt for throttling.
+   * @param email - Normalized email as submitted.
+   * @param ipAddress - Client IP.
+   * @param kind - Kind of attempt.
+   * @param succeeded - Outcome (null for code requests).
+   */
+  private async recordAttempt(
+    email: string,
+    ipAddress: string | null,
+    kind: LoginAttemptKind,
+    succeeded: boolean | null
+  ): Promise<void> {
+    await this.db.query(
+      `INSERT INTO login_attempts (email, ip_address, kind, succeeded)
+       VALUES ($1, $2, $3, $4)`,
+      [email, ipAddress, kind, succeeded]
+    );
+  }
+
+  /**
+   * Finds an active user by email, case-insensitively. Deactivated users are
+   * treated as unknown, so they cannot sign in.
+   * @param email - Normalized email.
+   * @returns Raw user row or undefined.
+   */
+  private async findUserByEmail(email: string) {
+    if (!email) return undefined;
+    const result = await this.db.query(
+      'SELECT * FROM users WHERE LOWER(email) = $1 AND NOT is_service_account AND deactivated_at IS NULL',
+      [email]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Finds the user's newest unexpired, unused login code.
+   * @param userId - ID of the user.
+   * @returns Raw login_codes row or null.
+   */
+  private async getActiveCode(userId: string) {
+    const result = await this.db.query(
+      `SELECT * FROM login_codes
+       WHERE user_id = $1 AND consumed_at IS NULL AND expires_at > NOW()
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [userId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Lazily hashes a random password to verify against when a user has none.
+   */
+  private getDummyHash(): Promise<string> {
+    if (!this.dummyHash) {
+      this.dummyHash = hashPassword(crypto.randomBytes(16).toString('hex'));
+    }
+    return this.dummyHash;
+  }
+
+  /**
+   * SHA-256 hex digest of a login code or magic link token.
+   */
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  /**
+   * Constant-time comparison of a stored hash with a submitted secret.
+   */
+  private secretsMatch(storedHash: string, secret: string): boolean {
+    const expected = Buffer.from(storedHash, 'hex');
+    const actual = Buffer.from(this.hashSecret(secret), 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Lowercases and trims an email for lookups and throttling.
+   */
+  private normalizeEmail(email: string): string {
+    return (email || '').trim().toLowerCase();
+  }
+}
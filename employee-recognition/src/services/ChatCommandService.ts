@@ -0,0 +1,119 @@
+import { Pool } from 'pg';
+import { RecognitionService } from './RecognitionService';
+import { assertRole } from './PolicyService';
+import { ChatMention } from '../utils/mentions';
+import { getErrorMessage } from '../utils/errorHandler';
+
+export type ChatProvider = 'SLACK' | 'TEAMS';
+
+/**
+ * A "recognize"/"kudos" message received from a chat platform
+ */
+export interface ChatCommand {
+  provider: ChatProvider;
+  senderExternalId: string;
+  text: string;
+  mentions: ChatMention[];
+}
+
+export interface ChatCommandResult {
+  ok: boolean;
+  message: string;
+  recognitionId?: string;
+}
+
+const PROVIDERS: ChatProvider[] = ['SLACK', 'TEAMS'];
+
+// Leading command word, e.g. "kudos:" or "recognize"
+const COMMAND_PREFIX = /^\s*\/?(recognize|kudos)\b:?\s*/i;
+
+/**
+ * ChatCommandService turns Slack/Teams messages into recognitions. Chat
+ * accounts are linked to users by an admin; the first mentioned user is the
+ * recipient and any further mentions are stored as @mentions.
+ */
+export class ChatCommandService {
+  constructor(
+    private db: Pool,
+    private recognitionService: RecognitionService
+  ) {}
+
+  /**
+   * Link a chat platform account to a user (ADMIN only)
+   * @param userRole Role of the current user
+   * @param userId User to link
+   * @param provider SLACK or TEAMS
+   * @param externalId Platform user ID (e.g. U123ABC for Slack)
+   * @returns true if linked successfully
+   */
+  async linkIdentity(userRole: string, userId: string, provider: ChatProvider, externalId: string) {
+    assertRole(userRole, 'ADMIN');
+    if (!PROVIDERS.includes(provider)) {
+      throw new Error('Invalid chat provider');
+    }
+    if (!externalId || externalId.trim().length === 0) {
+      throw new Error('External ID is required');
+    }
+    await this.db.query(
+      `INSERT INTO chat_identities (provider, external_id, user_id)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (provider, external_id) DO UPDATE SET user_id = $3`,
+      [provider, externalId.trim(), userId]
+    );
+    return true;
+  }
+
+  /**
+   * Create a recognition from a chat message
+   * @param command Parsed chat message
+   * @returns Outcome to report back to the chat user
+   */
+  async handleRecognitionCommand(command: ChatCommand): Promise<ChatCommandResult> {
+    const externalIds = [command.senderExternalId, ...command.mentions.map(mention => mention.externalId)];
+    const result = await this.db.query(
+      `SELECT ci.external_id, u.id, u.email, u.deactivated_at
+       FROM chat_identities ci
+       JOIN users u ON ci.user_id = u.id
+       WHERE ci.provider = $1 AND ci.external_id = ANY($2)`,
+      [command.provider, externalIds]
+    );
+    const linked = new Map(result.rows.map(row => [row.external_id, row]));
+
+    const sender = linked.get(command.senderExternalId);
+    if (!sender) {
+      return { ok: false, message: 'Your chat account is not linked to the recognition system yet. Ask an admin to link it.' };
+    }
+    if (sender.deactivated_at) {
+      return { ok: false, message: 'Your account has been deactivated.' };
+    }
+    if (command.mentions.length === 0) {
+      return { ok: false, message: 'Mention the person you want to recognize, e.g. "kudos @jane for the launch".' };
+    }
+    const recipient = linked.get(command.mentions[0].externalId);
+    if (!recipient) {
+      return { ok: false, message: `${command.mentions[0].text} is not linked to the recognition system yet.` };
+    }
+
+    // Rewrite platform mention tokens into @email handles so the message reads
+    // the same everywhere and goes through the normal mention resolution
+    let message = command.text;
+    for (const mention of command.mentions) {
+      const user = linked.get(mention.externalId);
+      if (user) {
+        message = message.split(mention.text).join(`@${user.email}`);
+      }
+    }
+    message = message.replace(COMMAND_PREFIX, '').trim();
+
+    try {
+      const recognition = await this.recognitionService.createRecognition(sender.id, {
+        recipientId: recipient.id,
+        message,
+        visibility: 'PUBLIC'
+      });
+      return { ok: true, message: 'Recognition sent!', recognitionId: recognition.id };
+    } catch (error) {
+      return { ok: false, message: getErrorMessage(error) };
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { Pool } from 'pg';
+import { getErrorCode } from '../utils/errorHandler';
+import { assertRole } from './PolicyService';
+
+export interface CompanyValueInput {
+  name: string;
+  description?: string;
+  emoji?: string;
+  active?: boolean;
+}
+
+export interface UpdateCompanyValueInput extends Partial<CompanyValueInput> {
+  id: string;
+}
+
+/**
+ * Service class for the admin-managed company values catalog.
+ */
+export class CompanyValueService {
+  /**
+   * @param db - PostgreSQL connection pool
+   */
+  constructor(private db: Pool) {}
+
+  /**
+   * Lists company values ordered by name.
+   * @param includeInactive - Also return retired values (ADMIN only).
+   * @param userRole - Role of the current user.
+   * @returns Array of company values.
+   */
+  async getValues(includeInactive: boolean = false, userRole?: string) {
+    if (includeInactive) {
+      assertRole(userRole, 'ADMIN');
+    }
+
+    const result = await this.db.query(
+      `SELECT * FROM company_values
+       ${includeInactive ? '' : 'WHERE active = TRUE'}
+       ORDER BY name ASC`
+    );
+
+    return result.rows.map(value => this.formatValue(value));
+  }
+
+  /**
+   * Lists the values a recognition was tagged with.
+   * @param recognitionId - ID of the recognition.
+   * @returns Array of company values.
+   */
+  async getRecognitionValues(recognitionId: string) {
+    const result = await this.db.query(
+      `SELECT cv.*
+       FROM recognition_values rv
+       JOIN company_values cv ON rv.value_id = cv.id
+       WHERE rv.recognition_id = $1
+       ORDER BY cv.name ASC`,
+      [recognitionId]
+    );
+
+    return result.rows.map(value => this.formatValue(value));
+  }
+
+  /**
+   * Adds a value to the catalog.
+   * @param userRole - Role of the current user (must be ADMIN).
+   * @param input - Name, description, emoji and active flag.
+   * @returns Created company value.
+   */
+  async createValue(userRole: string, input: CompanyValueInput) {
+    assertRole(userRole, 'ADMIN');
+    const name = this.validateName(input.name);
+
+    try {
+      const result = await this.db.query(
+        `INSERT INTO company_values (name, description, emoji, active)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [name, input.description || null, input.emoji || null, input.active ?? true]
+      );
+
+      return this.formatValue(result.rows[0]);
+    } catch (error) {
+      throw this.translateUniqueViolation(error);
+    }
+  }
+
+  /**
+   * Updates a value; retiring it (active = false) keeps it on past recognitions.
+   * @param userRole - Role of the current user (must be ADMIN).
+   * @param input - Value ID and fields to change.
+   * @returns Updated company value.
+   */
+  async updateValue(userRole: string, input: UpdateCompanyValueInput) {
+    assertRole(userRole, 'ADMIN');
+
+    const changes: Record<string, any> = {};
+    if (input.name !== undefined) changes.name = this.validateName(input.name);
+    if (input.description !== undefined) changes.description = input.description;
+    if (input.emoji !== undefined) changes.emoji = input.emoji;
+    if (input.active !== undefined) changes.active = input.active;
+
+    const fields = Object.keys(changes);
+    if (fields.length === 0) {
+      throw new Error('No fields to update');
+    }
+
+    const values: any[] = [input.id];
+    const updateFields = fields.map(field => {
+      values.push(changes[field]);
+      return `${field} = $${values.length}`;
+    });
+
+    let result;
+    try {
+      result = await this.db.query(
+        `UPDATE company_values
+         SET ${updateFields.join(', ')}, updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        values
+      );
+    } catch (error) {
+      throw this.translateUniqueViolation(error);
+    }
+
+    if (!result.rows[0]) {
+      throw new Error('Company value not found');
+    }
+
+    return this.formatValue(result.rows[0]);
+  }
+
+  /**
+   * Validates a value name.
+   * @param name - Proposed name.
+   * @returns Trimmed name.
+   */
+  private validateName(name: string): string {
+    if (!name || name.trim().length === 0) {
+      throw new Error('Value name is required');
+    }
+    if (name.length > 100) {
+      throw new Error('Value name cannot exceed 100 characters');
+    }
+    return name.trim();
+  }
+
+  /**
+   * Maps a duplicate-name database error to a readable message.
+   * @param error - Error raised by the database.
+   * @returns Error to throw.
+   */
+  private translateUniqueViolation(error: unknown) {
+    if (getErrorCode(error) === '23505') {
+      return new Error('A company value with this name already exists');
+    }
+    return error;
+  }
+
+  /**
+   * Converts raw DB row into formatted company value object.
+   * @param value - Raw company value DB row.
+   * @returns Formatted company value object.
+   */
+  private formatValue(value: any) {
+    return {
+      id: value.id,
+      name: value.name,
+      description: value.description,
+      emoji: value.emoji,
+      active: value.active,
+      createdAt: value.created_at
+    };
+  }
+}
@@ -0,0 +1,314 @@
+import { Pool } from 'pg';
+import { PubSub } from 'graphql-subscriptions';
+import { RecognitionService } from './RecognitionService';
+import { hasRole } from './PolicyService';
+
+export type RecognitionUpdateType =
+  | 'REACTION_ADDED'
+  | 'REACTION_REMOVED'
+  | 'COMMENT_ADDED'
+  | 'COMMENT_UPDATED'
+  | 'COMMENT_DELETED';
+
+export interface AddCommentInput {
+  recognitionId: string;
+  body: string;
+  parentId?: string;
+}
+
+/**
+ * Aggregated reaction count for one emoji on a recognition
+ */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+/**
+ * EngagementService handles emoji reactions and threaded comments on recognitions.
+ * Access follows the same visibility rules as RecognitionService.getRecognitionById.
+ */
+export class EngagementService {
+  constructor(
+    private db: Pool,
+    private pubsub: PubSub,
+    private recognitionService: RecognitionService
+  ) {}
+
+  /**
+   * Add an emoji reaction (no-op if the user already reacted with that emoji)
+   * @param userId Current user ID
+   * @param recognitionId Recognition ID
+   * @param emoji Emoji character or :shortcode:
+   * @returns The recognition being reacted to
+   */
+  async addReaction(userId: string, recognitionId: string, emoji: string) {
+    const recognition = await this.recognitionService.getRecognitionById(recognitionId, userId);
+    const normalizedEmoji = this.validateEmoji(emoji);
+    const result = await this.db.query(
+      `INSERT INTO recognition_reactions (recognition_id, user_id, emoji)
+       VALUES ($1, $2, $3)
+       ON CONFLICT DO NOTHING
+       RETURNING emoji`,
+      [recognitionId, userId, normalizedEmoji]
+    );
+    if (result.rows[0]) {
+      await this.publishUpdate(recognitionId, 'REACTION_ADDED', userId);
+    }
+    return recognition;
+  }
+
+  /**
+   * Remove the current user's emoji reaction
+   * @param userId Current user ID
+   * @param recognitionId Recognition ID
+   * @param emoji Emoji to remove
+   * @returns The recognition the reaction was removed from
+   */
+  async removeReaction(userId: string, recognitionId: string, emoji: string) {
+    const recognition = await this.recognitionService.getRecognitionById(recognitionId, userId);
+    const result = await this.db.query(
+      `DELETE FROM recognition_reactions
+       WHERE recognition_id = $1 AND user_id = $2 AND emoji = $3
+       RETURNING emoji`,
+      [recognitionId, userId, this.validateEmoji(emoji)]
+    );
+    if (result.rows[0]) {
+      await this.publishUpdate(recognitionId, 'REACTION_REMOVED', userId);
+    }
+    return recognition;
+  }
+
+  /**
+   * Aggregate reactions on a recognition, most popular first
+   * @param recognitionId Recognition ID
+   * @returns Array of per-emoji counts with the users who reacted
+   */
+  async getReactions(recognitionId: string): Promise<ReactionSummary[]> {
+    const result = await this.db.query(
+      `SELECT emoji, COUNT(*) as count, array_agg(user_id::text ORDER BY created_at) as user_ids
+       FROM recognition_reactions
+       WHERE recognition_id = $1
+       GROUP BY emoji
+       ORDER BY count DESC, MIN(created_at) ASC`,
+      [recognitionId]
+    );
+    return result.rows.map(row => ({
+      emoji: row.emoji,
+      count: parseInt(row.count),
+      userIds: row.user_ids
+    }));
+  }
+
+  /**
+   * Comment on a recognition, optionally as a reply to another comment
+   * @param userId Current user ID
+   * @param input Recognition ID, comment body and optional parent comment ID
+   * @returns Formatted comment
+   */
+  async addComment(userId: string, input: AddCommentInput) {
+    await this.recognitionService.getRecognitionById(input.recognitionId, userId);
+    const body = this.validateCommentBody(input.body);
+    if (input.parentId) {
+      const parent = await this.db.query(
+        'SELECT recognition_id FROM recognition_comments WHERE id = $1 AND deleted_at IS NULL',
+        [input.parentId]
+      );
+      if (!parent.rows[0] || parent.rows[0].recognition_id !== input.recognitionId) {
+        throw new Error('Parent comment not found');
+      }
+    }
+    const result = await this.db.query(
+      `INSERT INTO recognition_comments (recognition_id, author_id, parent_id, body)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id`,
+      [input.recognitionId, userId, input.parentId || null, body]
+    );
+    const comment = await this.getCommentById(result.rows[0].id);
+    await this.publishUpdate(input.recognitionId, 'COMMENT_ADDED', userId, comment);
+    return comment;
+  }
+
+  /**
+   * Edit a comment (author only)
+   * @param userId Current user ID
+   * @param commentId Comment ID
+   * @param body New comment text
+   * @returns Updated formatted comment
+   */
+  async updateComment(userId: string, commentId: string, body: string) {
+    const existing = await this.getCommentById(commentId);
+    if (existing.author.id !== userId) {
+      throw new Error('You can only edit your own comments');
+    }
+    await this.recognitionService.getRecognitionById(existing.recognitionId, userId);
+    await this.db.query(
+      'UPDATE recognition_comments SET body = $1, updated_at = NOW() WHERE id = $2',
+      [this.validateCommentBody(body), commentId]
+    );
+    const comment = await this.getCommentById(commentId);
+    await this.publishUpdate(comment.recognitionId, 'COMMENT_UPDATED', userId, comment);
+    return comment;
+  }
+
+  /**
+   * Soft delete a comment and, with it, its replies (author or HR/ADMIN)
+   * @param userId Current user ID
+   * @param userRole Current user role
+   * @param commentId Comment ID
+   * @returns true if deleted successfully
+   */
+  async deleteComment(userId: string, userRole: string, commentId: string) {
+    const comment = await this.getCommentById(commentId);
+    if (comment.author.id !== userId && !hasRole(userRole, 'HR')) {
+      throw new Error('You can only delete your own comments');
+    }
+    // Replies can be nested, so the whole thread under the comment goes with it
+    await this.db.query(
+      `WITH RECURSIVE thread AS (
+         SELECT id FROM recognition_comments WHERE id = $1
+         UNION
+         SELECT c.id FROM recognition_comments c JOIN thread t ON c.parent_id = t.id
+       )
+       UPDATE recognition_comments SET deleted_at = NOW()
+       WHERE id IN (SELECT id FROM thread) AND deleted_at IS NULL`,
+      [commentId]
+    );
+    await this.publishUpdate(comment.recognitionId, 'COMMENT_DELETED', userId, comment);
+    return true;
+  }
+
+  /**
+   * List top-level comments on a recognition, oldest first
+   * @param recognitionId Recognition ID
+   * @returns Array of formatted comments
+   */
+  async getComments(recognitionId: string) {
+    const result = await this.db.query(
+      `SELECT c.*, a.name as author_name, a.email as author_email
+       FROM recognition_comments c
+       JOIN users a ON c.author_id = a.id
+       WHERE c.recognition_id = $1 AND c.parent_id IS NULL AND c.deleted_at IS NULL
+       ORDER BY c.created_at ASC`,
+      [recognitionId]
+    );
+    return result.rows.map(row => this.formatComment(row));
+  }
+
+  /**
+   * List replies to a comment, oldest first
+   * @param commentId Parent comment ID
+   * @returns Array of formatted comments
+   */
+  async getReplies(commentId: string) {
+    const result = await this.db.query(
+      `SELECT c.*, a.name as author_name, a.email as author_email
+       FROM recognition_comments c
+       JOIN users a ON c.author_id = a.id
+       WHERE c.parent_id = $1 AND c.deleted_at IS NULL
+       ORDER BY c.created_at ASC`,
+      [commentId]
+    );
+    return result.rows.map(row => this.formatComment(row));
+  }
+
+  /**
+   * Fetch a single non-deleted comment
+   * @param commentId Comment ID
+   * @returns Formatted comment
+   */
+  private async getCommentById(commentId: string) {
+    const result = await this.db.query(
+      `SELECT c.*, a.name as author_name, a.email as author_email
+       FROM recognition_comments c
+       JOIN users a ON c.author_id = a.id
+       WHERE c.id = $1 AND c.deleted_at IS NULL`,
+      [commentId]
+    );
+    if (!result.rows[0]) {
+      throw new Error('Comment not found');
+    }
+    return this.formatComment(result.rows[0]);
+  }
+
+  /**
+   * Validate an emoji value
+   * @param emoji Emoji character or :shortcode:
+   * @returns Trimmed emoji
+   */
+  private validateEmoji(emoji: string): string {
+    const trimmed = (emoji || '').trim();
+    if (!trimmed) {
+      throw new Error('Emoji is required');
+    }
+    if (trimmed.length > 32 || /\s/.test(trimmed)) {
+      throw new Error('Invalid emoji');
+    }
+    return trimmed;
+  }
+
+  /**
+   * Validate comment text
+   * @param body Comment text
+   * @returns Trimmed comment text
+   */
+  private validateCommentBody(body: string): string {
+    if (!body || body.trim().length === 0) {
+      throw new Error('Comment is required');
+    }
+    if (body.length > 500) {
+      throw new Error('Comment cannot exceed 500 characters');
+    }
+    return body.trim();
+  }
+
+  /**
+   * Publish a recognitionUpdated event with the current reaction counts
+   * @param recognitionId Recognition ID
+   * @param type Kind of change
+   * @param actorId User who made the change
+   * @param comment Affected comment, for comment events
+   */
+  private async publishUpdate(
+    recognitionId: string,
+    type: RecognitionUpdateType,
+    actorId: string,
+    comment: any = null
+  ): Promise<void> {
+    try {
+      await this.pubsub.publish('RECOGNITION_UPDATED', {
+        recognitionUpdated: {
+          recognitionId,
+          type,
+          actorId,
+          comment,
+          reactions: await this.getReactions(recognitionId)
+        }
+      });
+    } catch (error) {
+      console.error('Recognition update publishing failed:', error);
+    }
+  }
+
+  /**
+   * Format a DB comment row into API-friendly object
+   * @param row Raw database row
+   * @returns Formatted comment object
+   */
+  private formatComment(row: any) {
+    return {
+      id: row.id,
+      recognitionId: row.recognition_id,
+      parentId: row.parent_id,
+      body: row.body,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      author: {
+        id: row.author_id,
+        name: row.author_name,
+        email: row.author_email
+      }
+    };
+  }
+}
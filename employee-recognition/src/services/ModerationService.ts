@@ -0,0 +1,519 @@
+import { Pool } from 'pg';
+import { Queryable } from '../utils/database';
+import { getErrorCode } from '../utils/errorHandler';
+import { assertRole } from './PolicyService';
+
+export type ModerationAction = 'REJECT' | 'HOLD' | 'MASK';
+export type ModerationMatchType = 'WORDS' | 'REGEX';
+export type ModerationContext = 'CREATE' | 'UPDATE';
+export type ModerationLogAction = 'DISMISS' | 'HIDE' | 'REMOVE' | 'RESTORE' | 'RELEASE' | 'REJECT';
+
+/**
+ * A moderator action on a recognition, with the status change it caused
+ */
+export interface ModerationLogInput {
+  recognitionId: string;
+  moderatorId: string;
+  action: ModerationLogAction;
+  previousStatus: string;
+  newStatus: string;
+  note?: string | null;
+}
+
+export interface ModerationRuleInput {
+  name: string;
+  matchType: ModerationMatchType;
+  terms: string[];
+  action: ModerationAction;
+  enabled?: boolean;
+}
+
+export interface UpdateModerationRuleInput extends Partial<ModerationRuleInput> {
+  id: string;
+}
+
+export interface ModerationMatch {
+  ruleId: string;
+  ruleName: string;
+  action: ModerationAction;
+  matched: string[];
+}
+
+/**
+ * Outcome of running a message through the enabled rules. `action` is the
+ * strictest action of all matching rules (null when nothing matched) and
+ * `message` is the text with MASK matches replaced by asterisks.
+ */
+export interface ModerationResult {
+  action: ModerationAction | null;
+  message: string;
+  matches: ModerationMatch[];
+}
+
+export interface ModerationDecisionFilters {
+  recognitionId?: string;
+  action?: ModerationAction;
+  limit?: number;
+}
+
+const MATCH_TYPES: ModerationMatchType[] = ['WORDS', 'REGEX'];
+// Strictest first
+const ACTIONS: ModerationAction[] = ['REJECT', 'HOLD', 'MASK'];
+const MAX_TERMS = 200;
+// Keeps admin-supplied regular expressions small enough to reason about
+const MAX_TERM_LENGTH = 200;
+// Typical message text for catching zero-width patterns (\b, lookaheads, anchors)
+// that do not match empty text but match an empty string inside any message
+const EMPTY_MATCH_SAMPLE = 'Thanks @ana.silva, great job on the Q3 launch!\nSee you at 9:30 - 100% 🎉';
+const MAX_DECISIONS = 200;
+
+/**
+ * Service class for the moderation pipeline: admin-managed rules that every
+ * recognition message passes through, and the decisions they produce.
+ */
+export class ModerationService {
+  /**
+   * @param db - PostgreSQL connection pool
+   */
+  constructor(private db: Pool) {}
+
+  /**
+   * Lists all moderation rules ordered by name.
+   * @param userRole - Role of the current user (HR or ADMIN).
+   * @returns Array of moderation rules.
+   */
+  async getRules(userRole: string) {
+    assertRole(userRole, 'HR');
+
+    const result = await this.db.query('SELECT * FROM moderation_rules ORDER BY name ASC');
+    return result.rows.map(rule => this.formatRule(rule));
+  }
+
+  /**
+   * Adds a moderation rule.
+   * @param userId - ID of the admin creating the rule.
+   * @param userRole - Role of the current user (must be ADMIN).
+   * @param input - Name, match type, terms, action and enabled flag.
+   * @returns Created moderation rule.
+   */
+  async createRule(userId: string, userRole: string, input: ModerationRuleInput) {
+    assertRole(userRole, 'ADMIN');
+    const name = this.validateName(input.name);
+    const matchType = this.validateMatchType(input.matchType);
+    const terms = this.validateTerms(input.terms, matchType);
+    const action = this.validateAction(input.action);
+
+    try {
+      const result = await this.db.query(
+        `INSERT INTO moderation_rules (name, match_type, terms, action, enabled, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [name, matchType, JSON.stringify(terms), action, input.enabled ?? true, userId]
+      );
+
+      return this.formatRule(result.rows[0]);
+    } catch (error) {
+      throw this.translateUniqueViolation(error);
+    }
+  }
+
+  /**
+   * Updates a moderation rule. Changing the match type re-validates the terms.
+   * @param userRole - Role of the current user (must be ADMIN).
+   * @param input - Rule ID and fields to change.
+   * @returns Updated moderation rule.
+   */
+  async updateRule(userRole: string, input: UpdateModerationRuleInput) {
+    assertRole(userRole, 'ADMIN');
+
+    const existing = await this.db.query('SELECT * FROM moderation_rules WHERE id = $1', [input.id]);
+    if (!existing.rows[0]) {
+      throw new Error('Moderation rule not found');
+    }
+    const rule = existing.rows[0];
+
+    const changes: Record<string, any> = {};
+    if (input.name !== undefined) changes.name = this.validateName(input.name);
+    if (input.matchType !== undefined) changes.match_type = this.validateMatchType(input.matchType);
+    if (input.terms !== undefined || input.matchType !== undefined) {
+      const terms = this.validateTerms(input.terms ?? this.parseTerms(rule.terms), changes.match_type ?? rule.match_type);
+      changes.terms = JSON.stringify(terms);
+    }
+    if (input.action !== undefined) changes.action = this.validateAction(input.action);
+    if (input.enabled !== undefined) changes.enabled = input.enabled;
+
+    const fields = Object.keys(changes);
+    if (fields.length === 0) {
+      throw new Error('No fields to update');
+    }
+
+    const values: any[] = [input.id];
+    const updateFields = fields.map(field => {
+      values.push(changes[field]);
+      return `${field} = $${values.length}`;
+    });
+
+    try {
+      const result = await this.db.query(
+        `UPDATE moderation_rules
+         SET ${updateFields.join(', ')}, updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        values
+      );
+      return this.formatRule(result.rows[0]);
+    } catch (error) {
+      throw this.translateUniqueViolation(error);
+    }
+  }
+
+  /**
+   * Deletes a moderation rule. Past decisions keep the rule name they matched.
+   * @param userRole - Role of the current user (must be ADMIN).
+   * @param id - Rule ID.
+   * @returns true if deleted.
+   */
+  async deleteRule(userRole: string, id: string) {
+    assertRole(userRole, 'ADMIN');
+
+    const result = await this.db.query('DELETE FROM moderation_rules WHERE id = $1 RETURNING id', [id]);
+    if (!result.rows[0]) {
+      throw new Error('Moderation rule not found');
+    }
+    return true;
+  }
+
+  /**
+   * Runs a message through every enabled rule.
+   * @param message - Message as submitted.
+   * @returns Strictest action, masked message and the rules that matched.
+   */
+  async evaluate(message: string): Promise<ModerationResult> {
+    const result = await this.db.query('SELECT * FROM moderation_rules WHERE enabled = TRUE ORDER BY name ASC');
+
+    const matches: ModerationMatch[] = [];
+    const maskPatterns: RegExp[] = [];
+    for (const rule of result.rows) {
+      const pattern = this.compile(rule.match_type, this.parseTerms(rule.terms));
+      if (!pattern) continue;
+      // Zero-length matches (from zero-width patterns) are not matched text
+      const matched = Array.from(new Set(Array.from(message.matchAll(pattern), match => match[0]).filter(Boolean)));
+      if (matched.length === 0) continue;
+      matches.push({ ruleId: rule.id, ruleName: rule.name, action: rule.action, matched });
+      if (rule.action === 'MASK') maskPatterns.push(pattern);
+    }
+
+    const action = ACTIONS.find(candidate => matches.some(match => match.action === candidate)) || null;
+    const masked = maskPatterns.reduce(
+      (text, pattern) => text.replace(pattern, match => '*'.repeat(match.length)),
+      message
+    );
+
+    return { action, message: masked, matches };
+  }
+
+  /**
+   * Records why a message was rejected, held or masked.
+   * @param client - Pool or transaction client.
+   * @param decision - Recognition (null when rejected), author (null for anonymous),
+   *   create/update context, submitted message and moderation result.
+   */
+  async recordDecision(
+    client: Queryable,
+    decision: {
+      recognitionId: string | null;
+      userId: string | null;
+      context: ModerationContext;
+      message: string;
+      result: ModerationResult;
+    }
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO moderation_decisions (recognition_id, user_id, context, action, message, matches)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        decision.recognitionId,
+        decision.userId,
+        decision.context,
+        decision.result.action,
+        decision.message,
+        JSON.stringify(decision.result.matches)
+      ]
+    );
+  }
+
+  /**
+   * Finds the decision that put a recognition on hold.
+   * @param client - Pool or transaction client.
+   * @param recognitionId - Held recognition ID.
+   * @returns Latest unreviewed HOLD decision, or undefined.
+   */
+  async getPendingHold(client: Queryable, recognitionId: string) {
+    const result = await client.query(
+      `SELECT * FROM moderation_decisions
+       WHERE recognition_id = $1 AND action = 'HOLD' AND reviewed_at IS NULL
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [recognitionId]
+    );
+    return result.rows[0] ? this.formatDecision(result.rows[0]) : undefined;
+  }
+
+  /**
+   * Records a reviewer's outcome on a HOLD decision.
+   * @param client - Pool or transaction client.
+   * @param decisionId - Decision ID.
+   * @param reviewerId - HR/ADMIN user who reviewed it.
+   * @param outcome - RELEASED or REJECTED.
+   * @param note - Optional reviewer note.
+   */
+  async recordReview(
+    client: Queryable,
+    decisionId: string,
+    reviewerId: string,
+    outcome: 'RELEASED' | 'REJECTED',
+    note: string | null = null
+  ): Promise<void> {
+    await client.query(
+      `UPDATE moderation_decisions
+       SET reviewed_by = $2, reviewed_at = NOW(), review_outcome = $3, review_note = $4
+       WHERE id = $1`,
+      [decisionId, reviewerId, outcome, note]
+    );
+  }
+
+  /**
+   * Lists moderation decisions, newest first.
+   * @param userRole - Role of the current user (HR or ADMIN).
+   * @param filters - Optional recognition, action and limit.
+   * @returns Array of moderation decisions.
+   */
+  async getDecisions(userRole: string, filters: ModerationDecisionFilters = {}) {
+    assertRole(userRole, 'HR');
+
+    const params: any[] = [];
+    const conditions: string[] = [];
+    if (filters.recognitionId) {
+      params.push(filters.recognitionId);
+      conditions.push(`recognition_id = $${params.length}`);
+    }
+    if (filters.action) {
+      params.push(this.validateAction(filters.action));
+      conditions.push(`action = $${params.length}`);
+    }
+    params.push(Math.min(Math.max(filters.limit || 50, 1), MAX_DECISIONS));
+
+    const result = await this.db.query(
+      `SELECT * FROM moderation_decisions
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY created_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+    return result.rows.map(decision => this.formatDecision(decision));
+  }
+
+  /**
+   * Records a moderator action against a recognition.
+   * @param client - Pool or transaction client.
+   * @param entry - Recognition, moderator, action, status change and note.
+   */
+  async logAction(client: Queryable, entry: ModerationLogInput): Promise<void> {
+    await client.query(
+      `INSERT INTO moderation_log (recognition_id, moderator_id, action, previous_status, new_status, note)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [entry.recognitionId, entry.moderatorId, entry.action, entry.previousStatus, entry.newStatus, entry.note || null]
+    );
+  }
+
+  /**
+   * Lists the moderator actions taken on a recognition, oldest first.
+   * @param userRole - Role of the current user (HR or ADMIN).
+   * @param recognitionId - Recognition ID.
+   * @returns Array of moderation log entries.
+   */
+  async getModerationLog(userRole: string, recognitionId: string) {
+    assertRole(userRole, 'HR');
+
+    const result = await this.db.query(
+      `SELECT * FROM moderation_log
+       WHERE recognition_id = $1
+       ORDER BY created_at ASC`,
+      [recognitionId]
+    );
+    return result.rows.map(entry => ({
+      id: entry.id,
+      recognitionId: entry.recognition_id,
+      moderatorId: entry.moderator_id,
+      action: entry.action,
+      previousStatus: entry.previous_status,
+      newStatus: entry.new_status,
+      note: entry.note,
+      createdAt: entry.created_at
+    }));
+  }
+
+  /**
+   * Builds one case-insensitive global pattern for a rule. WORDS terms match
+   * whole words or phrases only, so "hate" does not match "whatever".
+   * @param matchType - WORDS or REGEX.
+   * @param terms - Words/phrases or regular expressions.
+   * @returns Combined pattern, or null if the rule has no terms.
+   */
+  private compile(matchType: ModerationMatchType, terms: string[]): RegExp | null {
+    if (terms.length === 0) return null;
+    if (matchType === 'REGEX') {
+      return new RegExp(terms.map(term => `(?:${term})`).join('|'), 'giu');
+    }
+    const alternatives = terms.map(term =>
+      term.trim().split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+')
+    );
+    return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}_])`, 'giu');
+  }
+
+  /**
+   * Validates a rule name.
+   * @param name - Proposed name.
+   * @returns Trimmed name.
+   */
+  private validateName(name: string): string {
+    if (!name || name.trim().length === 0) {
+      throw new Error('Rule name is required');
+    }
+    if (name.length > 100) {
+      throw new Error('Rule name cannot exceed 100 characters');
+    }
+    return name.trim();
+  }
+
+  /**
+   * Validates a match type.
+   * @param matchType - Proposed match type.
+   * @returns The match type.
+   */
+  private validateMatchType(matchType: string): ModerationMatchType {
+    if (!MATCH_TYPES.includes(matchType as ModerationMatchType)) {
+      throw new Error('Invalid match type. Must be WORDS or REGEX');
+    }
+    return matchType as ModerationMatchType;
+  }
+
+  /**
+   * Validates a rule action.
+   * @param action - Proposed action.
+   * @returns The action.
+   */
+  private validateAction(action: string): ModerationAction {
+    if (!ACTIONS.includes(action as ModerationAction)) {
+      throw new Error('Invalid moderation action. Must be REJECT, HOLD, or MASK');
+    }
+    return action as ModerationAction;
+  }
+
+  /**
+   * Validates rule terms. Regular expressions must compile and must not produce
+   * an empty match, either on empty text or inside a sample message (which
+   * would match every message).
+   * @param terms - Proposed terms.
+   * @param matchType - WORDS or REGEX.
+   * @returns Trimmed, de-duplicated terms.
+   */
+  private validateTerms(terms: string[], matchType: ModerationMatchType): string[] {
+    if (!Array.isArray(terms)) {
+      throw new Error('At least one term is required');
+    }
+    const cleaned = Array.from(new Set(terms.map(term => (term || '').trim()).filter(Boolean)));
+    if (cleaned.length === 0) {
+      throw new Error('At least one term is required');
+    }
+    if (cleaned.length > MAX_TERMS) {
+      throw new Error(`A rule cannot have more than ${MAX_TERMS} terms`);
+    }
+    for (const term of cleaned) {
+      if (term.length > MAX_TERM_LENGTH) {
+        throw new Error(`Terms cannot exceed ${MAX_TERM_LENGTH} characters`);
+      }
+      if (matchType === 'REGEX') {
+        let pattern: RegExp;
+        try {
+          pattern = new RegExp(term, 'iu');
+        } catch {
+          throw new Error(`Invalid regular expression: ${term}`);
+        }
+        const emptyMatch = Array.from(EMPTY_MATCH_SAMPLE.matchAll(new RegExp(term, 'giu'))).some(match => match[0] === '');
+        if (pattern.test('') || emptyMatch) {
+          throw new Error(`Regular expression must not match empty text: ${term}`);
+        }
+      }
+    }
+    return cleaned;
+  }
+
+  /**
+   * Parses the JSONB terms column.
+   * @param terms - Raw column value.
+   * @returns Array of terms.
+   */
+  private parseTerms(terms: any): string[] {
+    if (Array.isArray(terms)) return terms;
+    try {
+      const parsed = JSON.parse(terms || '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Maps a duplicate-name database error to a readable message.
+   * @param error - Error raised by the database.
+   * @returns Error to throw.
+   */
+  private translateUniqueViolation(error: unknown) {
+    if (getErrorCode(error) === '23505') {
+      return new Error('A moderation rule with this name already exists');
+    }
+    return error;
+  }
+
+  /**
+   * Converts raw DB row into formatted moderation rule object.
+   * @param rule - Raw moderation rule DB row.
+   * @returns Formatted moderation rule object.
+   */
+  private formatRule(rule: any) {
+    return {
+      id: rule.id,
+      name: rule.name,
+      matchType: rule.match_type,
+      terms: this.parseTerms(rule.terms),
+      action: rule.action,
+      enabled: rule.enabled,
+      createdAt: rule.created_at,
+      updatedAt: rule.updated_at
+    };
+  }
+
+  /**
+   * Converts raw DB row into formatted moderation decision object.
+   * @param decision - Raw moderation decision DB row.
+   * @returns Formatted moderation decision object.
+   */
+  private formatDecision(decision: any) {
+    const matches = typeof decision.matches === 'string' ? JSON.parse(decision.matches) : decision.matches;
+    return {
+      id: decision.id,
+      recognitionId: decision.recognition_id,
+      userId: decision.user_id,
+      context: decision.context,
+      action: decision.action,
+      message: decision.message,
+      matches: matches || [],
+      reviewedById: decision.reviewed_by,
+      reviewedAt: decision.reviewed_at,
+      reviewOutcome: decision.review_outcome,
+      reviewNote: decision.review_note,
+      createdAt: decision.created_at
+    };
+  }
+}
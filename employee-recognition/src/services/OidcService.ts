@@ -0,0 +1,367 @@
+import { Pool, PoolClient } from 'pg';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { ClientInfo, LoginResponse, SessionService } from './SessionService';
+import { withTransaction } from '../utils/database';
+import { OidcConfig, createPkcePair, getOidcConfig, getTeamClaim, mapRoleClaim } from '../utils/oidc';
+
+// Provider metadata from /.well-known/openid-configuration
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+// A sign-in must complete within this time of being started
+const LOGIN_REQUEST_TTL_MINUTES = 10;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+// Tolerated clock difference with the identity provider
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+const LOGIN_FAILED = 'Sign-in failed or expired. Please try again';
+
+/**
+ * Service class for single sign-on through an OpenID Connect identity
+ * provider (authorization code flow with PKCE). Users are provisioned on
+ * their first sign-in and their role and team follow the ID token claims.
+ */
+export class OidcService {
+  private discovery: Promise<OidcDiscovery> | null = null;
+  private signingKeys = new Map<string, crypto.KeyObject>();
+
+  /**
+   * @param db - PostgreSQL connection pool
+   * @param sessionService - Starts a session after sign-in
+   * @param config - Identity provider settings; null disables single sign-on
+   */
+  constructor(
+    private db: Pool,
+    private sessionService: SessionService,
+    private config: OidcConfig | null = getOidcConfig()
+  ) {}
+
+  /**
+   * Whether an identity provider is configured.
+   */
+  isEnabled(): boolean {
+    return this.config !== null;
+  }
+
+  /**
+   * Starts a sign-in: stores the state, nonce and PKCE verifier, and returns
+   * the identity provider URL to redirect the browser to.
+   * @returns Authorization URL.
+   */
+  async beginLogin(): Promise<string> {
+    const config = this.requireConfig();
+    const discovery = await this.getDiscovery();
+
+    const state = crypto.randomBytes(32).toString('base64url');
+    const nonce = crypto.randomBytes(32).toString('base64url');
+    const pkce = createPkcePair();
+    await this.db.query(
+      `INSERT INTO oidc_login_requests (state_hash, code_verifier, nonce, expires_at)
+       VALUES ($1, $2, $3, NOW() + make_interval(mins => $4))`,
+      [this.hashState(state), pkce.verifier, nonce, LOGIN_REQUEST_TTL_MINUTES]
+    );
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: config.clientId,
+      redirect_uri: config.redirectUri,
+      scope: config.scopes,
+      state,
+      nonce,
+      code_challenge: pkce.challenge,
+      code_challenge_method: 'S256'
+    }).toString();
+    return url.toString();
+  }
+
+  /**
+   * Completes a sign-in from the identity provider's redirect: exchanges the
+   * code, verifies the ID token and provisions or updates the user.
+   * @param code - Authorization code from the redirect.
+   * @param state - State from the redirect.
+   * @param client - Client IP and user agent, recorded with the session.
+   * @returns Session tokens and user details.
+   */
+  async completeLogin(code: string, state: string, client: ClientInfo = {}): Promise<LoginResponse> {
+    const config = this.requireConfig();
+    if (!code || !state) {
+      throw new Error(LOGIN_FAILED);
+    }
+
+    // Each state works once
+    const result = await this.db.query(
+      `DELETE FROM oidc_login_requests
+       WHERE state_hash = $1 AND expires_at > NOW()
+       RETURNING code_verifier, nonce`,
+      [this.hashState(state)]
+    );
+    const request = result.rows[0];
+    if (!request) {
+      throw new Error(LOGIN_FAILED);
+    }
+
+    const idToken = await this.exchangeCode(config, code, request.code_verifier);
+    const claims = await this.verifyIdToken(config, idToken, request.nonce);
+    const user = await this.provisionUser(config, claims);
+    return this.sessionService.createSession(user, client);
+  }
+
+  /**
+   * Deletes sign-in requests that were never completed.
+   * @returns Number of rows deleted.
+   */
+  async pruneLoginRequests(): Promise<number> {
+    const result = await this.db.query('DELETE FROM oidc_login_requests WHERE expires_at < NOW()');
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Redeems an authorization code at the token endpoint.
+   * @returns The ID token.
+   */
+  private async exchangeCode(config: OidcConfig, code: string, codeVerifier: string): Promise<string> {
+    const discovery = await this.getDiscovery();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.redirectUri,
+      code_verifier: codeVerifier,
+      client_id: config.clientId
+    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json'
+    };
+
+    if (config.clientSecret) {
+      // client_secret_basic is the default unless the provider only lists client_secret_post
+      const methods = discovery.token_endpoint_auth_methods_supported;
+      if (methods && !methods.includes('client_secret_basic') && methods.includes('client_secret_post')) {
+        body.set('client_secret', config.clientSecret);
+      } else {
+        const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+        headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+      }
+    }
+
+    const tokens = await this.fetchJson(discovery.token_endpoint, { method: 'POST', headers, body: body.toString() });
+    if (typeof tokens.id_token !== 'string') {
+      throw new Error('Identity provider did not return an ID token');
+    }
+    return tokens.id_token;
+  }
+
+  /**
+   * Verifies the ID token signature, issuer, audience, expiry and nonce.
+   * @returns The token claims.
+   */
+  private async verifyIdToken(config: OidcConfig, idToken: string, nonce: string): Promise<Record<string, any>> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('Invalid ID token');
+    }
+
+    const discovery = await this.getDiscovery();
+    const key = await this.getSigningKey(decoded.header.kid);
+    let claims: Record<string, any>;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: discovery.issuer,
+        audience: config.clientId,
+        clockTolerance: CLOCK_TOLERANCE_SECONDS
+      }) as Record<string, any>;
+    } catch (error) {
+      throw new Error('Invalid ID token');
+    }
+
+    if (claims.nonce !== nonce || typeof claims.sub !== 'string' || !claims.sub) {
+      throw new Error('Invalid ID token');
+    }
+    return claims;
+  }
+
+  /**
+   * Finds the user linked to the token subject, linking an existing account
+   * by verified email or creating one on first sign-in, then applies the
+   * role and team claims when the token carries them.
+   * @returns Raw user row.
+   */
+  private async provisionUser(config: OidcConfig, claims: Record<string, any>) {
+    const issuer = (await this.getDiscovery()).issuer;
+    const email = typeof claims.email === 'string' ? claims.email.trim().toLowerCase() : '';
+    const role = mapRoleClaim(claims, config);
+    const team = getTeamClaim(claims, config);
+
+    return withTransaction(this.db, async client => {
+      const linked = await client.query(
+        `SELECT u.* FROM oidc_identities i
+         JOIN users u ON u.id = i.user_id
+         WHERE i.issuer = $1 AND i.subject = $2`,
+        [issuer, claims.sub]
+      );
+      let user = linked.rows[0];
+
+      if (!user) {
+        if (!email) {
+          throw new Error('The identity provider did not share an email address');
+        }
+        // An unverified email could take over someone else's account
+        if (claims.email_verified === false) {
+          throw new Error('Your email address is not verified with the identity provider');
+        }
+
+        const existing = await client.query(
+          'SELECT * FROM users WHERE LOWER(email) = $1 AND NOT is_service_account',
+          [email]
+        );
+        user = existing.rows[0];
+        if (!user) {
+          const created = await client.query(
+            `INSERT INTO users (email, name, role)
+             VALUES ($1, $2, 'EMPLOYEE')
+             RETURNING *`,
+            [email, this.getDisplayName(claims, email)]
+          );
+          user = created.rows[0];
+        }
+
+        await client.query(
+          `INSERT INTO oidc_identities (issuer, subject, user_id)
+           VALUES ($1, $2, $3)`,
+          [issuer, claims.sub, user.id]
+        );
+      }
+
+      if (user.deactivated_at) {
+        throw new Error('Your account has been deactivated');
+      }
+
+      const teamId = team ? await this.findTeamId(client, team) : null;
+      if (team && !teamId) {
+        console.warn(`OIDC team claim "${team}" does not match a team; keeping the current team`);
+      }
+
+      const updated = await client.query(
+        `UPDATE users
+         SET role = COALESCE($2, role), team_id = COALESCE($3, team_id)
+         WHERE id = $1
+         RETURNING *`,
+        [user.id, role, teamId]
+      );
+      return updated.rows[0];
+    });
+  }
+
+  /**
+   * Finds an active team by ID or by name (case-insensitive).
+   * @returns Team ID or null.
+   */
+  private async findTeamId(client: PoolClient, team: string): Promise<string | null> {
+    const result = await client.query(
+      `SELECT id FROM teams
+       WHERE (id::text = $1 OR LOWER(name) = LOWER($1)) AND archived_at IS NULL
+       ORDER BY created_at LIMIT 1`,
+      [team]
+    );
+    return result.rows[0]?.id || null;
+  }
+
+  /**
+   * Name for a new user from the standard profile claims.
+   */
+  private getDisplayName(claims: Record<string, any>, email: string): string {
+    const given = [claims.given_name, claims.family_name].filter(part => typeof part === 'string' && part).join(' ');
+    return (typeof claims.name === 'string' && claims.name.trim()) || given || email;
+  }
+
+  /**
+   * Loads provider metadata once; a failed load is retried on the next sign-in.
+   */
+  private getDiscovery(): Promise<OidcDiscovery> {
+    if (!this.discovery) {
+      const issuer = this.requireConfig().issuer;
+      this.discovery = this.fetchJson(`${issuer}/.well-known/openid-configuration`).then(metadata => {
+        if ((metadata.issuer || '').replace(/\/+$/, '') !== issuer) {
+          throw new Error(`Identity provider issuer ${metadata.issuer} does not match OIDC_ISSUER`);
+        }
+        return metadata as OidcDiscovery;
+      });
+      this.discovery.catch(() => {
+        this.discovery = null;
+      });
+    }
+    return this.discovery;
+  }
+
+  /**
+   * Finds the provider key for a token, refetching the key set once for
+   * unknown key IDs so key rotation works without a restart.
+   */
+  private async getSigningKey(kid: string | undefined): Promise<crypto.KeyObject> {
+    const cached = this.findSigningKey(kid);
+    if (cached) return cached;
+
+    const { jwks_uri } = await this.getDiscovery();
+    const jwks = await this.fetchJson(jwks_uri);
+    this.signingKeys = new Map();
+    (Array.isArray(jwks.keys) ? jwks.keys : [])
+      .filter((jwk: any) => jwk.use === undefined || jwk.use === 'sig')
+      .forEach((jwk: any, index: number) => {
+        try {
+          this.signingKeys.set(jwk.kid || `#${index}`, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+        } catch (error) {
+          // Skip key types Node cannot import
+        }
+      });
+
+    const key = this.findSigningKey(kid);
+    if (!key) {
+      throw new Error('Invalid ID token');
+    }
+    return key;
+  }
+
+  /**
+   * Cached key by ID; tokens without a key ID only match a single-key set.
+   */
+  private findSigningKey(kid: string | undefined): crypto.KeyObject | undefined {
+    if (kid) return this.signingKeys.get(kid);
+    return this.signingKeys.size === 1 ? this.signingKeys.values().next().value : undefined;
+  }
+
+  /**
+   * Requests JSON from the identity provider.
+   */
+  private async fetchJson(url: string, init?: RequestInit): Promise<any> {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+      throw new Error(`Identity provider request failed with status ${response.status}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Throws unless single sign-on is configured.
+   */
+  private requireConfig(): OidcConfig {
+    if (!this.config) {
+      throw new Error('Single sign-on is not configured');
+    }
+    return this.config;
+  }
+
+  /**
+   * SHA-256 hex digest of a state value.
+   */
+  private hashState(state: string): string {
+    return crypto.createHash('sha256').update(state).digest('hex');
+  }
+}
@@ -0,0 +1,317 @@
+import { Pool } from 'pg';
+import { USER_ROLES, assertRole } from './PolicyService';
+import { Queryable } from '../utils/database';
+
+export type PointsAccount = 'GIVING' | 'EARNED';
+
+/**
+ * Current balances for a user. Giving points are only valid for the current
+ * monthly period; earned points accumulate until they are spent.
+ */
+export interface PointsBalance {
+  earned: number;
+  givingAllowance: number;
+  givingRemaining: number;
+  periodStart: Date;
+}
+
+// First day of the current month, used as the allowance period key
+const CURRENT_PERIOD = `date_trunc('month', NOW())::date`;
+
+// Grants this month's allowance to active people who do not have it yet;
+// deactivated users and service accounts never receive one
+const GRANT_ALLOWANCES = `
+  INSERT INTO points_ledger (user_id, account, entry_type, amount, period_start)
+  SELECT u.id, 'GIVING', 'ALLOWANCE_GRANT', a.monthly_allowance, ${CURRENT_PERIOD}
+  FROM users u
+  JOIN role_point_allowances a ON a.role = u.role
+  WHERE u.deactivated_at IS NULL AND NOT u.is_service_account`;
+
+/**
+ * PointsService manages monthly giving allowances and the append-only points ledger
+ */
+export class PointsService {
+  constructor(private db: Pool) {}
+
+  /**
+   * Returns the user's earned balance and remaining giving allowance for this month
+   * @param userId - ID of the user
+   */
+  async getBalance(userId: string): Promise<PointsBalance> {
+    await this.ensureMonthlyAllowance(this.db, userId);
+
+    const result = await this.db.query(
+      `SELECT
+         COALESCE(SUM(amount) FILTER (WHERE account = 'EARNED'), 0) as earned,
+         COALESCE(SUM(amount) FILTER (
+           WHERE account = 'GIVING' AND period_start = ${CURRENT_PERIOD}
+         ), 0) as giving_remaining,
+         COALESCE(SUM(amount) FILTER (
+           WHERE entry_type = 'ALLOWANCE_GRANT' AND period_start = ${CURRENT_PERIOD}
+         ), 0) as giving_allowance,
+         ${CURRENT_PERIOD} as period_start
+       FROM points_ledger
+       WHERE user_id = $1`,
+      [userId]
+    );
+    const balance = result.rows[0];
+
+    return {
+      earned: parseInt(balance.earned || '0'),
+      givingAllowance: parseInt(balance.giving_allowance || '0'),
+      givingRemaining: parseInt(balance.giving_remaining || '0'),
+      periodStart: balance.period_start
+    };
+  }
+
+  /**
+   * Returns the user's ledger entries, newest first
+   * @param userId - ID of the user
+   * @param account - optional account filter (GIVING or EARNED)
+   * @param limit - max entries to return (default: 50)
+   */
+  async getLedger(userId: string, account?: PointsAccount, limit: number = 50) {
+    const params: any[] = [userId];
+    let query = 'SELECT * FROM points_ledger WHERE user_id = $1';
+
+    if (account) {
+      params.push(account);
+      query += ` AND account = $${params.length}`;
+    }
+
+    params.push(Math.min(limit, 200));
+    query += ` ORDER BY created_at DESC LIMIT $${params.length}`;
+
+    const result = await this.db.query(query, params);
+    return result.rows.map(row => this.formatEntry(row));
+  }
+
+  /**
+   * Returns the configured monthly giving allowance for each role
+   */
+  async getAllowances() {
+    const result = await this.db.query(
+      'SELECT role, monthly_allowance FROM role_point_allowances ORDER BY monthly_allowance ASC'
+    );
+    return result.rows.map(row => ({
+      role: row.role,
+      monthlyAllowance: row.monthly_allowance
+    }));
+  }
+
+  /**
+   * Sets the monthly giving allowance for a role. Takes effect from the next
+   * period; allowances already granted this month are left untouched.
+   * @param userRole - role of the requesting user (must be ADMIN)
+   * @param role - role to configure
+   * @param monthlyAllowance - points granted per month
+   */
+  async setAllowance(userRole: string, role: string, monthlyAllowance: number) {
+    assertRole(userRole, 'ADMIN');
+    if (!USER_ROLES.includes(role)) {
+      throw new Error('Invalid role');
+    }
+    if (!Number.isInteger(monthlyAllowance) || monthlyAllowance < 0) {
+      throw new Error('Monthly allowance must be a non-negative integer');
+    }
+
+    const result = await this.db.query(
+      `INSERT INTO role_point_allowances (role, monthly_allowance, updated_at)
+       VALUES ($1, $2, NOW())
+       ON CONFLICT (role) DO UPDATE SET monthly_allowance = $2, updated_at = NOW()
+       RETURNING role, monthly_allowance`,
+      [role, monthlyAllowance]
+    );
+
+    return {
+      role: result.rows[0].role,
+      monthlyAllowance: result.rows[0].monthly_allowance
+    };
+  }
+
+  /**
+   * Grants this month's giving allowance to every active person who does not
+   * have it yet; deactivated users and service accounts are skipped.
+   * Safe to run repeatedly; run by the background job scheduler.
+   * @returns Number of users granted an allowance
+   */
+  async grantMonthlyAllowances(): Promise<number> {
+    const result = await this.db.query(`${GRANT_ALLOWANCES} ON CONFLICT DO NOTHING`);
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Debits the sender's giving allowance and credits each recipient's earned
+   * balance for a recognition. Must run inside the recognition's transaction.
+   * @param client - transaction client
+   * @param senderId - ID of the sender
+   * @param recognitionId - ID of the recognition the points belong to
+   * @param pointsPerRecipient - points each recipient receives
+   * @param recipientIds - IDs of all recipients
+   */
+  async transferRecognitionPoints(
+    client: Queryable,
+    senderId: string,
+    recognitionId: string,
+    pointsPerRecipient: number,
+    recipientIds: string[]
+  ): Promise<void> {
+    await this.reserveRecognitionPoints(client, senderId, recognitionId, pointsPerRecipient * recipientIds.length);
+    await this.creditRecognitionPoints(client, recognitionId, pointsPerRecipient, recipientIds);
+  }
+
+  /**
+   * Debits the sender's giving allowance for a recognition without crediting
+   * anyone yet. Scheduled recognitions reserve points when they are created and
+   * credit recipients when they are published.
+   * @param client - transaction client
+   * @param senderId - ID of the sender
+   * @param recognitionId - ID of the recognition the points belong to
+   * @param total - points for all recipients together
+   */
+  async reserveRecognitionPoints(
+    client: Queryable,
+    senderId: string,
+    recognitionId: string,
+    total: number
+  ): Promise<void> {
+    // Serialize allowance checks per sender so concurrent gifts cannot overspend
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`points:${senderId}`]);
+    await this.ensureMonthlyAllowance(client, senderId);
+
+    const remaining = await client.query(
+      `SELECT COALESCE(SUM(amount), 0) as remaining
+       FROM points_ledger
+       WHERE user_id = $1 AND account = 'GIVING' AND period_start = ${CURRENT_PERIOD}`,
+      [senderId]
+    );
+    const available = parseInt(remaining.rows[0].remaining || '0');
+    if (total > available) {
+      throw new Error(`Insufficient points - ${available} remaining this month, ${total} required`);
+    }
+
+    await client.query(
+      `INSERT INTO points_ledger (user_id, account, entry_type, amount, period_start, recognition_id)
+       VALUES ($1, 'GIVING', 'RECOGNITION_SENT', $2, ${CURRENT_PERIOD}, $3)`,
+      [senderId, -total, recognitionId]
+    );
+  }
+
+  /**
+   * Credits each recipient's earned balance for a recognition
+   * @param client - transaction client
+   * @param recognitionId - ID of the recognition the points belong to
+   * @param pointsPerRecipient - points each recipient receives
+   * @param recipientIds - IDs of all recipients
+   */
+  async creditRecognitionPoints(
+    client: Queryable,
+    recognitionId: string,
+    pointsPerRecipient: number,
+    recipientIds: string[]
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO points_ledger (user_id, account, entry_type, amount, period_start, recognition_id)
+       SELECT unnest($1::uuid[]), 'EARNED', 'RECOGNITION_RECEIVED', $2, ${CURRENT_PERIOD}, $3`,
+      [recipientIds, pointsPerRecipient, recognitionId]
+    );
+  }
+
+  /**
+   * Returns points reserved for a recognition that will never be published.
+   * The refund goes back to the period the points were taken from, so an
+   * allowance that has already expired stays expired.
+   * @param client - transaction client
+   * @param recognitionId - ID of the cancelled recognition
+   */
+  async refundRecognitionPoints(client: Queryable, recognitionId: string): Promise<void> {
+    await client.query(
+      `INSERT INTO points_ledger (user_id, account, entry_type, amount, period_start, recognition_id)
+       SELECT user_id, 'GIVING', 'RECOGNITION_REFUND', -amount, period_start, recognition_id
+       FROM points_ledger
+       WHERE recognition_id = $1 AND entry_type = 'RECOGNITION_SENT'`,
+      [recognitionId]
+    );
+  }
+
+  /**
+   * Debits the user's earned balance for a reward redemption. Must run inside
+   * the redemption's transaction.
+   * @param client - transaction client
+   * @param userId - ID of the redeeming user
+   * @param redemptionId - ID of the redemption the points pay for
+   * @param amount - points to debit
+   */
+  async debitRedemption(
+    client: Queryable,
+    userId: string,
+    redemptionId: string,
+    amount: number
+  ): Promise<void> {
+    // Same per-user lock as giving, so concurrent redemptions cannot overspend
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`points:${userId}`]);
+
+    const balance = await client.query(
+      `SELECT COALESCE(SUM(amount), 0) as earned
+       FROM points_ledger
+       WHERE user_id = $1 AND account = 'EARNED'`,
+      [userId]
+    );
+    const available = parseInt(balance.rows[0].earned || '0');
+    if (amount > available) {
+      throw new Error(`Insufficient points - ${available} available, ${amount} required`);
+    }
+
+    await client.query(
+      `INSERT INTO points_ledger (user_id, account, entry_type, amount, period_start, redemption_id)
+       VALUES ($1, 'EARNED', 'REDEMPTION', $2, ${CURRENT_PERIOD}, $3)`,
+      [userId, -amount, redemptionId]
+    );
+  }
+
+  /**
+   * Credits back the points of a rejected redemption
+   * @param client - transaction client
+   * @param userId - ID of the redeeming user
+   * @param redemptionId - ID of the rejected redemption
+   * @param amount - points to refund
+   */
+  async refundRedemption(
+    client: Queryable,
+    userId: string,
+    redemptionId: string,
+    amount: number
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO points_ledger (user_id, account, entry_type, amount, period_start, redemption_id)
+       VALUES ($1, 'EARNED', 'REDEMPTION_REFUND', $2, ${CURRENT_PERIOD}, $3)`,
+      [userId, amount, redemptionId]
+    );
+  }
+
+  /**
+   * Grants the current month's allowance to one user if it is missing (same
+   * rules as grantMonthlyAllowances)
+   * @param client - pool or transaction client
+   * @param userId - ID of the user
+   */
+  private async ensureMonthlyAllowance(client: Queryable, userId: string): Promise<void> {
+    await client.query(`${GRANT_ALLOWANCES} AND u.id = $1 ON CONFLICT DO NOTHING`, [userId]);
+  }
+
+  /**
+   * Formats a ledger row for the API
+   */
+  private formatEntry(row: any) {
+    return {
+      id: row.id,
+      account: row.account,
+      entryType: row.entry_type,
+      amount: row.amount,
+      periodStart: row.period_start,
+      recognitionId: row.recognition_id,
+      redemptionId: row.redemption_id,
+      createdAt: row.created_at
+    };
+  }
+}
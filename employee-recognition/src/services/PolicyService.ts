@@ -0,0 +1,260 @@
+import { Pool } from 'pg';
+import { AuditService } from './AuditService';
+import { withTransaction } from '../utils/database';
+
+export interface TeamAccessGrantInput {
+  userId: string;
+  teamId: string;
+  includeSubTeams?: boolean;
+  expiresAt?: Date | string | null;
+}
+
+// Higher roles include everything the lower roles may do
+const ROLE_LEVELS: Record<string, number> = {
+  EMPLOYEE: 1,
+  MANAGER: 2,
+  HR: 3,
+  ADMIN: 4
+};
+
+export const USER_ROLES = Object.keys(ROLE_LEVELS);
+
+// Error thrown by assertRole for each required role
+const ROLE_REQUIRED_ERRORS: Record<string, string> = {
+  EMPLOYEE: 'Insufficient permissions',
+  MANAGER: 'Insufficient permissions - Manager role or higher required',
+  HR: 'Insufficient permissions - HR role or higher required',
+  ADMIN: 'Insufficient permissions - Admin role required'
+};
+
+// Grants that have not expired
+const ACTIVE_GRANT = '(expires_at IS NULL OR expires_at > NOW())';
+
+/**
+ * Checks if a role includes the required role. Unknown roles never match.
+ * @param userRole - Role of the current user.
+ * @param requiredRole - Lowest role allowed.
+ * @returns Boolean indicating if access is allowed.
+ */
+export function hasRole(userRole: string | null | undefined, requiredRole: string): boolean {
+  const userLevel = userRole ? ROLE_LEVELS[userRole] : undefined;
+  const requiredLevel = ROLE_LEVELS[requiredRole];
+  if (!userLevel || !requiredLevel) return false;
+
+  return userLevel >= requiredLevel;
+}
+
+/**
+ * Ensures a role includes the required role.
+ * @param userRole - Role of the current user.
+ * @param requiredRole - Lowest role allowed.
+ * @throws Error naming the required role if access is not allowed.
+ */
+export function assertRole(userRole: string | null | undefined, requiredRole: string): void {
+  if (!hasRole(userRole, requiredRole)) {
+    throw new Error(ROLE_REQUIRED_ERRORS[requiredRole] || ROLE_REQUIRED_ERRORS.EMPLOYEE);
+  }
+}
+
+/**
+ * Authorization policy for team-scoped data. HR and admins see every team;
+ * everyone else sees the teams they manage and explicitly granted teams,
+ * each including their sub-teams unless a grant says otherwise.
+ */
+export class PolicyService {
+  /**
+   * @param db - PostgreSQL connection pool
+   * @param auditService - Records grant changes
+   */
+  constructor(private db: Pool, private auditService: AuditService = new AuditService(db)) {}
+
+  /**
+   * Lists the teams a user may see team-level data for.
+   * @param userId - ID of the current user.
+   * @param userRole - Role of the current user.
+   * @returns Team IDs, or null when the user can see every team.
+   */
+  async getVisibleTeamIds(userId: string, userRole: string): Promise<string[] | null> {
+    if (hasRole(userRole, 'HR')) return null;
+
+    // UNION (not UNION ALL) stops the walk if the hierarchy ever has a cycle
+    const result = await this.db.query(
+      `WITH RECURSIVE scope AS (
+         SELECT id FROM teams WHERE manager_id = $1
+         UNION
+         SELECT team_id FROM team_access_grants
+         WHERE user_id = $1 AND include_sub_teams AND ${ACTIVE_GRANT}
+         UNION
+         SELECT t.id FROM teams t JOIN scope s ON t.parent_team_id = s.id
+       )
+       SELECT id FROM scope
+       UNION
+       SELECT team_id FROM team_access_grants
+       WHERE user_id = $1 AND NOT include_sub_teams AND ${ACTIVE_GRANT}`,
+      [userId]
+    );
+    return result.rows.map(row => row.id);
+  }
+
+  /**
+   * Checks if a user may see team-level data for a team.
+   * @param userId - ID of the current user.
+   * @param userRole - Role of the current user.
+   * @param teamId - ID of the team.
+   */
+  async canViewTeam(userId: string, userRole: string, teamId: string): Promise<boolean> {
+    const teamIds = await this.getVisibleTeamIds(userId, userRole);
+    return teamIds === null || teamIds.includes(teamId);
+  }
+
+  /**
+   * Throws unless the user may see team-level data for a team.
+   * @param userId - ID of the current user.
+   * @param userRole - Role of the current user.
+   * @param teamId - ID of the team.
+   */
+  async assertCanViewTeam(userId: string, userRole: string, teamId: string): Promise<void> {
+    if (!(await this.canViewTeam(userId, userRole, teamId))) {
+      throw new Error('Insufficient permissions - you do not have access to this team');
+    }
+  }
+
+  /**
+   * Throws unless the user may see team-level data for every one of the teams.
+   * @param userId - ID of the current user.
+   * @param userRole - Role of the current user.
+   * @param teamIds - IDs of the teams.
+   */
+  async assertCanViewTeams(userId: string, userRole: string, teamIds: string[]): Promise<void> {
+    const visible = await this.getVisibleTeamIds(userId, userRole);
+    if (visible !== null && !teamIds.every(teamId => visible.includes(teamId))) {
+      throw new Error('Insufficient permissions - you do not have access to this team');
+    }
+  }
+
+  /**
+   * Lists active team access grants (HR and admins only).
+   * @param userRole - Role of the current user.
+   * @param userId - Optional filter by the user the grants are for.
+   * @returns Array of grant objects.
+   */
+  async getTeamAccessGrants(userRole: string, userId?: string) {
+    this.assertCanManageGrants(userRole);
+
+    const params: string[] = [];
+    let query = `SELECT * FROM team_access_grants WHERE ${ACTIVE_GRANT}`;
+    if (userId) {
+      params.push(userId);
+      query += ' AND user_id = $1';
+    }
+    query += ' ORDER BY created_at DESC';
+
+    const result = await this.db.query(query, params);
+    return result.rows.map(grant => this.formatGrant(grant));
+  }
+
+  /**
+   * Gives a user access to a team beyond the teams they manage (HR and admins
+   * only). Granting the same team again replaces the earlier grant.
+   * @param actorId - ID of the user making the grant.
+   * @param userRole - Role of the user making the grant.
+   * @param input - User, team, sub-team coverage and optional expiry.
+   * @returns The grant.
+   */
+  async grantTeamAccess(actorId: string, userRole: string, input: TeamAccessGrantInput) {
+    this.assertCanManageGrants(userRole);
+    const includeSubTeams = input.includeSubTeams !== false;
+    const expiresAt = input.expiresAt ? new Date(input.expiresAt) : null;
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+      throw new Error('Expiry must be in the future');
+    }
+
+    const [user, team] = await Promise.all([
+      this.db.query('SELECT id FROM users WHERE id = $1', [input.userId]),
+      this.db.query('SELECT id FROM teams WHERE id = $1 AND archived_at IS NULL', [input.teamId])
+    ]);
+    if (user.rows.length === 0) {
+      throw new Error('User not found');
+    }
+    if (team.rows.length === 0) {
+      throw new Error('Team not found');
+    }
+
+    return withTransaction(this.db, async client => {
+      const result = await client.query(
+        `INSERT INTO team_access_grants (user_id, team_id, include_sub_teams, granted_by, expires_at)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (user_id, team_id) DO UPDATE
+         SET include_sub_teams = EXCLUDED.include_sub_teams,
+             granted_by = EXCLUDED.granted_by,
+             created_at = NOW(),
+             expires_at = EXCLUDED.expires_at
+         RETURNING *`,
+        [input.userId, input.teamId, includeSubTeams, actorId, expiresAt]
+      );
+      const grant = result.rows[0];
+      await this.auditService.record({
+        actorId,
+        action: 'GRANT_TEAM_ACCESS',
+        entityType: 'TEAM',
+        entityId: input.teamId,
+        details: { grantId: grant.id, userId: input.userId, includeSubTeams, expiresAt }
+      }, client);
+      return this.formatGrant(grant);
+    });
+  }
+
+  /**
+   * Removes a team access grant (HR and admins only).
+   * @param actorId - ID of the user removing the grant.
+   * @param userRole - Role of the user removing the grant.
+   * @param grantId - ID of the grant.
+   * @returns True on success.
+   */
+  async revokeTeamAccess(actorId: string, userRole: string, grantId: string): Promise<boolean> {
+    this.assertCanManageGrants(userRole);
+
+    return withTransaction(this.db, async client => {
+      const result = await client.query(
+        'DELETE FROM team_access_grants WHERE id = $1 RETURNING user_id, team_id',
+        [grantId]
+      );
+      const grant = result.rows[0];
+      if (!grant) {
+        throw new Error('Team access grant not found');
+      }
+      await this.auditService.record({
+        actorId,
+        action: 'REVOKE_TEAM_ACCESS',
+        entityType: 'TEAM',
+        entityId: grant.team_id,
+        details: { grantId, userId: grant.user_id }
+      }, client);
+      return true;
+    });
+  }
+
+  /**
+   * Throws unless the user can manage team access grants.
+   */
+  private assertCanManageGrants(userRole: string): void {
+    assertRole(userRole, 'HR');
+  }
+
+  /**
+   * Converts raw DB row into formatted grant object.
+   * @param grant - Raw team_access_grants DB row.
+   * @returns Formatted grant.
+   */
+  private formatGrant(grant: any) {
+    return {
+      id: grant.id,
+      userId: grant.user_id,
+      teamId: grant.team_id,
+      includeSubTeams: grant.include_sub_teams,
+      grantedById: grant.granted_by,
+      createdAt: grant.created_at,
+      expiresAt: grant.expires_at
+    };
+  }
+}
@@ -0,0 +1,396 @@
+import { Pool, PoolClient } from 'pg';
+import { AuditService } from './AuditService';
+import { assertRole } from './PolicyService';
+import { withTransaction } from '../utils/database';
+import { replaceMentionHandles } from '../utils/mentions';
+
+// Stands in for an erased user's name and for @mentions of them in messages
+const ERASED_NAME = 'Erased user';
+const ERASED_MENTION = '[erased user]';
+
+// Recipients are never notified of these, so they are left out of their export
+const UNDELIVERED_STATUSES = ['SCHEDULED', 'CANCELLED', 'HELD', 'REJECTED'];
+
+// Free text that can mention a user without a recognition_mentions row
+// ([table, column]; JSONB columns are searched and rewritten as JSON text)
+const FREE_TEXT_COLUMNS = [
+  ['recognition_comments', 'body'],
+  ['moderation_decisions', 'message'],
+  ['moderation_decisions', 'matches'],
+  ['audit_log', 'details']
+];
+
+/**
+ * Service class for data-subject requests: exporting everything stored about
+ * a user and erasing a user. Erasure pseudonymizes the user in place, so their
+ * recognitions, points and team keep counting in analytics while nothing
+ * left identifies them.
+ */
+export class PrivacyService {
+  /**
+   * @param db - PostgreSQL connection pool
+   * @param auditService - Records exports and erasures
+   */
+  constructor(private db: Pool, private auditService: AuditService = new AuditService(db)) {}
+
+  /**
+   * Collects a user's personal data into one bundle. Users can export their
+   * own data and admins anyone's. Notifications are delivered in real time
+   * and not stored, so their history is rebuilt from the recognitions and
+   * mentions that triggered them.
+   * @param actorId - ID of the requesting user.
+   * @param actorRole - Role of the requesting user.
+   * @param userId - ID of the user whose data is exported.
+   * @returns Export bundle.
+   */
+  async exportUserData(actorId: string, actorRole: string, userId: string) {
+    if (userId !== actorId) {
+      assertRole(actorRole, 'ADMIN');
+    }
+
+    const user = await this.db.query(
+      `SELECT u.*, t.name AS team_name
+       FROM users u
+       LEFT JOIN teams t ON t.id = u.team_id
+       WHERE u.id = $1 AND NOT u.is_service_account`,
+      [userId]
+    );
+    if (!user.rows[0]) {
+      throw new Error('User not found');
+    }
+
+    const [
+      oidcIdentities,
+      chatIdentities,
+      sent,
+      received,
+      mentions,
+      reactions,
+      comments,
+      points,
+      redemptions,
+      reports,
+      sessions
+    ] = await Promise.all([
+      this.db.query('SELECT issuer, subject, created_at FROM oidc_identities WHERE user_id = $1 ORDER BY created_at', [userId]),
+      this.db.query('SELECT provider, external_id, created_at FROM chat_identities WHERE user_id = $1 ORDER BY created_at', [userId]),
+      // Anonymous recognitions have no sender_id, so they stay anonymous here too
+      this.db.query(
+        `SELECT r.*, ARRAY(
+           SELECT u.name FROM recognition_recipients rr JOIN users u ON u.id = rr.recipient_id
+           WHERE rr.recognition_id = r.id ORDER BY u.name
+         ) AS recipient_names
+         FROM recognitions r
+         WHERE r.sender_id = $1
+         ORDER BY r.created_at`,
+        [userId]
+      ),
+      this.db.query(
+        `SELECT r.*, s.name AS sender_name
+         FROM recognitions r
+         JOIN recognition_recipients rr ON rr.recognition_id = r.id
+         LEFT JOIN users s ON s.id = r.sender_id
+         WHERE rr.recipient_id = $1 AND r.status <> ALL($2)
+         ORDER BY r.created_at`,
+        [userId, UNDELIVERED_STATUSES]
+      ),
+      this.db.query(
+        `SELECT r.id, r.created_at
+         FROM recognition_mentions m
+         JOIN recognitions r ON r.id = m.recognition_id
+         WHERE m.user_id = $1 AND r.status <> ALL($2)
+         ORDER BY r.created_at`,
+        [userId, UNDELIVERED_STATUSES]
+      ),
+      this.db.query('SELECT recognition_id, emoji, created_at FROM recognition_reactions WHERE user_id = $1 ORDER BY created_at', [userId]),
+      this.db.query(
+        `SELECT id, recognition_id, parent_id, body, created_at, updated_at, deleted_at
+         FROM recognition_comments WHERE author_id = $1 ORDER BY created_at`,
+        [userId]
+      ),
+      this.db.query(
+        `SELECT account, entry_type, amount, period_start, recognition_id, redemption_id, created_at
+         FROM points_ledger WHERE user_id = $1 ORDER BY created_at`,
+        [userId]
+      ),
+      this.db.query(
+        `SELECT rd.id, w.title, rd.cost, rd.status, rd.note, rd.created_at, rd.updated_at
+         FROM reward_redemptions rd
+         JOIN rewards w ON w.id = rd.reward_id
+         WHERE rd.user_id = $1
+         ORDER BY rd.created_at`,
+        [userId]
+      ),
+      this.db.query(
+        'SELECT recognition_id, reason, status, created_at FROM recognition_reports WHERE reporter_id = $1 ORDER BY created_at',
+        [userId]
+      ),
+      this.db.query(
+        `SELECT ip_address, user_agent, created_at, last_used_at, revoked_at
+         FROM sessions WHERE user_id = $1 ORDER BY created_at`,
+        [userId]
+      )
+    ]);
+
+    const notifications = [
+      ...received.rows.map(recognition => ({ type: 'RECOGNITION_RECEIVED', recognitionId: recognition.id, at: recognition.created_at })),
+      ...mentions.rows.map(recognition => ({ type: 'MENTIONED', recognitionId: recognition.id, at: recognition.created_at }))
+    ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+    await this.auditService.record({
+      actorId,
+      action: 'EXPORT_USER_DATA',
+      entityType: 'USER',
+      entityId: userId
+    });
+
+    const profile = user.rows[0];
+    return {
+      exportedAt: new Date().toISOString(),
+      profile: {
+        ...this.formatUser(profile),
+        team: profile.team_id ? { id: profile.team_id, name: profile.team_name } : null,
+        hasPassword: Boolean(profile.password_hash)
+      },
+      identities: [
+        ...oidcIdentities.rows.map(row => ({ type: 'OIDC', issuer: row.issuer, subject: row.subject, createdAt: row.created_at })),
+        ...chatIdentities.rows.map(row => ({ type: row.provider, externalId: row.external_id, createdAt: row.created_at }))
+      ],
+      recognitionsSent: sent.rows.map(row => ({
+        ...this.formatRecognition(row),
+        recipients: row.recipient_names
+      })),
+      recognitionsReceived: received.rows.map(row => ({
+        ...this.formatRecognition(row),
+        sender: row.sender_name || null
+      })),
+      reactions: reactions.rows.map(row => ({ recognitionId: row.recognition_id, emoji: row.emoji, createdAt: row.created_at })),
+      comments: comments.rows.map(row => ({
+        id: row.id,
+        recognitionId: row.recognition_id,
+        parentId: row.parent_id,
+        body: row.body,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        deletedAt: row.deleted_at
+      })),
+      notifications,
+      points: points.rows.map(row => ({
+        account: row.account,
+        entryType: row.entry_type,
+        amount: row.amount,
+        periodStart: row.period_start,
+        recognitionId: row.recognition_id,
+        redemptionId: row.redemption_id,
+        createdAt: row.created_at
+      })),
+      redemptions: redemptions.rows.map(row => ({
+        id: row.id,
+        reward: row.title,
+        cost: row.cost,
+        status: row.status,
+        note: row.note,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+      })),
+      reportsFiled: reports.rows.map(row => ({
+        recognitionId: row.recognition_id,
+        reason: row.reason,
+        status: row.status,
+        createdAt: row.created_at
+      })),
+      sessions: sessions.rows.map(row => ({
+        ipAddress: row.ip_address,
+        userAgent: row.user_agent,
+        createdAt: row.created_at,
+        lastUsedAt: row.last_used_at,
+        revokedAt: row.revoked_at
+      }))
+    };
+  }
+
+  /**
+   * Erases a user (admin only). The users row is kept, because recognitions
+   * and the append-only points ledger reference it, but its name and email
+   * are replaced, @mentions and copies of their email are rewritten, and
+   * their sign-in data, linked accounts and audit details are deleted. The user is
+   * deactivated and cannot be reactivated. Their role and team are kept so
+   * analytics counts do not change.
+   * @param adminId - ID of the admin.
+   * @param userRole - Role of the admin.
+   * @param userId - ID of the user.
+   * @returns Erased user.
+   */
+  async eraseUser(adminId: string, userRole: string, userId: string) {
+    assertRole(userRole, 'ADMIN');
+    if (userId === adminId) {
+      throw new Error('You cannot erase your own account');
+    }
+
+    return withTransaction(this.db, async client => {
+      const existing = await client.query(
+        'SELECT * FROM users WHERE id = $1 AND NOT is_service_account FOR UPDATE',
+        [userId]
+      );
+      const user = existing.rows[0];
+      if (!user) {
+        throw new Error('User not found');
+      }
+      if (user.erased_at) {
+        throw new Error('User is already erased');
+      }
+
+      const rewritten = await this.rewriteMentions(client, user);
+      const rewrittenRecords = await this.rewriteFreeText(client, user);
+      const sessions = await client.query('DELETE FROM sessions WHERE user_id = $1 RETURNING id', [userId]);
+      await client.query('DELETE FROM login_codes WHERE user_id = $1', [userId]);
+      await client.query('DELETE FROM login_attempts WHERE LOWER(email) = LOWER($1)', [user.email]);
+      await client.query('DELETE FROM oidc_identities WHERE user_id = $1', [userId]);
+      await client.query('DELETE FROM chat_identities WHERE user_id = $1', [userId]);
+      await client.query('DELETE FROM team_access_grants WHERE user_id = $1', [userId]);
+      await client.query('UPDATE teams SET manager_id = NULL WHERE manager_id = $1', [userId]);
+      // Earlier entries about the user hold their name and email (e.g. CREATE_USER)
+      await client.query(
+        `UPDATE audit_log SET details = '{}' WHERE entity_type = 'USER' AND entity_id = $1`,
+        [userId]
+      );
+
+      const result = await client.query(
+        `UPDATE users
+         SET email = $2, name = $3, password_hash = NULL, external_id = NULL,
+             deactivated_at = COALESCE(deactivated_at, NOW()), erased_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [userId, `erased-${userId}@erased.invalid`, ERASED_NAME]
+      );
+      await this.auditService.record({
+        actorId: adminId,
+        action: 'ERASE_USER',
+        entityType: 'USER',
+        entityId: userId,
+        details: { rewrittenRecognitionCount: rewritten, rewrittenRecordCount: rewrittenRecords, sessionCount: sessions.rows.length }
+      }, client);
+      return this.formatUser(result.rows[0]);
+    });
+  }
+
+  /**
+   * Replaces @mentions of a user (by email or its local part) and their email
+   * in the messages and earlier revisions of recognitions that mention them.
+   * @returns Number of recognitions whose message changed.
+   */
+  private async rewriteMentions(client: PoolClient, user: any): Promise<number> {
+    const handles = [user.email, user.email.split('@')[0]];
+    const recognitions = await client.query(
+      `SELECT r.id, r.message
+       FROM recognitions r
+       JOIN recognition_mentions m ON m.recognition_id = r.id
+       WHERE m.user_id = $1
+       FOR UPDATE OF r`,
+      [user.id]
+    );
+    if (recognitions.rows.length === 0) return 0;
+
+    let rewritten = 0;
+    for (const recognition of recognitions.rows) {
+      const message = this.scrub(recognition.message, handles, user.email);
+      if (message !== recognition.message) {
+        await client.query('UPDATE recognitions SET message = $2 WHERE id = $1', [recognition.id, message]);
+        rewritten++;
+      }
+    }
+
+    const revisions = await client.query(
+      'SELECT id, message FROM recognition_revisions WHERE recognition_id = ANY($1)',
+      [recognitions.rows.map(recognition => recognition.id)]
+    );
+    for (const revision of revisions.rows) {
+      const message = this.scrub(revision.message, handles, user.email);
+      if (message !== revision.message) {
+        await client.query('UPDATE recognition_revisions SET message = $2 WHERE id = $1', [revision.id, message]);
+      }
+    }
+    return rewritten;
+  }
+
+  /**
+   * Replaces @mentions and the email of a user in text that has no resolved
+   * mentions: comments, moderation decisions (the message as submitted and
+   * the matched terms) and audit entry details. The local part only counts
+   * as a mention when no other user shares it, as when mentions are resolved.
+   * @returns Number of rows changed.
+   */
+  private async rewriteFreeText(client: PoolClient, user: any): Promise<number> {
+    const localPart = user.email.split('@')[0].toLowerCase();
+    const shared = await client.query(
+      `SELECT EXISTS (
+         SELECT 1 FROM users WHERE id <> $1 AND LOWER(split_part(email, '@', 1)) = $2
+       ) AS shared`,
+      [user.id, localPart]
+    );
+    const handles = shared.rows[0]?.shared ? [user.email] : [user.email, localPart];
+    const scrub = (text: string) => this.scrub(text, handles, user.email);
+
+    // The email contains the local part, so this finds both kinds of reference
+    let changed = 0;
+    for (const [table, column] of FREE_TEXT_COLUMNS) {
+      const rows = await client.query(
+        `SELECT id, ${column}::text AS value FROM ${table}
+         WHERE strpos(LOWER(${column}::text), $1) > 0
+         FOR UPDATE`,
+        [localPart]
+      );
+      for (const row of rows.rows) {
+        const value = scrub(row.value);
+        if (value !== row.value) {
+          await client.query(`UPDATE ${table} SET ${column} = $2 WHERE id = $1`, [row.id, value]);
+          changed++;
+        }
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Replaces @mentions of the handles and plain copies of the email with the
+   * erased placeholder.
+   */
+  private scrub(text: string, handles: string[], email: string): string {
+    const escaped = email.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return replaceMentionHandles(text, handles, ERASED_MENTION).replace(new RegExp(escaped, 'gi'), ERASED_MENTION);
+  }
+
+  /**
+   * Converts a raw recognition row for the export bundle.
+   */
+  private formatRecognition(recognition: any) {
+    return {
+      id: recognition.id,
+      message: recognition.message,
+      visibility: recognition.visibility,
+      status: recognition.status,
+      points: recognition.points,
+      keywords: recognition.keywords || [],
+      createdAt: recognition.created_at,
+      updatedAt: recognition.updated_at
+    };
+  }
+
+  /**
+   * Converts raw DB row into formatted user object.
+   * @param user - Raw user DB row.
+   * @returns Formatted user object.
+   */
+  private formatUser(user: any) {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      teamId: user.team_id,
+      createdAt: user.created_at,
+      deactivatedAt: user.deactivated_at,
+      erasedAt: user.erased_at
+    };
+  }
+}
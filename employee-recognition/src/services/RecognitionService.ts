@@ -1,97 +1,424 @@
 import { Pool } from 'pg';
 import { PubSub } from 'graphql-subscriptions';
+import { PointsService } from './PointsService';
+import { ModerationContext, ModerationResult, ModerationService } from './ModerationService';
+import { AuditService } from './AuditService';
+import { assertRole, hasRole } from './PolicyService';
+import { Queryable, withTransaction } from '../utils/database';
+import { ConnectionArgs, KeysetOptions, buildKeysetQuery, toConnection } from '../utils/pagination';
+import { extractMentionHandles } from '../utils/mentions';
+import { getEscrowKey, hasEscrowKey, openValue, pseudonymize, sealValue } from '../utils/escrow';
+import { WEEK, findRateLimitViolation, getRecognitionRateLimits } from '../utils/rateLimits';
+import { RateLimitError } from '../utils/errorHandler';
 
 export interface CreateRecognitionInput {
-  recipientId: string;
+  recipientId?: string;
+  recipientIds?: string[];
+  teamId?: string;
+  valueIds?: string[];
+  points?: number;
+  scheduledFor?: Date | string;
   message: string;
   visibility: 'PUBLIC' | 'PRIVATE' | 'ANONYMOUS';
 }
 
-export interface RecognitionFilters {
-  limit?: number;
+export interface UpdateRecognitionInput {
+  id: string;
+  message?: string;
+  visibility?: 'PUBLIC' | 'PRIVATE' | 'ANONYMOUS';
+}
+
+export interface RecognitionFilters extends ConnectionArgs {
   visibility?: string;
 }
 
+export interface RecognitionSearchFilters {
+  senderId?: string;
+  recipientId?: string;
+  teamId?: string;
+  valueId?: string;
+  from?: Date | string;
+  to?: Date | string;
+  limit?: number;
+}
+
+// Upper bound on recipients of a single recognition (including whole-team ones)
+const MAX_RECIPIENTS = 100;
+const MAX_VALUES = 3;
+const MAX_SCHEDULE_DAYS = 365;
+const MAX_MENTIONS = 20;
+// Scheduled recognitions published per scheduler tick
+const PUBLISH_BATCH_SIZE = 100;
+const MAX_JUSTIFICATION_LENGTH = 500;
+
+const MAX_SEARCH_RESULTS = 50;
+const MAX_SEARCH_QUERY_LENGTH = 200;
+// Control characters marking matches in ts_headline output; replaced after HTML escaping
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=10, MaxFragments=2`;
+
+// Feeds are newest first; created_at is compared as text-exact timestamps
+const FEED_ORDER: KeysetOptions = {
+  columns: [
+    { expression: 'r.created_at', cast: 'timestamp' },
+    { expression: 'r.id', cast: 'uuid' }
+  ],
+  direction: 'DESC',
+  maxPageSize: 100
+};
+
 export class RecognitionService {
   constructor(
     private db: Pool,
-    private pubsub: PubSub
+    private pubsub: PubSub,
+    private pointsService: PointsService = new PointsService(db),
+    private moderationService: ModerationService = new ModerationService(db),
+    private auditService: AuditService = new AuditService(db)
   ) {}
 
   /**
-   * Create a new recognition
+   * Create a new recognition. Points are debited from the sender's monthly
+   * allowance in the same transaction as the insert. With scheduledFor the
+   * recognition stays SCHEDULED (invisible, no notifications, points reserved
+   * but not credited) until publishDueRecognitions delivers it. The message
+   * goes through moderation first: it may be rejected, masked, or HELD for
+   * review (like SCHEDULED, but until HR releases it). The real sender of an
+   * ANONYMOUS recognition is kept encrypted in anonymous_sender_escrow.
+   * Per-sender rate limits apply (throws RateLimitError).
    * @param userId ID of the sender
-   * @param input Recognition details including recipient, message, visibility
+   * @param input Recognition details including recipients, message, visibility, points
    * @returns Formatted recognition response object
    */
   async createRecognition(userId: string, input: CreateRecognitionInput) {
     this.validateRecognitionInput(input, userId);
-    const recipient = await this.validateRecipient(input.recipientId);
-    const keywords = this.extractKeywords(input.message);
-    const recognition = await this.insertRecognition(userId, input, keywords);
-    await this.sendNotifications(recognition, recipient);
-    return this.formatRecognitionResponse(recognition, userId, recipient);
+    const scheduledFor = input.scheduledFor ? this.validateScheduledFor(input.scheduledFor) : null;
+    const recipients = await this.resolveRecipients(input, userId);
+    const valueIds = await this.validateValueIds(input.valueIds);
+    const authorId = input.visibility === 'ANONYMOUS' ? null : userId;
+    const moderation = await this.moderateMessage(input.message, 'CREATE', authorId);
+    const held = moderation.action === 'HOLD';
+    const message = moderation.message;
+    const keywords = this.extractKeywords(message);
+    const mentions = await this.resolveMentions(message);
+    const recipientIds = recipients.map(recipient => recipient.id);
+    const recognition = await withTransaction(this.db, async client => {
+      await this.reserveSendSlot(client, userId, recipientIds, input.visibility === 'ANONYMOUS');
+      const inserted = await this.insertRecognition(
+        client, userId, { ...input, message }, keywords, recipients, valueIds, scheduledFor, mentions.map(mention => mention.id), held
+      );
+      if (input.visibility === 'ANONYMOUS') {
+        await this.storeAnonymousSender(client, inserted.id, userId);
+      }
+      if (moderation.action) {
+        await this.moderationService.recordDecision(client, {
+          recognitionId: inserted.id,
+          userId: authorId,
+          context: 'CREATE',
+          message: input.message,
+          result: moderation
+        });
+      }
+      if (inserted.points > 0 && (scheduledFor || held)) {
+        await this.pointsService.reserveRecognitionPoints(
+          client,
+          userId,
+          inserted.id,
+          inserted.points * recipientIds.length
+        );
+      } else if (inserted.points > 0) {
+        await this.pointsService.transferRecognitionPoints(client, userId, inserted.id, inserted.points, recipientIds);
+      }
+      return inserted;
+    });
+    if (!scheduledFor && !held) {
+      await this.sendNotifications(recognition, recipients, mentions);
+    }
+    return { ...this.formatRecognitionResponse(recognition, userId, recipients), mentions };
+  }
+
+  /**
+   * Reveal the real sender of an ANONYMOUS recognition for an abuse
+   * investigation (HR/ADMIN only). The reveal and its justification are written
+   * to the audit log and the recipients are told that a reveal happened.
+   * @param id Recognition ID
+   * @param reviewerId Current user ID
+   * @param userRole Current user role
+   * @param justification Why the sender needs to be known
+   * @returns Reveal details including the sender ID
+   */
+  async revealAnonymousSender(id: string, reviewerId: string, userRole: string, justification: string) {
+    assertRole(userRole, 'HR');
+    const reason = (justification || '').trim();
+    if (!reason) {
+      throw new Error('A justification is required to reveal an anonymous sender');
+    }
+    if (reason.length > MAX_JUSTIFICATION_LENGTH) {
+      throw new Error(`Justification cannot exceed ${MAX_JUSTIFICATION_LENGTH} characters`);
+    }
+    const recognition = await this.getRecognitionRow(this.db, id);
+    if (recognition.visibility !== 'ANONYMOUS') {
+      throw new Error('Recognition is not anonymous');
+    }
+    const recipients = await this.loadRecipients(this.db, id);
+    if (recipients.some(recipient => recipient.id === reviewerId)) {
+      throw new Error('You cannot reveal the sender of a recognition you received');
+    }
+    const senderId = await this.openAnonymousSender(this.db, id);
+    // The sender is only returned once the reveal is on record
+    const entry = await this.auditService.record({
+      actorId: reviewerId,
+      action: 'REVEAL_ANONYMOUS_SENDER',
+      entityType: 'RECOGNITION',
+      entityId: id,
+      details: { justification: reason }
+    });
+    await this.publishSenderRevealed(id, recipients, entry.createdAt);
+    return {
+      recognitionId: id,
+      senderId,
+      revealedById: reviewerId,
+      justification: reason,
+      revealedAt: entry.createdAt
+    };
   }
 
   /**
-   * Fetch recognitions viewable by current user
+   * List the sender's recognitions that are waiting to be delivered
    * @param userId Current user ID
-   * @param filters Optional filters (limit, visibility)
-   * @returns Array of formatted recognitions
+   * @returns Array of formatted recognitions, soonest first
    */
-  async getRecognitions(userId: string, filters: RecognitionFilters = {}) {
-    const { limit = 20, visibility } = filters;
-    let query = `
+  async getScheduledRecognitions(userId: string) {
+    const query = `
       SELECT r.*, 
              s.name as sender_name, s.email as sender_email,
              rec.name as recipient_name, rec.email as recipient_email
       FROM recognitions r
       LEFT JOIN users s ON r.sender_id = s.id
       JOIN users rec ON r.recipient_id = rec.id
-      WHERE (r.visibility = 'PUBLIC' OR r.sender_id = $1 OR r.recipient_id = $1)
+      WHERE r.sender_id = $1 AND r.status = 'SCHEDULED'
+      ORDER BY r.scheduled_for ASC
     `;
-    const params = [userId];
-    if (visibility) {
-      query += ' AND r.visibility = $2';
-      params.push(visibility);
-    }
-    query += ' ORDER BY r.created_at DESC LIMIT $' + (params.length + 1);
-    params.push(limit.toString());
-    const result = await this.db.query(query, params);
+    const result = await this.db.query(query, [userId]);
     return result.rows.map(row => this.formatRecognitionRow(row));
   }
 
   /**
-   * Get recognitions sent or received by user
+   * Move a scheduled recognition to a new delivery time (sender only)
+   * @param id Recognition ID
    * @param userId Current user ID
-   * @param type Type of recognitions: 'sent' | 'received'
-   * @param limit Maximum number of results
-   * @returns Array of formatted recognitions
+   * @param scheduledFor New delivery time
+   * @returns Updated formatted recognition
    */
-  async getMyRecognitions(userId: string, type: string = 'received', limit: number = 20) {
-    const field = type === 'sent' ? 'sender_id' : 'recipient_id';
+  async rescheduleRecognition(id: string, userId: string, scheduledFor: Date | string) {
+    const deliverAt = this.validateScheduledFor(scheduledFor);
+    await this.getOwnScheduledRecognition(this.db, id, userId);
+    // Status guard so a recognition published in the meantime is not touched
     const query = `
+      WITH updated AS (
+        UPDATE recognitions
+        SET scheduled_for = $3, updated_at = NOW()
+        WHERE id = $1 AND sender_id = $2 AND status = 'SCHEDULED'
+        RETURNING *
+      )
       SELECT r.*, 
              s.name as sender_name, s.email as sender_email,
              rec.name as recipient_name, rec.email as recipient_email
+      FROM updated r
+      LEFT JOIN users s ON r.sender_id = s.id
+      JOIN users rec ON r.recipient_id = rec.id
+    `;
+    const result = await this.db.query(query, [id, userId, deliverAt]);
+    if (!result.rows[0]) {
+      throw new Error('Scheduled recognition not found');
+    }
+    return this.formatRecognitionRow(result.rows[0]);
+  }
+
+  /**
+   * Cancel a scheduled recognition before delivery (sender only). Reserved
+   * points are refunded to the allowance period they were taken from.
+   * @param id Recognition ID
+   * @param userId Current user ID
+   * @returns true if cancelled successfully
+   */
+  async cancelScheduledRecognition(id: string, userId: string) {
+    await withTransaction(this.db, async client => {
+      const recognition = await this.getOwnScheduledRecognition(client, id, userId, true);
+      await client.query(
+        `UPDATE recognitions SET status = 'CANCELLED', updated_at = NOW() WHERE id = $1`,
+        [id]
+      );
+      if (recognition.points > 0) {
+        await this.pointsService.refundRecognitionPoints(client, id);
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Publish scheduled recognitions whose delivery time has passed: mark them
+   * ACTIVE with created_at set to the requested delivery time (even when the
+   * scheduler runs late), credit reserved points and send the usual
+   * notifications. Rows are claimed with SKIP LOCKED so several
+   * server instances can run the scheduler side by side.
+   * @returns Number of recognitions published
+   */
+  async publishDueRecognitions(): Promise<number> {
+    const published = await withTransaction(this.db, async client => {
+      const result = await client.query(
+        `UPDATE recognitions
+         SET status = 'ACTIVE', created_at = scheduled_for
+         WHERE id IN (
+           SELECT id FROM recognitions
+           WHERE status = 'SCHEDULED' AND scheduled_for <= NOW()
+           ORDER BY scheduled_for ASC
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`,
+        [PUBLISH_BATCH_SIZE]
+      );
+      const due = [];
+      for (const recognition of result.rows) {
+        const recipients = await this.loadRecipients(client, recognition.id);
+        if (recognition.points > 0) {
+          await this.pointsService.creditRecognitionPoints(
+            client,
+            recognition.id,
+            recognition.points,
+            recipients.map(recipient => recipient.id)
+          );
+        }
+        const mentions = await this.loadMentions(client, recognition.id);
+        due.push({ recognition, recipients, mentions });
+      }
+      return due;
+    });
+    for (const { recognition, recipients, mentions } of published) {
+      await this.sendNotifications(recognition, recipients, mentions);
+    }
+    return published.length;
+  }
+
+  /**
+   * Delete send log entries that no rate limit looks at any more
+   * @returns Number of entries deleted
+   */
+  async pruneSendLog(): Promise<number> {
+    const result = await this.db.query(
+      'DELETE FROM recognition_send_log WHERE sent_at <= NOW() - make_interval(secs => $1)',
+      [WEEK]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Fetch a page of recognitions viewable by current user, newest first.
+   * HR/ADMIN also see recognitions hidden by a moderator.
+   * @param userId Current user ID
+   * @param filters Optional visibility filter and connection arguments
+   * @param userRole Current user role
+   * @returns Relay connection of formatted recognitions
+   */
+  async getRecognitions(userId: string, filters: RecognitionFilters = {}, userRole?: string) {
+    const params: any[] = [userId];
+    const conditions = [
+      this.statusVisibleTo(userRole),
+      this.visibleTo('$1')
+    ];
+    if (filters.visibility) {
+      params.push(filters.visibility);
+      conditions.push(`r.visibility = $${params.length}`);
+    }
+    return this.getRecognitionPage(conditions, params, filters);
+  }
+
+  /**
+   * Get a page of recognitions sent or received by user, newest first.
+   * A recognition with several recipients is returned to each of them.
+   * @param userId Current user ID
+   * @param type Type of recognitions: 'sent' | 'received'
+   * @param args Connection arguments
+   * @returns Relay connection of formatted recognitions
+   */
+  async getMyRecognitions(userId: string, type: string = 'received', args: ConnectionArgs = {}) {
+    const condition = type === 'sent'
+      ? 'r.sender_id = $1'
+      : 'r.id IN (SELECT recognition_id FROM recognition_recipients WHERE recipient_id = $1)';
+    return this.getRecognitionPage([condition, `r.status = 'ACTIVE'`], [userId], args);
+  }
+
+  /**
+   * Full-text search over recognitions the user can see, best matches first.
+   * Uses the same visibility rules as getRecognitions, so HR/ADMIN also find
+   * HIDDEN recognitions.
+   * @param userId Current user ID
+   * @param searchQuery Free text; supports "quoted phrases", OR and -exclusions
+   * @param filters Optional sender, recipient, team, value and date range filters
+   * @param userRole Current user role
+   * @returns Array of { recognition, rank, snippet } with matches wrapped in <mark>
+   */
+  async searchRecognitions(userId: string, searchQuery: string, filters: RecognitionSearchFilters = {}, userRole?: string) {
+    const text = (searchQuery || '').trim();
+    if (!text) {
+      throw new Error('Search query is required');
+    }
+    if (text.length > MAX_SEARCH_QUERY_LENGTH) {
+      throw new Error(`Search query cannot exceed ${MAX_SEARCH_QUERY_LENGTH} characters`);
+    }
+    const params: any[] = [userId, text, HEADLINE_OPTIONS];
+    const conditions = [
+      this.statusVisibleTo(userRole),
+      this.visibleTo('$1'),
+      'r.search_vector @@ q.query'
+    ];
+    const addFilter = (value: any, clause: (param: string) => string) => {
+      if (value === undefined || value === null || value === '') return;
+      params.push(value);
+      conditions.push(clause(`$${params.length}`));
+    };
+    addFilter(filters.senderId, p => `r.sender_id = ${p}`);
+    addFilter(filters.recipientId, p => `r.id IN (SELECT recognition_id FROM recognition_recipients WHERE recipient_id = ${p})`);
+    addFilter(filters.teamId, p => `(r.team_id = ${p} OR r.id IN (
+        SELECT rr.recognition_id FROM recognition_recipients rr
+        JOIN users tu ON rr.recipient_id = tu.id
+        WHERE tu.team_id = ${p}))`);
+    addFilter(filters.valueId, p => `r.id IN (SELECT recognition_id FROM recognition_values WHERE value_id = ${p})`);
+    addFilter(this.parseDate(filters.from, 'from'), p => `r.created_at >= ${p}`);
+    addFilter(this.parseDate(filters.to, 'to'), p => `r.created_at < ${p}`);
+    params.push(Math.min(Math.max(filters.limit || 20, 1), MAX_SEARCH_RESULTS));
+    const query = `
+      SELECT r.*,
+             s.name as sender_name, s.email as sender_email,
+             rec.name as recipient_name, rec.email as recipient_email,
+             ts_rank(r.search_vector, q.query) as rank,
+             ts_headline('english', r.message, q.query, $3) as snippet
       FROM recognitions r
+      CROSS JOIN websearch_to_tsquery('english', $2) AS q(query)
       LEFT JOIN users s ON r.sender_id = s.id
       JOIN users rec ON r.recipient_id = rec.id
-      WHERE r.${field} = $1
-      ORDER BY r.created_at DESC
-      LIMIT $2
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY rank DESC, r.created_at DESC, r.id DESC
+      LIMIT $${params.length}
     `;
-    const result = await this.db.query(query, [userId, limit]);
-    return result.rows.map(row => this.formatRecognitionRow(row));
+    const result = await this.db.query(query, params);
+    return result.rows.map(row => ({
+      recognition: this.formatRecognitionRow(row),
+      rank: parseFloat(row.rank),
+      snippet: this.formatSnippet(row.snippet)
+    }));
   }
 
   /**
-   * Fetch a single recognition by ID if viewable by user
+   * Fetch a single recognition by ID if viewable by user.
+   * HR/ADMIN can also fetch recognitions hidden by a moderator.
    * @param id Recognition ID
    * @param userId Current user ID
+   * @param userRole Current user role
    * @returns Formatted recognition object
    */
-  async getRecognitionById(id: string, userId: string) {
+  async getRecognitionById(id: string, userId: string, userRole?: string) {
     const query = `
       SELECT r.*, 
              s.name as sender_name, s.email as sender_email,
@@ -100,7 +427,8 @@ export class RecognitionService {
       LEFT JOIN users s ON r.sender_id = s.id
       JOIN users rec ON r.recipient_id = rec.id
       WHERE r.id = $1
-        AND (r.visibility = 'PUBLIC' OR r.sender_id = $2 OR r.recipient_id = $2)
+        AND ${this.statusVisibleTo(userRole)}
+        AND ${this.visibleTo('$2')}
     `;
     const result = await this.db.query(query, [id, userId]);
     if (!result.rows[0]) {
@@ -110,12 +438,34 @@ export class RecognitionService {
   }
 
   /**
-   * Update a recognition (only by sender)
+   * Whether a recognition is currently viewable by a user, with the same rules
+   * as getRecognitionById. Used to filter live updates, since a recognition
+   * can turn private, hidden or deleted after a client subscribed to it.
+   * @param id Recognition ID
+   * @param userId Current user ID
+   * @param userRole Current user role
+   * @returns True if the user can see the recognition
+   */
+  async canViewRecognition(id: string, userId: string, userRole?: string): Promise<boolean> {
+    const result = await this.db.query(
+      `SELECT 1 FROM recognitions r
+       WHERE r.id = $1
+         AND ${this.statusVisibleTo(userRole)}
+         AND ${this.visibleTo('$2')}`,
+      [id, userId]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Update a recognition (only by sender). The previous message, visibility
+   * and keywords are snapshotted into recognition_revisions in the same statement.
+   * A new message is moderated; a HOLD outcome hides the recognition until reviewed.
    * @param userId Current user ID
    * @param input Fields to update (must include recognition ID)
    * @returns Updated formatted recognition
    */
-  async updateRecognition(userId: string, input: any) {
+  async updateRecognition(userId: string, input: UpdateRecognitionInput) {
     const existingRecognition = await this.db.query(
       'SELECT * FROM recognitions WHERE id = $1',
       [input.id]
@@ -124,78 +474,434 @@ export class RecognitionService {
       throw new Error('Recognition not found');
     }
     const recognition = existingRecognition.rows[0];
+    if (recognition.status !== 'ACTIVE') {
+      throw new Error('Recognition not found');
+    }
     if (recognition.sender_id !== userId) {
       throw new Error('You can only update your own recognitions');
     }
-    if (input.message) {
+    const changes: Record<string, string> = {};
+    if (input.message !== undefined) {
       this.validateMessage(input.message);
-      input.keywords = JSON.stringify(this.extractKeywords(input.message));
-    }
-    const updateFields: string[] = [];
-    const values: any[] = [];
-    let paramIndex = 1;
-    ['message', 'visibility', 'keywords'].forEach(field => {
-      if (input[field] !== undefined) {
-        updateFields.push(`${field} = $${paramIndex}`);
-        values.push(input[field]);
-        paramIndex++;
+    }
+    if (input.visibility !== undefined) {
+      this.validateVisibility(input.visibility);
+      if (input.visibility === 'ANONYMOUS') {
+        throw new Error('An existing recognition cannot be made anonymous');
       }
-    });
-    if (updateFields.length === 0) {
+      changes.visibility = input.visibility;
+    }
+    let moderation: ModerationResult | null = null;
+    if (input.message !== undefined) {
+      moderation = await this.moderateMessage(input.message, 'UPDATE', userId, input.id);
+      changes.message = moderation.message.trim();
+      changes.keywords = JSON.stringify(this.extractKeywords(moderation.message));
+      if (moderation.action === 'HOLD') {
+        changes.status = 'HELD';
+      }
+    }
+    const fields = Object.keys(changes);
+    if (fields.length === 0) {
       throw new Error('No fields to update');
     }
+    const values: any[] = [input.id, userId];
+    const updateFields = fields.map(field => {
+      values.push(changes[field]);
+      return `${field} = $${values.length}`;
+    });
     const query = `
+      WITH revision AS (
+        INSERT INTO recognition_revisions (recognition_id, message, visibility, keywords, edited_by)
+        SELECT id, message, visibility, keywords, $2
+        FROM recognitions
+        WHERE id = $1
+      )
       UPDATE recognitions 
       SET ${updateFields.join(', ')}, updated_at = NOW()
-      WHERE id = $${paramIndex}
-      RETURNING *
+      WHERE id = $1
+      RETURNING id
     `;
-    values.push(input.id);
-    const result = await this.db.query(query, values);
-    return this.formatRecognitionRow(result.rows[0]);
+    await withTransaction(this.db, async client => {
+      await client.query(query, values);
+      if (moderation?.action) {
+        await this.moderationService.recordDecision(client, {
+          recognitionId: input.id,
+          userId,
+          context: 'UPDATE',
+          message: input.message!,
+          result: moderation
+        });
+      }
+    });
+    const held = changes.status === 'HELD';
+    if (changes.message !== undefined) {
+      await this.syncMentions(input.id, changes.message, !held);
+    }
+    if (held) {
+      // Held recognitions are hidden from getRecognitionById until reviewed
+      return this.formatRecognitionRow(await this.getRecognitionRow(this.db, input.id));
+    }
+    return this.getRecognitionById(input.id, userId);
+  }
+
+  /**
+   * List recognitions held for moderation review, oldest first (HR/ADMIN only)
+   * @param userRole Current user role
+   * @returns Array of formatted recognitions
+   */
+  async getHeldRecognitions(userRole: string) {
+    assertRole(userRole, 'HR');
+    const query = `
+      SELECT r.*, 
+             s.name as sender_name, s.email as sender_email,
+             rec.name as recipient_name, rec.email as recipient_email
+      FROM recognitions r
+      LEFT JOIN users s ON r.sender_id = s.id
+      JOIN users rec ON r.recipient_id = rec.id
+      WHERE r.status = 'HELD'
+      ORDER BY COALESCE(r.updated_at, r.created_at) ASC
+    `;
+    const result = await this.db.query(query);
+    return result.rows.map(row => this.formatRecognitionRow(row));
+  }
+
+  /**
+   * Fetch any recognition regardless of status or visibility, for moderation
+   * views (HR/ADMIN only)
+   * @param id Recognition ID
+   * @param userRole Current user role
+   * @returns Formatted recognition object
+   */
+  async getRecognitionForReview(id: string, userRole: string) {
+    assertRole(userRole, 'HR');
+    return this.formatRecognitionRow(await this.getRecognitionRow(this.db, id));
+  }
+
+  /**
+   * Release a held recognition (HR/ADMIN only, not their own). A held new
+   * recognition is delivered now, or becomes SCHEDULED if its delivery time is
+   * still ahead; a held edit simply becomes visible again.
+   * @param id Recognition ID
+   * @param reviewerId Current user ID
+   * @param userRole Current user role
+   * @returns Released formatted recognition
+   */
+  async releaseHeldRecognition(id: string, reviewerId: string, userRole: string) {
+    assertRole(userRole, 'HR');
+    const released = await withTransaction(this.db, async client => {
+      const hold = await this.getHoldForReview(client, id, reviewerId);
+      const result = hold.context === 'UPDATE'
+        ? await client.query(
+          `UPDATE recognitions SET status = 'ACTIVE', updated_at = NOW() WHERE id = $1 RETURNING *`,
+          [id]
+        )
+        : await client.query(
+          `UPDATE recognitions
+           SET status = CASE WHEN scheduled_for > NOW() THEN 'SCHEDULED'::recognition_status ELSE 'ACTIVE' END,
+               created_at = CASE WHEN scheduled_for > NOW() THEN created_at ELSE NOW() END
+           WHERE id = $1
+           RETURNING *`,
+          [id]
+        );
+      const recognition = result.rows[0];
+      await this.moderationService.recordReview(client, hold.id, reviewerId, 'RELEASED');
+      await this.moderationService.logAction(client, {
+        recognitionId: id,
+        moderatorId: reviewerId,
+        action: 'RELEASE',
+        previousStatus: 'HELD',
+        newStatus: recognition.status
+      });
+      if (hold.context === 'UPDATE' || recognition.status !== 'ACTIVE') {
+        return null;
+      }
+      const recipients = await this.loadRecipients(client, id);
+      if (recognition.points > 0) {
+        await this.pointsService.creditRecognitionPoints(
+          client,
+          id,
+          recognition.points,
+          recipients.map(recipient => recipient.id)
+        );
+      }
+      const mentions = await this.loadMentions(client, id);
+      return { recognition, recipients, mentions };
+    });
+    if (released) {
+      await this.sendNotifications(released.recognition, released.recipients, released.mentions);
+    }
+    return this.formatRecognitionRow(await this.getRecognitionRow(this.db, id));
   }
 
   /**
-   * Soft delete a recognition by marking visibility as DELETED
+   * Reject a held recognition (HR/ADMIN only, not their own). A held new
+   * recognition becomes REJECTED and its reserved points are refunded; a held
+   * edit is rolled back to the content from before the edit.
    * @param id Recognition ID
+   * @param reviewerId Current user ID
+   * @param userRole Current user role
+   * @param reason Why the recognition was rejected (recorded with the decision)
+   * @returns true if rejected successfully
+   */
+  async rejectHeldRecognition(id: string, reviewerId: string, userRole: string, reason: string) {
+    assertRole(userRole, 'HR');
+    if (!reason || reason.trim().length === 0) {
+      throw new Error('A reason is required to reject a recognition');
+    }
+    const restoredMessage = await withTransaction(this.db, async client => {
+      const hold = await this.getHoldForReview(client, id, reviewerId);
+      await this.moderationService.recordReview(client, hold.id, reviewerId, 'REJECTED', reason.trim());
+      await this.moderationService.logAction(client, {
+        recognitionId: id,
+        moderatorId: reviewerId,
+        action: 'REJECT',
+        previousStatus: 'HELD',
+        newStatus: hold.context === 'CREATE' ? 'REJECTED' : 'ACTIVE',
+        note: reason.trim()
+      });
+      if (hold.context === 'CREATE') {
+        const result = await client.query(
+          `UPDATE recognitions SET status = 'REJECTED', updated_at = NOW() WHERE id = $1 RETURNING points`,
+          [id]
+        );
+        if (result.rows[0].points > 0) {
+          await this.pointsService.refundRecognitionPoints(client, id);
+        }
+        return null;
+      }
+      const result = await client.query(
+        `UPDATE recognitions r
+         SET message = rv.message, visibility = rv.visibility, keywords = rv.keywords,
+             status = 'ACTIVE', updated_at = NOW()
+         FROM (
+           SELECT message, visibility, keywords FROM recognition_revisions
+           WHERE recognition_id = $1
+           ORDER BY created_at DESC
+           LIMIT 1
+         ) rv
+         WHERE r.id = $1
+         RETURNING r.message`,
+        [id]
+      );
+      return result.rows[0].message as string;
+    });
+    if (restoredMessage !== null) {
+      await this.syncMentions(id, restoredMessage, false);
+    }
+    return true;
+  }
+
+  /**
+   * List earlier versions of a recognition, newest first.
+   * Visible to the sender, the recipient and HR/ADMIN.
+   * @param recognitionId Recognition ID
    * @param userId Current user ID
+   * @param userRole Current user role
+   * @param nullIfForbidden Return null instead of throwing for other users (feeds select the field on every item)
+   * @returns Array of formatted revisions, or null when hidden
+   */
+  async getRecognitionRevisions(recognitionId: string, userId: string, userRole: string, nullIfForbidden = false) {
+    const existingRecognition = await this.db.query(
+      `SELECT sender_id,
+              EXISTS (
+                SELECT 1 FROM recognition_recipients
+                WHERE recognition_id = $1 AND recipient_id = $2
+              ) as is_recipient
+       FROM recognitions WHERE id = $1`,
+      [recognitionId, userId]
+    );
+    const recognition = existingRecognition.rows[0];
+    if (!recognition) {
+      throw new Error('Recognition not found');
+    }
+    const isParticipant = recognition.sender_id === userId || recognition.is_recipient;
+    if (!isParticipant && !hasRole(userRole, 'HR')) {
+      if (nullIfForbidden) return null;
+      throw new Error('You do not have permission to view the revision history');
+    }
+    const result = await this.db.query(
+      `SELECT rv.*, e.name as editor_name, e.email as editor_email
+       FROM recognition_revisions rv
+       LEFT JOIN users e ON rv.edited_by = e.id
+       WHERE rv.recognition_id = $1
+       ORDER BY rv.created_at DESC`,
+      [recognitionId]
+    );
+    return result.rows.map(row => ({
+      id: row.id,
+      message: row.message,
+      visibility: row.visibility,
+      keywords: this.parseKeywords(row.keywords),
+      createdAt: row.created_at,
+      editedBy: row.edited_by ? {
+        id: row.edited_by,
+        name: row.editor_name,
+        email: row.editor_email
+      } : null
+    }));
+  }
+
+  /**
+   * List users @mentioned in a recognition
+   * @param recognitionId Recognition ID
+   * @returns Array of mentioned users, ordered by name
+   */
+  async getRecognitionMentions(recognitionId: string) {
+    return this.loadMentions(this.db, recognitionId);
+  }
+
+  /**
+   * Soft delete a recognition (sender, or HR/ADMIN for any recognition).
+   * Senders cannot delete a recognition a moderator has hidden, since they
+   * could restore it as ACTIVE afterwards.
+   * @param id Recognition ID
+   * @param userId Current user ID
+   * @param userRole Current user role
    * @returns true if deleted successfully
    */
-  async deleteRecognition(id: string, userId: string) {
+  async deleteRecognition(id: string, userId: string, userRole: string) {
     const existingRecognition = await this.db.query(
       'SELECT * FROM recognitions WHERE id = $1',
       [id]
     );
-    if (!existingRecognition.rows[0]) {
+    const recognition = existingRecognition.rows[0];
+    if (!recognition || !['ACTIVE', 'HIDDEN'].includes(recognition.status)) {
       throw new Error('Recognition not found');
     }
-    const recognition = existingRecognition.rows[0];
-    if (recognition.sender_id !== userId) {
+    if (recognition.sender_id !== userId && !hasRole(userRole, 'HR')) {
       throw new Error('You can only delete your own recognitions');
     }
+    if (recognition.status === 'HIDDEN' && recognition.sender_id === userId) {
+      throw new Error('Hidden recognitions can only be removed by a moderator');
+    }
     await this.db.query(
-      'UPDATE recognitions SET visibility = $1 WHERE id = $2',
-      ['DELETED', id]
+      `UPDATE recognitions
+       SET status = 'DELETED', deleted_at = NOW(), deleted_by = $2
+       WHERE id = $1`,
+      [id, userId]
     );
+    if (recognition.sender_id !== userId) {
+      await this.moderationService.logAction(this.db, {
+        recognitionId: id,
+        moderatorId: userId,
+        action: 'REMOVE',
+        previousStatus: recognition.status,
+        newStatus: 'DELETED'
+      });
+    }
     return true;
   }
 
+  /**
+   * Restore a soft-deleted recognition. HR/ADMIN can restore any recognition;
+   * the sender can only restore one they deleted themselves.
+   * @param id Recognition ID
+   * @param userId Current user ID
+   * @param userRole Current user role
+   * @returns Restored formatted recognition
+   */
+  async restoreRecognition(id: string, userId: string, userRole: string) {
+    const existingRecognition = await this.db.query(
+      'SELECT * FROM recognitions WHERE id = $1',
+      [id]
+    );
+    const recognition = existingRecognition.rows[0];
+    if (!recognition || recognition.status !== 'DELETED') {
+      throw new Error('Deleted recognition not found');
+    }
+    const isOwnDeletion = recognition.sender_id === userId && recognition.deleted_by === userId;
+    if (!isOwnDeletion && !hasRole(userRole, 'HR')) {
+      throw new Error('You can only restore recognitions you deleted');
+    }
+    await this.db.query(
+      `UPDATE recognitions
+       SET status = 'ACTIVE', deleted_at = NULL, deleted_by = NULL
+       WHERE id = $1`,
+      [id]
+    );
+    if (!isOwnDeletion) {
+      await this.moderationService.logAction(this.db, {
+        recognitionId: id,
+        moderatorId: userId,
+        action: 'RESTORE',
+        previousStatus: 'DELETED',
+        newStatus: 'ACTIVE'
+      });
+    }
+    const result = await this.db.query(`
+      SELECT r.*, 
+             s.name as sender_name, s.email as sender_email,
+             rec.name as recipient_name, rec.email as recipient_email
+      FROM recognitions r
+      LEFT JOIN users s ON r.sender_id = s.id
+      JOIN users rec ON r.recipient_id = rec.id
+      WHERE r.id = $1
+    `, [id]);
+    return this.formatRecognitionRow(result.rows[0]);
+  }
+
+  /**
+   * List soft-deleted recognitions for the admin trash view (HR/ADMIN only)
+   * @param userRole Current user role
+   * @param limit Maximum number of results
+   * @returns Array of formatted recognitions, most recently deleted first
+   */
+  async getDeletedRecognitions(userRole: string, limit: number = 20) {
+    assertRole(userRole, 'HR');
+    const query = `
+      SELECT r.*, 
+             s.name as sender_name, s.email as sender_email,
+             rec.name as recipient_name, rec.email as recipient_email,
+             d.name as deleted_by_name, d.email as deleted_by_email
+      FROM recognitions r
+      LEFT JOIN users s ON r.sender_id = s.id
+      JOIN users rec ON r.recipient_id = rec.id
+      LEFT JOIN users d ON r.deleted_by = d.id
+      WHERE r.status = 'DELETED'
+      ORDER BY r.deleted_at DESC
+      LIMIT $1
+    `;
+    const result = await this.db.query(query, [limit]);
+    return result.rows.map(row => ({
+      ...this.formatRecognitionRow(row),
+      deletedBy: row.deleted_by ? {
+        id: row.deleted_by,
+        name: row.deleted_by_name,
+        email: row.deleted_by_email
+      } : null
+    }));
+  }
+
+  /**
+   * List every recipient of a recognition, primary recipient first
+   * @param recognitionId Recognition ID
+   * @returns Array of recipient users
+   */
+  async getRecognitionRecipients(recognitionId: string) {
+    return this.loadRecipients(this.db, recognitionId);
+  }
+
   // Private helper methods
   /**
-   * Validate overall recognition input including message, visibility, and recipient ID
+   * Validate overall recognition input including message, visibility, and recipients
    * @param input Recognition input object
    * @param userId ID of the sender (used to check self-recognition)
    */
   private validateRecognitionInput(input: CreateRecognitionInput, userId: string): void {
     this.validateMessage(input.message);
     this.validateVisibility(input.visibility);
-    this.validateRecipientSenderID(input.recipientId, userId);
+    this.validateRecipientSenderIDs(this.collectRecipientIds(input), input.teamId, userId);
+    this.validatePoints(input.points, input.visibility);
+    if (input.scheduledFor && input.visibility === 'ANONYMOUS') {
+      // Anonymous recognitions have no sender to manage the schedule
+      throw new Error('Anonymous recognitions cannot be scheduled');
+    }
   }
 
   /**
    * Validate recognition message content
    * @param message The message to validate
-   * @throws Error if message is empty, too long, or contains blocked words
+   * @throws Error if message is empty or too long (content rules live in ModerationService)
    */
   private validateMessage(message: string): void {
     if (!message || message.trim().length === 0) {
@@ -204,15 +910,95 @@ export class RecognitionService {
     if (message.length > 500) {
       throw new Error('Message cannot exceed 500 characters');
     }
-    if (message.toLowerCase().includes('spam')) {
+  }
+
+  /**
+   * Run a message through the moderation rules. Rejections are recorded and
+   * thrown here; other outcomes are recorded by the caller together with the write.
+   * @param message Message as submitted
+   * @param context Whether the message is for a new recognition or an edit
+   * @param authorId Author to record (null for anonymous recognitions)
+   * @param recognitionId Recognition being edited, if any
+   * @returns Moderation result with the (possibly masked) message
+   * @throws Error if a REJECT rule matches
+   */
+  private async moderateMessage(
+    message: string,
+    context: ModerationContext,
+    authorId: string | null,
+    recognitionId: string | null = null
+  ): Promise<ModerationResult> {
+    const result = await this.moderationService.evaluate(message);
+    if (result.action === 'REJECT') {
+      await this.moderationService.recordDecision(this.db, {
+        recognitionId,
+        userId: authorId,
+        context,
+        message,
+        result
+      });
       throw new Error('Message contains inappropriate content');
     }
-    const blockedWords = ['offensive', 'inappropriate', 'hate'];
-    const lowerMessage = message.toLowerCase();
-    const hasBlockedWord = blockedWords.some(word => lowerMessage.includes(word));
-    if (hasBlockedWord) {
-      throw new Error('Message contains inappropriate content');
+    return result;
+  }
+
+  /**
+   * SQL condition on r.status for feeds and lookups: only ACTIVE recognitions,
+   * plus HIDDEN ones for HR/ADMIN
+   * @param userRole Current user role
+   * @returns SQL condition
+   */
+  private statusVisibleTo(userRole?: string): string {
+    return hasRole(userRole, 'HR')
+      ? `r.status IN ('ACTIVE', 'HIDDEN')`
+      : `r.status = 'ACTIVE'`;
+  }
+
+  /**
+   * Lock a held recognition and find the HOLD decision under review
+   * @param client Transaction client
+   * @param id Recognition ID
+   * @param reviewerId Current user ID
+   * @returns The pending HOLD decision
+   */
+  private async getHoldForReview(client: Queryable, id: string, reviewerId: string) {
+    const result = await client.query('SELECT * FROM recognitions WHERE id = $1 FOR UPDATE', [id]);
+    const recognition = result.rows[0];
+    if (!recognition || recognition.status !== 'HELD') {
+      throw new Error('Held recognition not found');
+    }
+    if (await this.isSender(client, recognition, reviewerId)) {
+      throw new Error('You cannot review your own recognition');
+    }
+    const hold = await this.moderationService.getPendingHold(client, id);
+    if (!hold) {
+      throw new Error('Held recognition not found');
     }
+    return hold;
+  }
+
+  /**
+   * Load a recognition with sender and primary recipient names, ignoring
+   * status and visibility
+   * @param client Pool or transaction client
+   * @param id Recognition ID
+   * @returns Raw recognition row
+   */
+  private async getRecognitionRow(client: Queryable, id: string) {
+    const result = await client.query(
+      `SELECT r.*, 
+              s.name as sender_name, s.email as sender_email,
+              rec.name as recipient_name, rec.email as recipient_email
+       FROM recognitions r
+       LEFT JOIN users s ON r.sender_id = s.id
+       JOIN users rec ON r.recipient_id = rec.id
+       WHERE r.id = $1`,
+      [id]
+    );
+    if (!result.rows[0]) {
+      throw new Error('Recognition not found');
+    }
+    return result.rows[0];
   }
 
   /**
@@ -228,33 +1014,342 @@ export class RecognitionService {
   }
 
   /**
-   * Ensure recipient ID is not the same as sender ID
-   * @param recipientId Target user ID to receive the recognition
+   * Validate a requested delivery time
+   * @param scheduledFor Delivery time from the input
+   * @returns Parsed delivery time
+   * @throws Error if the time is invalid, not in the future, or too far ahead
+   */
+  private validateScheduledFor(scheduledFor: Date | string): Date {
+    const deliverAt = new Date(scheduledFor);
+    if (isNaN(deliverAt.getTime())) {
+      throw new Error('Invalid scheduled time');
+    }
+    if (deliverAt.getTime() <= Date.now()) {
+      throw new Error('Scheduled time must be in the future');
+    }
+    if (deliverAt.getTime() > Date.now() + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+      throw new Error(`Recognitions cannot be scheduled more than ${MAX_SCHEDULE_DAYS} days ahead`);
+    }
+    return deliverAt;
+  }
+
+  /**
+   * Validate the points attached to a recognition
+   * @param points Points per recipient (optional)
+   * @param visibility Visibility of the recognition
+   * @throws Error if points are not a non-negative integer or the recognition is anonymous
+   */
+  private validatePoints(points: number | undefined, visibility: string): void {
+    if (points === undefined || points === null || points === 0) return;
+    if (!Number.isInteger(points) || points < 0) {
+      throw new Error('Points must be a non-negative whole number');
+    }
+    if (visibility === 'ANONYMOUS') {
+      // The ledger debit would tie the sender to the recognition
+      throw new Error('Points cannot be attached to anonymous recognitions');
+    }
+  }
+
+  /**
+   * Ensure at least one recipient is given and the sender is not among them
+   * @param recipientIds Explicit recipient user IDs
+   * @param teamId Optional team whose members are recognized
    * @param senderId User ID of the sender
    */
-  private validateRecipientSenderID(recipientId: string, senderId: string): void {
-    if (!recipientId) {
-      throw new Error('Recipient ID is required');
+  private validateRecipientSenderIDs(recipientIds: string[], teamId: string | undefined, senderId: string): void {
+    if (recipientIds.length === 0 && !teamId) {
+      throw new Error('Recipient ID or team ID is required');
     }
-    if (recipientId === senderId) {
+    if (recipientIds.includes(senderId)) {
       throw new Error('Cannot recognize yourself');
     }
+    if (recipientIds.length > MAX_RECIPIENTS) {
+      throw new Error(`A recognition cannot have more than ${MAX_RECIPIENTS} recipients`);
+    }
+  }
+
+  /**
+   * Merge recipientId and recipientIds into a de-duplicated list, preserving order
+   * @param input Recognition input object
+   * @returns Array of explicit recipient IDs
+   */
+  private collectRecipientIds(input: CreateRecognitionInput): string[] {
+    const ids = [input.recipientId, ...(input.recipientIds || [])].filter(Boolean) as string[];
+    return Array.from(new Set(ids));
   }
 
   /**
-   * Check that the recipient user exists in the database
-   * @param recipientId ID of the recipient user
-   * @returns User object from the DB
+   * Resolve explicit recipients and team members into user records.
+   * The sender is left out when recognizing their own team.
+   * @param input Recognition input object
+   * @param senderId User ID of the sender
+   * @returns Array of recipient users, primary recipient first
    */
-  private async validateRecipient(recipientId: string) {
+  private async resolveRecipients(input: CreateRecognitionInput, senderId: string) {
+    const recipientIds = this.collectRecipientIds(input);
+    const recipients: any[] = [];
+    if (recipientIds.length > 0) {
+      const result = await this.db.query(
+        'SELECT id, name, email, team_id, deactivated_at FROM users WHERE id = ANY($1) AND NOT is_service_account',
+        [recipientIds]
+      );
+      for (const id of recipientIds) {
+        const recipient = result.rows.find(row => row.id === id);
+        if (!recipient) {
+          throw new Error('Recipient not found');
+        }
+        if (recipient.deactivated_at) {
+          throw new Error(`${recipient.name} has been deactivated and cannot receive recognitions`);
+        }
+        recipients.push(recipient);
+      }
+    }
+    if (input.teamId) {
+      const team = await this.db.query('SELECT id FROM teams WHERE id = $1 AND archived_at IS NULL', [input.teamId]);
+      if (!team.rows[0]) {
+        throw new Error('Team not found');
+      }
+      const members = await this.db.query(
+        `SELECT id, name, email, team_id FROM users
+         WHERE team_id = $1 AND id <> $2 AND deactivated_at IS NULL
+         ORDER BY name ASC`,
+        [input.teamId, senderId]
+      );
+      for (const member of members.rows) {
+        if (!recipients.some(recipient => recipient.id === member.id)) {
+          recipients.push(member);
+        }
+      }
+    }
+    if (recipients.length === 0) {
+      throw new Error('Team has no members to recognize');
+    }
+    if (recipients.length > MAX_RECIPIENTS) {
+      throw new Error(`A recognition cannot have more than ${MAX_RECIPIENTS} recipients`);
+    }
+    return recipients;
+  }
+
+  /**
+   * Check that every value ID refers to an active company value. Values are
+   * mandatory when RECOGNITION_VALUES_REQUIRED is set to "true".
+   * @param valueIds Company value IDs from the input
+   * @returns De-duplicated value IDs
+   */
+  private async validateValueIds(valueIds: string[] = []): Promise<string[]> {
+    const ids = Array.from(new Set(valueIds));
+    if (ids.length === 0) {
+      if (process.env.RECOGNITION_VALUES_REQUIRED === 'true') {
+        throw new Error('At least one company value is required');
+      }
+      return ids;
+    }
+    if (ids.length > MAX_VALUES) {
+      throw new Error(`A recognition cannot have more than ${MAX_VALUES} company values`);
+    }
     const result = await this.db.query(
-      'SELECT id, name, email, team_id FROM users WHERE id = $1',
-      [recipientId]
+      'SELECT id FROM company_values WHERE id = ANY($1) AND active = TRUE',
+      [ids]
     );
-    if (!result.rows[0]) {
-      throw new Error('Recipient not found');
+    if (result.rows.length !== ids.length) {
+      throw new Error('Company value not found or inactive');
     }
-    return result.rows[0];
+    return ids;
+  }
+
+  /**
+   * SQL condition for recognitions a user may see: public ones, ones they
+   * sent, and ones they received. Shared by feeds, lookups and search.
+   * @param userParam Placeholder holding the current user ID (e.g. '$1')
+   * @returns SQL condition on alias r
+   */
+  private visibleTo(userParam: string): string {
+    return `(r.visibility = 'PUBLIC' OR r.sender_id = ${userParam} OR r.id IN (SELECT recognition_id FROM recognition_recipients WHERE recipient_id = ${userParam}))`;
+  }
+
+  /**
+   * Parse an optional date filter
+   * @param value Date or ISO string
+   * @param name Filter name for the error message
+   * @returns Parsed date, or undefined when not given
+   */
+  private parseDate(value: Date | string | undefined, name: string): Date | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid ${name} date`);
+    }
+    return date;
+  }
+
+  /**
+   * HTML-escape a ts_headline snippet and turn its match markers into <mark> tags
+   * @param snippet Raw snippet with control-character markers
+   * @returns Safe HTML snippet
+   */
+  private formatSnippet(snippet: string): string {
+    return (snippet || '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .split(HIGHLIGHT_START).join('<mark>')
+      .split(HIGHLIGHT_END).join('</mark>');
+  }
+
+  /**
+   * Fetch one page of recognitions matching the given conditions
+   * @param conditions SQL conditions ANDed together
+   * @param params Values referenced by the conditions
+   * @param args Connection arguments
+   * @returns Relay connection of formatted recognitions
+   */
+  private async getRecognitionPage(conditions: string[], params: any[], args: ConnectionArgs) {
+    const page = buildKeysetQuery(args, FEED_ORDER, params);
+    params.push(page.limit);
+    const query = `
+      SELECT r.*, r.created_at::text as cursor_created_at,
+             s.name as sender_name, s.email as sender_email,
+             rec.name as recipient_name, rec.email as recipient_email
+      FROM recognitions r
+      LEFT JOIN users s ON r.sender_id = s.id
+      JOIN users rec ON r.recipient_id = rec.id
+      WHERE ${[...conditions, ...page.conditions].join(' AND ')}
+      ORDER BY ${page.orderBy}
+      LIMIT $${params.length}
+    `;
+    const result = await this.db.query(query, params);
+    return toConnection(
+      result.rows,
+      page,
+      row => [row.cursor_created_at, row.id],
+      row => this.formatRecognitionRow(row)
+    );
+  }
+
+  /**
+   * Fetch a scheduled recognition owned by the user
+   * @param client Pool or transaction client
+   * @param id Recognition ID
+   * @param userId Current user ID
+   * @param forUpdate Lock the row until the transaction ends
+   * @returns Raw recognition record
+   */
+  private async getOwnScheduledRecognition(client: Queryable, id: string, userId: string, forUpdate = false) {
+    const result = await client.query(
+      `SELECT * FROM recognitions WHERE id = $1${forUpdate ? ' FOR UPDATE' : ''}`,
+      [id]
+    );
+    const recognition = result.rows[0];
+    if (!recognition || recognition.status !== 'SCHEDULED') {
+      throw new Error('Scheduled recognition not found');
+    }
+    if (recognition.sender_id !== userId) {
+      throw new Error('You can only manage your own scheduled recognitions');
+    }
+    return recognition;
+  }
+
+  /**
+   * Load every recipient of a recognition, primary recipient first
+   * @param client Pool or transaction client
+   * @param recognitionId Recognition ID
+   * @returns Array of recipient users
+   */
+  private async loadRecipients(client: Queryable, recognitionId: string) {
+    const result = await client.query(
+      `SELECT u.id, u.name, u.email
+       FROM recognition_recipients rr
+       JOIN recognitions r ON rr.recognition_id = r.id
+       JOIN users u ON rr.recipient_id = u.id
+       WHERE rr.recognition_id = $1
+       ORDER BY (u.id = r.recipient_id) DESC, u.name ASC`,
+      [recognitionId]
+    );
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      email: row.email
+    }));
+  }
+
+  /**
+   * Resolve @handles in a message to users. A handle matches a user's full
+   * email address or, if unambiguous, the local part of it. Unknown or
+   * ambiguous handles are left as plain text.
+   * @param message Raw message text
+   * @returns Array of mentioned users
+   */
+  private async resolveMentions(message: string) {
+    const handles = extractMentionHandles(message).slice(0, MAX_MENTIONS);
+    if (handles.length === 0) return [];
+    const result = await this.db.query(
+      `SELECT id, name, email, lower(email) as email_key, lower(split_part(email, '@', 1)) as handle
+       FROM users
+       WHERE (lower(email) = ANY($1) OR lower(split_part(email, '@', 1)) = ANY($1))
+         AND NOT is_service_account AND deactivated_at IS NULL`,
+      [handles]
+    );
+    const mentions = new Map<string, any>();
+    for (const handle of handles) {
+      const exact = result.rows.find(row => row.email_key === handle);
+      const byLocalPart = result.rows.filter(row => row.handle === handle);
+      const user = exact || (byLocalPart.length === 1 ? byLocalPart[0] : null);
+      if (user) {
+        mentions.set(user.id, { id: user.id, name: user.name, email: user.email });
+      }
+    }
+    return Array.from(mentions.values());
+  }
+
+  /**
+   * Re-resolve mentions after a message edit and notify newly mentioned users
+   * @param recognitionId Recognition ID
+   * @param message New message text
+   * @param notify Whether to notify newly mentioned users
+   */
+  private async syncMentions(recognitionId: string, message: string, notify = true): Promise<void> {
+    const mentions = await this.resolveMentions(message);
+    const mentionIds = mentions.map(mention => mention.id);
+    await this.db.query(
+      'DELETE FROM recognition_mentions WHERE recognition_id = $1 AND NOT (user_id = ANY($2::uuid[]))',
+      [recognitionId, mentionIds]
+    );
+    const added = await this.db.query(
+      `INSERT INTO recognition_mentions (recognition_id, user_id)
+       SELECT $1, unnest($2::uuid[])
+       ON CONFLICT DO NOTHING
+       RETURNING user_id`,
+      [recognitionId, mentionIds]
+    );
+    const addedIds = added.rows.map(row => row.user_id);
+    const newMentions = mentions.filter(mention => addedIds.includes(mention.id));
+    if (!notify || newMentions.length === 0) return;
+    const recognition = await this.db.query('SELECT * FROM recognitions WHERE id = $1', [recognitionId]);
+    const recipients = await this.loadRecipients(this.db, recognitionId);
+    await this.publishMentions(recognition.rows[0], recipients, newMentions);
+  }
+
+  /**
+   * Load users @mentioned in a recognition
+   * @param client Pool or transaction client
+   * @param recognitionId Recognition ID
+   * @returns Array of mentioned users
+   */
+  private async loadMentions(client: Queryable, recognitionId: string) {
+    const result = await client.query(
+      `SELECT u.id, u.name, u.email
+       FROM recognition_mentions m
+       JOIN users u ON m.user_id = u.id
+       WHERE m.recognition_id = $1
+       ORDER BY u.name ASC`,
+      [recognitionId]
+    );
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      email: row.email
+    }));
   }
 
   /**
@@ -276,90 +1371,309 @@ export class RecognitionService {
   }
 
   /**
-   * Insert a new recognition record into the database
+   * Insert a new recognition record with its recipient and value rows in one statement
+   * @param client Transaction client
    * @param userId ID of the sender
    * @param input Recognition input values
    * @param keywords Extracted keywords for search and analytics
+   * @param recipients Resolved recipients, primary recipient first
+   * @param valueIds Validated company value IDs
+   * @param scheduledFor Delivery time, or null to publish immediately
+   * @param mentionIds Users @mentioned in the message
+   * @param held Whether moderation is holding the recognition for review
    * @returns Inserted recognition record
    */
   private async insertRecognition(
+    client: Queryable,
     userId: string, 
     input: CreateRecognitionInput, 
-    keywords: string[]
+    keywords: string[],
+    recipients: any[],
+    valueIds: string[],
+    scheduledFor: Date | null = null,
+    mentionIds: string[] = [],
+    held = false
   ) {
     const query = `
-      INSERT INTO recognitions (sender_id, recipient_id, message, visibility, keywords, created_at)
-      VALUES ($1, $2, $3, $4, $5, NOW())
-      RETURNING *
+      WITH inserted AS (
+        INSERT INTO recognitions (sender_id, recipient_id, message, visibility, keywords, team_id, points, status, scheduled_for, created_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $9, $10, $11, NOW())
+        RETURNING *
+      ), recipient_rows AS (
+        INSERT INTO recognition_recipients (recognition_id, recipient_id)
+        SELECT inserted.id, unnest($7::uuid[]) FROM inserted
+      ), value_rows AS (
+        INSERT INTO recognition_values (recognition_id, value_id)
+        SELECT inserted.id, unnest($8::uuid[]) FROM inserted
+      ), mention_rows AS (
+        INSERT INTO recognition_mentions (recognition_id, user_id)
+        SELECT inserted.id, unnest($12::uuid[]) FROM inserted
+      )
+      SELECT * FROM inserted
     `;
     const values = [
       input.visibility === 'ANONYMOUS' ? null : userId,
-      input.recipientId,
+      recipients[0].id,
       input.message.trim(),
       input.visibility,
-      JSON.stringify(keywords)
+      JSON.stringify(keywords),
+      input.teamId || null,
+      recipients.map(recipient => recipient.id),
+      valueIds,
+      input.points || 0,
+      held ? 'HELD' : scheduledFor ? 'SCHEDULED' : 'ACTIVE',
+      scheduledFor,
+      mentionIds
     ];
-    const result = await this.db.query(query, values);
+    const result = await client.query(query, values);
     return result.rows[0];
   }
 
   /**
-   * Publish recognition-related GraphQL events
+   * Enforce the per-sender rate limits and log the send. Sends are serialized
+   * per sender with an advisory lock so concurrent requests cannot both take
+   * the last slot. The log has no recognition ID, and an anonymous send is
+   * logged only as keyed pseudonyms of the sender and of each sender/recipient
+   * pair, at the end of the hour it was sent in, so its row cannot be matched
+   * to the recognition or to the sender's named sends.
+   * @param client Transaction client
+   * @param senderId ID of the sender
+   * @param recipientIds Recipients of the new recognition
+   * @param anonymous Whether the recognition is ANONYMOUS
+   * @throws RateLimitError with the seconds until the sender may try again
+   */
+  private async reserveSendSlot(
+    client: Queryable,
+    senderId: string,
+    recipientIds: string[],
+    anonymous: boolean
+  ): Promise<void> {
+    // Without an escrow key there are no anonymous sends to count
+    const senderKey = anonymous || hasEscrowKey() ? pseudonymize(senderId) : null;
+    const limits = getRecognitionRateLimits();
+    if (limits.perHour > 0 || limits.perDay > 0 || limits.perRecipientPerWeek > 0) {
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [senderId]);
+      const result = await client.query(
+        `SELECT recipient_ids, recipient_keys, EXTRACT(EPOCH FROM NOW() - sent_at) as age_seconds
+         FROM recognition_send_log
+         WHERE (sender_id = $1 OR sender_key = $2) AND sent_at > NOW() - make_interval(secs => $3)`,
+        [senderId, senderKey, WEEK]
+      );
+      // Only the recipients of this send matter for the per-recipient limit
+      const recipientByKey = new Map(
+        senderKey ? recipientIds.map(recipientId => [pseudonymize(`${senderId}:${recipientId}`), recipientId]) : []
+      );
+      const violation = findRateLimitViolation(
+        result.rows.map(row => ({
+          ageSeconds: parseFloat(row.age_seconds),
+          recipientIds: row.recipient_ids ||
+            (row.recipient_keys || []).map((key: string) => recipientByKey.get(key)).filter(Boolean)
+        })),
+        recipientIds,
+        limits
+      );
+      if (violation) {
+        throw new RateLimitError(violation.message, violation.retryAfter);
+      }
+    }
+    if (anonymous) {
+      // Rounded up, so the send counts against the limits for at least as long as it should
+      await client.query(
+        `INSERT INTO recognition_send_log (sender_key, recipient_keys, sent_at)
+         VALUES ($1, $2, date_trunc('hour', NOW()) + INTERVAL '1 hour')`,
+        [senderKey, recipientIds.map(recipientId => pseudonymize(`${senderId}:${recipientId}`))]
+      );
+    } else {
+      await client.query(
+        'INSERT INTO recognition_send_log (sender_id, recipient_ids) VALUES ($1, $2)',
+        [senderId, recipientIds]
+      );
+    }
+  }
+
+  /**
+   * Encrypt the real sender of an ANONYMOUS recognition into the escrow table.
+   * The recognition ID is bound in as associated data, so an escrow row cannot
+   * be copied onto another recognition.
+   * @param client Transaction client
+   * @param recognitionId ID of the new recognition
+   * @param senderId Real sender ID
+   */
+  private async storeAnonymousSender(client: Queryable, recognitionId: string, senderId: string): Promise<void> {
+    const sealed = sealValue(senderId, recognitionId);
+    await client.query(
+      `INSERT INTO anonymous_sender_escrow (recognition_id, encrypted_sender_id, iv, auth_tag)
+       VALUES ($1, $2, $3, $4)`,
+      [recognitionId, sealed.ciphertext, sealed.iv, sealed.authTag]
+    );
+  }
+
+  /**
+   * Whether a user sent a recognition. sender_id is NULL for anonymous
+   * recognitions, so their real sender is read from the escrow.
+   * @param client Pool or transaction client
+   * @param recognition Raw recognition row (id, sender_id and visibility)
+   * @param userId User to check
+   * @returns True if the user is the (possibly anonymous) sender
+   */
+  async isSender(client: Queryable, recognition: any, userId: string): Promise<boolean> {
+    if (recognition.visibility === 'ANONYMOUS') {
+      return (await this.openAnonymousSender(client, recognition.id)) === userId;
+    }
+    return recognition.sender_id === userId;
+  }
+
+  /**
+   * Decrypt the real sender of an ANONYMOUS recognition from the escrow table.
+   * Callers decide who may see the result.
+   * @param client Pool or transaction client
+   * @param recognitionId Recognition ID
+   * @returns Real sender ID
+   */
+  private async openAnonymousSender(client: Queryable, recognitionId: string): Promise<string> {
+    const escrow = await client.query(
+      'SELECT * FROM anonymous_sender_escrow WHERE recognition_id = $1',
+      [recognitionId]
+    );
+    if (!escrow.rows[0]) {
+      throw new Error('No escrowed sender for this recognition');
+    }
+    const key = getEscrowKey();
+    try {
+      return openValue({
+        ciphertext: escrow.rows[0].encrypted_sender_id,
+        iv: escrow.rows[0].iv,
+        authTag: escrow.rows[0].auth_tag
+      }, recognitionId, key);
+    } catch (error) {
+      console.error('Escrow decryption failed:', error);
+      throw new Error('Escrowed sender could not be decrypted');
+    }
+  }
+
+  /**
+   * Publish recognition-related GraphQL events. Every recipient gets their own
+   * RECOGNITION_RECEIVED event; the public feed gets a single RECOGNITION_CREATED.
    * @param recognition Newly created recognition
-   * @param recipient Recipient user details
+   * @param recipients Recipient user details, primary recipient first
+   * @param mentions Users @mentioned in the message
    */
-  private async sendNotifications(recognition: any, recipient: any): Promise<void> {
+  private async sendNotifications(recognition: any, recipients: any[], mentions: any[] = []): Promise<void> {
     try {
-      const recognitionData = {
-        id: recognition.id,
-        message: recognition.message,
-        visibility: recognition.visibility,
-        keywords: JSON.parse(recognition.keywords),
-        createdAt: recognition.created_at,
-        recipient: {
-          id: recipient.id,
-          name: recipient.name,
-          email: recipient.email
-        }
-      };
-      await this.pubsub.publish('RECOGNITION_RECEIVED', {
-        recognitionReceived: recognitionData
-      });
+      const recognitionData = this.buildNotificationPayload(recognition, recipients);
+      for (const recipient of recognitionData.recipients) {
+        await this.pubsub.publish('RECOGNITION_RECEIVED', {
+          recognitionReceived: { ...recognitionData, recipient }
+        });
+      }
       if (recognition.visibility === 'PUBLIC') {
         await this.pubsub.publish('RECOGNITION_CREATED', {
           recognitionCreated: recognitionData
         });
       }
+      await this.publishMentions(recognition, recipients, mentions);
       console.log(`Notifications sent for recognition ${recognition.id}`);
     } catch (error) {
       console.error('Notification sending failed:', error);
     }
   }
 
+  /**
+   * Tell each recipient that the sender of their anonymous recognition was
+   * revealed. The event never says who the sender is or who revealed them.
+   * @param recognitionId Recognition ID
+   * @param recipients Recipient user details
+   * @param revealedAt Time of the reveal
+   */
+  private async publishSenderRevealed(recognitionId: string, recipients: any[], revealedAt: Date): Promise<void> {
+    try {
+      for (const recipient of recipients) {
+        await this.pubsub.publish('ANONYMOUS_SENDER_REVEALED', {
+          anonymousSenderRevealed: { recognitionId, recipientId: recipient.id, revealedAt }
+        });
+      }
+    } catch (error) {
+      console.error('Reveal notification failed:', error);
+    }
+  }
+
+  /**
+   * Publish a RECOGNITION_MENTIONED event to each mentioned user who is neither
+   * a recipient nor the sender. Only PUBLIC recognitions notify mentions, since
+   * other mentioned users would not be allowed to see the recognition.
+   * @param recognition Raw recognition record
+   * @param recipients Recipient user details, primary recipient first
+   * @param mentions Users to notify
+   */
+  private async publishMentions(recognition: any, recipients: any[], mentions: any[]): Promise<void> {
+    if (recognition.visibility !== 'PUBLIC') return;
+    const recognitionData = this.buildNotificationPayload(recognition, recipients);
+    const skip = new Set([recognition.sender_id, ...recipients.map(recipient => recipient.id)]);
+    try {
+      for (const mention of mentions.filter(mention => !skip.has(mention.id))) {
+        await this.pubsub.publish('RECOGNITION_MENTIONED', {
+          recognitionMentioned: { ...recognitionData, mentionedUser: mention }
+        });
+      }
+    } catch (error) {
+      console.error('Mention notification failed:', error);
+    }
+  }
+
+  /**
+   * Build the recognition payload shared by notification events
+   * @param recognition Raw recognition record
+   * @param recipients Recipient user details, primary recipient first
+   * @returns Notification payload
+   */
+  private buildNotificationPayload(recognition: any, recipients: any[]) {
+    const recipientData = recipients.map(recipient => ({
+      id: recipient.id,
+      name: recipient.name,
+      email: recipient.email
+    }));
+    return {
+      id: recognition.id,
+      message: recognition.message,
+      visibility: recognition.visibility,
+      keywords: this.parseKeywords(recognition.keywords),
+      createdAt: recognition.created_at,
+      teamId: recognition.team_id,
+      recipient: recipientData[0],
+      recipients: recipientData
+    };
+  }
+
   /**
    * Transform raw recognition record into API response format
    * @param recognition DB record
    * @param senderId Sender ID (current user)
-   * @param recipient Recipient user object
+   * @param recipients Recipient user objects, primary recipient first
    * @returns Formatted response object
    */
-  private formatRecognitionResponse(recognition: any, senderId: string, recipient: any) {
+  private formatRecognitionResponse(recognition: any, senderId: string, recipients: any[]) {
+    const recipientData = recipients.map(recipient => ({
+      id: recipient.id,
+      name: recipient.name,
+      email: recipient.email
+    }));
     return {
       id: recognition.id,
       message: recognition.message,
       visibility: recognition.visibility,
       keywords: this.parseKeywords(recognition.keywords),
+      points: recognition.points || 0,
+      status: recognition.status,
+      teamId: recognition.team_id,
+      scheduledFor: recognition.scheduled_for,
       createdAt: recognition.created_at,
       sender: recognition.visibility === 'ANONYMOUS' ? null : {
         id: senderId,
         name: 'Current User',
         email: 'current@company.com'
       },
-      recipient: {
-        id: recipient.id,
-        name: recipient.name,
-        email: recipient.email
-      }
+      recipient: recipientData[0],
+      recipients: recipientData
     };
   }
 
@@ -388,8 +1702,14 @@ export class RecognitionService {
       id: row.id,
       message: row.message,
       visibility: row.visibility,
-      keywords: JSON.parse(row.keywords || '[]'),
+      keywords: this.parseKeywords(row.keywords || '[]'),
+      points: row.points || 0,
+      status: row.status,
+      teamId: row.team_id,
+      scheduledFor: row.scheduled_for,
       createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      deletedAt: row.deleted_at,
       sender: row.sender_id ? {
         id: row.sender_id,
         name: row.sender_name,
@@ -408,11 +1728,12 @@ export class RecognitionService {
     const query = `
       SELECT 
         COUNT(*) FILTER (WHERE sender_id = $1) as sent_count,
-        COUNT(*) FILTER (WHERE recipient_id = $1) as received_count,
+        COUNT(*) FILTER (WHERE rr.recipient_id IS NOT NULL) as received_count,
         COUNT(*) FILTER (WHERE sender_id = $1 AND visibility = 'PUBLIC') as public_sent,
-        COUNT(*) FILTER (WHERE recipient_id = $1 AND visibility = 'PUBLIC') as public_received
-      FROM recognitions
-      WHERE (sender_id = $1 OR recipient_id = $1) AND visibility != 'DELETED'
+        COUNT(*) FILTER (WHERE rr.recipient_id IS NOT NULL AND visibility = 'PUBLIC') as public_received
+      FROM recognitions r
+      LEFT JOIN recognition_recipients rr ON rr.recognition_id = r.id AND rr.recipient_id = $1
+      WHERE (r.sender_id = $1 OR rr.recipient_id IS NOT NULL) AND r.status = 'ACTIVE'
     `;
     
     const result = await this.db.query(query, [userId]);
@@ -432,9 +1753,9 @@ export class RecognitionService {
       FROM recognitions r
       LEFT JOIN users s ON r.sender_id = s.id
       JOIN users rec ON r.recipient_id = rec.id
-      WHERE (r.sender_id = $1 OR r.recipient_id = $1)
+      WHERE (r.sender_id = $1 OR r.id IN (SELECT recognition_id FROM recognition_recipients WHERE recipient_id = $1))
         AND r.created_at >= NOW() - INTERVAL '${days} days'
-        AND r.visibility != 'DELETED'
+        AND r.status = 'ACTIVE'
       ORDER BY r.created_at DESC
       LIMIT 50
     `;
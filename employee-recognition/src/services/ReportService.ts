@@ -0,0 +1,304 @@
+import { Pool } from 'pg';
+import { RecognitionService } from './RecognitionService';
+import { ModerationLogAction, ModerationService } from './ModerationService';
+import { assertRole } from './PolicyService';
+import { Queryable, withTransaction } from '../utils/database';
+import { getErrorCode } from '../utils/errorHandler';
+
+export type ReportStatus = 'OPEN' | 'DISMISSED' | 'HIDDEN' | 'REMOVED';
+
+const REPORT_STATUSES: ReportStatus[] = ['OPEN', 'DISMISSED', 'HIDDEN', 'REMOVED'];
+const MAX_REASON_LENGTH = 500;
+const MAX_QUEUE_SIZE = 100;
+
+/**
+ * Service class for user reports on recognitions and the HR moderation queue.
+ * Reports on the same recognition form one queue item and are resolved together:
+ * OPEN -> DISMISSED, HIDDEN or REMOVED, and HIDDEN -> DISMISSED (unhide) or REMOVED.
+ */
+export class ReportService {
+  /**
+   * @param db - PostgreSQL connection pool
+   * @param recognitionService - Used for visibility checks and moderator views
+   * @param moderationService - Records moderator actions
+   */
+  constructor(
+    private db: Pool,
+    private recognitionService: RecognitionService,
+    private moderationService: ModerationService
+  ) {}
+
+  /**
+   * Reports a recognition the user can see. Each user can report a recognition once.
+   * @param userId - ID of the reporter.
+   * @param recognitionId - ID of the recognition.
+   * @param reason - Why it is abusive or inappropriate.
+   * @returns Created report.
+   */
+  async reportRecognition(userId: string, recognitionId: string, reason: string) {
+    const trimmed = (reason || '').trim();
+    if (!trimmed) {
+      throw new Error('A reason is required to report a recognition');
+    }
+    if (trimmed.length > MAX_REASON_LENGTH) {
+      throw new Error(`Reason cannot exceed ${MAX_REASON_LENGTH} characters`);
+    }
+
+    const recognition = await this.recognitionService.getRecognitionById(recognitionId, userId);
+    if (recognition.sender?.id === userId) {
+      throw new Error('You cannot report your own recognition');
+    }
+
+    try {
+      const result = await this.db.query(
+        `INSERT INTO recognition_reports (recognition_id, reporter_id, reason)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [recognitionId, userId, trimmed]
+      );
+      return this.formatReport(result.rows[0]);
+    } catch (error) {
+      if (getErrorCode(error) === '23505') {
+        throw new Error('You have already reported this recognition');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists reported recognitions with reports in the given status, longest waiting first.
+   * @param userRole - Role of the current user (HR or ADMIN).
+   * @param status - Report status to list (defaults to OPEN).
+   * @param limit - Maximum number of queue items.
+   * @returns Array of queue items.
+   */
+  async getModerationQueue(userRole: string, status: ReportStatus = 'OPEN', limit: number = 50) {
+    assertRole(userRole, 'HR');
+    this.validateStatus(status);
+
+    const result = await this.db.query(
+      `SELECT recognition_id, status,
+              COUNT(*) as report_count,
+              MIN(created_at) as first_reported_at,
+              MAX(created_at) as last_reported_at
+       FROM recognition_reports
+       WHERE status = $1
+       GROUP BY recognition_id, status
+       ORDER BY first_reported_at ASC
+       LIMIT $2`,
+      [status, Math.min(Math.max(limit, 1), MAX_QUEUE_SIZE)]
+    );
+
+    return result.rows.map(row => ({
+      recognitionId: row.recognition_id,
+      status: row.status,
+      reportCount: parseInt(row.report_count),
+      firstReportedAt: row.first_reported_at,
+      lastReportedAt: row.last_reported_at
+    }));
+  }
+
+  /**
+   * Lists the reports on a recognition, oldest first.
+   * @param userRole - Role of the current user (HR or ADMIN).
+   * @param recognitionId - ID of the recognition.
+   * @param status - Optional report status filter.
+   * @returns Array of reports.
+   */
+  async getReports(userRole: string, recognitionId: string, status?: ReportStatus) {
+    assertRole(userRole, 'HR');
+
+    const params: any[] = [recognitionId];
+    if (status) params.push(this.validateStatus(status));
+    const result = await this.db.query(
+      `SELECT * FROM recognition_reports
+       WHERE recognition_id = $1${status ? ' AND status = $2' : ''}
+       ORDER BY created_at ASC`,
+      params
+    );
+    return result.rows.map(report => this.formatReport(report));
+  }
+
+  /**
+   * Dismisses the reports on a recognition; a hidden recognition becomes visible again.
+   * @param reviewerId - ID of the moderator.
+   * @param userRole - Role of the current user (HR or ADMIN).
+   * @param recognitionId - ID of the recognition.
+   * @param note - Optional moderator note.
+   * @returns The recognition as moderators see it.
+   */
+  async dismissReports(reviewerId: string, userRole: string, recognitionId: string, note?: string) {
+    return this.resolve(reviewerId, userRole, recognitionId, ['OPEN', 'HIDDEN'], 'DISMISSED', note);
+  }
+
+  /**
+   * Hides a reported recognition from everyone but HR/ADMIN.
+   * @param reviewerId - ID of the moderator.
+   * @param userRole - Role of the current user (HR or ADMIN).
+   * @param recognitionId - ID of the recognition.
+   * @param note - Optional moderator note.
+   * @returns The recognition as moderators see it.
+   */
+  async hideRecognition(reviewerId: string, userRole: string, recognitionId: string, note?: string) {
+    return this.resolve(reviewerId, userRole, recognitionId, ['OPEN'], 'HIDDEN', note);
+  }
+
+  /**
+   * Removes (soft-deletes) a reported recognition.
+   * @param reviewerId - ID of the moderator.
+   * @param userRole - Role of the current user (HR or ADMIN).
+   * @param recognitionId - ID of the recognition.
+   * @param note - Optional moderator note.
+   * @returns The recognition as moderators see it.
+   */
+  async removeRecognition(reviewerId: string, userRole: string, recognitionId: string, note?: string) {
+    return this.resolve(reviewerId, userRole, recognitionId, ['OPEN', 'HIDDEN'], 'REMOVED', note);
+  }
+
+  /**
+   * Moves the unresolved reports on a recognition to a new status, applies the
+   * matching recognition status change and records the moderator action.
+   * @param reviewerId - ID of the moderator.
+   * @param userRole - Role of the current user.
+   * @param recognitionId - ID of the recognition.
+   * @param from - Report statuses the transition is allowed from.
+   * @param to - New report status.
+   * @param note - Optional moderator note.
+   * @returns The recognition as moderators see it.
+   */
+  private async resolve(
+    reviewerId: string,
+    userRole: string,
+    recognitionId: string,
+    from: ReportStatus[],
+    to: ReportStatus,
+    note?: string
+  ) {
+    assertRole(userRole, 'HR');
+
+    await withTransaction(this.db, async client => {
+      const existing = await client.query(
+        'SELECT id, sender_id, visibility, status FROM recognitions WHERE id = $1 FOR UPDATE',
+        [recognitionId]
+      );
+      const recognition = existing.rows[0];
+      if (!recognition) {
+        throw new Error('Recognition not found');
+      }
+      if (await this.recognitionService.isSender(client, recognition, reviewerId)) {
+        throw new Error('You cannot moderate your own recognition');
+      }
+
+      const current = await this.getUnresolvedStatus(client, recognitionId);
+      if (!current) {
+        throw new Error('No open reports for this recognition');
+      }
+      if (!from.includes(current)) {
+        throw new Error(`Cannot move ${current} reports to ${to}`);
+      }
+
+      const newStatus = await this.applyRecognitionStatus(client, recognition, reviewerId, to);
+
+      await client.query(
+        `UPDATE recognition_reports
+         SET status = $2, resolved_by = $3, resolved_at = NOW(), note = $4
+         WHERE recognition_id = $1 AND status = $5`,
+        [recognitionId, to, reviewerId, note?.trim() || null, current]
+      );
+
+      const actions: Record<string, ModerationLogAction> = { DISMISSED: 'DISMISS', HIDDEN: 'HIDE', REMOVED: 'REMOVE' };
+      await this.moderationService.logAction(client, {
+        recognitionId,
+        moderatorId: reviewerId,
+        action: actions[to],
+        previousStatus: recognition.status,
+        newStatus,
+        note: note?.trim() || null
+      });
+    });
+
+    return this.recognitionService.getRecognitionForReview(recognitionId, userRole);
+  }
+
+  /**
+   * Finds the status of the reports still awaiting a final decision. Hidden
+   * recognitions cannot be reported again, so at most one status is returned.
+   * @param client - Transaction client.
+   * @param recognitionId - ID of the recognition.
+   * @returns OPEN, HIDDEN, or null if nothing is unresolved.
+   */
+  private async getUnresolvedStatus(client: Queryable, recognitionId: string): Promise<ReportStatus | null> {
+    const result = await client.query(
+      `SELECT DISTINCT status FROM recognition_reports
+       WHERE recognition_id = $1 AND status IN ('OPEN', 'HIDDEN')`,
+      [recognitionId]
+    );
+    const statuses = result.rows.map(row => row.status);
+    if (statuses.includes('HIDDEN')) return 'HIDDEN';
+    if (statuses.includes('OPEN')) return 'OPEN';
+    return null;
+  }
+
+  /**
+   * Changes the recognition's own status to match a report resolution.
+   * @param client - Transaction client.
+   * @param recognition - Locked recognition row (id, status).
+   * @param reviewerId - ID of the moderator.
+   * @param to - New report status.
+   * @returns The recognition's status afterwards.
+   */
+  private async applyRecognitionStatus(client: Queryable, recognition: any, reviewerId: string, to: ReportStatus) {
+    if (to === 'HIDDEN') {
+      if (recognition.status !== 'ACTIVE') {
+        throw new Error('Only active recognitions can be hidden');
+      }
+      await client.query(`UPDATE recognitions SET status = 'HIDDEN' WHERE id = $1`, [recognition.id]);
+      return 'HIDDEN';
+    }
+    if (to === 'DISMISSED' && recognition.status === 'HIDDEN') {
+      await client.query(`UPDATE recognitions SET status = 'ACTIVE' WHERE id = $1`, [recognition.id]);
+      return 'ACTIVE';
+    }
+    if (to === 'REMOVED' && ['ACTIVE', 'HIDDEN'].includes(recognition.status)) {
+      await client.query(
+        `UPDATE recognitions
+         SET status = 'DELETED', deleted_at = NOW(), deleted_by = $2
+         WHERE id = $1`,
+        [recognition.id, reviewerId]
+      );
+      return 'DELETED';
+    }
+    return recognition.status;
+  }
+
+  /**
+   * Validates a report status.
+   * @param status - Proposed status.
+   * @returns The status.
+   */
+  private validateStatus(status: string): ReportStatus {
+    if (!REPORT_STATUSES.includes(status as ReportStatus)) {
+      throw new Error('Invalid report status. Must be OPEN, DISMISSED, HIDDEN, or REMOVED');
+    }
+    return status as ReportStatus;
+  }
+
+  /**
+   * Converts raw DB row into formatted report object.
+   * @param report - Raw recognition report DB row.
+   * @returns Formatted report object.
+   */
+  private formatReport(report: any) {
+    return {
+      id: report.id,
+      recognitionId: report.recognition_id,
+      reporterId: report.reporter_id,
+      reason: report.reason,
+      status: report.status,
+      resolvedById: report.resolved_by,
+      resolvedAt: report.resolved_at,
+      note: report.note,
+      createdAt: report.created_at
+    };
+  }
+}
@@ -0,0 +1,435 @@
+import { Pool } from 'pg';
+import { PointsService } from './PointsService';
+import { hasRole } from './PolicyService';
+import { Queryable, withTransaction } from '../utils/database';
+
+export type RedemptionStatus = 'REQUESTED' | 'APPROVED' | 'FULFILLED' | 'REJECTED';
+
+export interface RewardInput {
+  title: string;
+  description?: string;
+  cost: number;
+  stock?: number | null;
+  activeFrom?: Date;
+  activeUntil?: Date | null;
+}
+
+export interface UpdateRewardInput extends Partial<RewardInput> {
+  id: string;
+}
+
+// A reward is redeemable while NOW() is inside its active window
+const AVAILABLE = `(active_from <= NOW() AND (active_until IS NULL OR active_until > NOW()))`;
+
+/**
+ * Service class for the rewards catalog and the redemption workflow:
+ * REQUESTED -> APPROVED -> FULFILLED, or REQUESTED/APPROVED -> REJECTED (refunded).
+ */
+export class RewardService {
+  /**
+   * @param db - PostgreSQL connection pool
+   * @param pointsService - Ledger used to debit and refund earned points
+   */
+  constructor(
+    private db: Pool,
+    private pointsService: PointsService
+  ) {}
+
+  /**
+   * Lists rewards, cheapest first.
+   * @param userRole - Role of the current user.
+   * @param includeInactive - Also return rewards outside their active window (HR+ only).
+   * @returns Array of rewards.
+   */
+  async getRewards(userRole: string, includeInactive: boolean = false) {
+    if (includeInactive) {
+      this.assertCanManageRewards(userRole);
+    }
+
+    const result = await this.db.query(
+      `SELECT *, ${AVAILABLE} as available FROM rewards
+       ${includeInactive ? '' : `WHERE ${AVAILABLE}`}
+       ORDER BY cost ASC, title ASC`
+    );
+
+    return result.rows.map(reward => this.formatReward(reward));
+  }
+
+  /**
+   * Fetch a reward by its ID.
+   * @param id - Reward ID.
+   * @returns Reward object or null.
+   */
+  async getRewardById(id: string) {
+    const result = await this.db.query(
+      `SELECT *, ${AVAILABLE} as available FROM rewards WHERE id = $1`,
+      [id]
+    );
+
+    return result.rows[0] ? this.formatReward(result.rows[0]) : null;
+  }
+
+  /**
+   * Adds a reward to the catalog.
+   * @param userId - ID of the current user.
+   * @param userRole - Role of the current user (must be HR or ADMIN).
+   * @param input - Title, cost, stock and active window.
+   * @returns Created reward.
+   */
+  async createReward(userId: string, userRole: string, input: RewardInput) {
+    this.assertCanManageRewards(userRole);
+    const title = this.validateTitle(input.title);
+    this.validateCost(input.cost);
+    this.validateStock(input.stock);
+
+    const result = await this.db.query(
+      `INSERT INTO rewards (title, description, cost, stock, active_from, active_until, created_by)
+       VALUES ($1, $2, $3, $4, COALESCE($5, NOW()), $6, $7)
+       RETURNING *, ${AVAILABLE} as available`,
+      [
+        title,
+        input.description || null,
+        input.cost,
+        input.stock ?? null,
+        input.activeFrom || null,
+        input.activeUntil || null,
+        userId
+      ]
+    );
+
+    return this.formatReward(result.rows[0]);
+  }
+
+  /**
+   * Updates a reward. Ending the active window retires it without touching
+   * existing redemptions.
+   * @param userRole - Role of the current user (must be HR or ADMIN).
+   * @param input - Reward ID and fields to change.
+   * @returns Updated reward.
+   */
+  async updateReward(userRole: string, input: UpdateRewardInput) {
+    this.assertCanManageRewards(userRole);
+
+    const changes: Record<string, any> = {};
+    if (input.title !== undefined) changes.title = this.validateTitle(input.title);
+    if (input.description !== undefined) changes.description = input.description;
+    if (input.cost !== undefined) {
+      this.validateCost(input.cost);
+      changes.cost = input.cost;
+    }
+    if (input.stock !== undefined) {
+      this.validateStock(input.stock);
+      changes.stock = input.stock;
+    }
+    if (input.activeFrom !== undefined) changes.active_from = input.activeFrom;
+    if (input.activeUntil !== undefined) changes.active_until = input.activeUntil;
+
+    const fields = Object.keys(changes);
+    if (fields.length === 0) {
+      throw new Error('No fields to update');
+    }
+
+    const values: any[] = [input.id];
+    const updateFields = fields.map(field => {
+      values.push(changes[field]);
+      return `${field} = $${values.length}`;
+    });
+
+    const result = await this.db.query(
+      `UPDATE rewards
+       SET ${updateFields.join(', ')}, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *, ${AVAILABLE} as available`,
+      values
+    );
+
+    if (!result.rows[0]) {
+      throw new Error('Reward not found');
+    }
+
+    return this.formatReward(result.rows[0]);
+  }
+
+  /**
+   * Redeems a reward: reserves one unit of stock and debits the user's earned
+   * points in the same transaction.
+   * @param userId - ID of the redeeming user.
+   * @param rewardId - ID of the reward.
+   * @returns Created redemption (status REQUESTED).
+   */
+  async redeemReward(userId: string, rewardId: string) {
+    const redemption = await withTransaction(this.db, async client => {
+      const rewardResult = await client.query(
+        `SELECT *, ${AVAILABLE} as available FROM rewards WHERE id = $1 FOR UPDATE`,
+        [rewardId]
+      );
+      const reward = rewardResult.rows[0];
+      if (!reward) {
+        throw new Error('Reward not found');
+      }
+      if (!reward.available) {
+        throw new Error('Reward is not currently available');
+      }
+      if (reward.stock !== null && reward.stock <= 0) {
+        throw new Error('Reward is out of stock');
+      }
+
+      const inserted = await client.query(
+        `INSERT INTO reward_redemptions (reward_id, user_id, cost)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [rewardId, userId, reward.cost]
+      );
+      const row = inserted.rows[0];
+
+      await this.pointsService.debitRedemption(client, userId, row.id, reward.cost);
+      await this.adjustStock(client, rewardId, -1);
+
+      return row;
+    });
+
+    return this.formatRedemption(redemption);
+  }
+
+  /**
+   * Lists the current user's redemptions, newest first.
+   * @param userId - ID of the current user.
+   * @returns Array of redemptions.
+   */
+  async getMyRedemptions(userId: string) {
+    const result = await this.db.query(
+      'SELECT * FROM reward_redemptions WHERE user_id = $1 ORDER BY created_at DESC',
+      [userId]
+    );
+
+    return result.rows.map(redemption => this.formatRedemption(redemption));
+  }
+
+  /**
+   * HR queue of redemptions awaiting action, oldest first.
+   * @param userRole - Role of the current user (must be HR or ADMIN).
+   * @param status - Only REQUESTED or only APPROVED; both when omitted.
+   * @returns Array of redemptions.
+   */
+  async getPendingRedemptions(userRole: string, status?: RedemptionStatus) {
+    this.assertCanManageRewards(userRole);
+
+    const statuses = status ? [status] : ['REQUESTED', 'APPROVED'];
+    if (statuses.some(s => !['REQUESTED', 'APPROVED'].includes(s))) {
+      throw new Error('Only REQUESTED or APPROVED redemptions are pending');
+    }
+
+    const result = await this.db.query(
+      `SELECT * FROM reward_redemptions
+       WHERE status = ANY($1)
+       ORDER BY created_at ASC`,
+      [statuses]
+    );
+
+    return result.rows.map(redemption => this.formatRedemption(redemption));
+  }
+
+  /**
+   * Approves a requested redemption.
+   * @param userId - ID of the reviewer.
+   * @param userRole - Role of the reviewer (must be HR or ADMIN).
+   * @param redemptionId - ID of the redemption.
+   * @returns Updated redemption.
+   */
+  async approveRedemption(userId: string, userRole: string, redemptionId: string) {
+    this.assertCanManageRewards(userRole);
+    const row = await this.transition(this.db, userId, redemptionId, ['REQUESTED'], 'APPROVED');
+    return this.formatRedemption(row);
+  }
+
+  /**
+   * Marks an approved redemption as handed over.
+   * @param userId - ID of the reviewer.
+   * @param userRole - Role of the reviewer (must be HR or ADMIN).
+   * @param redemptionId - ID of the redemption.
+   * @param note - Optional fulfilment details (e.g. voucher code).
+   * @returns Updated redemption.
+   */
+  async fulfillRedemption(userId: string, userRole: string, redemptionId: string, note?: string) {
+    this.assertCanManageRewards(userRole);
+    const row = await this.transition(this.db, userId, redemptionId, ['APPROVED'], 'FULFILLED', note);
+    return this.formatRedemption(row);
+  }
+
+  /**
+   * Rejects a requested or approved redemption, refunding the points and
+   * returning the unit to stock.
+   * @param userId - ID of the reviewer.
+   * @param userRole - Role of the reviewer (must be HR or ADMIN).
+   * @param redemptionId - ID of the redemption.
+   * @param reason - Reason shown to the requester.
+   * @returns Updated redemption.
+   */
+  async rejectRedemption(userId: string, userRole: string, redemptionId: string, reason: string) {
+    this.assertCanManageRewards(userRole);
+    if (!reason || reason.trim().length === 0) {
+      throw new Error('A rejection reason is required');
+    }
+
+    const row = await withTransaction(this.db, async client => {
+      const rejected = await this.transition(
+        client,
+        userId,
+        redemptionId,
+        ['REQUESTED', 'APPROVED'],
+        'REJECTED',
+        reason.trim()
+      );
+      await this.pointsService.refundRedemption(client, rejected.user_id, rejected.id, rejected.cost);
+      await this.adjustStock(client, rejected.reward_id, 1);
+      return rejected;
+    });
+
+    return this.formatRedemption(row);
+  }
+
+  /**
+   * Moves a redemption to a new status if it is currently in one of the allowed states.
+   * @param client - Pool or transaction client.
+   * @param reviewerId - ID of the reviewer.
+   * @param redemptionId - ID of the redemption.
+   * @param from - Statuses the transition is allowed from.
+   * @param to - New status.
+   * @param note - Optional note stored with the redemption.
+   * @returns Updated raw redemption row.
+   */
+  private async transition(
+    client: Queryable,
+    reviewerId: string,
+    redemptionId: string,
+    from: RedemptionStatus[],
+    to: RedemptionStatus,
+    note?: string
+  ) {
+    const existing = await client.query(
+      'SELECT user_id, status FROM reward_redemptions WHERE id = $1',
+      [redemptionId]
+    );
+    const current = existing.rows[0];
+    if (!current) {
+      throw new Error('Redemption not found');
+    }
+    if (current.user_id === reviewerId) {
+      throw new Error('You cannot review your own redemption');
+    }
+
+    // Status guard in the WHERE clause so concurrent reviewers cannot both win
+    const result = await client.query(
+      `UPDATE reward_redemptions
+       SET status = $2, reviewed_by = $3, reviewed_at = NOW(),
+           note = COALESCE($4, note), updated_at = NOW()
+       WHERE id = $1 AND status = ANY($5)
+       RETURNING *`,
+      [redemptionId, to, reviewerId, note || null, from]
+    );
+
+    if (!result.rows[0]) {
+      throw new Error(`Cannot move a ${current.status} redemption to ${to}`);
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Changes a reward's remaining stock; unlimited (NULL) stock is left alone.
+   * @param client - Transaction client.
+   * @param rewardId - ID of the reward.
+   * @param delta - Units to add (negative to reserve).
+   */
+  private async adjustStock(client: Queryable, rewardId: string, delta: number): Promise<void> {
+    await client.query(
+      'UPDATE rewards SET stock = stock + $2, updated_at = NOW() WHERE id = $1 AND stock IS NOT NULL',
+      [rewardId, delta]
+    );
+  }
+
+  /**
+   * Ensures the caller can manage the catalog and redemption queue.
+   * @param userRole - Role of the current user.
+   */
+  private assertCanManageRewards(userRole: string): void {
+    if (!hasRole(userRole, 'HR')) {
+      throw new Error('Insufficient permissions - HR role required');
+    }
+  }
+
+  /**
+   * Validates a reward title.
+   * @param title - Proposed title.
+   * @returns Trimmed title.
+   */
+  private validateTitle(title: string): string {
+    if (!title || title.trim().length === 0) {
+      throw new Error('Reward title is required');
+    }
+    if (title.length > 255) {
+      throw new Error('Reward title cannot exceed 255 characters');
+    }
+    return title.trim();
+  }
+
+  /**
+   * Validates a reward cost.
+   * @param cost - Points required to redeem.
+   */
+  private validateCost(cost: number): void {
+    if (!Number.isInteger(cost) || cost <= 0) {
+      throw new Error('Reward cost must be a positive whole number');
+    }
+  }
+
+  /**
+   * Validates a stock level (null means unlimited).
+   * @param stock - Units available.
+   */
+  private validateStock(stock: number | null | undefined): void {
+    if (stock === undefined || stock === null) return;
+    if (!Number.isInteger(stock) || stock < 0) {
+      throw new Error('Reward stock must be a non-negative whole number');
+    }
+  }
+
+  /**
+   * Converts raw DB row into formatted reward object.
+   * @param reward - Raw reward DB row.
+   * @returns Formatted reward object.
+   */
+  private formatReward(reward: any) {
+    return {
+      id: reward.id,
+      title: reward.title,
+      description: reward.description,
+      cost: reward.cost,
+      stock: reward.stock,
+      activeFrom: reward.active_from,
+      activeUntil: reward.active_until,
+      available: !!reward.available && (reward.stock === null || reward.stock > 0),
+      createdAt: reward.created_at
+    };
+  }
+
+  /**
+   * Converts raw DB row into formatted redemption object.
+   * @param redemption - Raw redemption DB row.
+   * @returns Formatted redemption object.
+   */
+  private formatRedemption(redemption: any) {
+    return {
+      id: redemption.id,
+      rewardId: redemption.reward_id,
+      userId: redemption.user_id,
+      cost: redemption.cost,
+      status: redemption.status,
+      note: redemption.note,
+      reviewedById: redemption.reviewed_by,
+      reviewedAt: redemption.reviewed_at,
+      createdAt: redemption.created_at,
+      updatedAt: redemption.updated_at
+    };
+  }
+}
@@ -0,0 +1,752 @@
+import { Pool, PoolClient } from 'pg';
+import { AuditService } from './AuditService';
+import { Queryable, withTransaction } from '../utils/database';
+import {
+  SCIM_SCHEMAS,
+  ScimError,
+  ScimListParams,
+  isScimId,
+  parseFilter,
+  parseMemberPath,
+  parsePatchOperations,
+  parseScimBoolean,
+  toListResponse
+} from '../utils/scim';
+
+// The user attributes SCIM can change
+interface UserAttributes {
+  email: string;
+  name: string;
+  externalId: string | null;
+  active: boolean;
+}
+
+// Filterable attributes and the condition each one adds ($1 is the value)
+const USER_FILTERS: Record<string, string> = {
+  id: 'u.id::text = $1',
+  username: 'LOWER(u.email) = LOWER($1)',
+  'emails.value': 'LOWER(u.email) = LOWER($1)',
+  externalid: 'u.external_id = $1'
+};
+
+const GROUP_FILTERS: Record<string, string> = {
+  id: 'id::text = $1',
+  displayname: 'LOWER(name) = LOWER($1)',
+  externalid: 'external_id = $1'
+};
+
+const USER_COLUMNS = 'u.*, t.name AS team_name';
+const USER_JOIN = 'users u LEFT JOIN teams t ON t.id = u.team_id';
+
+const MAX_NAME_LENGTH = 255;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Service class for SCIM 2.0 provisioning from the HR system or identity
+ * provider. SCIM Users are people in users (userName is the email) and SCIM
+ * Groups are active teams, whose members are the users in the team. Roles are
+ * managed in the app, never through SCIM. Deleting a user deactivates them
+ * and deleting a group archives the team, so recognition history stays
+ * intact. Changes are audited with the service account as the actor.
+ */
+export class ScimService {
+  /**
+   * @param db - PostgreSQL connection pool
+   * @param auditService - Records provisioning changes
+   */
+  constructor(private db: Pool, private auditService: AuditService = new AuditService(db)) {}
+
+  /**
+   * Lists a page of users, deactivated ones included and erased ones left out.
+   * @param filter - Optional filter on userName, emails.value, externalId or id.
+   * @param params - startIndex and count.
+   * @returns ListResponse of SCIM users.
+   */
+  async listUsers(filter: unknown, { startIndex, count }: ScimListParams) {
+    const parsed = parseFilter(filter, Object.keys(USER_FILTERS));
+    const params: any[] = parsed ? [parsed.value] : [];
+    const where = ['NOT u.is_service_account', 'u.erased_at IS NULL', ...(parsed ? [USER_FILTERS[parsed.attribute]] : [])].join(' AND ');
+
+    const total = await this.db.query(`SELECT COUNT(*) as count FROM users u WHERE ${where}`, params);
+    const page = count === 0 ? { rows: [] } : await this.db.query(
+      `SELECT ${USER_COLUMNS} FROM ${USER_JOIN}
+       WHERE ${where}
+       ORDER BY u.created_at ASC, u.id ASC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, count, startIndex - 1]
+    );
+
+    return toListResponse(page.rows.map(user => this.formatUser(user)), parseInt(total.rows[0].count), startIndex);
+  }
+
+  /**
+   * Fetches a user.
+   * @param id - ID of the user.
+   * @returns SCIM user.
+   */
+  async getUser(id: string) {
+    return this.formatUser(await this.findUser(this.db, id));
+  }
+
+  /**
+   * Provisions a user as an EMPLOYEE without a team; teams follow group
+   * membership.
+   * @param actorId - ID of the provisioning service account.
+   * @param resource - SCIM user.
+   * @returns Created SCIM user.
+   */
+  async createUser(actorId: string, resource: any) {
+    const attributes = this.readUser(resource);
+
+    return withTransaction(this.db, async client => {
+      await this.assertEmailAvailable(client, attributes.email);
+
+      const result = await client.query(
+        `INSERT INTO users (email, name, external_id, deactivated_at)
+         VALUES ($1, $2, $3, CASE WHEN $4 THEN NULL ELSE NOW() END)
+         RETURNING id`,
+        [attributes.email, attributes.name, attributes.externalId, attributes.active]
+      );
+      const userId = result.rows[0].id;
+      await this.auditService.record({
+        actorId,
+        action: 'CREATE_USER',
+        entityType: 'USER',
+        entityId: userId,
+        details: { email: attributes.email, externalId: attributes.externalId, active: attributes.active }
+      }, client);
+      return this.formatUser(await this.findUser(client, userId));
+    });
+  }
+
+  /**
+   * Replaces a user's attributes (PUT). Leaving out active keeps the user's
+   * current state.
+   * @param actorId - ID of the provisioning service account.
+   * @param id - ID of the user.
+   * @param resource - SCIM user.
+   * @returns Updated SCIM user.
+   */
+  async replaceUser(actorId: string, id: string, resource: any) {
+    return withTransaction(this.db, async client => {
+      const existing = await this.findUser(client, id, true);
+      const attributes = this.readUser(resource, this.toAttributes(existing));
+      await this.writeUser(client, actorId, existing, attributes);
+      return this.formatUser(await this.findUser(client, id));
+    });
+  }
+
+  /**
+   * Applies PATCH operations to a user. Attributes the app does not store,
+   * such as phone numbers, are accepted and ignored.
+   * @param actorId - ID of the provisioning service account.
+   * @param id - ID of the user.
+   * @param body - PatchOp request.
+   * @returns Updated SCIM user.
+   */
+  async patchUser(actorId: string, id: string, body: any) {
+    const operations = parsePatchOperations(body);
+
+    return withTransaction(this.db, async client => {
+      const existing = await this.findUser(client, id, true);
+      const attributes = this.toAttributes(existing);
+
+      for (const { op, path, value } of operations) {
+        const values: Record<string, any> = path ? { [path]: value } : value;
+        for (const [attribute, attributeValue] of Object.entries(values)) {
+          this.patchUserAttribute(attributes, op, attribute, attributeValue);
+        }
+      }
+
+      await this.writeUser(client, actorId, existing, attributes);
+      return this.formatUser(await this.findUser(client, id));
+    });
+  }
+
+  /**
+   * Deprovisions a user (DELETE) by deactivating them; deactivating twice is
+   * not an error.
+   * @param actorId - ID of the provisioning service account.
+   * @param id - ID of the user.
+   */
+  async deleteUser(actorId: string, id: string): Promise<void> {
+    await withTransaction(this.db, async client => {
+      const existing = await this.findUser(client, id, true);
+      await this.writeUser(client, actorId, existing, { ...this.toAttributes(existing), active: false });
+    });
+  }
+
+  /**
+   * Lists a page of active teams as groups.
+   * @param filter - Optional filter on displayName, externalId or id.
+   * @param params - startIndex and count.
+   * @param includeMembers - False when the client excluded members.
+   * @returns ListResponse of SCIM groups.
+   */
+  async listGroups(filter: unknown, { startIndex, count }: ScimListParams, includeMembers: boolean = true) {
+    const parsed = parseFilter(filter, Object.keys(GROUP_FILTERS));
+    const params: any[] = parsed ? [parsed.value] : [];
+    const where = ['archived_at IS NULL', ...(parsed ? [GROUP_FILTERS[parsed.attribute]] : [])].join(' AND ');
+
+    const total = await this.db.query(`SELECT COUNT(*) as count FROM teams WHERE ${where}`, params);
+    const page = count === 0 ? { rows: [] } : await this.db.query(
+      `SELECT * FROM teams
+       WHERE ${where}
+       ORDER BY created_at ASC, id ASC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, count, startIndex - 1]
+    );
+
+    const members = includeMembers ? await this.getMembers(this.db, page.rows.map(team => team.id)) : null;
+    return toListResponse(
+      page.rows.map(team => this.formatGroup(team, members && (members.get(team.id) || []))),
+      parseInt(total.rows[0].count),
+      startIndex
+    );
+  }
+
+  /**
+   * Fetches an active team as a group.
+   * @param id - ID of the team.
+   * @param includeMembers - False when the client excluded members.
+   * @returns SCIM group.
+   */
+  async getGroup(id: string, includeMembers: boolean = true) {
+    return this.loadGroup(this.db, await this.findTeam(this.db, id), includeMembers);
+  }
+
+  /**
+   * Creates a team from a group; its members move to the team.
+   * @param actorId - ID of the provisioning service account.
+   * @param resource - SCIM group.
+   * @returns Created SCIM group.
+   */
+  async createGroup(actorId: string, resource: any) {
+    const name = this.validateName(resource?.displayName, 'displayName');
+    const externalId = this.readExternalId(resource?.externalId);
+    const memberIds = this.readMemberIds(resource?.members);
+
+    return withTransaction(this.db, async client => {
+      await this.assertTeamNameAvailable(client, name);
+
+      const result = await client.query(
+        'INSERT INTO teams (name, external_id) VALUES ($1, $2) RETURNING *',
+        [name, externalId]
+      );
+      const team = result.rows[0];
+      await this.auditService.record({
+        actorId,
+        action: 'CREATE_TEAM',
+        entityType: 'TEAM',
+        entityId: team.id,
+        details: { name, externalId }
+      }, client);
+      await this.moveMembers(client, actorId, team.id, memberIds, []);
+      return this.loadGroup(client, team);
+    });
+  }
+
+  /**
+   * Replaces a group's name, externalId and, when given, its members (PUT).
+   * Leaving out members keeps the current members, so a partial PUT cannot
+   * empty a team by accident.
+   * @param actorId - ID of the provisioning service account.
+   * @param id - ID of the team.
+   * @param resource - SCIM group.
+   * @returns Updated SCIM group.
+   */
+  async replaceGroup(actorId: string, id: string, resource: any) {
+    const name = this.validateName(resource?.displayName, 'displayName');
+    const externalId = this.readExternalId(resource?.externalId);
+    const memberIds = resource?.members === undefined ? null : this.readMemberIds(resource.members);
+
+    return withTransaction(this.db, async client => {
+      const team = await this.findTeam(client, id, true);
+      await this.writeGroup(client, actorId, team, { name, external_id: externalId }, memberIds);
+      return this.loadGroup(client, await this.findTeam(client, id));
+    });
+  }
+
+  /**
+   * Applies PATCH operations to a group: renames it, or adds, removes or
+   * replaces members.
+   * @param actorId - ID of the provisioning service account.
+   * @param id - ID of the team.
+   * @param body - PatchOp request.
+   * @returns Updated SCIM group.
+   */
+  async patchGroup(actorId: string, id: string, body: any) {
+    const operations = parsePatchOperations(body);
+
+    return withTransaction(this.db, async client => {
+      const team = await this.findTeam(client, id, true);
+      const current = await this.getMembers(client, [team.id]);
+      const members = new Set((current.get(team.id) || []).map(member => member.id));
+      const changes: { name: string; external_id: string | null } = { name: team.name, external_id: team.external_id };
+
+      for (const { op, path, value } of operations) {
+        const memberId = path ? parseMemberPath(path) : null;
+        if (memberId !== null) {
+          if (op !== 'remove') {
+            throw new ScimError('Member filters can only be used to remove members', 400, 'invalidPath');
+          }
+          members.delete(memberId);
+          continue;
+        }
+
+        const values: Record<string, any> = path ? { [path]: value } : value;
+        for (const [attribute, attributeValue] of Object.entries(values)) {
+          switch (attribute.toLowerCase()) {
+            case 'displayname':
+              if (op === 'remove') {
+                throw new ScimError('displayName cannot be removed', 400, 'mutability');
+              }
+              changes.name = this.validateName(attributeValue, 'displayName');
+              break;
+            case 'externalid':
+              changes.external_id = op === 'remove' ? null : this.readExternalId(attributeValue);
+              break;
+            case 'members': {
+              // Removing members without a value removes all of them
+              const ids = op === 'remove' && attributeValue === undefined ? [...members] : this.readMemberIds(attributeValue);
+              if (op === 'replace') members.clear();
+              ids.forEach(memberId => op === 'remove' ? members.delete(memberId) : members.add(memberId));
+              break;
+            }
+            default:
+              throw new ScimError(`Unknown group attribute: ${attribute}`, 400, 'invalidPath');
+          }
+        }
+      }
+
+      await this.writeGroup(client, actorId, team, changes, [...members]);
+      return this.loadGroup(client, await this.findTeam(client, id));
+    });
+  }
+
+  /**
+   * Deletes a group by archiving its team; its members are left without a
+   * team. Teams with active sub-teams cannot be deleted.
+   * @param actorId - ID of the provisioning service account.
+   * @param id - ID of the team.
+   */
+  async deleteGroup(actorId: string, id: string): Promise<void> {
+    await withTransaction(this.db, async client => {
+      const team = await this.findTeam(client, id, true);
+      const subTeams = await client.query(
+        'SELECT COUNT(*) as count FROM teams WHERE parent_team_id = $1 AND archived_at IS NULL',
+        [team.id]
+      );
+      if (parseInt(subTeams.rows[0].count) > 0) {
+        throw new ScimError('Move or archive the sub-teams of this team first', 409);
+      }
+
+      const current = await this.getMembers(client, [team.id]);
+      await this.moveMembers(client, actorId, team.id, [], (current.get(team.id) || []).map(member => member.id));
+      await client.query('UPDATE teams SET archived_at = NOW() WHERE id = $1', [team.id]);
+      await this.auditService.record({
+        actorId,
+        action: 'ARCHIVE_TEAM',
+        entityType: 'TEAM',
+        entityId: team.id
+      }, client);
+    });
+  }
+
+  /**
+   * Applies one PATCH operation to a user's attributes.
+   */
+  private patchUserAttribute(attributes: UserAttributes, op: string, attribute: string, value: any): void {
+    const key = attribute.toLowerCase();
+    if (op === 'remove' && ['active', 'username', 'displayname', 'name', 'name.formatted'].includes(key)) {
+      throw new ScimError(`${attribute} cannot be removed`, 400, 'mutability');
+    }
+
+    switch (key) {
+      case 'active':
+        attributes.active = parseScimBoolean(value, 'active');
+        break;
+      case 'username':
+        attributes.email = this.validateEmail(value);
+        break;
+      case 'displayname':
+      case 'name.formatted':
+        attributes.name = this.validateName(value, attribute);
+        break;
+      case 'name':
+        if (value?.formatted !== undefined) {
+          attributes.name = this.validateName(value.formatted, 'name.formatted');
+        }
+        break;
+      case 'externalid':
+        attributes.externalId = op === 'remove' ? null : this.readExternalId(value);
+        break;
+      default:
+        // Not stored by the app
+        break;
+    }
+  }
+
+  /**
+   * Writes a user's changed attributes; deactivating revokes their sessions.
+   */
+  private async writeUser(client: PoolClient, actorId: string, existing: any, attributes: UserAttributes): Promise<void> {
+    const changes: Record<string, any> = {};
+    if (attributes.email !== existing.email) {
+      await this.assertEmailAvailable(client, attributes.email, existing.id);
+      changes.email = attributes.email;
+    }
+    if (attributes.name !== existing.name) {
+      changes.name = attributes.name;
+    }
+    if (attributes.externalId !== existing.external_id) {
+      changes.external_id = attributes.externalId;
+    }
+
+    const columns = Object.keys(changes);
+    if (columns.length > 0) {
+      await client.query(
+        `UPDATE users SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(', ')}
+         WHERE id = $1`,
+        [existing.id, ...columns.map(column => changes[column])]
+      );
+      await this.auditService.record({
+        actorId,
+        action: 'UPDATE_USER',
+        entityType: 'USER',
+        entityId: existing.id,
+        details: Object.fromEntries(columns.map(column => [column, { from: existing[column], to: changes[column] }]))
+      }, client);
+    }
+
+    if (!attributes.active && !existing.deactivated_at) {
+      await client.query('UPDATE users SET deactivated_at = NOW() WHERE id = $1', [existing.id]);
+      const sessions = await client.query(
+        `UPDATE sessions SET revoked_at = NOW(), revoked_reason = 'USER_DEACTIVATED'
+         WHERE user_id = $1 AND revoked_at IS NULL
+         RETURNING id`,
+        [existing.id]
+      );
+      await this.auditService.record({
+        actorId,
+        action: 'DEACTIVATE_USER',
+        entityType: 'USER',
+        entityId: existing.id,
+        details: { sessionCount: sessions.rows.length }
+      }, client);
+    } else if (attributes.active && existing.deactivated_at) {
+      await client.query('UPDATE users SET deactivated_at = NULL WHERE id = $1', [existing.id]);
+      await this.auditService.record({
+        actorId,
+        action: 'REACTIVATE_USER',
+        entityType: 'USER',
+        entityId: existing.id
+      }, client);
+    }
+  }
+
+  /**
+   * Writes a team's changed name and externalId and, when memberIds is not
+   * null, makes them its exact members.
+   */
+  private async writeGroup(
+    client: PoolClient,
+    actorId: string,
+    team: any,
+    values: { name: string; external_id: string | null },
+    memberIds: string[] | null
+  ): Promise<void> {
+    const changes: Record<string, any> = {};
+    if (values.name !== team.name) {
+      if (values.name.toLowerCase() !== team.name.toLowerCase()) {
+        await this.assertTeamNameAvailable(client, values.name);
+      }
+      changes.name = values.name;
+    }
+    if (values.external_id !== team.external_id) {
+      changes.external_id = values.external_id;
+    }
+
+    const columns = Object.keys(changes);
+    if (columns.length > 0) {
+      await client.query(
+        `UPDATE teams SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(', ')}
+         WHERE id = $1`,
+        [team.id, ...columns.map(column => changes[column])]
+      );
+      await this.auditService.record({
+        actorId,
+        action: 'UPDATE_TEAM',
+        entityType: 'TEAM',
+        entityId: team.id,
+        details: Object.fromEntries(columns.map(column => [column, { from: team[column], to: changes[column] }]))
+      }, client);
+    }
+
+    if (memberIds !== null) {
+      const current = (await this.getMembers(client, [team.id])).get(team.id) || [];
+      const currentIds = current.map(member => member.id);
+      await this.moveMembers(
+        client,
+        actorId,
+        team.id,
+        memberIds.filter(memberId => !currentIds.includes(memberId)),
+        currentIds.filter(memberId => !memberIds.includes(memberId))
+      );
+    }
+  }
+
+  /**
+   * Moves users into a team (out of their previous one) and takes users out
+   * of it, auditing each user's team change.
+   */
+  private async moveMembers(client: PoolClient, actorId: string, teamId: string, addIds: string[], removeIds: string[]) {
+    const moves: { userId: string; from: string | null; to: string | null }[] = [];
+
+    if (addIds.length > 0) {
+      const users = await client.query(
+        'SELECT id, team_id FROM users WHERE id = ANY($1) AND NOT is_service_account AND erased_at IS NULL FOR UPDATE',
+        [addIds]
+      );
+      if (users.rows.length !== new Set(addIds).size) {
+        throw new ScimError('Group members must be existing users', 400, 'invalidValue');
+      }
+      await client.query('UPDATE users SET team_id = $1 WHERE id = ANY($2)', [teamId, addIds]);
+      users.rows.forEach(user => moves.push({ userId: user.id, from: user.team_id, to: teamId }));
+    }
+
+    if (removeIds.length > 0) {
+      const removed = await client.query(
+        'UPDATE users SET team_id = NULL WHERE id = ANY($1) AND team_id = $2 RETURNING id',
+        [removeIds, teamId]
+      );
+      removed.rows.forEach(user => moves.push({ userId: user.id, from: teamId, to: null }));
+    }
+
+    for (const move of moves) {
+      await this.auditService.record({
+        actorId,
+        action: 'UPDATE_USER',
+        entityType: 'USER',
+        entityId: move.userId,
+        details: { team_id: { from: move.from, to: move.to } }
+      }, client);
+    }
+  }
+
+  /**
+   * Loads a user (not a service account), optionally locking the row.
+   * @returns Raw user row with team_name.
+   */
+  private async findUser(client: Queryable, id: string, lock: boolean = false) {
+    if (!isScimId(id)) {
+      throw new ScimError('User not found', 404);
+    }
+    const result = await client.query(
+      `SELECT ${USER_COLUMNS} FROM ${USER_JOIN}
+       WHERE u.id = $1 AND NOT u.is_service_account AND u.erased_at IS NULL
+       ${lock ? 'FOR UPDATE OF u' : ''}`,
+      [id]
+    );
+    if (!result.rows[0]) {
+      throw new ScimError('User not found', 404);
+    }
+    return result.rows[0];
+  }
+
+  /**
+   * Loads an active team, optionally locking the row; archived teams are
+   * deleted groups.
+   * @returns Raw team row.
+   */
+  private async findTeam(client: Queryable, id: string, lock: boolean = false) {
+    if (!isScimId(id)) {
+      throw new ScimError('Group not found', 404);
+    }
+    const result = await client.query(
+      `SELECT * FROM teams WHERE id = $1 AND archived_at IS NULL ${lock ? 'FOR UPDATE' : ''}`,
+      [id]
+    );
+    if (!result.rows[0]) {
+      throw new ScimError('Group not found', 404);
+    }
+    return result.rows[0];
+  }
+
+  /**
+   * Formats a team with its members.
+   */
+  private async loadGroup(client: Queryable, team: any, includeMembers: boolean = true) {
+    const members = includeMembers ? (await this.getMembers(client, [team.id])).get(team.id) || [] : null;
+    return this.formatGroup(team, members);
+  }
+
+  /**
+   * Members of each team, deactivated users included so the group matches
+   * what the identity provider assigned.
+   * @returns Team ID -> members (id and name), ordered by name.
+   */
+  private async getMembers(client: Queryable, teamIds: string[]) {
+    const members = new Map<string, { id: string; name: string }[]>();
+    if (teamIds.length === 0) return members;
+
+    const result = await client.query(
+      `SELECT id, name, team_id FROM users
+       WHERE team_id = ANY($1) AND NOT is_service_account AND erased_at IS NULL
+       ORDER BY name ASC`,
+      [teamIds]
+    );
+    for (const user of result.rows) {
+      members.set(user.team_id, [...(members.get(user.team_id) || []), { id: user.id, name: user.name }]);
+    }
+    return members;
+  }
+
+  /**
+   * Reads a SCIM user for create or PUT. The email is userName, or the
+   * primary email when userName is not an email address.
+   */
+  private readUser(resource: any, current?: UserAttributes): UserAttributes {
+    const emails = Array.isArray(resource?.emails) ? resource.emails : [];
+    const primaryEmail = (emails.find((email: any) => email?.primary === true) || emails[0])?.value;
+    const userName = typeof resource?.userName === 'string' ? resource.userName.trim() : '';
+    const email = this.validateEmail(EMAIL_PATTERN.test(userName) ? userName : primaryEmail);
+
+    const nameParts = [resource?.name?.givenName, resource?.name?.familyName].filter(part => typeof part === 'string');
+    const name = this.validateName(resource?.displayName || resource?.name?.formatted || nameParts.join(' '), 'displayName');
+
+    return {
+      email,
+      name,
+      externalId: this.readExternalId(resource?.externalId),
+      active: resource?.active === undefined ? current?.active ?? true : parseScimBoolean(resource.active, 'active')
+    };
+  }
+
+  /**
+   * The SCIM-managed attributes of a user row.
+   */
+  private toAttributes(user: any): UserAttributes {
+    return {
+      email: user.email,
+      name: user.name,
+      externalId: user.external_id,
+      active: !user.deactivated_at
+    };
+  }
+
+  /**
+   * Reads member IDs from [{ value: id }]
+   */
+  private readMemberIds(members: any): string[] {
+    if (members === undefined || members === null) return [];
+    if (!Array.isArray(members)) {
+      throw new ScimError('members must be a list', 400, 'invalidValue');
+    }
+    return members.map(member => {
+      if (!isScimId(member?.value)) {
+        throw new ScimError('Group members must be existing users', 400, 'invalidValue');
+      }
+      return member.value;
+    });
+  }
+
+  /**
+   * Throws unless no other user has the email.
+   */
+  private async assertEmailAvailable(client: PoolClient, email: string, userId: string | null = null): Promise<void> {
+    const result = await client.query(
+      'SELECT id FROM users WHERE LOWER(email) = $1 AND id IS DISTINCT FROM $2',
+      [email, userId]
+    );
+    if (result.rows.length > 0) {
+      throw new ScimError('A user with this userName already exists', 409, 'uniqueness');
+    }
+  }
+
+  /**
+   * Throws unless no active team has the name (case-insensitive).
+   */
+  private async assertTeamNameAvailable(client: PoolClient, name: string): Promise<void> {
+    const result = await client.query(
+      'SELECT id FROM teams WHERE LOWER(name) = LOWER($1) AND archived_at IS NULL',
+      [name]
+    );
+    if (result.rows.length > 0) {
+      throw new ScimError('A group with this displayName already exists', 409, 'uniqueness');
+    }
+  }
+
+  /**
+   * Normalizes and checks an email address.
+   */
+  private validateEmail(value: unknown): string {
+    const email = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new ScimError('userName must be an email address', 400, 'invalidValue');
+    }
+    return email;
+  }
+
+  /**
+   * Trims and checks a user or team name.
+   */
+  private validateName(value: unknown, attribute: string): string {
+    const name = typeof value === 'string' ? value.trim() : '';
+    if (!name) {
+      throw new ScimError(`${attribute} is required`, 400, 'invalidValue');
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new ScimError(`${attribute} cannot exceed ${MAX_NAME_LENGTH} characters`, 400, 'invalidValue');
+    }
+    return name;
+  }
+
+  /**
+   * externalId as stored; empty values clear it.
+   */
+  private readExternalId(value: unknown): string | null {
+    if (value === undefined || value === null || value === '') return null;
+    if (typeof value !== 'string' || value.length > MAX_NAME_LENGTH) {
+      throw new ScimError('externalId must be a string', 400, 'invalidValue');
+    }
+    return value;
+  }
+
+  /**
+   * Converts raw DB row into a SCIM user.
+   * @param user - Raw users DB row with team_name.
+   * @returns SCIM user.
+   */
+  private formatUser(user: any) {
+    return {
+      schemas: [SCIM_SCHEMAS.USER],
+      id: user.id,
+      externalId: user.external_id || undefined,
+      userName: user.email,
+      name: { formatted: user.name },
+      displayName: user.name,
+      emails: [{ value: user.email, type: 'work', primary: true }],
+      active: !user.deactivated_at,
+      groups: user.team_id ? [{ value: user.team_id, display: user.team_name }] : [],
+      meta: { resourceType: 'User', created: user.created_at }
+    };
+  }
+
+  /**
+   * Converts raw DB row into a SCIM group.
+   * @param team - Raw teams DB row.
+   * @param members - Members of the team, or null to leave them out.
+   * @returns SCIM group.
+   */
+  private formatGroup(team: any, members: { id: string; name: string }[] | null) {
+    return {
+      schemas: [SCIM_SCHEMAS.GROUP],
+      id: team.id,
+      externalId: team.external_id || undefined,
+      displayName: team.name,
+      ...(members ? { members: members.map(member => ({ value: member.id, display: member.name })) } : {}),
+      meta: { resourceType: 'Group', created: team.created_at }
+    };
+  }
+}
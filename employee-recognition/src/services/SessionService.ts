@@ -0,0 +1,298 @@
+import { Pool } from 'pg';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AuditService } from './AuditService';
+import { assertRole } from './PolicyService';
+import { withTransaction } from '../utils/database';
+
+// Interface for login response format
+export interface LoginResponse {
+  token: string;
+  refreshToken: string;
+  expiresAt: Date;
+  user: {
+    id: string;
+    email: string;
+    name: string;
+    role: string;
+    createdAt: Date;
+  };
+}
+
+/**
+ * Where a request comes from; recorded with sessions and used for login throttling
+ */
+export interface ClientInfo {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+// Access tokens are short-lived; clients renew them with the refresh token
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+// A session ends when its refresh token has not been used for this long
+const SESSION_IDLE_DAYS = 30;
+// Revoked and expired sessions are kept this long for session history
+const SESSION_RETENTION_DAYS = 30;
+const MAX_USER_AGENT_LENGTH = 500;
+
+const INVALID_TOKEN = 'Invalid or expired token';
+const INVALID_REFRESH_TOKEN = 'Invalid or expired refresh token';
+
+/**
+ * Service class for sign-in sessions. Each session issues short-lived access
+ * tokens (JWTs carrying the session ID) and a refresh token stored server-side
+ * as a hash that rotates on every use. Revoking a session stops both.
+ */
+export class SessionService {
+  /**
+   * @param db - PostgreSQL connection pool
+   * @param auditService - Records admin session revocations
+   */
+  constructor(private db: Pool, private auditService: AuditService = new AuditService(db)) {}
+
+  /**
+   * Starts a session for a user who has just signed in.
+   * @param user - Raw user row.
+   * @param client - Client IP and user agent, shown in the session list.
+   * @returns Access token, refresh token and user details.
+   */
+  async createSession(user: any, client: ClientInfo = {}): Promise<LoginResponse> {
+    const refreshToken = this.generateRefreshToken();
+    const result = await this.db.query(
+      `INSERT INTO sessions (user_id, refresh_token_hash, ip_address, user_agent, expires_at)
+       VALUES ($1, $2, $3, $4, NOW() + make_interval(days => $5))
+       RETURNING id`,
+      [user.id, this.hashToken(refreshToken), client.ipAddress || null, this.truncateUserAgent(client.userAgent), SESSION_IDLE_DAYS]
+    );
+    return this.issueTokens(user, result.rows[0].id, refreshToken);
+  }
+
+  /**
+   * Exchanges a refresh token for a new access token and refresh token. Using
+   * an already rotated refresh token again revokes the session, since it means
+   * the token was copied.
+   * @param refreshToken - Current refresh token of the session.
+   * @param client - Client IP and user agent.
+   * @returns New access token, refresh token and user details.
+   */
+  async refreshSession(refreshToken: string, client: ClientInfo = {}): Promise<LoginResponse> {
+    if (!refreshToken) {
+      throw new Error(INVALID_REFRESH_TOKEN);
+    }
+
+    const hash = this.hashToken(refreshToken);
+    const nextToken = this.generateRefreshToken();
+    // Rotation is conditional on the old hash, so a token cannot be redeemed twice in parallel
+    const rotated = await this.db.query(
+      `UPDATE sessions
+       SET previous_refresh_token_hash = refresh_token_hash,
+           refresh_token_hash = $2,
+           last_used_at = NOW(),
+           expires_at = NOW() + make_interval(days => $3),
+           ip_address = COALESCE($4, ip_address),
+           user_agent = COALESCE($5, user_agent)
+       WHERE refresh_token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       RETURNING id, user_id`,
+      [hash, this.hashToken(nextToken), SESSION_IDLE_DAYS, client.ipAddress || null, this.truncateUserAgent(client.userAgent)]
+    );
+    const session = rotated.rows[0];
+
+    if (!session) {
+      const reused = await this.db.query(
+        `UPDATE sessions SET revoked_at = NOW(), revoked_reason = 'REFRESH_TOKEN_REUSED'
+         WHERE previous_refresh_token_hash = $1 AND revoked_at IS NULL
+         RETURNING id`,
+        [hash]
+      );
+      if (reused.rows.length > 0) {
+        console.warn(`Refresh token reused; revoked session ${reused.rows[0].id}`);
+      }
+      throw new Error(INVALID_REFRESH_TOKEN);
+    }
+
+    // Reload the user so role changes apply from the next access token
+    const user = await this.db.query('SELECT * FROM users WHERE id = $1 AND deactivated_at IS NULL', [session.user_id]);
+    if (!user.rows[0]) {
+      throw new Error(INVALID_REFRESH_TOKEN);
+    }
+    return this.issueTokens(user.rows[0], session.id, nextToken);
+  }
+
+  /**
+   * Verifies an access token and checks that its session is still active.
+   * @param token - Access token (JWT).
+   * @returns Decoded user payload, including the session ID as sid.
+   */
+  async verifyAccessToken(token: string) {
+    let payload: any;
+    try {
+      payload = jwt.verify(token, process.env.JWT_SECRET!);
+    } catch (error) {
+      throw new Error(INVALID_TOKEN);
+    }
+    // Tokens without a session cannot be revoked, so they are not accepted
+    if (!payload?.sid) {
+      throw new Error(INVALID_TOKEN);
+    }
+
+    const result = await this.db.query(
+      'SELECT id FROM sessions WHERE id = $1 AND revoked_at IS NULL AND expires_at > NOW()',
+      [payload.sid]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Session has been revoked');
+    }
+    return payload;
+  }
+
+  /**
+   * Lists a user's active sessions, most recently used first.
+   * @param userId - ID of the user.
+   * @param currentSessionId - Session of the request, flagged as current.
+   * @returns Array of session objects.
+   */
+  async getSessions(userId: string, currentSessionId?: string) {
+    const result = await this.db.query(
+      `SELECT * FROM sessions
+       WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       ORDER BY last_used_at DESC`,
+      [userId]
+    );
+    return result.rows.map(session => this.formatSession(session, currentSessionId));
+  }
+
+  /**
+   * Revokes one of the user's own sessions (signing out that device).
+   * @param userId - ID of the user.
+   * @param sessionId - ID of the session.
+   * @returns True on success.
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE sessions SET revoked_at = NOW(), revoked_reason = 'USER'
+       WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL
+       RETURNING id`,
+      [sessionId, userId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Session not found');
+    }
+    return true;
+  }
+
+  /**
+   * Revokes every active session of a user, e.g. when they leave or lose a
+   * device. Admin only; audited.
+   * @param targetUserId - ID of the user to sign out everywhere.
+   * @param adminId - ID of the admin.
+   * @param userRole - Role of the admin.
+   * @returns Number of sessions revoked.
+   */
+  async revokeAllSessionsForUser(targetUserId: string, adminId: string, userRole: string): Promise<number> {
+    assertRole(userRole, 'ADMIN');
+
+    return withTransaction(this.db, async client => {
+      const result = await client.query(
+        `UPDATE sessions SET revoked_at = NOW(), revoked_reason = 'ADMIN'
+         WHERE user_id = $1 AND revoked_at IS NULL
+         RETURNING id`,
+        [targetUserId]
+      );
+      await this.auditService.record({
+        actorId: adminId,
+        action: 'REVOKE_ALL_SESSIONS',
+        entityType: 'USER',
+        entityId: targetUserId,
+        details: { sessionCount: result.rows.length }
+      }, client);
+      return result.rows.length;
+    });
+  }
+
+  /**
+   * Deletes sessions that ended more than the retention period ago.
+   * @returns Number of sessions deleted.
+   */
+  async pruneSessions(): Promise<number> {
+    const result = await this.db.query(
+      `DELETE FROM sessions
+       WHERE revoked_at < NOW() - make_interval(days => $1)
+          OR expires_at < NOW() - make_interval(days => $1)`,
+      [SESSION_RETENTION_DAYS]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Signs an access token for a session.
+   * @param user - Raw user row.
+   * @param sessionId - ID of the session.
+   * @param refreshToken - The session's current refresh token.
+   * @returns Access token, refresh token and user details.
+   */
+  private issueTokens(user: any, sessionId: string, refreshToken: string): LoginResponse {
+    const token = jwt.sign(
+      {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        name: user.name,
+        sid: sessionId
+      },
+      process.env.JWT_SECRET!,
+      { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+    );
+
+    return {
+      token,
+      refreshToken,
+      expiresAt: new Date(Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000),
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        createdAt: user.created_at
+      }
+    };
+  }
+
+  /**
+   * Random refresh token; only its hash is stored.
+   */
+  private generateRefreshToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  /**
+   * SHA-256 hex digest of a refresh token.
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Limits the stored user agent to a sane length.
+   */
+  private truncateUserAgent(userAgent: string | null | undefined): string | null {
+    return userAgent ? userAgent.slice(0, MAX_USER_AGENT_LENGTH) : null;
+  }
+
+  /**
+   * Converts raw DB row into formatted session object.
+   * @param session - Raw sessions DB row.
+   * @param currentSessionId - Session of the request.
+   * @returns Formatted session.
+   */
+  private formatSession(session: any, currentSessionId?: string) {
+    return {
+      id: session.id,
+      ipAddress: session.ip_address,
+      userAgent: session.user_agent,
+      createdAt: session.created_at,
+      lastUsedAt: session.last_used_at,
+      expiresAt: session.expires_at,
+      current: session.id === currentSessionId
+    };
+  }
+}
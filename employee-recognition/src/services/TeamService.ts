@@ -0,0 +1,341 @@
+import { Pool } from 'pg';
+import { AuditService } from './AuditService';
+import { assertRole } from './PolicyService';
+import { Queryable, withTransaction } from '../utils/database';
+
+export interface CreateTeamInput {
+  name: string;
+  description?: string | null;
+  parentTeamId?: string | null;
+  managerId?: string | null;
+}
+
+export interface UpdateTeamInput {
+  id: string;
+  name?: string;
+  description?: string | null;
+  parentTeamId?: string | null; // null makes it a top-level team
+  managerId?: string | null; // null removes the manager
+}
+
+const MAX_NAME_LENGTH = 255;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+/**
+ * Service class for teams and the team hierarchy. Teams are archived rather
+ * than deleted, so historical recognitions keep their team.
+ */
+export class TeamService {
+  /**
+   * @param db - PostgreSQL connection pool
+   * @param auditService - Records changes made by admins
+   */
+  constructor(private db: Pool, private auditService: AuditService = new AuditService(db)) {}
+
+  /**
+   * Fetch a team by ID, archived or not.
+   * @param teamId - ID of the team.
+   * @returns Team object or null.
+   */
+  async getTeam(teamId: string | null | undefined) {
+    if (!teamId) return null;
+
+    const result = await this.db.query('SELECT * FROM teams WHERE id = $1', [teamId]);
+    return result.rows[0] ? this.formatTeam(result.rows[0]) : null;
+  }
+
+  /**
+   * List teams by ID, or every team, ordered by name.
+   * @param teamIds - IDs of the teams, or null for all teams.
+   * @param includeArchived - Whether to list archived teams too.
+   * @returns Array of team objects.
+   */
+  async getTeams(teamIds: string[] | null, includeArchived: boolean = false) {
+    if (teamIds && teamIds.length === 0) return [];
+
+    const params: any[] = [];
+    const conditions: string[] = [];
+    if (teamIds) {
+      params.push(teamIds);
+      conditions.push('id = ANY($1)');
+    }
+    if (!includeArchived) {
+      conditions.push('archived_at IS NULL');
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.db.query(`SELECT * FROM teams ${where} ORDER BY name ASC`, params);
+    return result.rows.map(team => this.formatTeam(team));
+  }
+
+  /**
+   * List the direct sub-teams of a team.
+   * @param teamId - ID of the parent team.
+   * @param includeArchived - Whether to list archived sub-teams too.
+   * @returns Array of team objects.
+   */
+  async getSubTeams(teamId: string, includeArchived: boolean = false) {
+    const result = await this.db.query(
+      `SELECT * FROM teams
+       WHERE parent_team_id = $1 ${includeArchived ? '' : 'AND archived_at IS NULL'}
+       ORDER BY name ASC`,
+      [teamId]
+    );
+    return result.rows.map(team => this.formatTeam(team));
+  }
+
+  /**
+   * IDs of a team and every team below it, archived or not.
+   * @param teamId - ID of the top team.
+   * @param client - Pool or transaction client.
+   * @returns Team IDs; empty if the team does not exist.
+   */
+  async getTeamTreeIds(teamId: string, client: Queryable = this.db): Promise<string[]> {
+    // UNION (not UNION ALL) stops the walk if the hierarchy ever has a cycle
+    const result = await client.query(
+      `WITH RECURSIVE tree AS (
+         SELECT id FROM teams WHERE id = $1
+         UNION
+         SELECT t.id FROM teams t JOIN tree ON t.parent_team_id = tree.id
+       )
+       SELECT id FROM tree`,
+      [teamId]
+    );
+    return result.rows.map(row => row.id);
+  }
+
+  /**
+   * Creates a team (admin only).
+   * @param adminId - ID of the admin.
+   * @param userRole - Role of the admin.
+   * @param input - Name, description, parent team and manager.
+   * @returns Created team.
+   */
+  async createTeam(adminId: string, userRole: string, input: CreateTeamInput) {
+    assertRole(userRole, 'ADMIN');
+    const name = this.validateName(input.name);
+    const description = this.validateDescription(input.description);
+
+    return withTransaction(this.db, async client => {
+      await this.assertNameAvailable(client, name);
+      if (input.parentTeamId) {
+        await this.assertActiveTeam(client, input.parentTeamId, 'Parent team not found');
+      }
+      if (input.managerId) {
+        await this.assertActiveManager(client, input.managerId);
+      }
+
+      const result = await client.query(
+        `INSERT INTO teams (name, description, parent_team_id, manager_id)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [name, description, input.parentTeamId || null, input.managerId || null]
+      );
+      const team = result.rows[0];
+      await this.auditService.record({
+        actorId: adminId,
+        action: 'CREATE_TEAM',
+        entityType: 'TEAM',
+        entityId: team.id,
+        details: { name, parentTeamId: team.parent_team_id, managerId: team.manager_id }
+      }, client);
+      return this.formatTeam(team);
+    });
+  }
+
+  /**
+   * Changes a team's name, description, parent or manager (admin only).
+   * Fields that are left out stay unchanged.
+   * @param adminId - ID of the admin.
+   * @param userRole - Role of the admin.
+   * @param input - Team ID and the fields to change.
+   * @returns Updated team.
+   */
+  async updateTeam(adminId: string, userRole: string, input: UpdateTeamInput) {
+    assertRole(userRole, 'ADMIN');
+    const changes: Record<string, any> = {};
+    if (input.name !== undefined) {
+      changes.name = this.validateName(input.name);
+    }
+    if (input.description !== undefined) {
+      changes.description = this.validateDescription(input.description);
+    }
+    if (input.parentTeamId !== undefined) {
+      changes.parent_team_id = input.parentTeamId || null;
+    }
+    if (input.managerId !== undefined) {
+      changes.manager_id = input.managerId || null;
+    }
+    if (Object.keys(changes).length === 0) {
+      throw new Error('Nothing to update');
+    }
+
+    return withTransaction(this.db, async client => {
+      const existing = await client.query('SELECT * FROM teams WHERE id = $1 FOR UPDATE', [input.id]);
+      const team = existing.rows[0];
+      if (!team) {
+        throw new Error('Team not found');
+      }
+      if (team.archived_at) {
+        throw new Error('Archived teams cannot be changed');
+      }
+
+      if (changes.name !== undefined && changes.name.toLowerCase() !== team.name.toLowerCase()) {
+        await this.assertNameAvailable(client, changes.name);
+      }
+      if (changes.parent_team_id) {
+        await this.assertActiveTeam(client, changes.parent_team_id, 'Parent team not found');
+        const tree = await this.getTeamTreeIds(input.id, client);
+        if (tree.includes(changes.parent_team_id)) {
+          throw new Error('A team cannot be moved under itself or one of its sub-teams');
+        }
+      }
+      if (changes.manager_id) {
+        await this.assertActiveManager(client, changes.manager_id);
+      }
+
+      const columns = Object.keys(changes);
+      const result = await client.query(
+        `UPDATE teams SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(', ')}
+         WHERE id = $1
+         RETURNING *`,
+        [input.id, ...columns.map(column => changes[column])]
+      );
+      await this.auditService.record({
+        actorId: adminId,
+        action: 'UPDATE_TEAM',
+        entityType: 'TEAM',
+        entityId: input.id,
+        details: Object.fromEntries(columns.map(column => [column, { from: team[column], to: changes[column] }]))
+      }, client);
+      return this.formatTeam(result.rows[0]);
+    });
+  }
+
+  /**
+   * Archives a team (admin only). Its members and active sub-teams must be
+   * moved first; recognitions of the team are kept.
+   * @param adminId - ID of the admin.
+   * @param userRole - Role of the admin.
+   * @param teamId - ID of the team.
+   * @returns Archived team.
+   */
+  async archiveTeam(adminId: string, userRole: string, teamId: string) {
+    assertRole(userRole, 'ADMIN');
+
+    return withTransaction(this.db, async client => {
+      const existing = await client.query('SELECT * FROM teams WHERE id = $1 FOR UPDATE', [teamId]);
+      if (!existing.rows[0]) {
+        throw new Error('Team not found');
+      }
+      if (existing.rows[0].archived_at) {
+        throw new Error('Team is already archived');
+      }
+
+      const subTeams = await client.query(
+        'SELECT COUNT(*) as count FROM teams WHERE parent_team_id = $1 AND archived_at IS NULL',
+        [teamId]
+      );
+      if (parseInt(subTeams.rows[0].count) > 0) {
+        throw new Error('Move or archive the sub-teams of this team first');
+      }
+      const members = await client.query(
+        'SELECT COUNT(*) as count FROM users WHERE team_id = $1 AND deactivated_at IS NULL',
+        [teamId]
+      );
+      if (parseInt(members.rows[0].count) > 0) {
+        throw new Error('Move the members of this team to another team first');
+      }
+
+      const result = await client.query(
+        'UPDATE teams SET archived_at = NOW() WHERE id = $1 RETURNING *',
+        [teamId]
+      );
+      await this.auditService.record({
+        actorId: adminId,
+        action: 'ARCHIVE_TEAM',
+        entityType: 'TEAM',
+        entityId: teamId
+      }, client);
+      return this.formatTeam(result.rows[0]);
+    });
+  }
+
+  /**
+   * Throws unless no active team has the name (case-insensitive).
+   */
+  private async assertNameAvailable(client: Queryable, name: string): Promise<void> {
+    const result = await client.query(
+      'SELECT id FROM teams WHERE LOWER(name) = LOWER($1) AND archived_at IS NULL',
+      [name]
+    );
+    if (result.rows.length > 0) {
+      throw new Error('A team with this name already exists');
+    }
+  }
+
+  /**
+   * Throws unless the team exists and is not archived.
+   */
+  private async assertActiveTeam(client: Queryable, teamId: string, message: string): Promise<void> {
+    const result = await client.query('SELECT id FROM teams WHERE id = $1 AND archived_at IS NULL', [teamId]);
+    if (result.rows.length === 0) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Throws unless the manager is an active person.
+   */
+  private async assertActiveManager(client: Queryable, userId: string): Promise<void> {
+    const result = await client.query(
+      'SELECT id FROM users WHERE id = $1 AND NOT is_service_account AND deactivated_at IS NULL',
+      [userId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Manager not found');
+    }
+  }
+
+  /**
+   * Trims and checks a team name.
+   */
+  private validateName(value: string): string {
+    const name = (value || '').trim();
+    if (!name) {
+      throw new Error('Team name is required');
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new Error(`Team name cannot exceed ${MAX_NAME_LENGTH} characters`);
+    }
+    return name;
+  }
+
+  /**
+   * Trims and checks a team description; empty descriptions are stored as null.
+   */
+  private validateDescription(value: string | null | undefined): string | null {
+    const description = (value || '').trim();
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      throw new Error(`Team description cannot exceed ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+    return description || null;
+  }
+
+  /**
+   * Converts raw DB row into formatted team object.
+   * @param team - Raw teams DB row.
+   * @returns Formatted team.
+   */
+  private formatTeam(team: any) {
+    return {
+      id: team.id,
+      name: team.name,
+      description: team.description,
+      managerId: team.manager_id,
+      parentTeamId: team.parent_team_id,
+      createdAt: team.created_at,
+      archivedAt: team.archived_at
+    };
+  }
+}
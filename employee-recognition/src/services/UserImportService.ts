@@ -0,0 +1,389 @@
+import { Pool, PoolClient } from 'pg';
+import { AuditService } from './AuditService';
+import { USER_ROLES, assertRole } from './PolicyService';
+import { withTransaction } from '../utils/database';
+import { parseCsv, readCsvCell, toCsv } from '../utils/csv';
+
+export type ImportRowAction = 'CREATE' | 'UPDATE' | 'UNCHANGED';
+
+export interface UserImportRow {
+  row: number; // row in the file, counting the header as row 1
+  email: string | null;
+  action: ImportRowAction | null; // null when the row has errors
+  changes: string[];
+  errors: string[];
+}
+
+// A valid row and what applying it writes
+interface PlannedRow {
+  result: UserImportRow;
+  existing: any | null;
+  values: Record<string, any>; // users column -> new value
+  newTeamName: string | null;
+  active: boolean | null; // null leaves it unchanged
+}
+
+const CSV_COLUMNS = ['email', 'name', 'role', 'team', 'active'];
+const REQUIRED_COLUMNS = ['email', 'name'];
+
+// Keeps a request well below the JSON body size limit
+const MAX_IMPORT_ROWS = 1000;
+const MAX_NAME_LENGTH = 255;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Service class for bulk CSV import and export of users and their teams
+ * (admin only). The columns are email, name, role, team and active; teams are
+ * given by name or ID and teams named in the file that do not exist are
+ * created. Users are matched by email, blank cells leave a user's value
+ * unchanged, and an import is applied in full or not at all.
+ */
+export class UserImportService {
+  /**
+   * @param db - PostgreSQL connection pool
+   * @param auditService - Records changes made by admins
+   */
+  constructor(private db: Pool, private auditService: AuditService = new AuditService(db)) {}
+
+  /**
+   * Validates a CSV file and, unless it is a dry run and when no row has
+   * errors, creates and updates its users and teams.
+   * @param adminId - ID of the admin.
+   * @param userRole - Role of the admin.
+   * @param csv - Contents of the CSV file.
+   * @param dryRun - Only report what would change.
+   * @returns Per-row results and totals.
+   */
+  async importUsers(adminId: string, userRole: string, csv: string, dryRun: boolean = true) {
+    assertRole(userRole, 'ADMIN');
+    const records = this.readRecords(csv);
+
+    return withTransaction(this.db, async client => {
+      const emails = records.map(record => (record.cells.email || '').trim().toLowerCase()).filter(Boolean);
+      const [users, teams] = await Promise.all([
+        client.query(
+          `SELECT * FROM users WHERE LOWER(email) = ANY($1) ${dryRun ? '' : 'FOR UPDATE'}`,
+          [emails]
+        ),
+        client.query('SELECT id, name, archived_at FROM teams')
+      ]);
+      const usersByEmail = new Map<string, any>(users.rows.map(user => [user.email.toLowerCase(), user]));
+      const teamsById = new Map<string, any>(teams.rows.map(team => [team.id, team]));
+      const teamsByName = new Map<string, any>(
+        teams.rows.filter(team => !team.archived_at).map(team => [team.name.toLowerCase(), team])
+      );
+
+      const seen = new Map<string, number>();
+      const planned = records.map(({ row, cells }) => {
+        const plan = this.planRow(adminId, row, cells, usersByEmail, teamsById, teamsByName);
+        if (plan.result.email) {
+          const firstRow = seen.get(plan.result.email);
+          if (firstRow !== undefined) {
+            plan.result.errors.push(`Duplicate email (also on row ${firstRow})`);
+          } else {
+            seen.set(plan.result.email, row);
+          }
+        }
+        if (plan.result.errors.length > 0) {
+          plan.result.action = null;
+          plan.result.changes = [];
+        }
+        return plan;
+      });
+
+      // Spelled as on the first row that names the team
+      const newTeams = new Map<string, string>();
+      for (const plan of planned) {
+        if (plan.newTeamName && plan.result.errors.length === 0 && !newTeams.has(plan.newTeamName.toLowerCase())) {
+          newTeams.set(plan.newTeamName.toLowerCase(), plan.newTeamName);
+        }
+      }
+
+      const rows = planned.map(plan => plan.result);
+      const errorCount = rows.filter(row => row.errors.length > 0).length;
+      const applied = !dryRun && errorCount === 0;
+      if (applied) {
+        await this.applyImport(client, adminId, planned, newTeams);
+      }
+
+      return {
+        dryRun,
+        applied,
+        created: rows.filter(row => row.action === 'CREATE').length,
+        updated: rows.filter(row => row.action === 'UPDATE').length,
+        unchanged: rows.filter(row => row.action === 'UNCHANGED').length,
+        errorCount,
+        newTeams: [...newTeams.values()],
+        rows
+      };
+    });
+  }
+
+  /**
+   * Exports people in the import format. Teams are given by name, or by ID
+   * when archived, so the file can be imported again unchanged.
+   * @param userRole - Role of the admin.
+   * @param includeDeactivated - Whether to export deactivated users too.
+   * @returns CSV text.
+   */
+  async exportUsers(userRole: string, includeDeactivated: boolean = true): Promise<string> {
+    assertRole(userRole, 'ADMIN');
+
+    const result = await this.db.query(
+      `SELECT u.email, u.name, u.role, u.deactivated_at, t.id as team_id, t.name as team_name, t.archived_at as team_archived_at
+       FROM users u
+       LEFT JOIN teams t ON t.id = u.team_id
+       WHERE NOT u.is_service_account AND u.erased_at IS NULL ${includeDeactivated ? '' : 'AND u.deactivated_at IS NULL'}
+       ORDER BY u.email ASC`
+    );
+
+    return toCsv([
+      CSV_COLUMNS,
+      ...result.rows.map(user => [
+        user.email,
+        user.name,
+        user.role,
+        user.team_id ? (user.team_archived_at ? user.team_id : user.team_name) : '',
+        user.deactivated_at ? 'false' : 'true'
+      ])
+    ]);
+  }
+
+  /**
+   * Parses the file and maps each row's cells to column names.
+   * @returns Rows with their line numbers.
+   */
+  private readRecords(csv: string): { row: number; cells: Record<string, string> }[] {
+    const [header, ...rows] = parseCsv(csv || '');
+    if (!header || rows.length === 0) {
+      throw new Error('The CSV file has no rows');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`CSV files can have at most ${MAX_IMPORT_ROWS} rows`);
+    }
+
+    const columns = header.map(column => column.trim().toLowerCase());
+    const unknown = columns.filter(column => !CSV_COLUMNS.includes(column));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown column: ${unknown.join(', ')}. Columns are ${CSV_COLUMNS.join(', ')}`);
+    }
+    if (!REQUIRED_COLUMNS.every(column => columns.includes(column))) {
+      throw new Error(`The CSV file needs ${REQUIRED_COLUMNS.join(' and ')} columns`);
+    }
+
+    return rows.map((cells, index) => ({
+      row: index + 2,
+      cells: Object.fromEntries(columns.map((column, position) => [column, readCsvCell(cells[position])]))
+    }));
+  }
+
+  /**
+   * Validates one row and works out what it changes.
+   */
+  private planRow(
+    adminId: string,
+    row: number,
+    cells: Record<string, string>,
+    usersByEmail: Map<string, any>,
+    teamsById: Map<string, any>,
+    teamsByName: Map<string, any>
+  ): PlannedRow {
+    const errors: string[] = [];
+    const email = (cells.email || '').toLowerCase();
+    const plan: PlannedRow = {
+      result: { row, email: email || null, action: null, changes: [], errors },
+      existing: null,
+      values: {},
+      newTeamName: null,
+      active: null
+    };
+
+    if (!EMAIL_PATTERN.test(email)) {
+      errors.push('A valid email address is required');
+      return plan;
+    }
+    const existing = usersByEmail.get(email) || null;
+    if (existing?.is_service_account) {
+      errors.push('This email belongs to a service account');
+      return plan;
+    }
+    plan.existing = existing;
+
+    const name = cells.name || '';
+    if (name.length > MAX_NAME_LENGTH) {
+      errors.push(`Name cannot exceed ${MAX_NAME_LENGTH} characters`);
+    } else if (name) {
+      plan.values.name = name;
+    } else if (!existing) {
+      errors.push('Name is required');
+    }
+
+    const role = (cells.role || '').toUpperCase();
+    if (role && !USER_ROLES.includes(role)) {
+      errors.push(`Role must be one of ${USER_ROLES.join(', ')}`);
+    } else if (role) {
+      plan.values.role = role;
+    }
+
+    const active = (cells.active || '').toLowerCase();
+    if (['true', 'yes', '1'].includes(active)) {
+      plan.active = true;
+    } else if (['false', 'no', '0'].includes(active)) {
+      plan.active = false;
+    } else if (active) {
+      errors.push('Active must be true or false');
+    }
+
+    const team = cells.team || '';
+    if (UUID_PATTERN.test(team)) {
+      const found = teamsById.get(team.toLowerCase());
+      if (!found) {
+        errors.push('Team not found');
+      } else if (found.archived_at && found.id !== existing?.team_id) {
+        errors.push('Team is archived');
+      } else {
+        plan.values.team_id = found.id;
+      }
+    } else if (team.length > MAX_NAME_LENGTH) {
+      errors.push(`Team name cannot exceed ${MAX_NAME_LENGTH} characters`);
+    } else if (team) {
+      const found = teamsByName.get(team.toLowerCase());
+      if (found) {
+        plan.values.team_id = found.id;
+      } else {
+        plan.newTeamName = team;
+      }
+    }
+
+    // Keeps at least one admin who can undo mistakes
+    if (existing?.id === adminId) {
+      if (plan.values.role && plan.values.role !== 'ADMIN') {
+        errors.push('You cannot change your own role');
+      }
+      if (plan.active === false) {
+        errors.push('You cannot deactivate your own account');
+      }
+    }
+
+    if (!existing) {
+      plan.result.action = 'CREATE';
+      return plan;
+    }
+
+    // Only what differs from the user's current values is written
+    for (const column of Object.keys(plan.values)) {
+      if (plan.values[column] === existing[column]) {
+        delete plan.values[column];
+      }
+    }
+    if (plan.active === !existing.deactivated_at) {
+      plan.active = null;
+    }
+    plan.result.changes = [
+      ...Object.keys(plan.values).map(column => column === 'team_id' ? 'team' : column),
+      ...(plan.newTeamName ? ['team'] : []),
+      ...(plan.active !== null ? ['active'] : [])
+    ];
+    plan.result.action = plan.result.changes.length > 0 ? 'UPDATE' : 'UNCHANGED';
+    return plan;
+  }
+
+  /**
+   * Creates the new teams, then creates and updates users, auditing each
+   * change like the single-user mutations do.
+   */
+  private async applyImport(client: PoolClient, adminId: string, planned: PlannedRow[], newTeams: Map<string, string>) {
+    const newTeamIds = new Map<string, string>();
+    for (const [key, name] of newTeams) {
+      const result = await client.query('INSERT INTO teams (name) VALUES ($1) RETURNING id', [name]);
+      newTeamIds.set(key, result.rows[0].id);
+      await this.auditService.record({
+        actorId: adminId,
+        action: 'CREATE_TEAM',
+        entityType: 'TEAM',
+        entityId: result.rows[0].id,
+        details: { name, parentTeamId: null, managerId: null }
+      }, client);
+    }
+
+    for (const plan of planned) {
+      if (plan.newTeamName) {
+        plan.values.team_id = newTeamIds.get(plan.newTeamName.toLowerCase());
+      }
+
+      if (!plan.existing) {
+        const email = plan.result.email!;
+        const role = plan.values.role || 'EMPLOYEE';
+        const teamId = plan.values.team_id || null;
+        const result = await client.query(
+          `INSERT INTO users (email, name, role, team_id, deactivated_at)
+           VALUES ($1, $2, $3, $4, CASE WHEN $5 THEN NOW() ELSE NULL END)
+           RETURNING id`,
+          [email, plan.values.name, role, teamId, plan.active === false]
+        );
+        await this.auditService.record({
+          actorId: adminId,
+          action: 'CREATE_USER',
+          entityType: 'USER',
+          entityId: result.rows[0].id,
+          details: { email, role, teamId }
+        }, client);
+        continue;
+      }
+
+      const existing = plan.existing;
+      const columns = Object.keys(plan.values);
+      if (columns.length > 0) {
+        await client.query(
+          `UPDATE users SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(', ')}
+           WHERE id = $1`,
+          [existing.id, ...columns.map(column => plan.values[column])]
+        );
+        await this.auditService.record({
+          actorId: adminId,
+          action: 'UPDATE_USER',
+          entityType: 'USER',
+          entityId: existing.id,
+          details: Object.fromEntries(columns.map(column => [column, { from: existing[column], to: plan.values[column] }]))
+        }, client);
+      }
+
+      if (plan.active === false) {
+        await client.query('UPDATE users SET deactivated_at = NOW() WHERE id = $1', [existing.id]);
+        const sessions = await client.query(
+          `UPDATE sessions SET revoked_at = NOW(), revoked_reason = 'USER_DEACTIVATED'
+           WHERE user_id = $1 AND revoked_at IS NULL
+           RETURNING id`,
+          [existing.id]
+        );
+        await this.auditService.record({
+          actorId: adminId,
+          action: 'DEACTIVATE_USER',
+          entityType: 'USER',
+          entityId: existing.id,
+          details: { sessionCount: sessions.rows.length }
+        }, client);
+      } else if (plan.active === true) {
+        await client.query('UPDATE users SET deactivated_at = NULL WHERE id = $1', [existing.id]);
+        await this.auditService.record({
+          actorId: adminId,
+          action: 'REACTIVATE_USER',
+          entityType: 'USER',
+          entityId: existing.id
+        }, client);
+      }
+    }
+
+    await this.auditService.record({
+      actorId: adminId,
+      action: 'IMPORT_USERS',
+      entityType: 'USER',
+      details: {
+        created: planned.filter(plan => plan.result.action === 'CREATE').length,
+        updated: planned.filter(plan => plan.result.action === 'UPDATE').length,
+        teamsCreated: [...newTeams.values()]
+      }
+    }, client);
+  }
+}
@@ -1,56 +1,46 @@
 import { Pool } from 'pg';
 import jwt from 'jsonwebtoken';
+import { AuditService } from './AuditService';
+import { USER_ROLES, assertRole } from './PolicyService';
+import { Queryable, withTransaction } from '../utils/database';
+import { ConnectionArgs, KeysetOptions, buildKeysetQuery, toConnection } from '../utils/pagination';
 
-// Interface for login response format
-export interface LoginResponse {
-  token: string;
-  user: {
-    id: string;
-    email: string;
-    name: string;
-    role: string;
-    createdAt: Date;
-  };
+export interface CreateUserInput {
+  email: string;
+  name: string;
+  role?: string;
+  teamId?: string | null;
 }
 
+export interface UpdateUserInput {
+  id: string;
+  name?: string;
+  role?: string;
+  teamId?: string | null; // null removes the user from their team
+}
+
+// Directory order; id breaks ties between people with the same name
+const DIRECTORY_ORDER: KeysetOptions = {
+  columns: [
+    { expression: 'name', cast: 'text' },
+    { expression: 'id', cast: 'uuid' }
+  ],
+  direction: 'ASC',
+  maxPageSize: 100
+};
+
+const MAX_NAME_LENGTH = 255;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
 /**
  * Service class for user-related operations.
  */
 export class UserService {
   /**
    * @param db - PostgreSQL connection pool
+   * @param auditService - Records changes made by admins
    */
-  constructor(private db: Pool) {}
-
-  /**
-   * Logs in a user by their email.
-   * @param email - Email address of the user.
-   * @returns A JWT token and user details.
-   */
-  async login(email: string): Promise<LoginResponse> {
-    const result = await this.db.query(
-      'SELECT * FROM users WHERE email = $1',
-      [email]
-    );
-
-    const user = result.rows[0];
-    if (!user) {
-      throw new Error('User not found');
-    }
-
-    const token = this.generateJWT(user);
-
-    return {
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        createdAt: user.created_at
-      }
-    };
-  }
+  constructor(private db: Pool, private auditService: AuditService = new AuditService(db)) {}
 
   /**
    * Fetches the currently logged-in user's profile.
@@ -85,51 +75,46 @@ export class UserService {
   }
 
   /**
-   * Lists all users ordered by name.
-   * @param limit - Max number of users to fetch.
-   * @returns Array of users.
+   * Lists a page of users ordered by name.
+   * @param args - Connection arguments (first/after or last/before).
+   * @param includeDeactivated - Whether to list deactivated users too.
+   * @returns Relay connection of users.
    */
-  async getUsers(limit: number = 20) {
-    const result = await this.db.query(
-      'SELECT * FROM users ORDER BY name ASC LIMIT $1',
-      [limit]
-    );
+  async getUsers(args: ConnectionArgs = {}, includeDeactivated: boolean = false) {
+    const params: any[] = [];
+    const page = buildKeysetQuery(args, DIRECTORY_ORDER, params);
+    params.push(page.limit);
 
-    return result.rows.map(user => this.formatUser(user));
-  }
-
-  /**
-   * Fetch the team details by team ID.
-   * @param teamId - ID of the team.
-   * @returns Team object or null.
-   */
-  async getUserTeam(teamId: string) {
-    if (!teamId) return null;
+    // Service accounts are not people, so they stay out of the directory
+    const conditions = ['NOT is_service_account', ...page.conditions];
+    if (!includeDeactivated) {
+      conditions.push('deactivated_at IS NULL');
+    }
 
     const result = await this.db.query(
-      'SELECT * FROM teams WHERE id = $1',
-      [teamId]
+      `SELECT * FROM users
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ${page.orderBy}
+       LIMIT $${params.length}`,
+      params
     );
 
-    const team = result.rows[0];
-    if (!team) return null;
-
-    return {
-      id: team.id,
-      name: team.name,
-      description: team.description,
-      createdAt: team.created_at
-    };
+    return toConnection(
+      result.rows,
+      page,
+      user => [user.name, user.id],
+      user => this.formatUser(user)
+    );
   }
 
   /**
-   * List all users in a team.
+   * List the active users in a team.
    * @param teamId - ID of the team.
    * @returns Array of user objects.
    */
   async getTeamMembers(teamId: string) {
     const result = await this.db.query(
-      'SELECT * FROM users WHERE team_id = $1 ORDER BY name ASC',
+      'SELECT * FROM users WHERE team_id = $1 AND deactivated_at IS NULL ORDER BY name ASC',
       [teamId]
     );
 
@@ -137,57 +122,170 @@ export class UserService {
   }
 
   /**
-   * Checks if a user has required role permission.
-   * @param userRole - Role of the current user.
-   * @param requiredRole - Required role to access resource.
-   * @returns Boolean indicating if access is allowed.
+   * Creates a user (admin only). They sign in with an emailed code until they
+   * set a password.
+   * @param adminId - ID of the admin.
+   * @param userRole - Role of the admin.
+   * @param input - Email, name, role and optional team.
+   * @returns Created user.
    */
-  hasRole(userRole: string, requiredRole: string): boolean {
-    const roleHierarchy = {
-      'EMPLOYEE': 1,
-      'MANAGER': 2,
-      'HR': 3,
-      'ADMIN': 4
-    };
+  async createUser(adminId: string, userRole: string, input: CreateUserInput) {
+    assertRole(userRole, 'ADMIN');
+    const email = (input.email || '').trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new Error('A valid email address is required');
+    }
+    const name = this.validateName(input.name);
+    const role = this.validateRole(input.role || 'EMPLOYEE');
+    if (input.teamId) {
+      await this.assertTeamExists(input.teamId);
+    }
 
-    const userLevel = roleHierarchy[userRole as keyof typeof roleHierarchy] || 0;
-    const requiredLevel = roleHierarchy[requiredRole as keyof typeof roleHierarchy] || 0;
+    return withTransaction(this.db, async client => {
+      const existing = await client.query('SELECT id FROM users WHERE LOWER(email) = $1', [email]);
+      if (existing.rows.length > 0) {
+        throw new Error('A user with this email already exists');
+      }
 
-    return userLevel >= requiredLevel;
+      const result = await client.query(
+        `INSERT INTO users (email, name, role, team_id)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [email, name, role, input.teamId || null]
+      );
+      const user = result.rows[0];
+      await this.auditService.record({
+        actorId: adminId,
+        action: 'CREATE_USER',
+        entityType: 'USER',
+        entityId: user.id,
+        details: { email, role, teamId: user.team_id }
+      }, client);
+      return this.formatUser(user);
+    });
   }
 
   /**
-   * Checks if the user can access team-level analytics.
-   * @param userRole - Role of the user.
+   * Changes a user's name, role or team (admin only). Fields that are left
+   * out stay unchanged; a role change applies from the user's next token
+   * refresh.
+   * @param adminId - ID of the admin.
+   * @param userRole - Role of the admin.
+   * @param input - User ID and the fields to change.
+   * @returns Updated user.
    */
-  canAccessTeamAnalytics(userRole: string): boolean {
-    return this.hasRole(userRole, 'MANAGER');
+  async updateUser(adminId: string, userRole: string, input: UpdateUserInput) {
+    assertRole(userRole, 'ADMIN');
+    const changes: Record<string, any> = {};
+    if (input.name !== undefined) {
+      changes.name = this.validateName(input.name);
+    }
+    if (input.role !== undefined) {
+      // Keeps at least one admin who can undo mistakes
+      if (input.id === adminId && input.role !== 'ADMIN') {
+        throw new Error('You cannot change your own role');
+      }
+      changes.role = this.validateRole(input.role);
+    }
+    if (input.teamId !== undefined) {
+      if (input.teamId) {
+        await this.assertTeamExists(input.teamId);
+      }
+      changes.team_id = input.teamId || null;
+    }
+    if (Object.keys(changes).length === 0) {
+      throw new Error('Nothing to update');
+    }
+
+    return withTransaction(this.db, async client => {
+      const existing = await this.findPerson(client, input.id);
+      const columns = Object.keys(changes);
+      const result = await client.query(
+        `UPDATE users SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(', ')}
+         WHERE id = $1
+         RETURNING *`,
+        [input.id, ...columns.map(column => changes[column])]
+      );
+      await this.auditService.record({
+        actorId: adminId,
+        action: 'UPDATE_USER',
+        entityType: 'USER',
+        entityId: input.id,
+        details: Object.fromEntries(columns.map(column => [column, { from: existing[column], to: changes[column] }]))
+      }, client);
+      return this.formatUser(result.rows[0]);
+    });
   }
 
   /**
-   * Checks if the user can access organization-wide analytics.
-   * @param userRole - Role of the user.
+   * Deactivates a user (admin only): they are signed out everywhere, cannot
+   * sign in or receive recognitions, and stay in historical recognitions.
+   * @param adminId - ID of the admin.
+   * @param userRole - Role of the admin.
+   * @param userId - ID of the user.
+   * @returns Deactivated user.
    */
-  canAccessOrganizationAnalytics(userRole: string): boolean {
-    return this.hasRole(userRole, 'HR');
+  async deactivateUser(adminId: string, userRole: string, userId: string) {
+    assertRole(userRole, 'ADMIN');
+    if (userId === adminId) {
+      throw new Error('You cannot deactivate your own account');
+    }
+
+    return withTransaction(this.db, async client => {
+      const existing = await this.findPerson(client, userId);
+      if (existing.deactivated_at) {
+        throw new Error('User is already deactivated');
+      }
+
+      const result = await client.query(
+        'UPDATE users SET deactivated_at = NOW() WHERE id = $1 RETURNING *',
+        [userId]
+      );
+      const sessions = await client.query(
+        `UPDATE sessions SET revoked_at = NOW(), revoked_reason = 'USER_DEACTIVATED'
+         WHERE user_id = $1 AND revoked_at IS NULL
+         RETURNING id`,
+        [userId]
+      );
+      await this.auditService.record({
+        actorId: adminId,
+        action: 'DEACTIVATE_USER',
+        entityType: 'USER',
+        entityId: userId,
+        details: { sessionCount: sessions.rows.length }
+      }, client);
+      return this.formatUser(result.rows[0]);
+    });
   }
 
   /**
-   * Generates a signed JWT token for a user.
-   * @param user - User payload.
-   * @returns Signed JWT string.
+   * Reactivates a deactivated user (admin only).
+   * @param adminId - ID of the admin.
+   * @param userRole - Role of the admin.
+   * @param userId - ID of the user.
+   * @returns Reactivated user.
    */
-  private generateJWT(user: any): string {
-    return jwt.sign(
-      {
-        id: user.id,
-        email: user.email,
-        role: user.role,
-        name: user.name
-      },
-      process.env.JWT_SECRET!,
-      { expiresIn: '24h' }
-    );
+  async reactivateUser(adminId: string, userRole: string, userId: string) {
+    assertRole(userRole, 'ADMIN');
+
+    return withTransaction(this.db, async client => {
+      const existing = await this.findPerson(client, userId);
+      if (!existing.deactivated_at) {
+        throw new Error('User is not deactivated');
+      }
+
+      const result = await client.query(
+        'UPDATE users SET deactivated_at = NULL WHERE id = $1 RETURNING *',
+        [userId]
+      );
+      await this.auditService.record({
+        actorId: adminId,
+        action: 'REACTIVATE_USER',
+        entityType: 'USER',
+        entityId: userId
+      }, client);
+      return this.formatUser(result.rows[0]);
+    });
   }
 
   /**
@@ -203,6 +301,56 @@ export class UserService {
     }
   }
 
+  /**
+   * Loads a user for an admin change, locking the row. Service accounts are
+   * managed separately and erased users cannot be changed.
+   * @returns Raw user row.
+   */
+  private async findPerson(client: Queryable, userId: string) {
+    const result = await client.query(
+      'SELECT * FROM users WHERE id = $1 AND NOT is_service_account AND erased_at IS NULL FOR UPDATE',
+      [userId]
+    );
+    if (!result.rows[0]) {
+      throw new Error('User not found');
+    }
+    return result.rows[0];
+  }
+
+  /**
+   * Throws unless the team exists and is not archived.
+   */
+  private async assertTeamExists(teamId: string): Promise<void> {
+    const result = await this.db.query('SELECT id FROM teams WHERE id = $1 AND archived_at IS NULL', [teamId]);
+    if (result.rows.length === 0) {
+      throw new Error('Team not found');
+    }
+  }
+
+  /**
+   * Trims and checks a user's name.
+   */
+  private validateName(value: string): string {
+    const name = (value || '').trim();
+    if (!name) {
+      throw new Error('Name is required');
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new Error(`Name cannot exceed ${MAX_NAME_LENGTH} characters`);
+    }
+    return name;
+  }
+
+  /**
+   * Throws unless the role exists.
+   */
+  private validateRole(role: string): string {
+    if (!USER_ROLES.includes(role)) {
+      throw new Error(`Role must be one of ${USER_ROLES.join(', ')}`);
+    }
+    return role;
+  }
+
   /**
    * Converts raw DB row into formatted user object.
    * @param user - Raw user DB row.
@@ -215,7 +363,9 @@ export class UserService {
       name: user.name,
       role: user.role,
       teamId: user.team_id,
-      createdAt: user.created_at
+      createdAt: user.created_at,
+      deactivatedAt: user.deactivated_at,
+      erasedAt: user.erased_at
     };
   }
 }
@@ -0,0 +1,136 @@
+/**
+ * API key format, scopes and the GraphQL operations each scope allows
+ */
+
+import crypto from 'crypto';
+import { ValidationResult } from './validation';
+
+// Keys look like rk_<prefix>_<secret>; the prefix identifies a key in listings
+export const API_KEY_PREFIX = 'rk_';
+const PREFIX_LENGTH = 8;
+
+export const API_KEY_SCOPES = [
+  'recognitions:read',
+  'recognitions:write',
+  'users:read',
+  'users:provision',
+  'analytics:read',
+  'webhooks:write'
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Root fields API keys may call; everything else is closed to API keys
+const FIELD_SCOPES: Record<string, Record<string, ApiKeyScope>> = {
+  Query: {
+    recognitions: 'recognitions:read',
+    myRecognitions: 'recognitions:read',
+    recognition: 'recognitions:read',
+    myScheduledRecognitions: 'recognitions:read',
+    searchRecognitions: 'recognitions:read',
+    companyValues: 'recognitions:read',
+    me: 'users:read',
+    user: 'users:read',
+    users: 'users:read',
+    teams: 'users:read',
+    team: 'users:read',
+    teamStats: 'analytics:read',
+    accessibleTeams: 'analytics:read',
+    organizationStats: 'analytics:read',
+    suspiciousActivity: 'analytics:read'
+  },
+  Mutation: {
+    createRecognition: 'recognitions:write',
+    updateRecognition: 'recognitions:write',
+    deleteRecognition: 'recognitions:write',
+    rescheduleRecognition: 'recognitions:write',
+    cancelScheduledRecognition: 'recognitions:write'
+  }
+};
+
+/**
+ * Whether a bearer token is an API key rather than a session token
+ */
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Generates a new API key; only its hash is stored
+ */
+export function generateApiKey(): { key: string; prefix: string } {
+  const prefix = crypto.randomBytes(PREFIX_LENGTH).toString('hex').slice(0, PREFIX_LENGTH);
+  const secret = crypto.randomBytes(32).toString('base64url');
+  return { key: `${API_KEY_PREFIX}${prefix}_${secret}`, prefix };
+}
+
+/**
+ * SHA-256 hex digest of an API key. Keys are random, so a fast hash is enough.
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Validates the scopes requested for an API key
+ */
+export function validateScopes(scopes: string[]): ValidationResult {
+  const errors: string[] = [];
+
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    errors.push('At least one scope is required');
+    return { isValid: false, errors };
+  }
+
+  const unknown = scopes.filter(scope => !(API_KEY_SCOPES as readonly string[]).includes(scope));
+  if (unknown.length > 0) {
+    errors.push(`Unknown scope: ${unknown.join(', ')}. Valid scopes are ${API_KEY_SCOPES.join(', ')}`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Throws unless the principal may call a root field. Principals without
+ * scopes are users signed in with a session and are not restricted here.
+ */
+export function assertScope(principal: { scopes?: string[] } | null, typeName: string, fieldName: string): void {
+  if (!principal?.scopes) return;
+
+  const required = FIELD_SCOPES[typeName]?.[fieldName];
+  if (!required) {
+    throw new Error('This operation is not available to API keys');
+  }
+  if (!principal.scopes.includes(required)) {
+    throw new Error(`This API key does not have the ${required} scope`);
+  }
+}
+
+/**
+ * Wraps the Query, Mutation and Subscription resolvers with assertScope
+ */
+export function withApiKeyScopes<T extends Record<string, any>>(resolvers: T): T {
+  const wrapped: Record<string, any> = { ...resolvers };
+
+  for (const typeName of ['Query', 'Mutation', 'Subscription']) {
+    const fields = resolvers[typeName];
+    if (!fields) continue;
+
+    wrapped[typeName] = Object.fromEntries(
+      Object.entries(fields).map(([fieldName, field]: [string, any]) => {
+        const guard = (resolve: (...args: any[]) => any) =>
+          (parent: any, args: any, context: any, info: any) => {
+            assertScope(context?.user, typeName, fieldName);
+            return resolve(parent, args, context, info);
+          };
+        // Subscriptions are objects with a subscribe function
+        return [fieldName, typeof field === 'function' ? guard(field) : { ...field, subscribe: guard(field.subscribe) }];
+      })
+    );
+  }
+
+  return wrapped as T;
+}
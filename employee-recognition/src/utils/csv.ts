@@ -0,0 +1,82 @@
+/**
+ * CSV parsing and writing (RFC 4180), with protection against spreadsheet formulas
+ */
+
+// Cells starting with these run as formulas when a spreadsheet opens the file
+const FORMULA_PREFIXES = ['=', '+', '-', '@'];
+
+/**
+ * Parses CSV text into rows of cells. Quoted cells may contain commas, quotes
+ * ("") and line breaks; a byte order mark and blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('The CSV file has an unclosed quote');
+  }
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+/**
+ * Writes rows as CSV with CRLF line endings. Cells that a spreadsheet would
+ * run as a formula get a leading apostrophe, which readCsvCell removes.
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Trims an imported cell and removes the apostrophe toCsv adds before formulas
+ */
+export function readCsvCell(value: string | undefined): string {
+  const cell = (value || '').trim();
+  return cell.startsWith("'") && FORMULA_PREFIXES.includes(cell[1]) ? cell.slice(1) : cell;
+}
+
+/**
+ * Quotes a cell when needed and neutralizes formulas
+ */
+function formatCell(value: string): string {
+  const cell = FORMULA_PREFIXES.includes(value[0]) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
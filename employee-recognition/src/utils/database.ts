@@ -0,0 +1,32 @@
+/**
+ * Database helper utilities
+ */
+
+import { Pool, PoolClient } from 'pg';
+
+/**
+ * Anything that can run a query: the pool itself or a client inside a transaction
+ */
+export type Queryable = Pick<Pool, 'query'> | PoolClient;
+
+/**
+ * Runs work inside a single transaction on a dedicated client.
+ * Commits when the callback resolves and rolls back when it throws.
+ */
+export async function withTransaction<T>(
+  db: Pool,
+  work: (client: PoolClient) => Promise<T>
+): Promise<T> {
+  const client = await db.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
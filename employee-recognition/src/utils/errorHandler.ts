@@ -2,12 +2,25 @@
  * Utility functions for error handling and type safety
  */
 
+import { ApolloError } from 'apollo-server-express';
+
 export interface AppError extends Error {
   code?: string;
   statusCode?: number;
   details?: any;
 }
 
+/**
+ * Thrown when a caller exceeds a rate limit. GraphQL clients receive
+ * extensions.code = RATE_LIMITED and extensions.retryAfter (seconds).
+ */
+export class RateLimitError extends ApolloError {
+  constructor(message: string, public retryAfter: number) {
+    super(message, 'RATE_LIMITED', { retryAfter });
+    Object.defineProperty(this, 'name', { value: 'RateLimitError' });
+  }
+}
+
 /**
  * Safely extracts error message from unknown error type
  */
@@ -0,0 +1,75 @@
+/**
+ * Encryption helpers for the anonymous sender escrow
+ */
+
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+/**
+ * AES-256-GCM ciphertext with the IV and authentication tag needed to open it
+ */
+export interface SealedValue {
+  ciphertext: Buffer;
+  iv: Buffer;
+  authTag: Buffer;
+}
+
+/**
+ * Reads the escrow key from ANONYMOUS_ESCROW_KEY (32 bytes, base64 encoded)
+ */
+export function getEscrowKey(): Buffer {
+  const encoded = process.env.ANONYMOUS_ESCROW_KEY;
+  const key = encoded ? Buffer.from(encoded, 'base64') : null;
+  if (!key || key.length !== KEY_LENGTH) {
+    throw new Error('Anonymous sender escrow is not configured');
+  }
+  return key;
+}
+
+/**
+ * Whether a valid escrow key is configured; without one no anonymous recognition can be sent
+ */
+export function hasEscrowKey(): boolean {
+  try {
+    getEscrowKey();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Keyed pseudonym of a value: HMAC-SHA256 under a key derived from the escrow
+ * key. Equal values get equal pseudonyms, which cannot be traced back to the
+ * value without the key.
+ */
+export function pseudonymize(value: string, key: Buffer = getEscrowKey()): string {
+  const hmacKey = crypto.createHmac('sha256', key).update('pseudonym').digest();
+  return crypto.createHmac('sha256', hmacKey).update(value, 'utf8').digest('hex');
+}
+
+/**
+ * Encrypts a value. The associated data (e.g. the recognition ID) is
+ * authenticated but not stored, so a sealed value only opens for the row it was written for.
+ */
+export function sealValue(value: string, associatedData: string, key: Buffer = getEscrowKey()): SealedValue {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(associatedData, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return { ciphertext, iv, authTag: cipher.getAuthTag() };
+}
+
+/**
+ * Decrypts a value sealed with sealValue; throws if it was tampered with or
+ * the associated data does not match
+ */
+export function openValue(sealed: SealedValue, associatedData: string, key: Buffer = getEscrowKey()): string {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, sealed.iv);
+  decipher.setAAD(Buffer.from(associatedData, 'utf8'));
+  decipher.setAuthTag(sealed.authTag);
+  return Buffer.concat([decipher.update(sealed.ciphertext), decipher.final()]).toString('utf8');
+}
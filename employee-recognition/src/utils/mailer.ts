@@ -0,0 +1,150 @@
+/**
+ * Pluggable outgoing mail. MAIL_TRANSPORT selects the implementation:
+ * "file" (default) writes each message to MAIL_OUTBOX_DIR for local development,
+ * "smtp" delivers to SMTP_HOST:SMTP_PORT without authentication or TLS, which
+ * suits local catchers such as Mailpit.
+ */
+
+import { promises as fs } from 'fs';
+import net from 'net';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const SMTP_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Creates the mailer configured in the environment
+ */
+export function createMailer(): Mailer {
+  const from = process.env.MAIL_FROM || 'recognition@localhost';
+  if (process.env.MAIL_TRANSPORT === 'smtp') {
+    return new SmtpMailer(process.env.SMTP_HOST || 'localhost', parseInt(process.env.SMTP_PORT || '1025'), from);
+  }
+  return new FileMailer(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'tmp', 'mail'), from);
+}
+
+/**
+ * Writes each message as an .eml file into a directory
+ */
+export class FileMailer implements Mailer {
+  constructor(private directory: string, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    await fs.writeFile(path.join(this.directory, name), formatMessage(this.from, message), 'utf8');
+  }
+}
+
+/**
+ * Minimal SMTP client: EHLO, MAIL FROM, RCPT TO, DATA, QUIT
+ */
+export class SmtpMailer implements Mailer {
+  constructor(private host: string, private port: number, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const socket = net.createConnection(this.port, this.host);
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+    const replies = readReplies(socket);
+    try {
+      await expectReply(replies, 220);
+      await command(socket, replies, 'EHLO localhost', 250);
+      await command(socket, replies, `MAIL FROM:<${headerValue(this.from)}>`, 250);
+      await command(socket, replies, `RCPT TO:<${headerValue(message.to)}>`, 250);
+      await command(socket, replies, 'DATA', 354);
+      // Dot-stuffing: a line starting with "." gets an extra "."
+      const body = formatMessage(this.from, message).replace(/^\./gm, '..');
+      await command(socket, replies, `${body}\r\n.`, 250);
+      await command(socket, replies, 'QUIT', 221);
+    } finally {
+      socket.end();
+    }
+  }
+}
+
+/**
+ * Builds an RFC 5322 message with CRLF line endings
+ */
+function formatMessage(from: string, message: MailMessage): string {
+  return [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${headerValue(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text
+  ].join('\r\n').replace(/\r?\n/g, '\r\n');
+}
+
+/**
+ * Strips line breaks so values cannot inject headers or SMTP commands
+ */
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * Yields complete SMTP replies (the last line of multi-line replies) as they arrive
+ */
+function readReplies(socket: net.Socket): () => Promise<string> {
+  let buffer = '';
+  const queue: string[] = [];
+  const waiting: Array<{ resolve: (reply: string) => void; reject: (error: Error) => void }> = [];
+  let failure: Error | null = null;
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      if (/^\d{3}-/.test(line)) continue;
+      const next = waiting.shift();
+      if (next) next.resolve(line);
+      else queue.push(line);
+    }
+  });
+  const fail = (error: Error) => {
+    failure = error;
+    waiting.splice(0).forEach(next => next.reject(error));
+  };
+  socket.on('error', fail);
+  socket.on('close', () => fail(new Error('SMTP connection closed')));
+
+  return () => {
+    const line = queue.shift();
+    if (line !== undefined) return Promise.resolve(line);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+  };
+}
+
+/**
+ * Reads the next reply and checks its status code
+ */
+async function expectReply(replies: () => Promise<string>, code: number): Promise<void> {
+  const reply = await replies();
+  if (!reply.startsWith(String(code))) {
+    throw new Error(`Unexpected SMTP reply: ${reply}`);
+  }
+}
+
+/**
+ * Sends one command line and checks the reply
+ */
+async function command(socket: net.Socket, replies: () => Promise<string>, line: string, code: number): Promise<void> {
+  socket.write(`${line}\r\n`);
+  await expectReply(replies, code);
+}
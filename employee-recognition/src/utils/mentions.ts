@@ -0,0 +1,81 @@
+/**
+ * @mention parsing for recognition messages and chat platform payloads
+ */
+
+/**
+ * A mention of a chat platform user inside a message
+ */
+export interface ChatMention {
+  externalId: string;
+  text: string; // Exact token in the message, replaced when the message is stored
+}
+
+// "@jane" or "@jane@company.com", not preceded by a word character (so plain
+// email addresses in the text are not treated as mentions)
+const MENTION_PATTERN = /(^|[^\w@.])@([a-z0-9][a-z0-9._-]*(?:@[a-z0-9-]+(?:\.[a-z0-9-]+)+)?)/gi;
+
+/**
+ * Extracts de-duplicated, lower-cased @handles from a message. A handle is
+ * either the local part of a user's email address or the full address.
+ */
+export function extractMentionHandles(message: string): string[] {
+  if (typeof message !== 'string') return [];
+
+  const handles = new Set<string>();
+  for (const match of message.matchAll(MENTION_PATTERN)) {
+    // Trailing dots are sentence punctuation ("thanks @jane.")
+    const handle = match[2].replace(/\.+$/, '').toLowerCase();
+    if (handle) handles.add(handle);
+  }
+  return Array.from(handles);
+}
+
+/**
+ * Replaces @mentions of the given handles (case-insensitive) with a fixed
+ * text, keeping trailing punctuation. Other mentions are left as they are.
+ */
+export function replaceMentionHandles(message: string, handles: string[], replacement: string): string {
+  const targets = handles.map(handle => handle.toLowerCase());
+  return message.replace(MENTION_PATTERN, (match, prefix: string, handle: string) => {
+    const trailing = handle.match(/\.+$/)?.[0] || '';
+    const bare = handle.slice(0, handle.length - trailing.length).toLowerCase();
+    return targets.includes(bare) ? `${prefix}${replacement}${trailing}` : match;
+  });
+}
+
+/**
+ * Finds Slack user mentions: <@U123ABC> or <@U123ABC|jane>
+ */
+export function parseSlackMentions(text: string): ChatMention[] {
+  if (typeof text !== 'string') return [];
+
+  return Array.from(text.matchAll(/<@([A-Z0-9]+)(?:\|[^>]*)?>/g)).map(match => ({
+    externalId: match[1],
+    text: match[0]
+  }));
+}
+
+/**
+ * Finds Teams user mentions from the activity's mention entities, leaving out
+ * the bot itself (the activity recipient)
+ */
+export function parseTeamsMentions(activity: any): ChatMention[] {
+  const entities = Array.isArray(activity?.entities) ? activity.entities : [];
+  const botId = activity?.recipient?.id;
+
+  return entities
+    .filter((entity: any) => entity?.type === 'mention' && entity.mentioned?.id && entity.mentioned.id !== botId)
+    .map((entity: any) => ({
+      externalId: entity.mentioned.id,
+      text: entity.text || `<at>${entity.mentioned.name}</at>`
+    }));
+}
+
+/**
+ * Removes Teams <at>…</at> tags that are not user mentions (e.g. the bot's own name)
+ */
+export function stripTeamsBotMention(text: string, activity: any): string {
+  const botName = activity?.recipient?.name;
+  if (!botName) return text;
+  return text.split(`<at>${botName}</at>`).join('').trim();
+}
@@ -0,0 +1,95 @@
+/**
+ * OpenID Connect configuration, PKCE and ID-token claim mapping
+ */
+
+import crypto from 'crypto';
+
+// Lowest to highest; when several claim values map to roles, the highest wins
+const ROLES = ['EMPLOYEE', 'MANAGER', 'HR', 'ADMIN'];
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;
+  redirectUri: string;
+  scopes: string;
+  roleClaim: string;
+  // IdP claim value -> role; empty means claim values are role names
+  roleMap: Record<string, string>;
+  teamClaim: string;
+}
+
+/**
+ * Reads the OIDC settings from the environment; null when OIDC_ISSUER is not set.
+ * Invalid OIDC_ROLE_MAP entries are ignored.
+ */
+export function getOidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+
+  const roleMap: Record<string, string> = {};
+  for (const entry of (process.env.OIDC_ROLE_MAP || '').split(',')) {
+    const separator = entry.lastIndexOf('=');
+    const value = entry.slice(0, separator).trim();
+    const role = entry.slice(separator + 1).trim().toUpperCase();
+    if (separator > 0 && value && ROLES.includes(role)) {
+      roleMap[value] = role;
+    }
+  }
+
+  return {
+    issuer: issuer.replace(/\/+$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || null,
+    redirectUri: process.env.OIDC_REDIRECT_URI || `http://localhost:${process.env.PORT || 4000}/auth/oidc/callback`,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    roleClaim: process.env.OIDC_ROLE_CLAIM || 'roles',
+    roleMap,
+    teamClaim: process.env.OIDC_TEAM_CLAIM || 'team'
+  };
+}
+
+/**
+ * Creates a PKCE code verifier and its S256 challenge
+ */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = crypto.randomBytes(32).toString('base64url');
+  const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+/**
+ * Reads a claim by name, falling back to a dotted path for nested claims
+ * (e.g. "realm_access.roles"). Names that themselves contain dots, such as
+ * namespaced URL claims, match first.
+ */
+export function getClaim(claims: Record<string, any>, name: string): any {
+  if (name in claims) return claims[name];
+  return name.split('.').reduce((value, key) => (value && typeof value === 'object' ? value[key] : undefined), claims as any);
+}
+
+/**
+ * Maps the role claim to a user role. Returns null when the token has no role
+ * claim, and EMPLOYEE when it has one but no value maps to a role.
+ */
+export function mapRoleClaim(claims: Record<string, any>, config: OidcConfig): string | null {
+  const claim = getClaim(claims, config.roleClaim);
+  if (claim === undefined || claim === null) return null;
+
+  const values = (Array.isArray(claim) ? claim : [claim]).filter(value => typeof value === 'string');
+  const mapped = values
+    .map(value => (Object.keys(config.roleMap).length > 0 ? config.roleMap[value] : value.toUpperCase()))
+    .filter(role => ROLES.includes(role));
+
+  return mapped.reduce((highest, role) => (ROLES.indexOf(role) > ROLES.indexOf(highest) ? role : highest), 'EMPLOYEE');
+}
+
+/**
+ * Reads the team claim (a team name or ID); null when absent
+ */
+export function getTeamClaim(claims: Record<string, any>, config: OidcConfig): string | null {
+  const claim = getClaim(claims, config.teamClaim);
+  const value = Array.isArray(claim) ? claim[0] : claim;
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
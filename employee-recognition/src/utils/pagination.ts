@@ -0,0 +1,160 @@
+/**
+ * Relay-style cursor pagination helpers (keyset pagination on a unique sort key)
+ */
+
+export interface ConnectionArgs {
+  first?: number | null;
+  after?: string | null;
+  last?: number | null;
+  before?: string | null;
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+export interface Connection<T> {
+  edges: { node: T; cursor: string }[];
+  pageInfo: PageInfo;
+}
+
+/**
+ * One column of the sort key. `cast` is the Postgres type the cursor value is
+ * cast to, so values round-trip exactly (e.g. microsecond timestamps).
+ */
+export interface KeysetColumn {
+  expression: string;
+  cast: string;
+}
+
+export interface KeysetOptions {
+  columns: KeysetColumn[];
+  direction: 'ASC' | 'DESC';
+  defaultPageSize?: number;
+  maxPageSize?: number;
+}
+
+export interface KeysetQuery {
+  conditions: string[];
+  orderBy: string;
+  limit: number;
+  pageSize: number;
+  backward: boolean;
+  hasAfter: boolean;
+  hasBefore: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Encodes sort key values into an opaque cursor
+ */
+export function encodeCursor(values: string[]): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+/**
+ * Decodes an opaque cursor back into sort key values
+ * @throws Error if the cursor is malformed or has the wrong number of values
+ */
+export function decodeCursor(cursor: string, size: number): string[] {
+  try {
+    const values = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (Array.isArray(values) && values.length === size && values.every(v => typeof v === 'string')) {
+      return values;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid cursor');
+}
+
+/**
+ * Builds the WHERE conditions, ORDER BY and LIMIT for one page. Cursor values
+ * are appended to `params`. One extra row is fetched to detect further pages.
+ */
+export function buildKeysetQuery(
+  args: ConnectionArgs,
+  options: KeysetOptions,
+  params: any[]
+): KeysetQuery {
+  const { columns, direction } = options;
+  const maxPageSize = options.maxPageSize ?? MAX_PAGE_SIZE;
+
+  if (args.first != null && args.last != null) {
+    throw new Error('Cannot paginate with both first and last');
+  }
+  const requested = args.last ?? args.first ?? options.defaultPageSize ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(requested) || requested < 0) {
+    throw new Error('Page size must be a non-negative whole number');
+  }
+  const pageSize = Math.min(requested, maxPageSize);
+  const backward = args.last != null;
+
+  const comparison = (cursor: string, forward: boolean) => {
+    const values = decodeCursor(cursor, columns.length);
+    const placeholders = values.map((value, i) => {
+      params.push(value);
+      return `$${params.length}::${columns[i].cast}`;
+    });
+    // "after" continues in the sort direction, "before" goes against it
+    const operator = forward === (direction === 'ASC') ? '>' : '<';
+    const keys = columns.map(column => column.expression).join(', ');
+    return `(${keys}) ${operator} (${placeholders.join(', ')})`;
+  };
+
+  const conditions: string[] = [];
+  if (args.after) conditions.push(comparison(args.after, true));
+  if (args.before) conditions.push(comparison(args.before, false));
+
+  // Backward pages are read in reverse and flipped back in toConnection
+  const fetchDirection = backward ? (direction === 'ASC' ? 'DESC' : 'ASC') : direction;
+  const orderBy = columns.map(column => `${column.expression} ${fetchDirection}`).join(', ');
+
+  return {
+    conditions,
+    orderBy,
+    limit: pageSize + 1,
+    pageSize,
+    backward,
+    hasAfter: !!args.after,
+    hasBefore: !!args.before
+  };
+}
+
+/**
+ * Turns the rows fetched with a KeysetQuery into a Relay connection
+ * @param rows - Rows fetched with query.orderBy and query.limit
+ * @param query - The page the rows were fetched for
+ * @param cursorValues - Sort key values of a row, matching the KeysetOptions columns
+ * @param toNode - Formats a row into the node returned to the client
+ */
+export function toConnection<Row, Node>(
+  rows: Row[],
+  query: KeysetQuery,
+  cursorValues: (row: Row) => string[],
+  toNode: (row: Row) => Node
+): Connection<Node> {
+  const hasMore = rows.length > query.pageSize;
+  const page = rows.slice(0, query.pageSize);
+  if (query.backward) page.reverse();
+
+  const edges = page.map(row => ({
+    node: toNode(row),
+    cursor: encodeCursor(cursorValues(row))
+  }));
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: query.backward ? query.hasBefore : hasMore,
+      hasPreviousPage: query.backward ? hasMore : query.hasAfter,
+      startCursor: edges.length > 0 ? edges[0].cursor : null,
+      endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null
+    }
+  };
+}
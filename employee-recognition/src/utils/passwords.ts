@@ -0,0 +1,90 @@
+/**
+ * Password hashing and policy
+ */
+
+import crypto from 'crypto';
+import { ValidationResult } from './validation';
+
+// scrypt parameters; stored with each hash so they can be raised later
+const COST = 16384;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+const MIN_PASSWORD_LENGTH = 12;
+const MAX_PASSWORD_LENGTH = 256;
+
+/**
+ * Validates a new password against the password policy
+ */
+export function validatePassword(password: string): ValidationResult {
+  const errors: string[] = [];
+
+  if (typeof password !== 'string' || password.trim().length === 0) {
+    errors.push('Password is required');
+    return { isValid: false, errors };
+  }
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    errors.push(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    errors.push(`Password cannot exceed ${MAX_PASSWORD_LENGTH} characters`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Hashes a password with a random salt.
+ * Format: scrypt$<N>$<r>$<p>$<salt base64>$<hash base64>
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const hash = await scrypt(password, salt, KEY_LENGTH, COST, BLOCK_SIZE, PARALLELIZATION);
+  return ['scrypt', COST, BLOCK_SIZE, PARALLELIZATION, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+/**
+ * Checks a password against a stored hash in constant time. Unknown or
+ * malformed hashes never match.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const parts = (stored || '').split('$');
+  if (parts.length !== 6 || parts[0] !== 'scrypt') return false;
+
+  const [cost, blockSize, parallelization] = parts.slice(1, 4).map(Number);
+  const salt = Buffer.from(parts[4], 'base64');
+  const expected = Buffer.from(parts[5], 'base64');
+  if (![cost, blockSize, parallelization].every(Number.isInteger) || expected.length === 0) return false;
+
+  const actual = await scrypt(password, salt, expected.length, cost, blockSize, parallelization);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Promise wrapper around crypto.scrypt
+ */
+function scrypt(
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  cost: number,
+  blockSize: number,
+  parallelization: number
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      password,
+      salt,
+      keyLength,
+      { N: cost, r: blockSize, p: parallelization, maxmem: 256 * cost * blockSize },
+      (error, derivedKey) => (error ? reject(error) : resolve(derivedKey))
+    );
+  });
+}
@@ -0,0 +1,123 @@
+/**
+ * Per-sender recognition rate limits
+ */
+
+/**
+ * Maximum recognitions per sender in each window; 0 disables a limit
+ */
+export interface RecognitionRateLimits {
+  perHour: number;
+  perDay: number;
+  perRecipientPerWeek: number;
+}
+
+/**
+ * A recognition the sender sent recently
+ */
+export interface RecentSend {
+  ageSeconds: number;
+  recipientIds: string[];
+}
+
+export interface RateLimitViolation {
+  message: string;
+  retryAfter: number;
+}
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+export const WEEK = 7 * DAY;
+
+const DEFAULT_LIMITS: RecognitionRateLimits = {
+  perHour: 20,
+  perDay: 50,
+  perRecipientPerWeek: 5
+};
+
+/**
+ * Reads the limits from RECOGNITION_LIMIT_PER_HOUR, RECOGNITION_LIMIT_PER_DAY
+ * and RECOGNITION_LIMIT_PER_RECIPIENT_PER_WEEK, falling back to the defaults
+ */
+export function getRecognitionRateLimits(): RecognitionRateLimits {
+  return {
+    perHour: readLimit('RECOGNITION_LIMIT_PER_HOUR', DEFAULT_LIMITS.perHour),
+    perDay: readLimit('RECOGNITION_LIMIT_PER_DAY', DEFAULT_LIMITS.perDay),
+    perRecipientPerWeek: readLimit('RECOGNITION_LIMIT_PER_RECIPIENT_PER_WEEK', DEFAULT_LIMITS.perRecipientPerWeek)
+  };
+}
+
+/**
+ * Checks whether one more recognition to the given recipients would exceed a
+ * limit. When several limits are exceeded, the longest wait is returned.
+ * @param sends - The sender's recognitions from the last week
+ * @param recipientIds - Recipients of the new recognition
+ * @param limits - Limits to apply
+ */
+export function findRateLimitViolation(
+  sends: RecentSend[],
+  recipientIds: string[],
+  limits: RecognitionRateLimits
+): RateLimitViolation | null {
+  const violations: RateLimitViolation[] = [];
+
+  const hourly = checkWindow(sends, HOUR, limits.perHour);
+  if (hourly !== null) {
+    violations.push({ message: `You can send at most ${limits.perHour} recognitions per hour`, retryAfter: hourly });
+  }
+  const daily = checkWindow(sends, DAY, limits.perDay);
+  if (daily !== null) {
+    violations.push({ message: `You can send at most ${limits.perDay} recognitions per day`, retryAfter: daily });
+  }
+  for (const recipientId of recipientIds) {
+    const weekly = checkWindow(
+      sends.filter(send => send.recipientIds.includes(recipientId)),
+      WEEK,
+      limits.perRecipientPerWeek
+    );
+    if (weekly !== null) {
+      violations.push({
+        message: `You can recognize the same person at most ${limits.perRecipientPerWeek} times per week`,
+        retryAfter: weekly
+      });
+    }
+  }
+
+  return violations.reduce<RateLimitViolation | null>(
+    (longest, violation) => (!longest || violation.retryAfter > longest.retryAfter ? violation : longest),
+    null
+  );
+}
+
+/**
+ * Returns the seconds until one more event fits in a sliding window, or null
+ * if it fits now
+ * @param ageSeconds - Ages of earlier events, in any order
+ * @param windowSeconds - Window length
+ * @param limit - Events allowed per window; 0 disables the limit
+ */
+export function getRetryAfter(ageSeconds: number[], windowSeconds: number, limit: number): number | null {
+  if (limit <= 0) return null;
+  const ages = ageSeconds
+    .filter(age => age < windowSeconds)
+    .sort((a, b) => a - b);
+  if (ages.length < limit) return null;
+  // A slot frees up once the limit-th newest event leaves the window
+  return Math.max(1, Math.ceil(windowSeconds - ages[limit - 1]));
+}
+
+/**
+ * Returns the seconds until one more send fits in the window, or null if it fits now
+ */
+function checkWindow(sends: RecentSend[], windowSeconds: number, limit: number): number | null {
+  return getRetryAfter(sends.map(send => send.ageSeconds), windowSeconds, limit);
+}
+
+/**
+ * Reads a non-negative whole number from the environment
+ */
+function readLimit(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
@@ -0,0 +1,170 @@
+/**
+ * SCIM 2.0 (RFC 7643 and 7644) schemas, errors, list paging, filters and PATCH operations
+ */
+
+export const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+export const SCIM_SCHEMAS = {
+  USER: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  GROUP: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  LIST_RESPONSE: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  PATCH_OP: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  ERROR: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  SERVICE_PROVIDER_CONFIG: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+  RESOURCE_TYPE: 'urn:ietf:params:scim:schemas:core:2.0:ResourceType'
+} as const;
+
+// Page size when the client does not ask for one, and the most one page returns
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 200;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EQ_FILTER_PATTERN = /^\s*([\w.:]+)\s+eq\s+"((?:[^"\\]|\\.)*)"\s*$/i;
+const MEMBER_PATH_PATTERN = /^members\[\s*value\s+eq\s+"((?:[^"\\]|\\.)*)"\s*\]$/i;
+
+/**
+ * An error returned to the SCIM client with an HTTP status and, for 400 and
+ * 409 responses, a scimType such as invalidFilter or uniqueness.
+ */
+export class ScimError extends Error {
+  constructor(message: string, public status: number, public scimType?: string) {
+    super(message);
+    Object.defineProperty(this, 'name', { value: 'ScimError' });
+  }
+}
+
+export interface ScimFilter {
+  attribute: string; // lower-cased; SCIM attribute names are case-insensitive
+  value: string;
+}
+
+export interface ScimListParams {
+  startIndex: number; // 1-based
+  count: number;
+}
+
+export interface ScimPatchOperation {
+  op: 'add' | 'replace' | 'remove';
+  path: string | null;
+  value: any;
+}
+
+/**
+ * Whether a resource ID can exist; anything else is reported as not found
+ */
+export function isScimId(id: string): boolean {
+  return UUID_PATTERN.test(id || '');
+}
+
+/**
+ * Parses a filter of the form `attribute eq "value"`, the only form identity
+ * providers use to look up existing users and groups.
+ * @returns The filter, or null when there is none.
+ */
+export function parseFilter(filter: unknown, attributes: string[]): ScimFilter | null {
+  if (filter === undefined || filter === null || filter === '') return null;
+
+  const match = typeof filter === 'string' ? EQ_FILTER_PATTERN.exec(filter) : null;
+  if (!match) {
+    throw new ScimError('Only filters of the form attribute eq "value" are supported', 400, 'invalidFilter');
+  }
+
+  const attribute = match[1].toLowerCase();
+  if (!attributes.includes(attribute)) {
+    throw new ScimError(`Filtering on ${match[1]} is not supported`, 400, 'invalidFilter');
+  }
+  return { attribute, value: unescape(match[2]) };
+}
+
+/**
+ * Reads startIndex and count from the query string; out-of-range values are
+ * clamped as RFC 7644 section 3.4.2.4 asks.
+ */
+export function parseListParams(query: Record<string, any>): ScimListParams {
+  const startIndex = parseInt(query.startIndex, 10);
+  const count = parseInt(query.count, 10);
+  return {
+    startIndex: isNaN(startIndex) || startIndex < 1 ? 1 : startIndex,
+    count: isNaN(count) ? DEFAULT_PAGE_SIZE : Math.min(Math.max(count, 0), MAX_PAGE_SIZE)
+  };
+}
+
+/**
+ * Wraps a page of resources in a ListResponse
+ */
+export function toListResponse(resources: any[], totalResults: number, startIndex: number) {
+  return {
+    schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+    totalResults,
+    startIndex,
+    itemsPerPage: resources.length,
+    Resources: resources
+  };
+}
+
+/**
+ * Body of a SCIM error response
+ */
+export function toErrorResponse(error: ScimError) {
+  return {
+    schemas: [SCIM_SCHEMAS.ERROR],
+    status: String(error.status),
+    ...(error.scimType ? { scimType: error.scimType } : {}),
+    detail: error.message
+  };
+}
+
+/**
+ * Validates a PatchOp request body. Operation names are matched
+ * case-insensitively because some identity providers send "Replace".
+ */
+export function parsePatchOperations(body: any): ScimPatchOperation[] {
+  if (!Array.isArray(body?.schemas) || !body.schemas.includes(SCIM_SCHEMAS.PATCH_OP)) {
+    throw new ScimError(`PATCH requests must use the ${SCIM_SCHEMAS.PATCH_OP} schema`, 400, 'invalidSyntax');
+  }
+  if (!Array.isArray(body.Operations) || body.Operations.length === 0) {
+    throw new ScimError('At least one operation is required', 400, 'invalidSyntax');
+  }
+
+  return body.Operations.map((operation: any) => {
+    const op = String(operation?.op || '').toLowerCase();
+    if (op !== 'add' && op !== 'replace' && op !== 'remove') {
+      throw new ScimError(`Unknown PATCH operation: ${operation?.op}`, 400, 'invalidSyntax');
+    }
+    const path = typeof operation.path === 'string' && operation.path.trim() ? operation.path.trim() : null;
+    if (!path && op === 'remove') {
+      throw new ScimError('Remove operations need a path', 400, 'noTarget');
+    }
+    if (!path && (typeof operation.value !== 'object' || operation.value === null || Array.isArray(operation.value))) {
+      throw new ScimError('Operations without a path need an object value', 400, 'invalidValue');
+    }
+    return { op, path, value: operation.value };
+  });
+}
+
+/**
+ * Extracts the member ID from a path like members[value eq "id"]
+ * @returns The member ID, or null when the path is not a member filter.
+ */
+export function parseMemberPath(path: string): string | null {
+  const match = MEMBER_PATH_PATTERN.exec(path);
+  return match ? unescape(match[1]) : null;
+}
+
+/**
+ * Reads a SCIM boolean; some identity providers send "True" and "False" strings
+ */
+export function parseScimBoolean(value: unknown, attribute: string): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string' && ['true', 'false'].includes(value.toLowerCase())) {
+    return value.toLowerCase() === 'true';
+  }
+  throw new ScimError(`${attribute} must be a boolean`, 400, 'invalidValue');
+}
+
+/**
+ * Undoes the escaping of a quoted filter value
+ */
+function unescape(value: string): string {
+  return value.replace(/\\(.)/g, '$1');
+}
@@ -2,6 +2,8 @@
  * Validation utility functions
  */
 
+import crypto from 'crypto';
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
@@ -113,3 +115,79 @@ export function validateTeamsEvent(event: any): ValidationResult {
   };
 }
 
+// Slack rejects requests older than five minutes to prevent replays
+const SLACK_MAX_AGE_SECONDS = 5 * 60;
+
+/**
+ * Constant-time comparison of two signature strings
+ */
+function signaturesMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Verifies a Slack request signature (X-Slack-Signature / X-Slack-Request-Timestamp)
+ */
+export function verifySlackSignature(
+  rawBody: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  signingSecret: string,
+  now: number = Date.now()
+): ValidationResult {
+  const errors: string[] = [];
+
+  if (!timestamp || !signature) {
+    errors.push('Slack signature headers are required');
+    return { isValid: false, errors };
+  }
+
+  if (Math.abs(now / 1000 - Number(timestamp)) > SLACK_MAX_AGE_SECONDS) {
+    errors.push('Slack request timestamp is too old');
+    return { isValid: false, errors };
+  }
+
+  const expected = 'v0=' + crypto
+    .createHmac('sha256', signingSecret)
+    .update(`v0:${timestamp}:${rawBody}`)
+    .digest('hex');
+  if (!signaturesMatch(expected, signature)) {
+    errors.push('Invalid Slack signature');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Verifies a Teams outgoing webhook signature (Authorization: HMAC <base64>)
+ */
+export function verifyTeamsSignature(
+  rawBody: string,
+  authorization: string | undefined,
+  secret: string
+): ValidationResult {
+  const errors: string[] = [];
+
+  if (!authorization || !authorization.startsWith('HMAC ')) {
+    errors.push('Teams HMAC authorization header is required');
+    return { isValid: false, errors };
+  }
+
+  const expected = crypto
+    .createHmac('sha256', Buffer.from(secret, 'base64'))
+    .update(rawBody)
+    .digest('base64');
+  if (!signaturesMatch(expected, authorization.slice(5))) {
+    errors.push('Invalid Teams signature');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}